@@ -3,9 +3,15 @@ import { debug } from "./debug";
 type EventType =
   | "ready"
   | "check"
+  | "batch-check"
+  | "stale-check"
   | "select-alert"
   | "deselect-alert"
-  | "alerts";
+  | "alerts"
+  | "update-alerts"
+  | "show-alerts"
+  | "filter-alerts"
+  | "export-results";
 
 // Generic event handler type for type-safe event handling
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,31 @@
+import { App, SuggestModal } from "obsidian";
+import { EXPORT_FORMATS, ExportFormatInfo } from "./vale/exportResults";
+
+// ExportFormatModal asks which format to export check results to.
+export class ExportFormatModal extends SuggestModal<ExportFormatInfo> {
+  private onChoose: (format: ExportFormatInfo) => void;
+
+  constructor(app: App, onChoose: (format: ExportFormatInfo) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Export results as…");
+  }
+
+  getSuggestions(query: string): ExportFormatInfo[] {
+    const lowerQuery = query.toLowerCase();
+    return EXPORT_FORMATS.filter(
+      ({ name, extension }) =>
+        name.toLowerCase().includes(lowerQuery) ||
+        extension.includes(lowerQuery),
+    );
+  }
+
+  renderSuggestion(format: ExportFormatInfo, el: HTMLElement): void {
+    el.createDiv({ text: format.name });
+    el.createEl("small", { text: `.${format.extension}` });
+  }
+
+  onChooseSuggestion(format: ExportFormatInfo): void {
+    this.onChoose(format);
+  }
+}
@@ -0,0 +1,31 @@
+import { App, SuggestModal } from "obsidian";
+import { QuickFix } from "./editor/quickFix";
+
+// QuickFixModal asks which of Vale's suggestions replaces an alert's text,
+// such as the spellings of a misspelled word.
+export class QuickFixModal extends SuggestModal<QuickFix> {
+  private fixes: QuickFix[];
+  private onChoose: (fix: QuickFix) => void;
+
+  constructor(app: App, fixes: QuickFix[], onChoose: (fix: QuickFix) => void) {
+    super(app);
+    this.fixes = fixes;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Replace with…");
+  }
+
+  getSuggestions(query: string): QuickFix[] {
+    const lowerQuery = query.toLowerCase();
+    return this.fixes.filter(({ replacement }) =>
+      replacement.toLowerCase().includes(lowerQuery),
+    );
+  }
+
+  renderSuggestion(fix: QuickFix, el: HTMLElement): void {
+    el.createDiv({ text: fix.replacement || fix.title });
+  }
+
+  onChooseSuggestion(fix: QuickFix): void {
+    this.onChoose(fix);
+  }
+}
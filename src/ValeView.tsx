@@ -2,13 +2,20 @@ import { ItemView, MarkdownView, WorkspaceLeaf } from "obsidian";
 import { EditorView } from "@codemirror/view";
 import * as React from "react";
 import { createRoot, Root } from "react-dom/client";
+import { AlertActions } from "./components/Alert";
 import { ValeApp } from "./components/ValeApp";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { ErrorFallback } from "./components/ErrorFallback";
 import { AppContext } from "./context/AppContext";
 import { timed } from "./debug";
 import { EventBus } from "./EventBus";
-import { ValeAlert, ValeSettings } from "./types";
+import {
+  BatchCheckInput,
+  BatchFileResult,
+  ValeAlert,
+  ValeSettings,
+} from "./types";
+import { ValeDismissals } from "./vale/ValeDismissals";
 import { ValeRunner } from "./vale/ValeRunner";
 
 /**
@@ -25,30 +32,46 @@ export const VIEW_TYPE_VALE = "vale";
 export class ValeView extends ItemView {
   private settings: ValeSettings;
   private runner: ValeRunner;
+  private dismissals: ValeDismissals;
   private eventBus: EventBus;
   private root: Root | null = null;
 
   private ready = false;
   private unregisterReady: (() => void) | null = null;
   private targetView: MarkdownView | null = null;
+  private pendingBatch: BatchCheckInput | null = null;
 
   private onAlertClick: (alert: ValeAlert) => void;
+  private alertActions: AlertActions;
   private onCheckStart: (editorView: EditorView | null) => void;
+  private onBatchAlertClick: (
+    result: BatchFileResult,
+    alert: ValeAlert,
+  ) => void;
+  private onExport: (batch?: BatchFileResult[]) => void;
 
   constructor(
     leaf: WorkspaceLeaf,
     settings: ValeSettings,
     runner: ValeRunner,
+    dismissals: ValeDismissals,
     eventBus: EventBus,
     onAlertClick: (alert: ValeAlert) => void,
     onCheckStart: (editorView: EditorView | null) => void,
+    onBatchAlertClick: (result: BatchFileResult, alert: ValeAlert) => void,
+    alertActions: AlertActions,
+    onExport: (batch?: BatchFileResult[]) => void,
   ) {
     super(leaf);
     this.settings = settings;
     this.runner = runner;
+    this.dismissals = dismissals;
     this.eventBus = eventBus;
     this.onAlertClick = onAlertClick;
     this.onCheckStart = onCheckStart;
+    this.onBatchAlertClick = onBatchAlertClick;
+    this.alertActions = alertActions;
+    this.onExport = onExport;
   }
 
   getViewType(): string {
@@ -71,7 +94,11 @@ export class ValeView extends ItemView {
     // Perform a check as soon as the view is ready.
     this.unregisterReady = this.eventBus.on("ready", () => {
       this.ready = true;
-      this.runValeCheck();
+      if (this.pendingBatch) {
+        this.runBatchCheck(this.pendingBatch);
+      } else {
+        this.runValeCheck();
+      }
     });
 
     return timed("ValeResultsView.onOpen()", async () => {
@@ -87,8 +114,12 @@ export class ValeView extends ItemView {
               <div className="obsidian-vale">
                 <ValeApp
                   runner={this.runner}
+                  dismissals={this.dismissals}
                   eventBus={this.eventBus}
                   onAlertClick={this.onAlertClick}
+                  alertActions={this.alertActions}
+                  onBatchAlertClick={this.onBatchAlertClick}
+                  onExport={this.onExport}
                 />
               </div>
             </AppContext.Provider>
@@ -131,10 +162,27 @@ export class ValeView extends ItemView {
       const editorView = (view.editor as EditorWithCM)?.cm ?? null;
       this.onCheckStart(editorView);
 
+      const file = view.file;
+      const text = view.editor.getValue();
+
       this.eventBus.dispatch("check", {
-        text: view.editor.getValue(),
-        format: "." + view.file.extension,
+        text,
+        format: "." + file.extension,
+        path: file.path,
+        isCurrent: () => view.file === file && view.editor.getValue() === text,
       });
     }
   }
+
+  // runBatchCheck checks several notes and shows the results grouped by note.
+  // If the view isn't ready yet, the batch runs as soon as it is.
+  runBatchCheck(input: BatchCheckInput): void {
+    if (!this.ready) {
+      this.pendingBatch = input;
+      return;
+    }
+
+    this.pendingBatch = null;
+    this.eventBus.dispatch("batch-check", input);
+  }
 }
@@ -1,34 +1,161 @@
+import { Menu } from "obsidian";
 import * as React from "react";
+import { getQuickFixes, QuickFix } from "../editor/quickFix";
 import { ValeAlert } from "../types";
+import { isSpellingAlert } from "../utils/alerts";
 import { Icon } from "./Icon";
 
+// AlertActions are the actions offered on an alert card. Each one is only
+// offered if its handler is given.
+export interface AlertActions {
+  onFix?: (alert: ValeAlert, fix: QuickFix) => void;
+  onAddToVocabulary?: (alert: ValeAlert) => void;
+  onIgnoreHere?: (alert: ValeAlert) => void;
+  onIgnoreInNote?: (alert: ValeAlert) => void;
+  onDismiss?: (alert: ValeAlert) => void;
+  onRestore?: (alert: ValeAlert) => void;
+}
+
 interface Props {
   alert: ValeAlert;
   onClick: (alert: ValeAlert) => void;
+  actions?: AlertActions;
   highlight: boolean;
+  // Dismissed alerts can only be restored.
+  dismissed?: boolean;
+  // Whether the card scrolls into view when it's highlighted.
+  scrollOnHighlight?: boolean;
+  // The active card is the one reached with Tab in the list of alerts.
+  active?: boolean;
+  onFocus?: () => void;
+  // Id of the header of the group the card is listed under, if any.
+  groupHeaderId?: string;
 }
 
 export const Alert = ({
   alert,
   onClick,
+  actions = {},
   highlight,
+  dismissed = false,
+  scrollOnHighlight = true,
+  active = false,
+  onFocus,
+  groupHeaderId,
 }: Props): React.ReactElement => {
   const ref = React.useRef<HTMLDivElement | null>(null);
+  const { onFix, onAddToVocabulary, onIgnoreHere, onIgnoreInNote } = dismissed
+    ? {}
+    : actions;
+  const onDismiss = dismissed ? undefined : actions.onDismiss;
+  const onRestore = dismissed ? actions.onRestore : undefined;
+  const fixes = React.useMemo(
+    () => (onFix ? getQuickFixes(alert) : []),
+    [alert, onFix],
+  );
+  const canAddToVocabulary = !!onAddToVocabulary && isSpellingAlert(alert);
+  const hasMenu = !!(onIgnoreHere || onIgnoreInNote || onDismiss || onRestore);
+
+  const buildMenu = () => {
+    const menu = new Menu();
+    if (onDismiss) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Dismiss")
+          .setIcon("x")
+          .onClick(() => onDismiss(alert)),
+      );
+    }
+    if (onRestore) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Restore")
+          .setIcon("undo-2")
+          .onClick(() => onRestore(alert)),
+      );
+    }
+    if (onIgnoreHere) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Ignore here")
+          .setIcon("eye-off")
+          .onClick(() => onIgnoreHere(alert)),
+      );
+    }
+    if (onIgnoreInNote) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Ignore in this note")
+          .setIcon("file-x")
+          .onClick(() => onIgnoreInNote(alert)),
+      );
+    }
+    return menu;
+  };
+
+  const showMenu = (e: React.MouseEvent) => {
+    // Don't also select the alert.
+    e.stopPropagation();
+    buildMenu().showAtMouseEvent(e.nativeEvent);
+  };
 
-  if (ref.current && highlight) {
-    ref.current.scrollIntoView({ behavior: "smooth", block: "center" });
-  }
+  // The card is an option of a listbox, which can't hold buttons, so its
+  // actions are only clickable. From the keyboard, Enter selects the alert,
+  // 1-9 apply a fix, Delete dismisses or restores the alert and the context
+  // menu key opens the menu.
+  const numbered: Array<() => void> = [
+    ...fixes.map((fix) => () => onFix?.(alert, fix)),
+    ...(canAddToVocabulary ? [() => onAddToVocabulary?.(alert)] : []),
+  ].slice(0, 9);
+  const onRemove = onDismiss ?? onRestore;
+  const shortcuts = [
+    "Enter",
+    ...numbered.map((_, i) => String(i + 1)),
+    ...(onRemove ? ["Delete"] : []),
+    ...(hasMenu ? ["Shift+F10"] : []),
+  ].join(" ");
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const number = Number(e.key);
+    if (e.key === "Enter" || e.key === " ") {
+      onClick(alert);
+    } else if (number >= 1 && number <= numbered.length) {
+      numbered[number - 1]();
+    } else if ((e.key === "Delete" || e.key === "Backspace") && onRemove) {
+      onRemove(alert);
+    } else if (
+      (e.key === "ContextMenu" || (e.key === "F10" && e.shiftKey)) &&
+      hasMenu
+    ) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      buildMenu().showAtPosition({ x: rect.left, y: rect.bottom });
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  React.useEffect(() => {
+    if (highlight && scrollOnHighlight) {
+      ref.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [highlight, scrollOnHighlight]);
 
   return (
     <div
       ref={ref}
-      className={`alert${highlight ? " alert--highlighted" : ""}`}
-      onClick={(e) => {
-        // Ignore click when clicking the alert link.
-        if (e.currentTarget.nodeName === "DIV") {
-          onClick(alert);
-        }
-      }}
+      role="option"
+      aria-selected={highlight}
+      aria-keyshortcuts={shortcuts}
+      aria-describedby={groupHeaderId}
+      tabIndex={active ? 0 : -1}
+      className={`alert${highlight ? " alert--highlighted" : ""}${
+        dismissed ? " alert--dismissed" : ""
+      }`}
+      onFocus={onFocus}
+      onKeyDown={onKeyDown}
+      onClick={() => onClick(alert)}
     >
       <div className="alert__header">
         <div
@@ -37,17 +164,59 @@ export const Alert = ({
           {alert.Severity}
         </div>
         <div className={`alert__check`}>{alert.Check}</div>
+        {(alert.Link || hasMenu) && <div style={{ flexGrow: 1 }} />}
         {alert.Link && (
-          <>
-            <div style={{ flexGrow: 1 }} />
-            <a href={alert.Link} className="alert__link">
-              <Icon name="info" />
-            </a>
-          </>
+          <span
+            className="alert__link"
+            title={alert.Link}
+            onClick={(e) => {
+              e.stopPropagation();
+              window.open(alert.Link);
+            }}
+          >
+            <Icon name="info" />
+          </span>
+        )}
+        {hasMenu && (
+          <span
+            className="alert__more clickable-icon"
+            title="More actions"
+            onClick={showMenu}
+          >
+            <Icon name="more-horizontal" />
+          </span>
         )}
       </div>
       <div className="alert__message">{alert.Message}</div>
       <div className="alert__match">{alert.Match}</div>
+      {(fixes.length > 0 || canAddToVocabulary) && (
+        <div className="alert__fixes">
+          {fixes.map((fix) => (
+            <span
+              key={fix.title}
+              className="alert__fix"
+              onClick={(e) => {
+                // Don't also select the alert.
+                e.stopPropagation();
+                onFix?.(alert, fix);
+              }}
+            >
+              {fix.title}
+            </span>
+          ))}
+          {canAddToVocabulary && (
+            <span
+              className="alert__fix"
+              onClick={(e) => {
+                e.stopPropagation();
+                onAddToVocabulary?.(alert);
+              }}
+            >
+              Add to vocabulary
+            </span>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,31 +1,213 @@
 import * as React from "react";
 import { ValeAlert } from "../types";
-import { Alert } from "./Alert";
+import { AlertGrouping, groupAlerts } from "../utils/alertFilters";
+import { Alert, AlertActions } from "./Alert";
+import { VirtualList } from "./VirtualList";
 
 interface Props {
   alerts: ValeAlert[];
+  // Dismissed alerts are listed after the others.
+  dismissed?: ValeAlert[];
   highlight?: ValeAlert;
   onClick: (alert: ValeAlert) => void;
+  actions?: AlertActions;
+  // Alerts are listed under a header per group, in the order they're given.
+  groupBy?: AlertGrouping;
 }
 
+// Lists with more rows than this only mount the cards in view.
+export const VIRTUALIZE_THRESHOLD = 200;
+
+// A row of the list is a group header or an alert card.
+type Row =
+  | { key: string; groupKey: string; header: string; count: number }
+  | { key: string; alert: ValeAlert; dismissed: boolean; groupKey?: string };
+
+const alertKey = (alert: ValeAlert, dismissed = false) =>
+  `${dismissed ? "dismissed-" : ""}${alert.Check}-${alert.Line}-${alert.Span[0]}-${alert.Span[1]}`;
+
+// The number of cards PageDown and PageUp move by.
+const PAGE_SIZE = 10;
+
+/**
+ * AlertList - Listbox of alert cards
+ *
+ * Arrow keys, Home, End, PageDown and PageUp move between the cards; only the
+ * active card is in the tab order. The cards handle their own shortcuts,
+ * such as Enter to select an alert.
+ *
+ * A listbox can only contain options, so group headers are hidden from
+ * assistive technology, in both the plain and the virtualized list. Each card
+ * is described by the header of its group instead.
+ */
 export const AlertList = ({
   alerts,
+  dismissed = [],
   highlight,
   onClick,
+  actions,
+  groupBy = "none",
 }: Props): React.ReactElement => {
+  const listRef = React.useRef<HTMLDivElement | null>(null);
+  const focusPendingRef = React.useRef(false);
+  const [activeKey, setActiveKey] = React.useState<string>();
+  const idPrefix = React.useId();
+
+  const groups = groupAlerts(alerts, groupBy);
+  const rowCount =
+    alerts.length + dismissed.length + (groupBy === "none" ? 0 : groups.length);
+  const virtualize = rowCount > VIRTUALIZE_THRESHOLD;
+
+  // The cards in the order they're listed, which is the order of the groups.
+  const options = [
+    ...groups.flatMap((group) =>
+      group.alerts.map((alert) => ({ key: alertKey(alert), alert })),
+    ),
+    ...dismissed.map((alert) => ({ key: alertKey(alert, true), alert })),
+  ];
+  const active =
+    options.find((option) => option.key === activeKey)?.key ??
+    options.find((option) => option.alert === highlight)?.key ??
+    options[0]?.key;
+
+  // Move the focus to the card that became active from the keyboard.
+  React.useLayoutEffect(() => {
+    if (focusPendingRef.current) {
+      focusPendingRef.current = false;
+      listRef.current
+        ?.querySelector<HTMLElement>('[role="option"][tabindex="0"]')
+        ?.focus();
+    }
+  });
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const index = options.findIndex((option) => option.key === active);
+    const last = options.length - 1;
+    const targets: Record<string, number> = {
+      ArrowDown: Math.min(index + 1, last),
+      ArrowUp: Math.max(index - 1, 0),
+      Home: 0,
+      End: last,
+      PageDown: Math.min(index + PAGE_SIZE, last),
+      PageUp: Math.max(index - PAGE_SIZE, 0),
+    };
+    if (!(e.key in targets) || options.length === 0) {
+      return;
+    }
+
+    e.preventDefault();
+    focusPendingRef.current = true;
+    setActiveKey(options[targets[e.key]].key);
+  };
+
+  const headerId = (groupKey: string) => `${idPrefix}-group-${groupKey}`;
+
+  const renderAlert = (
+    alert: ValeAlert,
+    isDismissed = false,
+    groupKey?: string,
+  ) => {
+    const key = alertKey(alert, isDismissed);
+    return (
+      <Alert
+        key={key}
+        alert={alert}
+        onClick={onClick}
+        actions={actions}
+        highlight={highlight === alert}
+        dismissed={isDismissed}
+        // The virtual list scrolls to the card, which may not be mounted.
+        scrollOnHighlight={!virtualize}
+        active={key === active}
+        onFocus={() => setActiveKey(key)}
+        groupHeaderId={groupKey === undefined ? undefined : headerId(groupKey)}
+      />
+    );
+  };
+
+  const renderHeader = (groupKey: string, label: string, count: number) => (
+    <div
+      id={headerId(groupKey)}
+      className="alert-group__header"
+      role="presentation"
+      aria-hidden="true"
+    >
+      <span className="alert-group__label">{label}</span>
+      <span className="alert-group__count">{count}</span>
+    </div>
+  );
+
+  let content: React.ReactNode;
+  if (virtualize) {
+    const rows: Row[] = [
+      ...groups.flatMap((group): Row[] => [
+        ...(groupBy === "none"
+          ? []
+          : [
+              {
+                key: `group-${group.key}`,
+                groupKey: group.key,
+                header: group.label,
+                count: group.alerts.length,
+              },
+            ]),
+        ...group.alerts.map((alert) => ({
+          key: alertKey(alert),
+          alert,
+          dismissed: false,
+          groupKey: groupBy === "none" ? undefined : group.key,
+        })),
+      ]),
+      ...dismissed.map((alert) => ({
+        key: alertKey(alert, true),
+        alert,
+        dismissed: true,
+      })),
+    ];
+    const highlighted = rows.find(
+      (row) => "alert" in row && row.alert === highlight,
+    );
+
+    content = (
+      <VirtualList
+        items={rows}
+        getKey={(row) => row.key}
+        renderItem={(row) =>
+          "alert" in row
+            ? renderAlert(row.alert, row.dismissed, row.groupKey)
+            : renderHeader(row.groupKey, row.header, row.count)
+        }
+        scrollToKey={highlighted?.key}
+        keepMountedKey={active}
+      />
+    );
+  } else {
+    content = (
+      <>
+        {groupBy === "none"
+          ? alerts.map((alert) => renderAlert(alert))
+          : groups.map((group) => (
+              <div key={group.key} className="alert-group" role="presentation">
+                {renderHeader(group.key, group.label, group.alerts.length)}
+                {group.alerts.map((alert) =>
+                  renderAlert(alert, false, group.key),
+                )}
+              </div>
+            ))}
+        {dismissed.map((alert) => renderAlert(alert, true))}
+      </>
+    );
+  }
+
   return (
-    <>
-      {alerts?.map((alert) => {
-        const alertKey = `${alert.Check}-${alert.Line}-${alert.Span[0]}-${alert.Span[1]}`;
-        return (
-          <Alert
-            key={alertKey}
-            alert={alert}
-            onClick={onClick}
-            highlight={highlight === alert}
-          />
-        );
-      })}
-    </>
+    <div
+      ref={listRef}
+      className="vale-alert-list"
+      role="listbox"
+      aria-label="Alerts"
+      onKeyDown={onKeyDown}
+    >
+      {content}
+    </div>
   );
 };
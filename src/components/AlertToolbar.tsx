@@ -0,0 +1,110 @@
+import * as React from "react";
+import { SeverityCounts } from "../utils/alerts";
+import {
+  AlertGrouping,
+  AlertListOptions,
+  AlertSorting,
+} from "../utils/alertFilters";
+import { SeverityLevel } from "./icons/severityGlyphs";
+
+interface Props {
+  options: AlertListOptions;
+  // Counts of all alerts, before filtering, shown on the severity toggles.
+  counts: SeverityCounts;
+  onChange: (options: AlertListOptions) => void;
+}
+
+const SEVERITIES: Array<{ severity: SeverityLevel; label: string }> = [
+  { severity: "error", label: "Errors" },
+  { severity: "warning", label: "Warnings" },
+  { severity: "suggestion", label: "Suggestions" },
+];
+
+/**
+ * AlertToolbar - Filters, grouping and sorting for the results panel
+ *
+ * Severity toggles show how many alerts each severity has. The search matches
+ * the message, matched text and check of each alert. Alerts that are filtered
+ * out are dimmed or hidden in the editor too.
+ */
+export const AlertToolbar = ({
+  options,
+  counts,
+  onChange,
+}: Props): React.ReactElement => {
+  const update = (changes: Partial<AlertListOptions>) =>
+    onChange({ ...options, ...changes });
+
+  const toggleSeverity = (severity: SeverityLevel) =>
+    update({
+      severities: options.severities.includes(severity)
+        ? options.severities.filter((s) => s !== severity)
+        : [...options.severities, severity],
+    });
+
+  return (
+    <div className="vale-alert-toolbar">
+      <div
+        className="vale-alert-toolbar__severities"
+        role="group"
+        aria-label="Severities"
+      >
+        {SEVERITIES.map(({ severity, label }) => (
+          <button
+            key={severity}
+            className={`vale-alert-toolbar__severity vale-alert-toolbar__severity--${severity}`}
+            aria-pressed={options.severities.includes(severity)}
+            aria-label={`${label} (${counts[severity]})`}
+            onClick={() => toggleSeverity(severity)}
+          >
+            {label} {counts[severity]}
+          </button>
+        ))}
+      </div>
+      <input
+        type="search"
+        className="vale-alert-toolbar__search"
+        placeholder="Search alerts"
+        aria-label="Search alerts"
+        value={options.query}
+        onChange={(e) => update({ query: e.target.value })}
+      />
+      <div className="vale-alert-toolbar__options">
+        <select
+          className="dropdown"
+          aria-label="Group by"
+          value={options.groupBy}
+          onChange={(e) => update({ groupBy: e.target.value as AlertGrouping })}
+        >
+          <option value="none">No grouping</option>
+          <option value="severity">Group by severity</option>
+          <option value="style">Group by style</option>
+          <option value="rule">Group by rule</option>
+        </select>
+        <select
+          className="dropdown"
+          aria-label="Sort by"
+          value={options.sortBy}
+          onChange={(e) => update({ sortBy: e.target.value as AlertSorting })}
+        >
+          <option value="position">Sort by position</option>
+          <option value="severity">Sort by severity</option>
+        </select>
+        <select
+          className="dropdown"
+          aria-label="Filtered alerts in the editor"
+          value={options.filteredInEditor}
+          onChange={(e) =>
+            update({
+              filteredInEditor: e.target
+                .value as AlertListOptions["filteredInEditor"],
+            })
+          }
+        >
+          <option value="dim">Dim filtered in editor</option>
+          <option value="hide">Hide filtered in editor</option>
+        </select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import * as React from "react";
+import { BatchFileResult, ValeAlert } from "../types";
+import { countBySeverity, pluralize } from "../utils/alerts";
+import { AlertList } from "./AlertList";
+
+interface Props {
+  scope: string;
+  results: BatchFileResult[];
+  highlight?: ValeAlert;
+  onAlertClick: (result: BatchFileResult, alert: ValeAlert) => void;
+  onClose: () => void;
+  // Exports the results of all notes, if given.
+  onExport?: () => void;
+}
+
+/**
+ * BatchResults - Results tree for a folder or vault check
+ *
+ * Groups alerts by note. Each note is a collapsible group whose header shows
+ * the note name and how many errors, warnings and suggestions it has. Notes
+ * without alerts are left out of the tree but included in the totals.
+ */
+export const BatchResults = ({
+  scope,
+  results,
+  highlight,
+  onAlertClick,
+  onClose,
+  onExport,
+}: Props): React.ReactElement => {
+  const withIssues = results.filter(
+    (result) => result.alerts.length > 0 || result.error,
+  );
+  const totalAlerts = results.reduce(
+    (sum, result) => sum + result.alerts.length,
+    0,
+  );
+
+  return (
+    <div className="vale-batch">
+      <div className="vale-batch__header">
+        <div className="vale-batch__summary">
+          <div className="vale-batch__scope">{scope}</div>
+          <div className="vale-batch__totals">
+            {`${pluralize(results.length, "note")} checked, ${pluralize(
+              totalAlerts,
+              "issue",
+            )} in ${pluralize(withIssues.length, "note")}`}
+          </div>
+        </div>
+        {onExport && (
+          <button
+            className="vale-batch__export"
+            onClick={onExport}
+            aria-label="Export batch results"
+          >
+            Export
+          </button>
+        )}
+        <button
+          className="vale-batch__close"
+          onClick={onClose}
+          aria-label="Close batch results"
+        >
+          Close
+        </button>
+      </div>
+      {withIssues.map((result) => (
+        <BatchFileGroup
+          key={result.path}
+          result={result}
+          highlight={highlight}
+          onAlertClick={onAlertClick}
+        />
+      ))}
+    </div>
+  );
+};
+
+interface BatchFileGroupProps {
+  result: BatchFileResult;
+  highlight?: ValeAlert;
+  onAlertClick: (result: BatchFileResult, alert: ValeAlert) => void;
+}
+
+const BatchFileGroup = ({
+  result,
+  highlight,
+  onAlertClick,
+}: BatchFileGroupProps): React.ReactElement => {
+  const counts = countBySeverity(result.alerts);
+  const name = result.path.split("/").pop() ?? result.path;
+
+  return (
+    <details className="vale-batch__file" open>
+      <summary className="vale-batch__file-header" title={result.path}>
+        <span className="vale-batch__file-name">{name}</span>
+        <span className="vale-batch__counts">
+          {(["error", "warning", "suggestion"] as const).map(
+            (severity) =>
+              counts[severity] > 0 && (
+                <span
+                  key={severity}
+                  className={`vale-batch__count vale-batch__count--${severity}`}
+                  aria-label={pluralize(counts[severity], severity)}
+                >
+                  {counts[severity]}
+                </span>
+              ),
+          )}
+        </span>
+      </summary>
+      {result.error ? (
+        <div className="vale-batch__file-error">{result.error}</div>
+      ) : (
+        <AlertList
+          alerts={result.alerts}
+          highlight={highlight}
+          onClick={(alert) => onAlertClick(result, alert)}
+        />
+      )}
+    </details>
+  );
+};
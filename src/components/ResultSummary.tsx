@@ -0,0 +1,119 @@
+import * as React from "react";
+import { ValeAlert } from "../types";
+import { countByCheck, countBySeverity, pluralize } from "../utils/alerts";
+import {
+  AlertListOptions,
+  DEFAULT_ALERT_LIST_OPTIONS,
+} from "../utils/alertFilters";
+
+interface Props {
+  // All alerts of the check, before filtering.
+  alerts: ValeAlert[];
+  // How long the check took, in milliseconds.
+  duration?: number;
+  // The styles the check was based on, if known.
+  styles?: string[];
+  options: AlertListOptions;
+  onChange: (options: AlertListOptions) => void;
+  // Exports the results of the check, if given.
+  onExport?: () => void;
+}
+
+// The number of rules listed as the top offenders.
+const TOP_RULES = 3;
+
+/**
+ * Formats a duration in milliseconds, e.g. "320 ms" or "1.2 s".
+ */
+export const formatDuration = (duration: number): string =>
+  duration < 1000
+    ? `${Math.round(duration)} ms`
+    : `${(duration / 1000).toFixed(1)} s`;
+
+/**
+ * ResultSummary - Summary of a check at the top of the results panel
+ *
+ * Shows the counts per severity, the rules with the most alerts, how long the
+ * check took and which styles were active. Clicking a count filters the list
+ * to that severity or rule; clicking it again shows all alerts. The results
+ * can be exported from here too.
+ */
+export const ResultSummary = ({
+  alerts,
+  duration,
+  styles = [],
+  options,
+  onChange,
+  onExport,
+}: Props): React.ReactElement => {
+  const counts = countBySeverity(alerts);
+  const topRules = countByCheck(alerts).slice(0, TOP_RULES);
+
+  const onlySeverity = (severity: keyof typeof counts) =>
+    options.severities.length === 1 && options.severities[0] === severity;
+
+  return (
+    <div className="vale-summary">
+      <div className="vale-summary__total">
+        {pluralize(alerts.length, "alert")}
+        {onExport && (
+          <button className="vale-summary__export" onClick={onExport}>
+            Export
+          </button>
+        )}
+      </div>
+      <div className="vale-summary__severities">
+        {(["error", "warning", "suggestion"] as const).map(
+          (severity) =>
+            counts[severity] > 0 && (
+              <button
+                key={severity}
+                className={`vale-summary__count vale-summary__count--${severity}`}
+                aria-pressed={onlySeverity(severity)}
+                onClick={() =>
+                  onChange({
+                    ...options,
+                    severities: onlySeverity(severity)
+                      ? DEFAULT_ALERT_LIST_OPTIONS.severities
+                      : [severity],
+                  })
+                }
+              >
+                {pluralize(counts[severity], severity)}
+              </button>
+            ),
+        )}
+      </div>
+      {topRules.length > 0 && (
+        <div className="vale-summary__rules">
+          <span className="vale-summary__label">Top rules</span>
+          {topRules.map(({ check, count }) => (
+            <button
+              key={check}
+              className="vale-summary__rule"
+              aria-pressed={options.query === check}
+              aria-label={`${check}: ${pluralize(count, "alert")}`}
+              onClick={() =>
+                onChange({
+                  ...options,
+                  query: options.query === check ? "" : check,
+                })
+              }
+            >
+              <span className="vale-summary__rule-name">{check}</span>
+              <span className="vale-summary__rule-count">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {(duration !== undefined || styles.length > 0) && (
+        <div className="vale-summary__details">
+          {duration !== undefined && (
+            <span>Checked in {formatDuration(duration)}</span>
+          )}
+          {styles.length > 0 && <span>Styles: {styles.join(", ")}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,21 +1,64 @@
 import * as React from "react";
+import { timed } from "../debug";
 import { EventBus } from "../EventBus";
-import { CheckInput, ValeAlert } from "../types";
+import { useLocalStorage } from "../hooks/useLocalStorage";
+import {
+  BatchCheckInput,
+  BatchFileResult,
+  BatchProgress,
+  CheckInput,
+  ValeAlert,
+} from "../types";
+import {
+  countBySeverity,
+  describeSeverityCounts,
+  pluralize,
+} from "../utils/alerts";
+import {
+  AlertListOptions,
+  DEFAULT_ALERT_LIST_OPTIONS,
+  matchesAlertFilter,
+  sortAlerts,
+} from "../utils/alertFilters";
+import { isCheckCancelled } from "../vale/CheckCancelledError";
+import { filterIgnoredAlerts, getIgnoredChecks } from "../vale/ignoredChecks";
+import { ValeBatchRunner } from "../vale/ValeBatchRunner";
+import { ValeDismissals } from "../vale/ValeDismissals";
 import { ValeRunner } from "../vale/ValeRunner";
+import { AlertActions } from "./Alert";
 import { AlertList } from "./AlertList";
+import { AlertToolbar } from "./AlertToolbar";
+import { BatchResults } from "./BatchResults";
 import { ErrorMessage } from "./ErrorMessage";
+import { ProgressBar } from "./feedback/ProgressBar";
 import { Icon } from "./Icon";
 import { LoaderCube } from "./LoaderCube";
+import { ResultSummary } from "./ResultSummary";
 
 interface Props {
   runner: ValeRunner;
+  dismissals: ValeDismissals;
   eventBus: EventBus;
   onAlertClick: (alert: ValeAlert) => void;
+  alertActions: AlertActions;
+  onBatchAlertClick: (result: BatchFileResult, alert: ValeAlert) => void;
+  // Exports the batch results if given, or else the results of the note.
+  onExport: (batch?: BatchFileResult[]) => void;
 }
 
 interface CheckReport {
   results: ValeAlert[];
+  dismissed?: ValeAlert[];
   errors?: React.ReactNode;
+  // How long the check took, in milliseconds.
+  duration?: number;
+  // The styles the check was based on, if known.
+  styles?: string[];
+}
+
+interface BatchReport {
+  scope: string;
+  results: BatchFileResult[];
 }
 
 interface ErrorInfo {
@@ -186,73 +229,219 @@ const categorizeError = (err: Error): ErrorInfo => {
 
 export const ValeApp = ({
   runner,
+  dismissals,
   eventBus,
   onAlertClick,
+  alertActions,
+  onBatchAlertClick,
+  onExport,
 }: Props): React.ReactElement => {
   const [loading, setLoading] = React.useState(false);
+  const [showDismissed, setShowDismissed] = React.useState(false);
   const [highlightAlert, setHighlightAlert] = React.useState<ValeAlert>();
   const [showOnboarding, setShowOnboarding] = React.useState(false);
+  // Read out by screen readers when a check finishes.
+  const [announcement, setAnnouncement] = React.useState("");
+
+  // Options stored by older versions may lack newer fields.
+  const [storedListOptions, setListOptions] = useLocalStorage<AlertListOptions>(
+    "alert-list-options",
+    DEFAULT_ALERT_LIST_OPTIONS,
+  );
+  const listOptions = React.useMemo(
+    () => ({ ...DEFAULT_ALERT_LIST_OPTIONS, ...storedListOptions }),
+    [storedListOptions],
+  );
 
   const [report, setReport] = React.useState<CheckReport>();
 
+  const [batch, setBatch] = React.useState<BatchReport>();
+  const [batchProgress, setBatchProgress] = React.useState<BatchProgress>();
+
+  // Only the latest check may update the panel. Starting a new check aborts
+  // the previous one, which also stops its vale process.
+  const checkControllerRef = React.useRef<AbortController | null>(null);
+  const batchControllerRef = React.useRef<AbortController | null>(null);
+
+  // showCheckError shows why a check failed in place of its results.
+  const showCheckError = (err: unknown, checked: (cb: () => void) => void) => {
+    if (err instanceof Error) {
+      const errorInfo = categorizeError(err);
+
+      if (errorInfo.showOnboarding) {
+        setShowOnboarding(true);
+      } else {
+        checked(() => setAnnouncement(`Check failed: ${errorInfo.message}`));
+        checked(() =>
+          setReport({
+            results: [],
+            errors: (
+              <ErrorMessage
+                message={errorInfo.message}
+                details={errorInfo.details}
+              />
+            ),
+          }),
+        );
+      }
+    } else {
+      // Handle non-Error objects by safely converting to string
+      const errorMessage = typeof err === "string" ? err : String(err);
+      checked(() => setAnnouncement(`Check failed: ${errorMessage}`));
+      checked(() =>
+        setReport({
+          results: [],
+          errors: <ErrorMessage message={errorMessage} />,
+        }),
+      );
+    }
+  };
+
   const check = async (
     input: CheckInput,
     checked: (cb: () => void) => void,
   ) => {
-    const { text, format } = input;
+    const { text, format, path, isCurrent } = input;
+
+    checkControllerRef.current?.abort();
+    const controller = new AbortController();
+    checkControllerRef.current = controller;
+
+    // Results are dropped if a newer check has started, or if the note has
+    // changed since this one started and the results no longer fit the text.
+    const superseded = () => {
+      if (controller.signal.aborted) {
+        return true;
+      }
+      if (isCurrent && !isCurrent()) {
+        controller.abort();
+        eventBus.dispatch("stale-check", path);
+        return true;
+      }
+      return false;
+    };
 
     checked(() => {
       setShowOnboarding(false);
       setLoading(true);
       setReport(undefined);
+      setAnnouncement("");
     });
 
-    return runner
-      .run(text, format)
-      .then((response) => {
+    let duration: number | undefined;
+    return Promise.all([
+      timed(
+        "ValeApp.check()",
+        () => runner.run(text, format, controller.signal),
+        (ms) => {
+          duration = ms;
+        },
+      ),
+      runner.getActiveStyles().catch((): string[] => []),
+    ])
+      .then(([response, styles]) => {
+        if (superseded()) {
+          return;
+        }
+
         checked(() => {
-          const results = Object.values(response)[0] ?? [];
-          setReport({ ...report, results: results });
+          const { alerts: results, dismissed } = dismissals.partition(
+            path,
+            text,
+            filterIgnoredAlerts(
+              Object.values(response)[0] ?? [],
+              getIgnoredChecks(text),
+            ),
+          );
+          setReport({
+            ...report,
+            results: results,
+            dismissed,
+            duration,
+            styles,
+          });
+          // Keep the batch tree in sync when one of its notes is re-checked.
+          setBatch((prev) =>
+            prev && path
+              ? {
+                  ...prev,
+                  results: prev.results.map((result) =>
+                    result.path === path ? { path, alerts: results } : result,
+                  ),
+                }
+              : prev,
+          );
           eventBus.dispatch("alerts", results);
+          setAnnouncement(
+            `Check finished: ${describeSeverityCounts(countBySeverity(results))}`,
+          );
         });
       })
       .catch((err: unknown) => {
-        if (err instanceof Error) {
-          const errorInfo = categorizeError(err);
-
-          if (errorInfo.showOnboarding) {
-            setShowOnboarding(true);
-          } else {
-            checked(() =>
-              setReport({
-                results: [],
-                errors: (
-                  <ErrorMessage
-                    message={errorInfo.message}
-                    details={errorInfo.details}
-                  />
-                ),
-              }),
-            );
-          }
-        } else {
-          // Handle non-Error objects by safely converting to string
-          const errorMessage = typeof err === "string" ? err : String(err);
-          checked(() =>
-            setReport({
-              results: [],
-              errors: <ErrorMessage message={errorMessage} />,
-            }),
-          );
+        if (isCheckCancelled(err) || superseded()) {
+          return;
         }
+
+        showCheckError(err, checked);
       })
       .finally(() => {
+        // A superseded check leaves the loading state to the newer check.
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        checkControllerRef.current = null;
         checked(() => {
           setLoading(false);
         });
       });
   };
 
+  const checkBatch = async (
+    input: BatchCheckInput,
+    checked: (cb: () => void) => void,
+  ) => {
+    batchControllerRef.current?.abort();
+    const controller = new AbortController();
+    batchControllerRef.current = controller;
+
+    checked(() => {
+      setAnnouncement("");
+      setBatch(undefined);
+      setBatchProgress({ checked: 0, total: input.files.length });
+    });
+
+    try {
+      const results = await new ValeBatchRunner(runner, dismissals).run(
+        input.files,
+        {
+          onProgress: (progress) => checked(() => setBatchProgress(progress)),
+          signal: controller.signal,
+        },
+      );
+      // A batch replaced by a newer one must not overwrite its results.
+      if (batchControllerRef.current === controller) {
+        checked(() => {
+          setBatch({ scope: input.scope, results });
+          setAnnouncement(
+            `Checked ${pluralize(results.length, "note")}: ${describeSeverityCounts(
+              countBySeverity(results.flatMap((result) => result.alerts)),
+            )}`,
+          );
+        });
+      }
+    } catch (err) {
+      if (!isCheckCancelled(err) && batchControllerRef.current === controller) {
+        showCheckError(err, checked);
+      }
+    } finally {
+      if (batchControllerRef.current === controller) {
+        batchControllerRef.current = null;
+        checked(() => setBatchProgress(undefined));
+      }
+    }
+  };
+
   // Highlight the alert whenever the users selects a text marker.
   React.useEffect(() => {
     const unr = eventBus.on("select-alert", (alert: ValeAlert) => {
@@ -269,6 +458,22 @@ export const ValeApp = ({
     };
   }, [report]);
 
+  // The export command exports whichever results the panel shows.
+  React.useEffect(() => {
+    const unr = eventBus.on("export-results", () => {
+      onExport(batch?.results);
+    });
+
+    return () => {
+      unr();
+    };
+  }, [eventBus, batch, onExport]);
+
+  // Dim or hide the underlines of the alerts the toolbar filters out.
+  React.useEffect(() => {
+    eventBus.dispatch("filter-alerts", listOptions);
+  }, [eventBus, listOptions]);
+
   // Run the actual check.
   React.useEffect(() => {
     let cancel = false;
@@ -282,51 +487,184 @@ export const ValeApp = ({
       void check(input, off);
     });
 
+    // Incremental checks are run by the plugin, which sends the merged list.
+    const unregisterUpdate = eventBus.on(
+      "update-alerts",
+      (alerts: ValeAlert[]): void => {
+        off(() =>
+          setReport((prev) => ({
+            results: alerts,
+            dismissed: prev?.dismissed,
+            duration: prev?.duration,
+            styles: prev?.styles,
+          })),
+        );
+      },
+    );
+
+    // The plugin sends the alerts another editor holds when it's focused.
+    const unregisterShow = eventBus.on(
+      "show-alerts",
+      (alerts: ValeAlert[]): void => {
+        off(() => setReport({ results: alerts }));
+      },
+    );
+
+    const unregisterBatch = eventBus.on(
+      "batch-check",
+      (input: BatchCheckInput): void => {
+        void checkBatch(input, off);
+      },
+    );
+
     // Signal that the view is ready to check the document.
     eventBus.dispatch("ready", true);
 
     return () => {
       unregister();
+      unregisterUpdate();
+      unregisterShow();
+      unregisterBatch();
+      checkControllerRef.current?.abort();
+      batchControllerRef.current?.abort();
       cancel = true;
     };
   }, [eventBus]);
 
+  // The live region stays in place while the rest of the panel changes, so
+  // that its updates are announced.
+  const withAnnouncer = (content: React.ReactNode) => (
+    <>
+      <div className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </div>
+      {content}
+    </>
+  );
+
+  if (batchProgress) {
+    const label = batchProgress.currentPath
+      ? `Checking ${batchProgress.checked + 1} of ${batchProgress.total}: ${batchProgress.currentPath}`
+      : `Checking ${batchProgress.total} notes`;
+    return withAnnouncer(
+      <div className="vale-batch-progress">
+        <ProgressBar
+          value={
+            batchProgress.total
+              ? (batchProgress.checked / batchProgress.total) * 100
+              : 0
+          }
+          label={label}
+          showPercentage
+        />
+        <button
+          onClick={() => {
+            batchControllerRef.current?.abort();
+          }}
+        >
+          Cancel
+        </button>
+      </div>,
+    );
+  }
+
+  if (batch) {
+    return withAnnouncer(
+      <BatchResults
+        scope={batch.scope}
+        results={batch.results}
+        highlight={highlightAlert}
+        onAlertClick={onBatchAlertClick}
+        onClose={() => setBatch(undefined)}
+        onExport={() => onExport(batch.results)}
+      />,
+    );
+  }
+
   if (loading) {
-    return <LoaderCube />;
+    return withAnnouncer(<LoaderCube />);
   }
 
   if (!report) {
-    return <div></div>;
+    return withAnnouncer(<div></div>);
   }
 
   if (report.errors) {
-    return (
+    return withAnnouncer(
       <>
         <h4>Something went wrong ...</h4>
         {report.errors}
-      </>
+      </>,
     );
   }
 
   if (showOnboarding) {
-    return <Onboarding />;
+    return withAnnouncer(<Onboarding />);
   }
 
-  if (report.results.length) {
-    return (
-      <AlertList
-        alerts={report.results}
-        highlight={highlightAlert}
-        onClick={onAlertClick}
-      />
+  const dismissed = report.dismissed ?? [];
+  const dismissedToggle = dismissed.length > 0 && (
+    <div className="vale-dismissed-toggle">
+      <button
+        aria-pressed={showDismissed}
+        onClick={() => setShowDismissed(!showDismissed)}
+      >
+        {showDismissed ? "Hide" : "Show"} dismissed ({dismissed.length})
+      </button>
+    </div>
+  );
+
+  if (report.results.length || (showDismissed && dismissed.length)) {
+    const shown = (alerts: ValeAlert[]) =>
+      sortAlerts(
+        alerts.filter((alert) => matchesAlertFilter(alert, listOptions)),
+        listOptions.sortBy,
+      );
+    const alerts = shown(report.results);
+    const shownDismissed = showDismissed ? shown(dismissed) : [];
+
+    return withAnnouncer(
+      <>
+        <ResultSummary
+          alerts={report.results}
+          duration={report.duration}
+          styles={report.styles}
+          options={listOptions}
+          onChange={setListOptions}
+          onExport={() => onExport()}
+        />
+        <AlertToolbar
+          options={listOptions}
+          counts={countBySeverity(report.results)}
+          onChange={setListOptions}
+        />
+        {dismissedToggle}
+        {alerts.length || shownDismissed.length ? (
+          <AlertList
+            alerts={alerts}
+            dismissed={shownDismissed}
+            highlight={highlightAlert}
+            onClick={onAlertClick}
+            actions={alertActions}
+            groupBy={listOptions.groupBy}
+          />
+        ) : (
+          <div className="vale-alert-toolbar__empty">
+            No alerts match the filters.
+          </div>
+        )}
+      </>,
     );
   }
 
-  return (
-    <div className="success">
-      <Icon className="success-icon" name="check-in-circle" size={72} />
-      <div className="success-text">{randomEncouragement()}</div>
-    </div>
+  return withAnnouncer(
+    <>
+      {dismissedToggle}
+      <div className="success">
+        <Icon className="success-icon" name="check-in-circle" size={72} />
+        <div className="success-text">{randomEncouragement()}</div>
+      </div>
+    </>,
   );
 };
 
@@ -0,0 +1,208 @@
+import * as React from "react";
+
+interface Props<T> {
+  items: T[];
+  // Identifies an item across renders, to keep its measured height.
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  // Height of items that haven't been measured yet, in pixels.
+  estimateHeight?: number;
+  // The item scrolled to the middle of the view whenever it changes.
+  scrollToKey?: string;
+  // An item that stays mounted when it's out of view, such as the one
+  // reached with Tab.
+  keepMountedKey?: string;
+}
+
+// How far beyond the visible part of the list items are mounted, in pixels.
+const OVERSCAN = 600;
+
+interface Viewport {
+  start: number;
+  end: number;
+}
+
+// findScrollParent returns the closest ancestor that scrolls, or null if the
+// whole document scrolls.
+const findScrollParent = (el: HTMLElement): HTMLElement | null => {
+  for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+    const { overflowY } = getComputedStyle(parent);
+    if (overflowY === "auto" || overflowY === "scroll") {
+      return parent;
+    }
+  }
+  return null;
+};
+
+// getViewport returns the part of the list that's visible, relative to the
+// top of the list.
+const getViewport = (
+  list: HTMLElement,
+  scroller: HTMLElement | null,
+): Viewport => {
+  const top = scroller ? scroller.getBoundingClientRect().top : 0;
+  const height = scroller ? scroller.clientHeight : window.innerHeight;
+  const start = top - list.getBoundingClientRect().top;
+  return { start, end: start + height };
+};
+
+/**
+ * VirtualList - List that only mounts the items in view
+ *
+ * Items are placed below each other by their measured height, or an estimate
+ * until they've been rendered once. Scrolling mounts the items that come into
+ * view and unmounts the others, except the item holding the keyboard focus,
+ * so that focus isn't lost when it scrolls out of view.
+ */
+export const VirtualList = <T,>({
+  items,
+  getKey,
+  renderItem,
+  estimateHeight = 100,
+  scrollToKey,
+  keepMountedKey,
+}: Props<T>): React.ReactElement => {
+  const listRef = React.useRef<HTMLDivElement | null>(null);
+  const rowsRef = React.useRef(new Map<string, HTMLDivElement>());
+  const heightsRef = React.useRef(new Map<string, number>());
+  const scrollToKeyRef = React.useRef<string>();
+  const pendingScrollRef = React.useRef<string>();
+
+  const [viewport, setViewport] = React.useState<Viewport>({
+    start: 0,
+    end: OVERSCAN,
+  });
+  const [focusedKey, setFocusedKey] = React.useState<string>();
+  const [, remeasured] = React.useReducer((n: number) => n + 1, 0);
+
+  if (scrollToKey !== scrollToKeyRef.current) {
+    scrollToKeyRef.current = scrollToKey;
+    pendingScrollRef.current = scrollToKey;
+  }
+
+  const keys = items.map(getKey);
+  const tops: number[] = [];
+  let totalHeight = 0;
+  for (const key of keys) {
+    tops.push(totalHeight);
+    totalHeight += heightsRef.current.get(key) ?? estimateHeight;
+  }
+
+  // Follow the scroll position of the list.
+  React.useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) {
+      return;
+    }
+    const scroller = findScrollParent(list);
+
+    const update = () => {
+      const next = getViewport(list, scroller);
+      // eslint-disable-next-line @eslint-react/hooks-extra/no-direct-set-state-in-use-effect -- The viewport can only be measured once the list is mounted
+      setViewport((prev) =>
+        prev.start === next.start && prev.end === next.end ? prev : next,
+      );
+    };
+    update();
+
+    const target = scroller ?? window;
+    target.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    return () => {
+      target.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, []);
+
+  // Measure the mounted items, since their height depends on their content
+  // and the width of the panel. Once the positions are settled, scroll to
+  // the item asked for, which is mounted even if it's out of view.
+  React.useLayoutEffect(() => {
+    let changed = false;
+    rowsRef.current.forEach((row, key) => {
+      const height = row.offsetHeight;
+      if (height > 0 && heightsRef.current.get(key) !== height) {
+        heightsRef.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) {
+      remeasured();
+      return;
+    }
+
+    const key = pendingScrollRef.current;
+    if (key !== undefined) {
+      pendingScrollRef.current = undefined;
+      rowsRef.current
+        .get(key)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  });
+
+  // Item heights change with the width of the panel.
+  React.useEffect(() => {
+    const list = listRef.current;
+    if (!list) {
+      return;
+    }
+    let width = list.clientWidth;
+    const observer = new ResizeObserver(() => {
+      if (list.clientWidth !== width) {
+        width = list.clientWidth;
+        heightsRef.current.clear();
+        remeasured();
+      }
+    });
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  const visible: number[] = [];
+  keys.forEach((key, index) => {
+    const top = tops[index];
+    const bottom = top + (heightsRef.current.get(key) ?? estimateHeight);
+    if (
+      (bottom > viewport.start - OVERSCAN && top < viewport.end + OVERSCAN) ||
+      key === focusedKey ||
+      key === keepMountedKey ||
+      key === pendingScrollRef.current
+    ) {
+      visible.push(index);
+    }
+  });
+
+  return (
+    <div
+      ref={listRef}
+      className="vale-virtual-list"
+      style={{ height: totalHeight }}
+    >
+      {visible.map((index) => {
+        const key = keys[index];
+        return (
+          <div
+            key={key}
+            ref={(el) => {
+              if (el) {
+                rowsRef.current.set(key, el);
+              } else {
+                rowsRef.current.delete(key);
+              }
+            }}
+            className="vale-virtual-list__item"
+            style={{ top: tops[index] }}
+            onFocus={() => setFocusedKey(key)}
+            onBlur={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                setFocusedKey(undefined);
+              }
+            }}
+          >
+            {renderItem(items[index])}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import * as React from "react";
+import { SEVERITY_GLYPHS, SeverityLevel } from "./severityGlyphs";
 
 /**
  * SVG Icons for severity levels
@@ -12,15 +13,12 @@ export const ErrorIcon: React.FC<{ className?: string }> = ({ className }) => (
   <svg
     className={className}
     xmlns="http://www.w3.org/2000/svg"
-    viewBox="0 0 512 512"
+    viewBox={SEVERITY_GLYPHS.error.viewBox}
     width="14"
     height="14"
     aria-hidden="true"
   >
-    <path
-      fill="currentColor"
-      d="M256 512a256 256 0 1 0 0-512 256 256 0 1 0 0 512zM167 167c9.4-9.4 24.6-9.4 33.9 0l55 55 55-55c9.4-9.4 24.6-9.4 33.9 0s9.4 24.6 0 33.9l-55 55 55 55c9.4 9.4 9.4 24.6 0 33.9s-24.6 9.4-33.9 0l-55-55-55 55c-9.4 9.4-24.6 9.4-33.9 0s-9.4-24.6 0-33.9l55-55-55-55c-9.4-9.4-9.4-24.6 0-33.9z"
-    />
+    <path fill="currentColor" d={SEVERITY_GLYPHS.error.path} />
   </svg>
 );
 
@@ -30,15 +28,12 @@ export const WarningIcon: React.FC<{ className?: string }> = ({
   <svg
     className={className}
     xmlns="http://www.w3.org/2000/svg"
-    viewBox="0 0 512 512"
+    viewBox={SEVERITY_GLYPHS.warning.viewBox}
     width="14"
     height="14"
     aria-hidden="true"
   >
-    <path
-      fill="currentColor"
-      d="M256 0c14.7 0 28.2 8.1 35.2 21l216 400c6.7 12.4 6.4 27.4-.8 39.5S486.1 480 472 480L40 480c-14.1 0-27.2-7.4-34.4-19.5s-7.5-27.1-.8-39.5l216-400c7-12.9 20.5-21 35.2-21zm0 352a32 32 0 1 0 0 64 32 32 0 1 0 0-64zm0-192c-18.2 0-32.7 15.5-31.4 33.7l7.4 104c.9 12.5 11.4 22.3 23.9 22.3 12.6 0 23-9.7 23.9-22.3l7.4-104c1.3-18.2-13.1-33.7-31.4-33.7z"
-    />
+    <path fill="currentColor" d={SEVERITY_GLYPHS.warning.path} />
   </svg>
 );
 
@@ -48,15 +43,12 @@ export const SuggestionIcon: React.FC<{ className?: string }> = ({
   <svg
     className={className}
     xmlns="http://www.w3.org/2000/svg"
-    viewBox="0 0 384 512"
+    viewBox={SEVERITY_GLYPHS.suggestion.viewBox}
     width="14"
     height="14"
     aria-hidden="true"
   >
-    <path
-      fill="currentColor"
-      d="M292.9 384c7.3-22.3 21.9-42.5 38.4-59.9 32.7-34.4 52.7-80.9 52.7-132.1 0-106-86-192-192-192S0 86 0 192c0 51.2 20 97.7 52.7 132.1 16.5 17.4 31.2 37.6 38.4 59.9l201.7 0zM288 432l-192 0 0 16c0 44.2 35.8 80 80 80l32 0c44.2 0 80-35.8 80-80l0-16zM184 112c-39.8 0-72 32.2-72 72 0 13.3-10.7 24-24 24s-24-10.7-24-24c0-66.3 53.7-120 120-120 13.3 0 24 10.7 24 24s-10.7 24-24 24z"
-    />
+    <path fill="currentColor" d={SEVERITY_GLYPHS.suggestion.path} />
   </svg>
 );
 
@@ -64,7 +56,7 @@ export const SuggestionIcon: React.FC<{ className?: string }> = ({
  * Get the icon component for a severity level
  */
 export function getSeverityIcon(
-  severity: "suggestion" | "warning" | "error",
+  severity: SeverityLevel,
 ): React.FC<{ className?: string }> {
   switch (severity) {
     case "error":
@@ -2,13 +2,24 @@
 const DEBUG =
   process.env.NODE_ENV === "development" || process.env.DEBUG === "true";
 
-export const timed = <T>(label: string, cb: () => Promise<T>): Promise<T> => {
-  if (DEBUG) {
-    console.debug(label + " started");
+// timed logs how long cb takes when debugging. When given onFinish, it always
+// measures the duration and passes it on, in milliseconds.
+export const timed = <T>(
+  label: string,
+  cb: () => Promise<T>,
+  onFinish?: (duration: number) => void,
+): Promise<T> => {
+  if (DEBUG || onFinish) {
+    if (DEBUG) {
+      console.debug(label + " started");
+    }
     const start = performance.now();
     const res = cb().finally(() => {
       const duration = performance.now() - start;
-      console.debug(label + " finished in " + duration.toFixed(2) + "ms");
+      if (DEBUG) {
+        console.debug(label + " finished in " + duration.toFixed(2) + "ms");
+      }
+      onFinish?.(duration);
     });
     return res;
   }
@@ -0,0 +1,153 @@
+/**
+ * Dimming or hiding the underlines of alerts filtered out of the results
+ * panel.
+ *
+ * The panel's toolbar filters alerts by severity and text. So the editor
+ * matches the list, this module wraps the underlines of the alerts that are
+ * filtered out in a mark that dims or hides them.
+ *
+ * @module alertFilter
+ */
+
+import {
+  EditorState,
+  Extension,
+  Prec,
+  RangeSetBuilder,
+  StateEffect,
+  StateField,
+} from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView } from "@codemirror/view";
+import type { ValeAlert } from "../types";
+import { getAlertFromDecoration } from "./decorations";
+import { valeStateField } from "./stateField";
+
+/**
+ * Which alerts are shown, and what happens to the underlines of the others.
+ *
+ * @public
+ */
+export interface ValeAlertFilter {
+  /** Returns whether an alert is shown */
+  matches: (alert: ValeAlert) => boolean;
+  /** Whether the underlines of the other alerts are dimmed or hidden */
+  mode: "dim" | "hide";
+}
+
+/**
+ * Effect to set the alert filter of an editor, or to remove it with null.
+ *
+ * @example
+ * ```typescript
+ * view.dispatch({
+ *   effects: setValeAlertFilter.of({
+ *     matches: (alert) => alert.Severity === "error",
+ *     mode: "dim",
+ *   }),
+ * });
+ * ```
+ *
+ * @public
+ */
+export const setValeAlertFilter = StateEffect.define<ValeAlertFilter | null>();
+
+/**
+ * The alert filter of an editor and the marks it puts around underlines.
+ *
+ * @internal
+ */
+interface AlertFilterState {
+  filter: ValeAlertFilter | null;
+  marks: DecorationSet;
+}
+
+/**
+ * Builds the marks around the underlines of filtered-out alerts.
+ *
+ * @internal
+ */
+function buildFilterMarks(
+  state: EditorState,
+  filter: ValeAlertFilter | null,
+): DecorationSet {
+  if (!filter) {
+    return Decoration.none;
+  }
+
+  const mark = Decoration.mark({
+    class: `vale-filtered vale-filtered--${filter.mode}`,
+  });
+  const builder = new RangeSetBuilder<Decoration>();
+  state
+    .field(valeStateField, false)
+    ?.between(0, state.doc.length, (from, to, value) => {
+      const alert = getAlertFromDecoration(value);
+      if (alert && !filter.matches(alert)) {
+        builder.add(from, to, mark);
+      }
+    });
+  return builder.finish();
+}
+
+/**
+ * The alert filter of an editor, with its marks rebuilt when the filter or the
+ * alerts change.
+ *
+ * @remarks
+ * The marks are provided with the lowest precedence, so they're drawn around
+ * the underlines and can hide them.
+ *
+ * @internal
+ */
+export const alertFilterField = StateField.define<AlertFilterState>({
+  create: () => ({ filter: null, marks: Decoration.none }),
+  update(value, tr) {
+    let { filter } = value;
+    for (const effect of tr.effects) {
+      if (effect.is(setValeAlertFilter)) {
+        filter = effect.value;
+      }
+    }
+
+    if (
+      filter === value.filter &&
+      tr.state.field(valeStateField, false) ===
+        tr.startState.field(valeStateField, false)
+    ) {
+      return value;
+    }
+    return { filter, marks: buildFilterMarks(tr.state, filter) };
+  },
+  provide: (field) =>
+    Prec.lowest(EditorView.decorations.from(field, (value) => value.marks)),
+});
+
+/**
+ * Base theme for the underlines of filtered-out alerts.
+ *
+ * @internal
+ */
+const alertFilterTheme = EditorView.baseTheme({
+  ".vale-filtered--dim .vale-underline:is(.vale-error, .vale-warning, .vale-suggestion)":
+    {
+      textDecorationColor: "var(--text-faint)",
+    },
+  ".vale-filtered--hide .vale-underline": {
+    textDecorationLine: "none",
+    cursor: "text",
+  },
+  ".vale-filtered--hide .vale-underline:hover": {
+    backgroundColor: "transparent",
+  },
+});
+
+/**
+ * Creates the alert filter of an editor, set with {@link setValeAlertFilter}.
+ *
+ * @returns A CodeMirror Extension, included by {@link valeExtension}
+ *
+ * @public
+ */
+export function valeAlertFilter(): Extension {
+  return [alertFilterField, alertFilterTheme];
+}
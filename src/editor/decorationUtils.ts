@@ -76,7 +76,7 @@ export function isDecorationSpecWithAttributes(
  * ```typescript
  * const alertId = getDecorationAttribute(decoration.spec, "data-alert-id");
  * if (alertId) {
- *   const alert = valeAlertMap.get(alertId);
+ *   const alert = getValeAlert(state, alertId);
  * }
  * ```
  *
@@ -38,6 +38,8 @@ import { ValeAlert } from "../types";
  * - Severity values: "error", "warning", "suggestion"
  * - Alert ID is stored in `data-alert-id` attribute for later lookup
  * - Check name is stored in `data-check` attribute for filtering
+ * - The alert itself is kept in the decoration spec, so each editor holds the
+ *   alerts it shows (see {@link getAlertFromDecoration})
  * - The decoration is a mark (inline span) that can wrap across lines
  *
  * @public
@@ -52,6 +54,7 @@ export function createValeMarkDecoration(alert: ValeAlert): Decoration {
       "data-check": alert.Check,
       "data-severity": severity,
     },
+    alert,
   });
 }
 
@@ -238,3 +241,19 @@ export function getAlertIdFromDecoration(
   const alertId = decoration.spec.attributes?.["data-alert-id"];
   return typeof alertId === "string" ? alertId : undefined;
 }
+
+/**
+ * Returns the alert behind a Vale mark decoration.
+ *
+ * @param decoration - The decoration to read the alert from
+ * @returns The alert, or undefined for other decorations, such as selection
+ * and highlight decorations
+ *
+ * @public
+ */
+export function getAlertFromDecoration(
+  decoration: Decoration,
+): ValeAlert | undefined {
+  const spec = decoration.spec as { alert?: ValeAlert } | undefined;
+  return spec?.alert;
+}
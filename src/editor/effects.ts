@@ -97,6 +97,35 @@ export const clearValeMarksInRange = StateEffect.define<{
   to: number;
 }>();
 
+/**
+ * Effect to clear the Vale underlines of one check within a range.
+ *
+ * Dispatched when the user tells Vale to ignore a check in part of the note or
+ * in the whole note. Underlines from other checks are kept.
+ *
+ * @example
+ * ```typescript
+ * view.dispatch({
+ *   effects: clearValeMarksForCheck.of({
+ *     check: "Vale.Spelling",
+ *     from: 0,
+ *     to: view.state.doc.length,
+ *   })
+ * });
+ * ```
+ *
+ * @remarks
+ * - Decorations of the check overlapping with the range are removed
+ * - Range coordinates are document offsets after the transaction's changes
+ *
+ * @public
+ */
+export const clearValeMarksForCheck = StateEffect.define<{
+  check: string;
+  from: number;
+  to: number;
+}>();
+
 /**
  * Effect to select a specific Vale alert, typically for highlighting in the UI.
  *
@@ -150,3 +179,25 @@ export const selectValeAlert = StateEffect.define<string>();
  * @public
  */
 export const highlightValeAlert = StateEffect.define<string>();
+
+/**
+ * Effect to forget the document changes made since the last check.
+ *
+ * Dispatched together with the results of a check, so that the next
+ * incremental check only covers text edited after this one.
+ *
+ * @example
+ * ```typescript
+ * view.dispatch({
+ *   effects: [addValeMarks.of(alerts), resetChangedRanges.of()]
+ * });
+ * ```
+ *
+ * @remarks
+ * - Only affects {@link changedRangesField}; decorations are left as they are
+ * - Should be dispatched in the same transaction as the results, so that no
+ *   edit can slip in between applying them and forgetting the changes
+ *
+ * @public
+ */
+export const resetChangedRanges = StateEffect.define<void>();
@@ -40,6 +40,21 @@ export interface ValeAlertClickDetail {
   from: number;
   /** End position of the alert in the document */
   to: number;
+  /** The editor that was clicked */
+  view?: EditorView;
+}
+
+/**
+ * Alert dismiss event detail structure
+ *
+ * This detail object is included in the "vale-alert-dismiss" custom event
+ * when the user dismisses an alert in the editor.
+ */
+export interface ValeAlertDismissDetail {
+  /** Unique identifier of the dismissed alert */
+  alertId: string;
+  /** The editor the alert is shown in */
+  view: EditorView;
 }
 
 /**
@@ -94,6 +109,48 @@ function dispatchValeEvent<T = Record<string, unknown>>(
   document.dispatchEvent(event);
 }
 
+/**
+ * Dispatches a "vale-alert-click" event for an alert in an editor
+ *
+ * Used when an alert is picked without clicking its underline, so that the
+ * plugin highlights it in the results view all the same.
+ *
+ * @param view - The editor the alert is shown in
+ * @param alertId - Unique identifier of the alert
+ * @param from - Start position of the alert in the document
+ * @param to - End position of the alert in the document
+ */
+export function dispatchAlertClick(
+  view: EditorView,
+  alertId: string,
+  from: number,
+  to: number,
+): void {
+  dispatchValeEvent<ValeAlertClickDetail>("alert-click", {
+    alertId,
+    position: from,
+    from,
+    to,
+    view,
+  });
+}
+
+/**
+ * Dispatches a "vale-alert-dismiss" event for an alert in an editor
+ *
+ * The plugin listens for this event to remember the dismissal, so that the
+ * alert stays hidden in later checks.
+ *
+ * @param view - The editor the alert is shown in
+ * @param alertId - Unique identifier of the alert
+ */
+export function dispatchAlertDismiss(view: EditorView, alertId: string): void {
+  dispatchValeEvent<ValeAlertDismissDetail>("alert-dismiss", {
+    alertId,
+    view,
+  });
+}
+
 /**
  * Finds a Vale alert at the specified document position
  *
@@ -214,6 +271,7 @@ export function clickHandler(): Extension {
           position: pos,
           from: alertInfo.from,
           to: alertInfo.to,
+          view,
         } as ValeAlertClickDetail);
 
         if (process.env.DEBUG) {
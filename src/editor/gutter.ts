@@ -0,0 +1,422 @@
+/**
+ * Gutter and scrollbar markers for lines with Vale alerts.
+ *
+ * In long notes most underlines are off-screen. This module adds a gutter
+ * with a severity icon on each line that has alerts, a list of the line's
+ * alerts when an icon is clicked, and overview ticks along the scrollbar.
+ *
+ * @module gutter
+ */
+
+import {
+  EditorState,
+  Extension,
+  RangeSet,
+  StateEffect,
+  StateField,
+} from "@codemirror/state";
+import {
+  BlockInfo,
+  EditorView,
+  GutterMarker,
+  PluginValue,
+  showTooltip,
+  Tooltip,
+  ViewPlugin,
+  ViewUpdate,
+  gutter,
+} from "@codemirror/view";
+import {
+  SEVERITY_GLYPHS,
+  SeverityLevel,
+} from "../components/icons/severityGlyphs";
+import { ValeAlert } from "../types";
+import { generateAlertId, getAlertFromDecoration } from "./decorations";
+import { selectValeAlert } from "./effects";
+import { dispatchAlertClick } from "./eventHandlers";
+import { isMoreSevere, severityOf } from "./severity";
+import { valeStateField } from "./stateField";
+
+/**
+ * Creates the SVG icon of a severity.
+ *
+ * @internal
+ */
+function createSeverityIcon(severity: SeverityLevel): SVGSVGElement {
+  const glyph = SEVERITY_GLYPHS[severity];
+  const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+  svg.setAttribute("viewBox", glyph.viewBox);
+  svg.setAttribute("width", "12");
+  svg.setAttribute("height", "12");
+  svg.setAttribute("aria-hidden", "true");
+
+  const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
+  path.setAttribute("fill", "currentColor");
+  path.setAttribute("d", glyph.path);
+  svg.appendChild(path);
+  return svg;
+}
+
+/**
+ * Gutter marker showing the most severe alert of a line.
+ *
+ * @internal
+ */
+class AlertGutterMarker extends GutterMarker {
+  readonly severity: SeverityLevel;
+  readonly count: number;
+
+  constructor(severity: SeverityLevel, count: number) {
+    super();
+    this.severity = severity;
+    this.count = count;
+  }
+
+  eq(other: GutterMarker): boolean {
+    return (
+      other instanceof AlertGutterMarker &&
+      other.severity === this.severity &&
+      other.count === this.count
+    );
+  }
+
+  toDOM(): Node {
+    const marker = document.createElement("span");
+    marker.className = `vale-gutter-marker vale-gutter-marker--${this.severity}`;
+    marker.setAttribute(
+      "aria-label",
+      this.count === 1 ? "1 Vale alert" : `${this.count} Vale alerts`,
+    );
+    marker.appendChild(createSeverityIcon(this.severity));
+    return marker;
+  }
+}
+
+/**
+ * Builds the gutter markers of the alerts underlined in an editor.
+ *
+ * @internal
+ */
+function buildGutterMarkers(state: EditorState): RangeSet<AlertGutterMarker> {
+  const lines = new Map<number, { severity: SeverityLevel; count: number }>();
+  state
+    .field(valeStateField, false)
+    ?.between(0, state.doc.length, (from, _to, value) => {
+      const alert = getAlertFromDecoration(value);
+      if (!alert) {
+        return;
+      }
+
+      const lineStart = state.doc.lineAt(from).from;
+      const severity = severityOf(alert);
+      const line = lines.get(lineStart);
+      if (!line) {
+        lines.set(lineStart, { severity, count: 1 });
+        return;
+      }
+      line.count++;
+      if (isMoreSevere(severity, line.severity)) {
+        line.severity = severity;
+      }
+    });
+
+  return RangeSet.of(
+    [...lines].map(([pos, { severity, count }]) =>
+      new AlertGutterMarker(severity, count).range(pos),
+    ),
+    true,
+  );
+}
+
+/**
+ * Gutter markers for the lines with alerts, rebuilt when the alerts change.
+ *
+ * @internal
+ */
+export const alertGutterMarkersField = StateField.define<
+  RangeSet<AlertGutterMarker>
+>({
+  create: (state) => buildGutterMarkers(state),
+  update(markers, tr) {
+    return tr.state.field(valeStateField, false) ===
+      tr.startState.field(valeStateField, false)
+      ? markers
+      : buildGutterMarkers(tr.state);
+  },
+});
+
+/**
+ * Opens the list of alerts of the line starting at a position, or closes it
+ * with null.
+ *
+ * @public
+ */
+export const toggleLineAlerts = StateEffect.define<number | null>();
+
+/**
+ * Returns the alerts underlined on a line, with their ranges.
+ *
+ * @param state - The state of the editor
+ * @param pos - Any position on the line
+ * @returns The alerts that start on the line, in document order
+ *
+ * @public
+ */
+export function getLineAlerts(
+  state: EditorState,
+  pos: number,
+): Array<{ alert: ValeAlert; from: number; to: number }> {
+  const line = state.doc.lineAt(pos);
+  const alerts: Array<{ alert: ValeAlert; from: number; to: number }> = [];
+  state
+    .field(valeStateField, false)
+    ?.between(line.from, line.to, (from, to, value) => {
+      const alert = getAlertFromDecoration(value);
+      if (alert && from >= line.from) {
+        alerts.push({ alert, from, to });
+      }
+    });
+  return alerts;
+}
+
+/**
+ * Creates the list of a line's alerts shown when its gutter marker is
+ * clicked. Picking an alert selects it like clicking its underline.
+ *
+ * @internal
+ */
+function createLineAlertsList(view: EditorView, lineStart: number) {
+  const list = document.createElement("div");
+  list.className = "vale-line-alerts";
+
+  for (const { alert, from, to } of getLineAlerts(view.state, lineStart)) {
+    const severity = severityOf(alert);
+    const item = document.createElement("button");
+    item.className = `vale-line-alerts__item vale-line-alerts__item--${severity}`;
+    item.appendChild(createSeverityIcon(severity));
+
+    const message = document.createElement("span");
+    message.className = "vale-line-alerts__message";
+    message.textContent = alert.Message;
+    item.appendChild(message);
+
+    const check = document.createElement("span");
+    check.className = "vale-line-alerts__check";
+    check.textContent = alert.Check;
+    item.appendChild(check);
+
+    item.addEventListener("click", (event) => {
+      event.preventDefault();
+      const alertId = generateAlertId(alert);
+      view.dispatch({
+        selection: { anchor: from },
+        effects: [
+          toggleLineAlerts.of(null),
+          selectValeAlert.of(alertId),
+          EditorView.scrollIntoView(from, { y: "center" }),
+        ],
+      });
+      view.focus();
+      dispatchAlertClick(view, alertId, from, to);
+    });
+    list.appendChild(item);
+  }
+
+  list.addEventListener("keydown", (event) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      view.dispatch({ effects: toggleLineAlerts.of(null) });
+      view.focus();
+    }
+  });
+  return list;
+}
+
+/**
+ * The line whose alerts are listed, as the position of its start.
+ *
+ * @remarks
+ * The list closes when the document changes or the cursor moves, like other
+ * editor popovers.
+ *
+ * @internal
+ */
+export const lineAlertsField = StateField.define<number | null>({
+  create: () => null,
+  update(lineStart, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(toggleLineAlerts)) {
+        return effect.value === lineStart ? null : effect.value;
+      }
+    }
+    return tr.docChanged || tr.selection ? null : lineStart;
+  },
+  provide: (field) =>
+    showTooltip.from(field, (lineStart): Tooltip | null =>
+      lineStart === null
+        ? null
+        : {
+            pos: lineStart,
+            above: false,
+            create: (view) => ({ dom: createLineAlertsList(view, lineStart) }),
+          },
+    ),
+});
+
+/**
+ * A tick along the scrollbar, at a fraction of the document's height.
+ *
+ * @internal
+ */
+interface ScrollbarTick {
+  top: number;
+  severity: SeverityLevel;
+}
+
+/**
+ * Draws overview ticks along the scrollbar for the lines with alerts.
+ *
+ * @internal
+ */
+class ScrollbarMarkersView implements PluginValue {
+  private dom: HTMLElement;
+
+  constructor(view: EditorView) {
+    this.dom = document.createElement("div");
+    this.dom.className = "vale-scrollbar-markers";
+    this.dom.setAttribute("aria-hidden", "true");
+    view.dom.appendChild(this.dom);
+    this.measure(view);
+  }
+
+  update(update: ViewUpdate): void {
+    if (
+      update.geometryChanged ||
+      update.state.field(alertGutterMarkersField, false) !==
+        update.startState.field(alertGutterMarkersField, false)
+    ) {
+      this.measure(update.view);
+    }
+  }
+
+  destroy(): void {
+    this.dom.remove();
+  }
+
+  private measure(view: EditorView): void {
+    view.requestMeasure({
+      key: this,
+      read: (view) => readScrollbarTicks(view),
+      write: (ticks) => this.draw(ticks),
+    });
+  }
+
+  private draw(ticks: ScrollbarTick[]): void {
+    this.dom.replaceChildren(
+      ...ticks.map(({ top, severity }) => {
+        const tick = document.createElement("div");
+        tick.className = `vale-scrollbar-marker vale-scrollbar-marker--${severity}`;
+        tick.setCssProps({ top: `${(top * 100).toFixed(2)}%` });
+        return tick;
+      }),
+    );
+  }
+}
+
+/**
+ * Reads where the lines with alerts are in the document's height.
+ *
+ * @internal
+ */
+function readScrollbarTicks(view: EditorView): ScrollbarTick[] {
+  const markers = view.state.field(alertGutterMarkersField, false);
+  const height = view.contentHeight;
+  const ticks: ScrollbarTick[] = [];
+  if (!markers || height <= 0) {
+    return ticks;
+  }
+
+  const cursor = markers.iter();
+  for (; cursor.value; cursor.next()) {
+    ticks.push({
+      top: Math.min(view.lineBlockAt(cursor.from).top / height, 1),
+      severity: cursor.value.severity,
+    });
+  }
+  return ticks;
+}
+
+/**
+ * Base theme for the gutter markers and the line alert list.
+ *
+ * @internal
+ */
+const alertMarkersTheme = EditorView.baseTheme({
+  ".vale-gutter .cm-gutterElement": {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: "0 2px",
+    cursor: "pointer",
+  },
+  ".vale-gutter-marker--error, .vale-scrollbar-marker--error": {
+    color: "var(--vale-color-error, var(--text-error))",
+  },
+  ".vale-gutter-marker--warning, .vale-scrollbar-marker--warning": {
+    color: "var(--vale-color-warning, var(--color-yellow))",
+  },
+  ".vale-gutter-marker--suggestion, .vale-scrollbar-marker--suggestion": {
+    color: "var(--vale-color-suggestion, var(--color-cyan))",
+  },
+  ".vale-scrollbar-markers": {
+    position: "absolute",
+    top: "0",
+    bottom: "0",
+    right: "0",
+    width: "6px",
+    pointerEvents: "none",
+    zIndex: "10",
+  },
+  ".vale-scrollbar-marker": {
+    position: "absolute",
+    left: "0",
+    right: "0",
+    height: "2px",
+    backgroundColor: "currentColor",
+  },
+});
+
+/**
+ * Creates the gutter and scrollbar markers for lines with alerts.
+ *
+ * @returns A CodeMirror Extension, included by {@link valeExtension} when
+ * `enableAlertMarkers` is set
+ *
+ * @remarks
+ * - Each line with alerts gets the icon of its most severe alert
+ * - Clicking an icon lists the line's alerts; picking one selects it
+ * - Scrollbar ticks don't take pointer events, so scrolling is unaffected
+ *
+ * @public
+ */
+export function valeAlertMarkers(): Extension {
+  return [
+    alertGutterMarkersField,
+    lineAlertsField,
+    gutter({
+      class: "vale-gutter",
+      markers: (view) => view.state.field(alertGutterMarkersField),
+      domEventHandlers: {
+        mousedown: (view: EditorView, line: BlockInfo) => {
+          if (!getLineAlerts(view.state, line.from).length) {
+            return false;
+          }
+          view.dispatch({ effects: toggleLineAlerts.of(line.from) });
+          return true;
+        },
+      },
+    }),
+    ViewPlugin.fromClass(ScrollbarMarkersView),
+    alertMarkersTheme,
+  ];
+}
@@ -0,0 +1,340 @@
+/**
+ * Incremental re-checking of long notes.
+ *
+ * Instead of sending the whole note to Vale after every edit, the note is split
+ * into top-level Markdown blocks and only the blocks touched since the last
+ * check are checked again. The alerts for those blocks are shifted back to
+ * document coordinates and merged into the existing decorations.
+ *
+ * @module incremental
+ */
+
+import {
+  EditorState,
+  StateEffect,
+  StateField,
+  Text,
+  Transaction,
+} from "@codemirror/state";
+import { ValeAlert } from "../types";
+import { getAlertFromDecoration } from "./decorations";
+import {
+  addValeMarks,
+  clearValeMarksInRange,
+  resetChangedRanges,
+} from "./effects";
+import { valeStateField } from "./stateField";
+
+/**
+ * A top-level Markdown block, such as a paragraph, list, heading, code block
+ * or front matter.
+ *
+ * @public
+ */
+export interface TextBlock {
+  /** Document offset of the start of the block's first line */
+  from: number;
+  /** Document offset of the end of the block's last line */
+  to: number;
+  /** 1-based line number of the block's first line */
+  fromLine: number;
+  /** 1-based line number of the block's last line */
+  toLine: number;
+}
+
+/**
+ * A range of the document, in current document offsets.
+ *
+ * @public
+ */
+export interface ChangedRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * A block together with the alerts Vale reported for it.
+ *
+ * @public
+ */
+export interface CheckedBlock {
+  block: TextBlock;
+  /** Alerts with `Line` relative to the block, as returned by Vale */
+  alerts: ValeAlert[];
+}
+
+// Lines that open or close a region that may contain blank lines, and so must
+// not be split: code fences, math blocks and Obsidian comments.
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const MATH_PATTERN = /^\s*\$\$/;
+const COMMENT_PATTERN = /%%/g;
+
+// Vale's comments that turn checks off and on, such as `<!-- vale off -->` or
+// `<!-- vale Style.Rule = NO -->`.
+const VALE_COMMENT_PATTERN = /<!--\s*vale\b[\s\S]*?-->/g;
+
+/**
+ * Splits a document into top-level Markdown blocks.
+ *
+ * Blocks are separated by blank lines. Front matter, fenced code blocks, math
+ * blocks and Obsidian comments are kept whole even if they contain blank
+ * lines.
+ *
+ * @param doc - The document to split
+ * @returns The blocks, in document order
+ *
+ * @example
+ * ```typescript
+ * splitIntoBlocks(Text.of(["# Title", "", "Some text."]));
+ * // Returns: [
+ * //   { from: 0, to: 7, fromLine: 1, toLine: 1 },
+ * //   { from: 9, to: 19, fromLine: 3, toLine: 3 },
+ * // ]
+ * ```
+ *
+ * @public
+ */
+export function splitIntoBlocks(doc: Text): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let lineNumber = 1;
+
+  const push = (fromLine: number, toLine: number) => {
+    blocks.push({
+      from: doc.line(fromLine).from,
+      to: doc.line(toLine).to,
+      fromLine,
+      toLine,
+    });
+  };
+
+  // Front matter is only recognized on the first line.
+  if (doc.line(1).text === "---") {
+    let end = 2;
+    while (end <= doc.lines && !/^(---|\.\.\.)$/.test(doc.line(end).text)) {
+      end++;
+    }
+    push(1, Math.min(end, doc.lines));
+    lineNumber = end + 1;
+  }
+
+  while (lineNumber <= doc.lines) {
+    if (isBlank(doc.line(lineNumber).text)) {
+      lineNumber++;
+      continue;
+    }
+
+    const start = lineNumber;
+    while (lineNumber <= doc.lines && !isBlank(doc.line(lineNumber).text)) {
+      lineNumber = skipRegion(doc, lineNumber) + 1;
+    }
+    push(start, Math.min(lineNumber - 1, doc.lines));
+  }
+
+  return blocks;
+}
+
+/**
+ * Returns the blocks that overlap or touch any of the changed ranges.
+ *
+ * @param blocks - Blocks of the current document
+ * @param ranges - Ranges changed since the last check
+ * @returns The blocks that need to be checked again
+ *
+ * @public
+ */
+export function findChangedBlocks(
+  blocks: TextBlock[],
+  ranges: readonly ChangedRange[],
+): TextBlock[] {
+  return blocks.filter((block) =>
+    ranges.some((range) => range.from <= block.to && range.to >= block.from),
+  );
+}
+
+/**
+ * Returns the text to send to Vale for a block.
+ *
+ * Vale's comments apply until they're turned back, so a block inside a
+ * `<!-- vale off -->` region must be checked with the comments above it. They
+ * are put on lines of their own before the block's text, in order.
+ *
+ * @param doc - The document the block was split from
+ * @param block - The block to check
+ * @returns The text, and how many lines come before the block's own text
+ *
+ * @example
+ * ```typescript
+ * getBlockCheckText(Text.of(["<!-- vale off -->", "", "Some text."]), block);
+ * // Returns: { text: "<!-- vale off -->\n\nSome text.", lineOffset: 2 }
+ * ```
+ *
+ * @public
+ */
+export function getBlockCheckText(
+  doc: Text,
+  block: TextBlock,
+): { text: string; lineOffset: number } {
+  const text = doc.sliceString(block.from, block.to);
+  const comments = doc.sliceString(0, block.from).match(VALE_COMMENT_PATTERN);
+  if (!comments) {
+    return { text, lineOffset: 0 };
+  }
+
+  // A comment may span lines, but each must take up exactly one here.
+  const prefix = comments.map((comment) => comment.replace(/\s+/g, " "));
+  return {
+    text: [...prefix, "", text].join("\n"),
+    lineOffset: prefix.length + 1,
+  };
+}
+
+/**
+ * StateField collecting the ranges changed since the last check.
+ *
+ * Ranges are mapped through later changes so that they always refer to the
+ * current document. The field is emptied by {@link resetChangedRanges}.
+ *
+ * @public
+ */
+export const changedRangesField = StateField.define<readonly ChangedRange[]>({
+  create() {
+    return [];
+  },
+
+  update(ranges: readonly ChangedRange[], tr: Transaction) {
+    if (tr.effects.some((effect) => effect.is(resetChangedRanges))) {
+      ranges = [];
+    }
+
+    if (!tr.docChanged) {
+      return ranges;
+    }
+
+    const mapped = ranges.map((range) => ({
+      from: tr.changes.mapPos(range.from, -1),
+      to: tr.changes.mapPos(range.to, 1),
+    }));
+    tr.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
+      mapped.push({ from: fromB, to: toB });
+    });
+    return mapped;
+  },
+});
+
+/**
+ * Builds the effects that merge the results of an incremental check into the
+ * existing decorations.
+ *
+ * Decorations in the checked blocks are replaced with the new alerts. All
+ * other decorations are kept, except those whose line moved because lines
+ * were added or removed above them. Those are re-added with their new line
+ * number, so that alert IDs and the panel stay in sync with the document.
+ *
+ * @param state - The editor state the blocks were split from
+ * @param checked - The checked blocks and the alerts Vale reported for them
+ * @returns The effects to dispatch, and the full list of alerts afterwards
+ *
+ * @remarks
+ * - The state must not have changed since the blocks were checked
+ * - The returned alerts are sorted by line and column
+ *
+ * @public
+ */
+export function buildIncrementalUpdate(
+  state: EditorState,
+  checked: CheckedBlock[],
+): { effects: StateEffect<unknown>[]; alerts: ValeAlert[] } {
+  const overlapsChecked = (from: number, to: number) =>
+    checked.some(({ block }) => !(to <= block.from || from >= block.to));
+
+  const kept: ValeAlert[] = [];
+  const moved: ValeAlert[] = [];
+  const movedRanges: ChangedRange[] = [];
+
+  state.field(valeStateField).between(0, state.doc.length, (from, to, deco) => {
+    const alert = getAlertFromDecoration(deco);
+    if (!alert || overlapsChecked(from, to)) {
+      return;
+    }
+
+    const line = state.doc.lineAt(from).number;
+    if (line === alert.Line) {
+      kept.push(alert);
+    } else {
+      moved.push({ ...alert, Line: line });
+      movedRanges.push({ from, to });
+    }
+  });
+
+  const added = checked.flatMap(({ block, alerts }) =>
+    alerts.map((alert) => ({
+      ...alert,
+      Line: alert.Line + block.fromLine - 1,
+    })),
+  );
+
+  const effects: StateEffect<unknown>[] = [
+    ...checked.map(({ block }) =>
+      clearValeMarksInRange.of({ from: block.from, to: block.to }),
+    ),
+    ...movedRanges.map((range) => clearValeMarksInRange.of(range)),
+    addValeMarks.of([...added, ...moved]),
+    resetChangedRanges.of(),
+  ];
+
+  const alerts = [...kept, ...moved, ...added].sort(
+    (a, b) => a.Line - b.Line || a.Span[0] - b.Span[0],
+  );
+
+  return { effects, alerts };
+}
+
+function isBlank(text: string): boolean {
+  return text.trim() === "";
+}
+
+// skipRegion returns the last line of a region that starts at the given line,
+// or the line itself if it doesn't open one.
+function skipRegion(doc: Text, lineNumber: number): number {
+  const text = doc.line(lineNumber).text;
+
+  const fence = FENCE_PATTERN.exec(text);
+  if (fence) {
+    // A closing fence uses the same character, at least as many times.
+    const marker = fence[1];
+    return findClosingLine(doc, lineNumber, (line) => {
+      const closing = line.trim();
+      return (
+        closing.length >= marker.length &&
+        [...closing].every((char) => char === marker[0])
+      );
+    });
+  }
+
+  if (MATH_PATTERN.test(text) && !/\$\$.*\$\$/.test(text)) {
+    return findClosingLine(doc, lineNumber, (line) => line.includes("$$"));
+  }
+
+  if ((text.match(COMMENT_PATTERN)?.length ?? 0) % 2 === 1) {
+    return findClosingLine(
+      doc,
+      lineNumber,
+      (line) => (line.match(COMMENT_PATTERN)?.length ?? 0) % 2 === 1,
+    );
+  }
+
+  return lineNumber;
+}
+
+function findClosingLine(
+  doc: Text,
+  lineNumber: number,
+  closes: (text: string) => boolean,
+): number {
+  for (let i = lineNumber + 1; i <= doc.lines; i++) {
+    if (closes(doc.line(i).text)) {
+      return i;
+    }
+  }
+  return doc.lines;
+}
@@ -16,12 +16,71 @@ export {
   addValeMarks,
   clearAllValeMarks,
   clearValeMarksInRange,
+  clearValeMarksForCheck,
   selectValeAlert,
   highlightValeAlert,
+  resetChangedRanges,
 } from "./effects";
 
-// StateField and alert map for advanced usage
-export { valeStateField, valeAlertMap } from "./stateField";
+// StateField and the alerts each editor holds, for advanced usage
+export {
+  valeStateField,
+  getValeAlert,
+  getValeAlerts,
+  findAdjacentValeAlert,
+} from "./stateField";
+
+// Incremental re-checking of long notes
+export {
+  changedRangesField,
+  splitIntoBlocks,
+  findChangedBlocks,
+  getBlockCheckText,
+  buildIncrementalUpdate,
+  type TextBlock,
+  type ChangedRange,
+  type CheckedBlock,
+} from "./incremental";
+
+// Quick fixes from Vale's suggested actions
+export {
+  getQuickFixes,
+  suggestionFixes,
+  setSuggestionsAvailable,
+  applyQuickFix,
+  findAlertRange,
+  type QuickFix,
+} from "./quickFix";
+
+// Ignoring a check in part of a note
+export { ignoreAlertHere } from "./suppress";
+
+// Gutter and scrollbar markers for lines with alerts
+export { valeAlertMarkers, getLineAlerts, toggleLineAlerts } from "./gutter";
+
+// Messages at the end of lines with alerts
+export { valeInlineMessages } from "./inlineMessages";
+
+// Dimming or hiding alerts filtered out of the results panel
+export {
+  valeAlertFilter,
+  setValeAlertFilter,
+  type ValeAlertFilter,
+} from "./alertFilter";
+
+// Alerts as @codemirror/lint diagnostics
+export {
+  valeLintDiagnostics,
+  alertToDiagnostic,
+  getValeDiagnostics,
+  type LintDiagnosticsMode,
+} from "./lintDiagnostics";
+
+// Underlines in Reading view
+export {
+  valeReadingViewProcessor,
+  type ReadingViewConfig,
+} from "./readingView";
 
 // Decoration utilities (primarily for internal use, but exported for extensibility)
 export {
@@ -30,6 +89,7 @@ export {
   createHighlightDecoration,
   generateAlertId,
   getAlertIdFromDecoration,
+  getAlertFromDecoration,
 } from "./decorations";
 
 // Utility functions from Wave 1 (re-export for convenience)
@@ -45,8 +105,11 @@ export {
 // Event handling utilities
 export {
   registerValeEventListeners,
+  dispatchAlertClick,
+  dispatchAlertDismiss,
   ValeEventType,
   ValeAlertClickDetail,
+  ValeAlertDismissDetail,
 } from "./eventHandlers";
 
 // Scroll utilities for alert navigation
@@ -62,4 +125,7 @@ export {
   getAlertAtPosition,
   createTooltipContent,
   type ValeTooltipConfig,
+  type QuickFixHandler,
+  type AlertActionHandler,
+  type TooltipActions,
 } from "./tooltip";
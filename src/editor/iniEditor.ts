@@ -0,0 +1,145 @@
+/**
+ * CodeMirror extensions for editing `.vale.ini` in the settings.
+ *
+ * Obsidian doesn't ship an INI language for CodeMirror, so sections, keys,
+ * values and comments are marked line by line with the same parser that
+ * validates the config. The marks are styled with Obsidian's code colors.
+ *
+ * @module iniEditor
+ */
+
+import { setDiagnostics } from "@codemirror/lint";
+import { RangeSetBuilder } from "@codemirror/state";
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  PluginValue,
+  ViewPlugin,
+  ViewUpdate,
+} from "@codemirror/view";
+import { ConfigDiagnostic, parseIniLine } from "../vale/valeIni";
+
+/**
+ * Marks of each part of a line.
+ *
+ * @internal
+ */
+const MARKS = {
+  comment: Decoration.mark({ class: "vale-ini-comment" }),
+  section: Decoration.mark({ class: "vale-ini-section" }),
+  key: Decoration.mark({ class: "vale-ini-key" }),
+  operator: Decoration.mark({ class: "vale-ini-operator" }),
+  value: Decoration.mark({ class: "vale-ini-value" }),
+};
+
+/**
+ * Builds the marks of the visible lines.
+ *
+ * @internal
+ */
+function buildMarks(view: EditorView): DecorationSet {
+  const builder = new RangeSetBuilder<Decoration>();
+
+  for (const { from, to } of view.visibleRanges) {
+    for (let pos = from; pos <= to; ) {
+      const line = view.state.doc.lineAt(pos);
+      const parsed = parseIniLine(line.text);
+      const start =
+        line.from + (line.text.length - line.text.trimStart().length);
+
+      switch (parsed.kind) {
+        case "comment":
+          builder.add(start, line.to, MARKS.comment);
+          break;
+        case "section":
+          builder.add(
+            start,
+            line.from + line.text.trimEnd().length,
+            MARKS.section,
+          );
+          break;
+        case "entry":
+          if (parsed.key) {
+            builder.add(
+              line.from + parsed.keyStart,
+              line.from + parsed.keyStart + parsed.key.length,
+              MARKS.key,
+            );
+          }
+          builder.add(
+            line.from + parsed.equalsAt,
+            line.from + parsed.equalsAt + 1,
+            MARKS.operator,
+          );
+          if (parsed.value) {
+            builder.add(
+              line.from + parsed.valueStart,
+              line.from + parsed.valueStart + parsed.value.length,
+              MARKS.value,
+            );
+          }
+          break;
+        default:
+          break;
+      }
+
+      pos = line.to + 1;
+    }
+  }
+
+  return builder.finish();
+}
+
+/**
+ * Highlights INI syntax in the visible lines.
+ *
+ * @public
+ */
+export const iniHighlighting = ViewPlugin.fromClass(
+  class implements PluginValue {
+    decorations: DecorationSet;
+
+    constructor(view: EditorView) {
+      this.decorations = buildMarks(view);
+    }
+
+    update(update: ViewUpdate): void {
+      if (update.docChanged || update.viewportChanged) {
+        this.decorations = buildMarks(update.view);
+      }
+    }
+  },
+  { decorations: (plugin) => plugin.decorations },
+);
+
+/**
+ * Underlines the lines with problems in the config, replacing the previous
+ * problems. Lines past the end of the document are skipped, since the
+ * problems may have been found in an older version of the text.
+ *
+ * @public
+ */
+export function showConfigDiagnostics(
+  view: EditorView,
+  diagnostics: ConfigDiagnostic[],
+): void {
+  const { doc } = view.state;
+  view.dispatch(
+    setDiagnostics(
+      view.state,
+      diagnostics
+        .filter(({ line }) => line <= doc.lines)
+        .map(({ line, severity, message }) => {
+          const { from, to, text } = doc.line(line);
+          return {
+            from: from + (text.length - text.trimStart().length),
+            to,
+            severity,
+            message,
+            source: "Vale",
+          };
+        }),
+    ),
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * Inline messages at the end of lines with Vale alerts.
+ *
+ * Besides underlines, each line with alerts can show the message of its most
+ * severe alert after the end of the line, dimmed and in the colour of its
+ * severity. The messages follow the underlines, so they're added and removed
+ * through the same effects.
+ *
+ * @module inlineMessages
+ */
+
+import {
+  EditorState,
+  Extension,
+  Facet,
+  RangeSetBuilder,
+  StateField,
+} from "@codemirror/state";
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  WidgetType,
+} from "@codemirror/view";
+import { SeverityLevel } from "../components/icons/severityGlyphs";
+import { ValeAlert } from "../types";
+import { getAlertFromDecoration } from "./decorations";
+import { isMoreSevere, severityOf } from "./severity";
+import { valeStateField } from "./stateField";
+
+/**
+ * The severities whose messages are shown inline.
+ *
+ * @internal
+ */
+const inlineMessageSeverities = Facet.define<
+  SeverityLevel[],
+  Set<SeverityLevel>
+>({
+  combine: (values) => new Set(values.flat()),
+});
+
+/**
+ * Widget showing the message of an alert after the end of its line.
+ *
+ * @internal
+ */
+class InlineMessageWidget extends WidgetType {
+  readonly message: string;
+  readonly severity: SeverityLevel;
+
+  constructor(message: string, severity: SeverityLevel) {
+    super();
+    this.message = message;
+    this.severity = severity;
+  }
+
+  eq(other: InlineMessageWidget): boolean {
+    return other.message === this.message && other.severity === this.severity;
+  }
+
+  toDOM(): HTMLElement {
+    const message = document.createElement("span");
+    message.className = `vale-inline-message vale-inline-message--${this.severity}`;
+    message.textContent = this.message;
+    return message;
+  }
+}
+
+/**
+ * Builds the inline messages of the alerts underlined in an editor.
+ *
+ * @internal
+ */
+function buildInlineMessages(state: EditorState): DecorationSet {
+  const severities = state.facet(inlineMessageSeverities);
+  const lines = new Map<number, ValeAlert>();
+
+  state
+    .field(valeStateField, false)
+    ?.between(0, state.doc.length, (from, _to, value) => {
+      const alert = getAlertFromDecoration(value);
+      if (!alert || !severities.has(severityOf(alert))) {
+        return;
+      }
+
+      const lineEnd = state.doc.lineAt(from).to;
+      const shown = lines.get(lineEnd);
+      if (!shown || isMoreSevere(severityOf(alert), severityOf(shown))) {
+        lines.set(lineEnd, alert);
+      }
+    });
+
+  const builder = new RangeSetBuilder<Decoration>();
+  for (const [lineEnd, alert] of lines) {
+    builder.add(
+      lineEnd,
+      lineEnd,
+      Decoration.widget({
+        widget: new InlineMessageWidget(alert.Message, severityOf(alert)),
+        side: 1,
+      }),
+    );
+  }
+  return builder.finish();
+}
+
+/**
+ * Inline messages for the lines with alerts, rebuilt when the alerts change.
+ *
+ * @remarks
+ * The alerts come from {@link valeStateField}, so `addValeMarks` and
+ * `clearAllValeMarks` update the messages along with the underlines.
+ *
+ * @internal
+ */
+export const inlineMessagesField = StateField.define<DecorationSet>({
+  create: (state) => buildInlineMessages(state),
+  update(messages, tr) {
+    return tr.state.field(valeStateField, false) ===
+      tr.startState.field(valeStateField, false)
+      ? messages
+      : buildInlineMessages(tr.state);
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+/**
+ * Base theme for inline messages.
+ *
+ * @internal
+ */
+const inlineMessagesTheme = EditorView.baseTheme({
+  ".vale-inline-message": {
+    marginLeft: "2em",
+    fontSize: "0.85em",
+    fontStyle: "italic",
+    opacity: "0.6",
+    whiteSpace: "nowrap",
+    pointerEvents: "none",
+    userSelect: "none",
+  },
+  ".vale-inline-message--error": {
+    color: "var(--vale-color-error, var(--text-error))",
+  },
+  ".vale-inline-message--warning": {
+    color: "var(--vale-color-warning, var(--color-yellow))",
+  },
+  ".vale-inline-message--suggestion": {
+    color: "var(--vale-color-suggestion, var(--color-cyan))",
+  },
+});
+
+/**
+ * Creates inline messages after the end of lines with alerts.
+ *
+ * @param severities - The severities whose messages are shown
+ * @returns A CodeMirror Extension, included by {@link valeExtension} when
+ * `inlineMessageSeverities` isn't empty
+ *
+ * @example
+ * ```typescript
+ * // Only show the messages of errors and warnings
+ * valeInlineMessages(["error", "warning"]);
+ * ```
+ *
+ * @remarks
+ * - Each line shows the message of its most severe alert among `severities`
+ * - Messages don't take pointer events, so clicks reach the line
+ *
+ * @public
+ */
+export function valeInlineMessages(severities: SeverityLevel[]): Extension {
+  return [
+    inlineMessageSeverities.of(severities),
+    inlineMessagesField,
+    inlineMessagesTheme,
+  ];
+}
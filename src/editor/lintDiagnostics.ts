@@ -0,0 +1,308 @@
+/**
+ * Vale alerts as `@codemirror/lint` diagnostics.
+ *
+ * Other CodeMirror tooling, like the lint panel and `nextDiagnostic`, works
+ * with lint diagnostics rather than Vale's decorations. This module publishes
+ * the underlined alerts as diagnostics whenever they change, so that tooling
+ * can use them too.
+ *
+ * @module lintDiagnostics
+ */
+
+import {
+  Action,
+  Diagnostic,
+  forEachDiagnostic,
+  linter,
+  setDiagnostics,
+} from "@codemirror/lint";
+import { EditorState, Extension } from "@codemirror/state";
+import {
+  EditorView,
+  PluginValue,
+  ViewPlugin,
+  ViewUpdate,
+} from "@codemirror/view";
+import type { ValeAlert } from "../types";
+import { getAlertFromDecoration } from "./decorations";
+import {
+  addValeMarks,
+  clearAllValeMarks,
+  clearValeMarksForCheck,
+  clearValeMarksInRange,
+} from "./effects";
+import { applyQuickFix, getQuickFixes } from "./quickFix";
+import { severityOf } from "./severity";
+import { valeStateField } from "./stateField";
+import type { QuickFixHandler } from "./tooltip";
+
+/**
+ * How Vale alerts are shown when they're published as lint diagnostics.
+ *
+ * - `off`: Alerts aren't published as diagnostics
+ * - `alongside`: Diagnostics are published for the lint panel and commands,
+ *   while Vale's underlines and tooltips stay as they are
+ * - `instead`: The lint extension underlines the alerts and shows their
+ *   tooltips instead of Vale
+ *
+ * @public
+ */
+export type LintDiagnosticsMode = "off" | "alongside" | "instead";
+
+/**
+ * Class added to the marks of Vale's diagnostics, which also tells them apart
+ * from the diagnostics of other linters.
+ *
+ * @internal
+ */
+const VALE_DIAGNOSTIC_CLASS = "vale-diagnostic";
+
+/**
+ * Class added to editors where Vale shows the alerts and lint only lists
+ * them.
+ *
+ * @internal
+ */
+const DIAGNOSTICS_ALONGSIDE_CLASS = "vale-diagnostics-alongside";
+
+/**
+ * Class added to editors where the lint extension shows the alerts instead
+ * of Vale.
+ *
+ * @internal
+ */
+const DIAGNOSTICS_ONLY_CLASS = "vale-diagnostics-only";
+
+/**
+ * Converts an alert to a lint diagnostic.
+ *
+ * @param alert - The alert to convert
+ * @param from - The start of the alert's text in the document
+ * @param to - The end of the alert's text in the document
+ * @param onFix - Applies a fix picked from the diagnostic's actions. Defaults
+ * to {@link applyQuickFix}.
+ * @returns The diagnostic, with one action per quick fix of the alert
+ *
+ * @remarks
+ * Vale's suggestions become `info` diagnostics, since lint has no
+ * suggestion severity.
+ *
+ * @public
+ */
+export function alertToDiagnostic(
+  alert: ValeAlert,
+  from: number,
+  to: number,
+  onFix?: QuickFixHandler,
+): Diagnostic {
+  const severity = severityOf(alert);
+  const actions: Action[] = getQuickFixes(alert).map((fix) => ({
+    name: fix.title,
+    apply: (view: EditorView) => {
+      if (onFix) {
+        onFix(view, alert, fix);
+      } else {
+        applyQuickFix(view, alert, fix);
+      }
+    },
+  }));
+
+  return {
+    from,
+    to,
+    severity: severity === "suggestion" ? "info" : severity,
+    source: alert.Check,
+    message: alert.Message,
+    markClass: VALE_DIAGNOSTIC_CLASS,
+    actions,
+  };
+}
+
+/**
+ * Returns the diagnostics of the alerts underlined in an editor.
+ *
+ * @param state - The state of the editor
+ * @param onFix - Applies a fix picked from a diagnostic's actions
+ * @returns The diagnostics, in document order
+ *
+ * @public
+ */
+export function getValeDiagnostics(
+  state: EditorState,
+  onFix?: QuickFixHandler,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  state
+    .field(valeStateField, false)
+    ?.between(0, state.doc.length, (from, to, value) => {
+      const alert = getAlertFromDecoration(value);
+      if (alert) {
+        diagnostics.push(alertToDiagnostic(alert, from, to, onFix));
+      }
+    });
+  return diagnostics;
+}
+
+/**
+ * Returns the diagnostics of other linters in an editor, at their current
+ * positions.
+ *
+ * @remarks
+ * `setDiagnostics` replaces every diagnostic of the editor, so these are
+ * published again along with Vale's.
+ *
+ * @internal
+ */
+function getOtherDiagnostics(state: EditorState): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  forEachDiagnostic(state, (diagnostic, from, to) => {
+    if (diagnostic.markClass !== VALE_DIAGNOSTIC_CLASS) {
+      diagnostics.push({ ...diagnostic, from, to });
+    }
+  });
+  return diagnostics;
+}
+
+/**
+ * Returns whether a transaction adds or removes underlines.
+ *
+ * @remarks
+ * Edits only move the underlines, and the lint extension maps its
+ * diagnostics through edits itself.
+ *
+ * @internal
+ */
+function changesAlerts(update: ViewUpdate): boolean {
+  return update.transactions.some((tr) =>
+    tr.effects.some(
+      (effect) =>
+        effect.is(addValeMarks) ||
+        effect.is(clearAllValeMarks) ||
+        effect.is(clearValeMarksInRange) ||
+        effect.is(clearValeMarksForCheck),
+    ),
+  );
+}
+
+/**
+ * Publishes the diagnostics of an editor when its alerts change.
+ *
+ * @internal
+ */
+class DiagnosticsPublisher implements PluginValue {
+  private readonly onFix?: QuickFixHandler;
+  private destroyed = false;
+
+  constructor(view: EditorView, onFix?: QuickFixHandler) {
+    this.onFix = onFix;
+    if (view.state.field(valeStateField, false)?.size) {
+      this.publish(view);
+    }
+  }
+
+  update(update: ViewUpdate): void {
+    if (changesAlerts(update)) {
+      this.publish(update.view);
+    }
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+  }
+
+  // Views can't be updated while an update is in progress, so the
+  // diagnostics are set right after it. The diagnostics of other linters are
+  // kept.
+  private publish(view: EditorView): void {
+    void Promise.resolve().then(() => {
+      if (!this.destroyed) {
+        view.dispatch(
+          setDiagnostics(view.state, [
+            ...getOtherDiagnostics(view.state),
+            ...getValeDiagnostics(view.state, this.onFix),
+          ]),
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Leaves Vale's diagnostics out of the lint extension's hover tooltips,
+ * since Vale shows its own.
+ *
+ * @internal
+ */
+const withoutValeDiagnostics = (diagnostics: readonly Diagnostic[]) =>
+  diagnostics.filter(
+    (diagnostic) => diagnostic.markClass !== VALE_DIAGNOSTIC_CLASS,
+  );
+
+/**
+ * Base theme hiding one of the two underlines of an alert: lint's alongside
+ * Vale's, and Vale's where lint shows them instead.
+ *
+ * @remarks
+ * Lint's underlines can't be left out with a `markerFilter`, since filtered
+ * diagnostics don't reach the lint panel or `nextDiagnostic` either.
+ *
+ * @internal
+ */
+const lintDiagnosticsTheme = EditorView.baseTheme({
+  [`&.${DIAGNOSTICS_ALONGSIDE_CLASS} .cm-lintRange.${VALE_DIAGNOSTIC_CLASS}`]: {
+    backgroundImage: "none",
+  },
+  [`&.${DIAGNOSTICS_ONLY_CLASS} .vale-underline`]: {
+    textDecorationLine: "none",
+    cursor: "text",
+  },
+  [`&.${DIAGNOSTICS_ONLY_CLASS} .vale-underline:hover`]: {
+    backgroundColor: "transparent",
+  },
+});
+
+/**
+ * Publishes Vale alerts as `@codemirror/lint` diagnostics.
+ *
+ * @param mode - Whether the diagnostics are shown alongside or instead of
+ * Vale's underlines
+ * @param onFix - Applies a fix picked from a diagnostic's actions
+ * @returns A CodeMirror Extension, included by {@link valeExtension} when
+ * `lintDiagnostics` isn't `off`
+ *
+ * @example
+ * ```typescript
+ * // Let the lint panel list the alerts, but keep Vale's underlines
+ * valeLintDiagnostics("alongside");
+ * ```
+ *
+ * @remarks
+ * - Errors and warnings keep their severity; suggestions become `info`
+ * - Each quick fix of an alert becomes an action of its diagnostic
+ * - Diagnostics of other linters are kept when Vale's are published
+ * - Alongside Vale's underlines, lint doesn't underline the alerts again or
+ *   show its own tooltips for them
+ *
+ * @public
+ */
+export function valeLintDiagnostics(
+  mode: Exclude<LintDiagnosticsMode, "off">,
+  onFix?: QuickFixHandler,
+): Extension {
+  const extensions: Extension[] = [
+    ViewPlugin.define((view) => new DiagnosticsPublisher(view, onFix)),
+    lintDiagnosticsTheme,
+  ];
+
+  if (mode === "alongside") {
+    extensions.push(
+      EditorView.editorAttributes.of({ class: DIAGNOSTICS_ALONGSIDE_CLASS }),
+      linter(null, { tooltipFilter: withoutValeDiagnostics }),
+    );
+  } else {
+    extensions.push(
+      EditorView.editorAttributes.of({ class: DIAGNOSTICS_ONLY_CLASS }),
+    );
+  }
+  return extensions;
+}
@@ -0,0 +1,261 @@
+/**
+ * Quick fixes for Vale alerts.
+ *
+ * Vale describes how to fix an alert in its `Action` field. This module turns
+ * that description into concrete replacements for the alert's text, and
+ * applies them to the editor.
+ *
+ * @module quickFix
+ */
+
+import { EditorView } from "@codemirror/view";
+import type { ValeAlert } from "../types";
+import { generateAlertId } from "./decorations";
+import { clearValeMarksInRange } from "./effects";
+import { isValeMarkOf, valeStateField } from "./stateField";
+
+/**
+ * A fix for an alert: replaces the alert's text with `replacement`.
+ *
+ * @public
+ */
+export interface QuickFix {
+  /** Short description of the fix, for menus and buttons */
+  title: string;
+  /** Text that replaces the alert's matched text, empty to remove it */
+  replacement: string;
+  /**
+   * Set when the replacement is picked from the suggestions Vale computes
+   * for the alert, with {@link suggestionFixes}. `replacement` is empty
+   * until then.
+   */
+  pick?: boolean;
+}
+
+// Whether Vale can compute the replacements of suggest and convert actions.
+let suggestionsAvailable = true;
+
+/**
+ * Sets whether the installed Vale can compute suggestions.
+ *
+ * @param available - false if Vale lacks `vale fix`, which hides the
+ * "Show suggestions…" fix of suggest and convert actions
+ *
+ * @public
+ */
+export function setSuggestionsAvailable(available: boolean): void {
+  suggestionsAvailable = available;
+}
+
+/**
+ * Returns the fixes Vale suggests for an alert.
+ *
+ * Supports the `replace`, `remove` and `edit` actions. The `suggest` and
+ * `convert` actions need Vale to compute the result, which the JSON output
+ * doesn't include, so they get a single fix with `pick` set: its
+ * replacement is chosen from the suggestions of `vale fix`. They get none
+ * when {@link setSuggestionsAvailable} says Vale can't compute them.
+ *
+ * @param alert - The alert to fix
+ * @returns The fixes, one per suggested replacement. Empty if there are none.
+ *
+ * @example
+ * ```typescript
+ * getQuickFixes({
+ *   ...alert,
+ *   Match: "utilize",
+ *   Action: { Name: "replace", Params: ["use"] },
+ * });
+ * // Returns: [{ title: 'Replace with "use"', replacement: "use" }]
+ * ```
+ *
+ * @public
+ */
+export function getQuickFixes(alert: ValeAlert): QuickFix[] {
+  const { Name, Params } = alert.Action ?? { Name: "", Params: [] };
+  const params = Params ?? [];
+
+  switch (Name) {
+    case "replace":
+      return suggestionFixes(alert, params);
+    case "suggest":
+    case "convert":
+      return suggestionsAvailable
+        ? [{ title: "Show suggestions…", replacement: "", pick: true }]
+        : [];
+    case "remove":
+      return [removeFix(alert)];
+    case "edit": {
+      const replacement = applyEdit(alert.Match, params);
+      if (replacement === null || replacement === alert.Match) {
+        return [];
+      }
+      return [
+        replacement
+          ? { title: `Change to "${replacement}"`, replacement }
+          : removeFix(alert),
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Returns one fix per replacement suggested for an alert.
+ *
+ * @param alert - The alert to fix
+ * @param suggestions - Replacements for the alert's matched text, such as
+ * the params of a `replace` action or the output of `vale fix`
+ * @returns The fixes, without duplicates or the matched text itself
+ *
+ * @example
+ * ```typescript
+ * suggestionFixes({ ...alert, Match: "teh" }, ["the", "ten"]);
+ * // Returns: [
+ * //   { title: 'Replace with "the"', replacement: "the" },
+ * //   { title: 'Replace with "ten"', replacement: "ten" },
+ * // ]
+ * ```
+ *
+ * @public
+ */
+export function suggestionFixes(
+  alert: ValeAlert,
+  suggestions: string[],
+): QuickFix[] {
+  return unique(suggestions)
+    .filter((suggestion) => suggestion !== alert.Match)
+    .map((suggestion) =>
+      suggestion
+        ? { title: `Replace with "${suggestion}"`, replacement: suggestion }
+        : removeFix(alert),
+    );
+}
+
+/**
+ * Applies a fix to the text of an alert in the editor.
+ *
+ * The change is dispatched as a single transaction, so it can be undone in
+ * one step. The alert's underline is removed.
+ *
+ * @param view - The editor the alert is shown in
+ * @param alert - The alert to fix
+ * @param fix - The fix to apply, from {@link getQuickFixes}
+ * @returns `false` if the alert is no longer underlined, e.g. because its
+ * text has been edited since the check, or if the fix's replacement has yet
+ * to be picked
+ *
+ * @public
+ */
+export function applyQuickFix(
+  view: EditorView,
+  alert: ValeAlert,
+  fix: QuickFix,
+): boolean {
+  const range = fix.pick ? null : findAlertRange(view, alert);
+  if (!range) {
+    return false;
+  }
+
+  const end = range.from + fix.replacement.length;
+  view.dispatch({
+    changes: { ...range, insert: fix.replacement },
+    effects: clearValeMarksInRange.of({ from: range.from, to: end }),
+    selection: { anchor: end },
+    userEvent: "input.vale-fix",
+  });
+  return true;
+}
+
+/**
+ * Returns the current range of the underline for an alert.
+ *
+ * @param view - The editor the alert is shown in
+ * @param alert - The alert to find
+ * @returns The range, or `null` if the alert isn't underlined
+ *
+ * @public
+ */
+export function findAlertRange(
+  view: EditorView,
+  alert: ValeAlert,
+): { from: number; to: number } | null {
+  const decorations = view.state.field(valeStateField, false);
+  if (!decorations) {
+    return null;
+  }
+
+  const alertId = generateAlertId(alert);
+  let range: { from: number; to: number } | null = null;
+  const doc = view.state.doc;
+  decorations.between(0, doc.length, (from, to, value) => {
+    if (isValeMarkOf(doc, from, to, value, alertId)) {
+      range = { from, to };
+      return false;
+    }
+  });
+  return range;
+}
+
+function removeFix(alert: ValeAlert): QuickFix {
+  return { title: `Remove "${alert.Match}"`, replacement: "" };
+}
+
+// applyEdit performs Vale's edit action on the matched text, or returns null
+// if the edit isn't supported.
+function applyEdit(match: string, params: string[]): string | null {
+  const [kind, ...args] = params;
+
+  switch (kind) {
+    case "regex": {
+      const [pattern, replacement = ""] = args;
+      if (!pattern) {
+        return null;
+      }
+      try {
+        // Vale uses Go's $1 syntax for groups, which JavaScript shares.
+        return match.replace(new RegExp(pattern), replacement);
+      } catch {
+        return null;
+      }
+    }
+    case "trim":
+      return trimLeft(trimRight(match, args[0] ?? " "), args[0] ?? " ");
+    case "trim_left":
+      return trimLeft(match, args[0] ?? " ");
+    case "trim_right":
+      return trimRight(match, args[0] ?? " ");
+    case "truncate": {
+      const separator = args[0] ?? " ";
+      const index = match.indexOf(separator);
+      return index === -1 ? match : match.slice(0, index);
+    }
+    case "split": {
+      const [separator = " ", position = "0"] = args;
+      return match.split(separator)[Number(position)] ?? null;
+    }
+    default:
+      return null;
+  }
+}
+
+function trimLeft(text: string, cutset: string): string {
+  let start = 0;
+  while (start < text.length && cutset.includes(text[start])) {
+    start++;
+  }
+  return text.slice(start);
+}
+
+function trimRight(text: string, cutset: string): string {
+  let end = text.length;
+  while (end > 0 && cutset.includes(text[end - 1])) {
+    end--;
+  }
+  return text.slice(0, end);
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
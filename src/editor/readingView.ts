@@ -0,0 +1,310 @@
+/**
+ * Vale alerts in Reading view.
+ *
+ * Reading view renders notes to HTML without CodeMirror, so the decorations of
+ * {@link valeExtension} don't show there. This module finds the text of each
+ * alert in the rendered sections of a note and wraps it in the same
+ * underline classes, with the same tooltip as the editor.
+ *
+ * @module readingView
+ */
+
+import {
+  MarkdownRenderChild,
+  type MarkdownPostProcessor,
+  type MarkdownPostProcessorContext,
+  type MarkdownSectionInformation,
+} from "obsidian";
+import { ValeAlert } from "../types";
+import { byteToIndex } from "../vale/preprocess";
+import { generateAlertId } from "./decorations";
+import { createTooltipContent } from "./tooltip";
+
+/**
+ * Delay before the tooltip of an underline shows, matching the editor.
+ *
+ * @internal
+ */
+const HOVER_DELAY_MS = 300;
+
+/**
+ * Delay before the tooltip hides, so that the pointer can move onto it.
+ *
+ * @internal
+ */
+const HIDE_DELAY_MS = 100;
+
+/**
+ * Configuration of the Reading view post-processor.
+ *
+ * @public
+ */
+export interface ReadingViewConfig {
+  /**
+   * Returns the alerts to show in a note.
+   *
+   * @param sourcePath - Path of the rendered note
+   * @returns The alerts, with lines that match the note's current text
+   */
+  getAlerts: (sourcePath: string) => ValeAlert[];
+
+  /**
+   * Called when an underline is clicked, to open the alert in the editor.
+   *
+   * @param sourcePath - Path of the rendered note
+   * @param alert - The alert that was clicked
+   */
+  onAlertClick?: (sourcePath: string, alert: ValeAlert) => void;
+}
+
+/**
+ * A range of an element's rendered text that belongs to an alert.
+ *
+ * @internal
+ */
+interface RenderedRange {
+  alert: ValeAlert;
+  from: number;
+  to: number;
+}
+
+/**
+ * Creates a Markdown post-processor that underlines alerts in Reading view.
+ *
+ * @param config - Where the alerts come from and what a click does
+ * @returns A post-processor to pass to `registerMarkdownPostProcessor`
+ *
+ * @example
+ * ```typescript
+ * this.registerMarkdownPostProcessor(
+ *   valeReadingViewProcessor({
+ *     getAlerts: (path) => alertsByPath.get(path) ?? [],
+ *   }),
+ * );
+ * ```
+ *
+ * @remarks
+ * - Alerts are matched to the rendered text by their matched text and its
+ *   occurrence within the section, since Markdown syntax isn't rendered
+ * - Alerts in text that isn't rendered, such as link targets, are skipped
+ * - Sections without source information, such as exports, are left alone
+ * - Tooltips are removed when their section is unloaded, such as when the
+ *   note is closed or re-rendered while a tooltip shows
+ *
+ * @public
+ */
+export function valeReadingViewProcessor(
+  config: ReadingViewConfig,
+): MarkdownPostProcessor {
+  return (el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
+    const alerts = config.getAlerts(ctx.sourcePath);
+    if (!alerts.length) {
+      return;
+    }
+
+    const section = ctx.getSectionInfo(el);
+    if (!section) {
+      return;
+    }
+
+    const child = new MarkdownRenderChild(el);
+    for (const { alert, marks } of markAlertsInSection(el, section, alerts)) {
+      for (const mark of marks) {
+        child.register(attachTooltip(mark, alert));
+        mark.addEventListener("click", () => {
+          config.onAlertClick?.(ctx.sourcePath, alert);
+        });
+      }
+    }
+    ctx.addChild(child);
+  };
+}
+
+/**
+ * Wraps the rendered text of the alerts in a section in underline elements.
+ *
+ * @param el - The rendered section
+ * @param section - Source information of the section
+ * @param alerts - The alerts of the whole note
+ * @returns The underline elements of each alert that was found
+ *
+ * @remarks
+ * Text that spans several elements, such as a match that is partly bold, gets
+ * one underline element per text node.
+ *
+ * @internal
+ */
+export function markAlertsInSection(
+  el: HTMLElement,
+  section: MarkdownSectionInformation,
+  alerts: ValeAlert[],
+): Array<{ alert: ValeAlert; marks: HTMLElement[] }> {
+  const lines = section.text.split("\n").map((line) => line.replace(/\r$/, ""));
+  const source = lines.slice(section.lineStart, section.lineEnd + 1);
+  const sourceText = source.join("\n");
+  const renderedText = el.textContent ?? "";
+
+  const ranges: RenderedRange[] = [];
+  for (const alert of alerts) {
+    const lineIndex = alert.Line - 1 - section.lineStart;
+    const line = source[lineIndex];
+    if (line === undefined) {
+      continue;
+    }
+
+    const from = byteToIndex(line, alert.Span[0] - 1);
+    const to = byteToIndex(line, alert.Span[1]);
+    const match = line.slice(from, to);
+    if (!match.trim()) {
+      continue;
+    }
+
+    // Find the same occurrence of the matched text in the rendered text.
+    const lineOffset = source
+      .slice(0, lineIndex)
+      .reduce((offset, text) => offset + text.length + 1, 0);
+    const occurrence = countOccurrences(sourceText, match, lineOffset + from);
+    const renderedFrom = nthIndexOf(renderedText, match, occurrence);
+    if (renderedFrom >= 0) {
+      ranges.push({
+        alert,
+        from: renderedFrom,
+        to: renderedFrom + match.length,
+      });
+    }
+  }
+
+  // Overlapping underlines would nest, so only the first one is kept.
+  ranges.sort((a, b) => a.from - b.from);
+  const marked: Array<{ alert: ValeAlert; marks: HTMLElement[] }> = [];
+  let end = 0;
+  for (const range of ranges) {
+    if (range.from < end) {
+      continue;
+    }
+    end = range.to;
+    marked.push({ alert: range.alert, marks: wrapRange(el, range) });
+  }
+  return marked;
+}
+
+/**
+ * Counts the occurrences of a text that start before an offset.
+ *
+ * @internal
+ */
+function countOccurrences(text: string, search: string, before: number) {
+  let count = 0;
+  let index = text.indexOf(search);
+  while (index >= 0 && index < before) {
+    count++;
+    index = text.indexOf(search, index + search.length);
+  }
+  return count;
+}
+
+/**
+ * Returns the index of the nth (0-based) occurrence of a text, or -1.
+ *
+ * @internal
+ */
+function nthIndexOf(text: string, search: string, n: number): number {
+  let index = text.indexOf(search);
+  for (let i = 0; i < n && index >= 0; i++) {
+    index = text.indexOf(search, index + search.length);
+  }
+  return index;
+}
+
+/**
+ * Wraps a range of an element's text in underline elements.
+ *
+ * @internal
+ */
+function wrapRange(el: HTMLElement, range: RenderedRange): HTMLElement[] {
+  const severity = range.alert.Severity.toLowerCase();
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  const nodes: Array<{ node: Text; from: number; to: number }> = [];
+
+  let offset = 0;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node as Text;
+    const nodeEnd = offset + text.length;
+    if (nodeEnd > range.from && offset < range.to) {
+      nodes.push({
+        node: text,
+        from: Math.max(range.from - offset, 0),
+        to: Math.min(range.to - offset, text.length),
+      });
+    }
+    offset = nodeEnd;
+  }
+
+  return nodes.map(({ node, from, to }) => {
+    const target = node.splitText(from);
+    target.splitText(to - from);
+
+    const mark = document.createElement("span");
+    mark.className = `vale-underline vale-${severity}`;
+    mark.setAttribute("data-alert-id", generateAlertId(range.alert));
+    mark.setAttribute("data-check", range.alert.Check);
+    mark.setAttribute("data-severity", severity);
+    target.replaceWith(mark);
+    mark.appendChild(target);
+    return mark;
+  });
+}
+
+/**
+ * Shows the tooltip of an alert while the pointer is over its underline.
+ *
+ * @returns A function that removes the tooltip and cancels a pending one,
+ * for when the underline is unloaded
+ *
+ * @internal
+ */
+function attachTooltip(mark: HTMLElement, alert: ValeAlert): () => void {
+  let tooltip: HTMLElement | null = null;
+  let timer: number | undefined;
+
+  const hide = () => {
+    tooltip?.remove();
+    tooltip = null;
+  };
+
+  const scheduleHide = () => {
+    window.clearTimeout(timer);
+    timer = window.setTimeout(hide, HIDE_DELAY_MS);
+  };
+
+  const show = () => {
+    if (tooltip) {
+      return;
+    }
+    const rect = mark.getBoundingClientRect();
+    tooltip = createTooltipContent(alert);
+    tooltip.classList.add("vale-reading-tooltip");
+    tooltip.setCssProps({
+      left: `${rect.left}px`,
+      top: `${rect.bottom + 4}px`,
+    });
+    tooltip.addEventListener("mouseenter", () => window.clearTimeout(timer));
+    tooltip.addEventListener("mouseleave", scheduleHide);
+    document.body.appendChild(tooltip);
+  };
+
+  mark.addEventListener("mouseenter", () => {
+    window.clearTimeout(timer);
+    timer = window.setTimeout(show, HOVER_DELAY_MS);
+  });
+  mark.addEventListener("mouseleave", scheduleHide);
+  mark.addEventListener("click", () => {
+    window.clearTimeout(timer);
+    hide();
+  });
+
+  return () => {
+    window.clearTimeout(timer);
+    hide();
+  };
+}
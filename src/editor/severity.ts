@@ -0,0 +1,45 @@
+/**
+ * Severity levels of Vale alerts in the editor.
+ *
+ * @module severity
+ */
+
+import { SeverityLevel } from "../components/icons/severityGlyphs";
+import { ValeAlert } from "../types";
+
+/**
+ * Severities from least to most severe.
+ *
+ * @internal
+ */
+const SEVERITY_ORDER: SeverityLevel[] = ["suggestion", "warning", "error"];
+
+/**
+ * Returns the severity level of an alert, treating unknown ones as
+ * suggestions.
+ *
+ * @param alert - The Vale alert
+ * @returns The alert's severity level
+ *
+ * @public
+ */
+export function severityOf(alert: ValeAlert): SeverityLevel {
+  const severity = alert.Severity.toLowerCase() as SeverityLevel;
+  return SEVERITY_ORDER.includes(severity) ? severity : "suggestion";
+}
+
+/**
+ * Returns whether a severity is worse than another one.
+ *
+ * @param severity - The severity to compare
+ * @param other - The severity to compare with
+ * @returns True if `severity` is more severe than `other`
+ *
+ * @public
+ */
+export function isMoreSevere(
+  severity: SeverityLevel,
+  other: SeverityLevel,
+): boolean {
+  return SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(other);
+}
@@ -8,12 +8,13 @@
  * @module stateField
  */
 
-import { StateField, Transaction, EditorState } from "@codemirror/state";
+import { StateField, Transaction, EditorState, Text } from "@codemirror/state";
 import { Decoration, DecorationSet, EditorView } from "@codemirror/view";
 import {
   addValeMarks,
   clearAllValeMarks,
   clearValeMarksInRange,
+  clearValeMarksForCheck,
   selectValeAlert,
   highlightValeAlert,
 } from "./effects";
@@ -22,45 +23,189 @@ import {
   createSelectionDecoration,
   createHighlightDecoration,
   generateAlertId,
+  getAlertFromDecoration,
+  getAlertIdFromDecoration,
 } from "./decorations";
 import { ValeAlert } from "../types";
+import { indexToByte } from "../vale/preprocess";
 import { getDecorationAttribute } from "./decorationUtils";
 
 /**
- * Map to store Vale alerts by their IDs for quick lookup.
+ * Returns an alert with its line and span derived from the range of its
+ * underline.
  *
- * This map maintains the relationship between alert IDs (stored in decoration
- * attributes) and the full ValeAlert objects. It enables features like tooltips
- * and context menus that need alert details when the user interacts with a
- * decoration.
+ * @param doc - The document the alert is underlined in
+ * @param from - Start of the underline
+ * @param to - End of the underline
+ * @param alert - The alert the underline was created for
+ * @returns The alert, or a copy of it if the underline has moved
  *
- * **Why Module-Level (Shared Across All Editor Instances)**:
- * - CodeMirror StateFields are per-editor, but alert data needs to be accessible
- *   from non-StateField contexts (e.g., tooltip hover handlers, event handlers)
- * - Module-level scope provides a centralized lookup mechanism that any part of
- *   the extension can access via the alert ID stored in decoration attributes
- * - In practice, Obsidian typically has one active markdown editor at a time,
- *   so cross-editor pollution is not a concern in normal usage
+ * @internal
+ */
+export function alertAtRange(
+  doc: Text,
+  from: number,
+  to: number,
+  alert: ValeAlert,
+): ValeAlert {
+  const line = doc.lineAt(from);
+  // Span is 1-based and inclusive, in UTF-8 bytes of the line.
+  const span: [number, number] = [
+    indexToByte(line.text, from - line.from) + 1,
+    indexToByte(line.text, Math.min(to, line.to) - line.from),
+  ];
+  return line.number === alert.Line &&
+    span[0] === alert.Span[0] &&
+    span[1] === alert.Span[1]
+    ? alert
+    : { ...alert, Line: line.number, Span: span };
+}
+
+/**
+ * Checks whether a Vale mark decoration underlines an alert.
  *
- * **Cleanup Mechanism**:
- * - `clearAllValeMarks` effect: Calls `valeAlertMap.clear()` to remove all entries
- *   (line 266)
- * - `clearValeMarksInRange` effect: Deletes specific alert IDs when decorations
- *   in a range are removed (lines 284-286)
- * - Document edit overlap: Deletes alert IDs when decorations are removed due to
- *   text changes (lines 375-378)
- * - This ensures the map stays synchronized with active decorations and prevents
- *   memory leaks
+ * @param doc - The document the decoration is in
+ * @param from - Start of the decoration
+ * @param to - End of the decoration
+ * @param value - The decoration
+ * @param alertId - ID of the alert, from {@link generateAlertId}
+ * @returns Whether the ID is the one the mark was created with, or the one of
+ * the alert where the mark is now
  *
- * **Considerations**:
- * - If multiple editor instances exist simultaneously, they share the same map
- * - Alert IDs are generated from file path + line + span, making collisions unlikely
- * - Map is cleared when all Vale marks are cleared, preventing unbounded growth
- * - Size is bounded by number of active Vale alerts across all editors (~100s typically)
+ * @remarks
+ * Alerts from {@link getValeAlerts} have the lines and spans of the marks
+ * after edits, so their IDs differ from the ones the marks were created with.
  *
  * @internal
  */
-export const valeAlertMap = new Map<string, ValeAlert>();
+export function isValeMarkOf(
+  doc: Text,
+  from: number,
+  to: number,
+  value: Decoration,
+  alertId: string,
+): boolean {
+  const alert = getAlertFromDecoration(value);
+  return (
+    alert !== undefined &&
+    (getAlertIdFromDecoration(value) === alertId ||
+      generateAlertId(alertAtRange(doc, from, to, alert)) === alertId)
+  );
+}
+
+/**
+ * Finds the Vale mark decoration of an alert.
+ *
+ * @param decorations - The decorations of an editor
+ * @param doc - The document of the editor
+ * @param alertId - ID of the alert, from {@link generateAlertId}
+ * @returns The alert and its current range, or null if it isn't underlined
+ *
+ * @internal
+ */
+function findValeMark(
+  decorations: DecorationSet,
+  doc: Text,
+  alertId: string,
+): { alert: ValeAlert; from: number; to: number } | null {
+  let found: { alert: ValeAlert; from: number; to: number } | null = null;
+  decorations.between(0, doc.length, (from, to, value) => {
+    const alert = getAlertFromDecoration(value);
+    if (alert && isValeMarkOf(doc, from, to, value, alertId)) {
+      found = { alert, from, to };
+      return false;
+    }
+  });
+  return found;
+}
+
+/**
+ * Returns an alert underlined in an editor.
+ *
+ * Each editor keeps the alerts it shows in its own state, so split panes and
+ * several open notes don't overwrite each other's alerts.
+ *
+ * @param state - The state of the editor
+ * @param alertId - ID of the alert, from {@link generateAlertId}
+ * @returns The alert, or undefined if the editor doesn't underline it
+ *
+ * @public
+ */
+export function getValeAlert(
+  state: EditorState,
+  alertId: string,
+): ValeAlert | undefined {
+  const decorations = state.field(valeStateField, false);
+  return decorations
+    ? findValeMark(decorations, state.doc, alertId)?.alert
+    : undefined;
+}
+
+/**
+ * Returns all alerts underlined in an editor, in document order.
+ *
+ * @param state - The state of the editor
+ * @returns The alerts, with their lines and spans updated to where the
+ * underlines are now
+ *
+ * @remarks
+ * Edits move the underlines but not the alerts behind them, so an alert's
+ * Line and Span are derived again from the range of its underline. Alerts
+ * that haven't moved are returned as they are.
+ *
+ * @public
+ */
+export function getValeAlerts(state: EditorState): ValeAlert[] {
+  const alerts: ValeAlert[] = [];
+  state
+    .field(valeStateField, false)
+    ?.between(0, state.doc.length, (from, to, value) => {
+      const alert = getAlertFromDecoration(value);
+      if (alert) {
+        alerts.push(alertAtRange(state.doc, from, to, alert));
+      }
+    });
+  return alerts;
+}
+
+/**
+ * Finds the alert after or before a position, for moving between alerts.
+ *
+ * @param state - The state of the editor
+ * @param pos - The position to start from, usually the cursor
+ * @param direction - Whether to find the next or the previous alert
+ * @param filter - Optional test an alert must pass, e.g. to only find errors
+ * @returns The alert and its current range, or null if there is none
+ *
+ * @remarks
+ * - The next alert starts after `pos`, the previous one before it, so that
+ *   repeated calls with the cursor at the start of an alert move on
+ * - Wraps around at the end and the start of the document
+ *
+ * @public
+ */
+export function findAdjacentValeAlert(
+  state: EditorState,
+  pos: number,
+  direction: "next" | "previous",
+  filter: (alert: ValeAlert) => boolean = () => true,
+): { alert: ValeAlert; from: number; to: number } | null {
+  const marks: Array<{ alert: ValeAlert; from: number; to: number }> = [];
+  state
+    .field(valeStateField, false)
+    ?.between(0, state.doc.length, (from, to, value) => {
+      const alert = getAlertFromDecoration(value);
+      if (alert && filter(alert)) {
+        marks.push({ alert, from, to });
+      }
+    });
+
+  if (direction === "next") {
+    return marks.find((mark) => mark.from > pos) ?? marks[0] ?? null;
+  }
+  const before = marks.filter((mark) => mark.from < pos);
+  return before[before.length - 1] ?? marks[marks.length - 1] ?? null;
+}
 
 /**
  * Converts a Vale alert's Line and Span to document offsets.
@@ -233,10 +378,6 @@ export const valeStateField = StateField.define<DecorationSet>({
               continue;
             }
 
-            // Store alert in map for lookup
-            const alertId = generateAlertId(alert);
-            valeAlertMap.set(alertId, alert);
-
             // Create decoration
             const deco = createValeMarkDecoration(alert);
             newDecorations.push({ from, to, deco });
@@ -259,7 +400,6 @@ export const valeStateField = StateField.define<DecorationSet>({
       // Clear all Vale decorations
       if (effect.is(clearAllValeMarks)) {
         decorations = Decoration.none;
-        valeAlertMap.clear();
       }
 
       // Clear decorations in a specific range
@@ -267,40 +407,37 @@ export const valeStateField = StateField.define<DecorationSet>({
         const { from, to } = effect.value;
 
         decorations = decorations.update({
-          filter: (decorFrom, decorTo, value) => {
-            // Keep decorations that don't overlap with the range
-            const overlaps = !(decorTo <= from || decorFrom >= to);
-
-            // If decoration overlaps, remove its alert from the map
-            if (overlaps) {
-              const alertId = getDecorationAttribute(
-                value.spec,
-                "data-alert-id",
-              );
-              if (alertId) {
-                valeAlertMap.delete(alertId);
-              }
-            }
+          // Keep decorations that don't overlap with the range
+          filter: (decorFrom, decorTo) => decorTo <= from || decorFrom >= to,
+        });
+      }
+
+      // Clear decorations of one check in a specific range
+      if (effect.is(clearValeMarksForCheck)) {
+        const { check, from, to } = effect.value;
 
-            return !overlaps;
-          },
+        decorations = decorations.update({
+          filterFrom: from,
+          filterTo: to,
+          filter: (_from, _to, value) =>
+            getDecorationAttribute(value.spec, "data-check") !== check,
         });
       }
 
       // Select a specific alert (add selection decoration)
       if (effect.is(selectValeAlert)) {
         const alertId = effect.value;
-        const alert = valeAlertMap.get(alertId);
+        const mark = findValeMark(decorations, tr.newDoc, alertId);
 
-        if (!alert) {
+        if (!mark) {
           console.warn(
-            `[Vale] selectValeAlert: Alert not found in valeAlertMap. ` +
-              `alertId="${alertId}", map size=${valeAlertMap.size}. ` +
+            `[Vale] selectValeAlert: Alert not found in this editor. ` +
+              `alertId="${alertId}". ` +
               `This may indicate the alert was created in a different editor.`,
           );
         }
 
-        if (alert) {
+        if (mark) {
           // Remove previous selection decorations
           decorations = decorations.update({
             filter: (from, to, value) =>
@@ -310,7 +447,7 @@ export const valeStateField = StateField.define<DecorationSet>({
 
           // Add new selection decoration
           try {
-            const { from, to } = alertToOffsets(tr.state, alert);
+            const { from, to } = mark;
             const selectionDeco = createSelectionDecoration();
             decorations = decorations.update({
               add: [selectionDeco.range(from, to)],
@@ -334,10 +471,10 @@ export const valeStateField = StateField.define<DecorationSet>({
 
         // Add new highlight decoration if alertId is not empty
         if (alertId) {
-          const alert = valeAlertMap.get(alertId);
-          if (alert) {
+          const mark = findValeMark(decorations, tr.newDoc, alertId);
+          if (mark) {
             try {
-              const { from, to } = alertToOffsets(tr.state, alert);
+              const { from, to } = mark;
               const highlightDeco = createHighlightDecoration();
               decorations = decorations.update({
                 add: [highlightDeco.range(from, to)],
@@ -370,19 +507,7 @@ export const valeStateField = StateField.define<DecorationSet>({
           }
 
           // Remove Vale mark decorations overlapping with selection
-          const overlapsWithSelection = !(
-            to <= selection.from || from >= selection.to
-          );
-
-          // If decoration is being removed, clean up the alert map
-          if (overlapsWithSelection) {
-            const alertId = getDecorationAttribute(value.spec, "data-alert-id");
-            if (alertId) {
-              valeAlertMap.delete(alertId);
-            }
-          }
-
-          return !overlapsWithSelection;
+          return to <= selection.from || from >= selection.to;
         },
       });
     }
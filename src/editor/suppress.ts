@@ -0,0 +1,79 @@
+/**
+ * Ignoring a Vale check in part of a note.
+ *
+ * Vale skips a check between `<!-- vale Style.Rule = NO -->` and
+ * `<!-- vale Style.Rule = YES -->` comments. This module wraps the block an
+ * alert is in with those comments.
+ *
+ * @module suppress
+ */
+
+import { EditorView } from "@codemirror/view";
+import type { ValeAlert } from "../types";
+import { clearValeMarksForCheck } from "./effects";
+import { splitIntoBlocks, TextBlock } from "./incremental";
+import { findAlertRange } from "./quickFix";
+
+// Blockquote and indentation markers that the comments must repeat to stay
+// inside the block.
+const PREFIX_PATTERN = /^[ \t>]*/;
+
+/**
+ * Tells Vale to ignore an alert's check in the block the alert is in, such as
+ * a paragraph or a list.
+ *
+ * The comments are inserted in a single transaction, so the change can be
+ * undone in one step. Underlines of the same check in the block are removed.
+ *
+ * @param view - The editor the alert is shown in
+ * @param alert - The alert to ignore
+ * @returns The block that was wrapped, as it was before the change, or `null`
+ * if the alert is no longer underlined
+ *
+ * @example
+ * ```typescript
+ * // "Some text." becomes:
+ * // <!-- vale Vale.Spelling = NO -->
+ * // Some text.
+ * // <!-- vale Vale.Spelling = YES -->
+ * ignoreAlertHere(view, alert);
+ * ```
+ *
+ * @public
+ */
+export function ignoreAlertHere(
+  view: EditorView,
+  alert: ValeAlert,
+): TextBlock | null {
+  const range = findAlertRange(view, alert);
+  if (!range) {
+    return null;
+  }
+
+  const doc = view.state.doc;
+  const block = splitIntoBlocks(doc).find(
+    ({ from, to }) => from <= range.from && range.from <= to,
+  );
+  if (!block) {
+    return null;
+  }
+
+  const firstPrefix = PREFIX_PATTERN.exec(doc.line(block.fromLine).text)?.[0];
+  const lastPrefix = PREFIX_PATTERN.exec(doc.line(block.toLine).text)?.[0];
+  const opening = `${firstPrefix ?? ""}<!-- vale ${alert.Check} = NO -->\n`;
+  const closing = `\n${lastPrefix ?? ""}<!-- vale ${alert.Check} = YES -->`;
+
+  view.dispatch({
+    changes: [
+      { from: block.from, insert: opening },
+      { from: block.to, insert: closing },
+    ],
+    effects: clearValeMarksForCheck.of({
+      check: alert.Check,
+      from: block.from,
+      to: block.to + opening.length + closing.length,
+    }),
+    userEvent: "input.vale-ignore",
+  });
+  return block;
+}
@@ -12,8 +12,30 @@ import { EditorView } from "@codemirror/view";
 import { hoverTooltip, Tooltip } from "@codemirror/view";
 import type { Extension } from "@codemirror/state";
 import type { ValeAlert } from "../types";
-import { valeStateField, valeAlertMap } from "./stateField";
-import { getDecorationAttribute } from "./decorationUtils";
+import { isSpellingAlert } from "../utils/alerts";
+import { valeStateField } from "./stateField";
+import { generateAlertId, getAlertFromDecoration } from "./decorations";
+import { dispatchAlertDismiss } from "./eventHandlers";
+import { applyQuickFix, getQuickFixes, QuickFix } from "./quickFix";
+import { ignoreAlertHere } from "./suppress";
+
+/**
+ * Called when the user picks a quick fix for an alert.
+ *
+ * @public
+ */
+export type QuickFixHandler = (
+  view: EditorView,
+  alert: ValeAlert,
+  fix: QuickFix,
+) => void;
+
+/**
+ * Called when the user picks an action for an alert.
+ *
+ * @public
+ */
+export type AlertActionHandler = (view: EditorView, alert: ValeAlert) => void;
 
 /**
  * Configuration options for Vale hover tooltips.
@@ -32,14 +54,62 @@ export interface ValeTooltipConfig {
    * @defaultValue true
    */
   enabled?: boolean;
+
+  /**
+   * Applies a quick fix picked in the tooltip.
+   * @defaultValue Applies the fix with {@link applyQuickFix}
+   */
+  onFix?: QuickFixHandler;
+
+  /**
+   * Adds the matched word of a spelling alert to a vocabulary.
+   * When omitted, the tooltip doesn't offer it.
+   */
+  onAddToVocabulary?: AlertActionHandler;
+
+  /**
+   * Dismisses the alert, so that it stays hidden in later checks.
+   * @defaultValue Dispatches a "vale-alert-dismiss" event
+   */
+  onDismiss?: AlertActionHandler;
+
+  /**
+   * Ignores the alert's check in the block the alert is in.
+   * @defaultValue Wraps the block with {@link ignoreAlertHere}
+   */
+  onIgnoreHere?: AlertActionHandler;
+
+  /**
+   * Ignores the alert's check in the whole note.
+   * When omitted, the tooltip doesn't offer it.
+   */
+  onIgnoreInNote?: AlertActionHandler;
+}
+
+/**
+ * Actions offered in a tooltip. Each button is only shown if its handler is
+ * given.
+ *
+ * @public
+ */
+export interface TooltipActions {
+  /** Called with the quick fix the user picks */
+  onFix?: (fix: QuickFix) => void;
+  /** Called when the user adds a spelling alert's word to a vocabulary */
+  onAddToVocabulary?: () => void;
+  /** Called when the user dismisses the alert */
+  onDismiss?: () => void;
+  /** Called when the user ignores the alert's check in its block */
+  onIgnoreHere?: () => void;
+  /** Called when the user ignores the alert's check in the whole note */
+  onIgnoreInNote?: () => void;
 }
 
 /**
  * Find Vale alert at the given position in the editor.
  *
  * This function queries the valeStateField to find decorations at the specified
- * position, extracts the alert ID from the decoration attributes, and looks up
- * the full ValeAlert object in the valeAlertMap.
+ * position, and returns the ValeAlert kept in the first underline there.
  *
  * @param view - CodeMirror EditorView instance
  * @param pos - Document position to check (character offset)
@@ -56,7 +126,7 @@ export interface ValeTooltipConfig {
  * @remarks
  * - Returns the first alert found if multiple alerts exist at the position
  * - Gracefully handles cases where state field or decorations don't exist
- * - Uses decoration attributes to link decorations to alert data
+ * - Only finds alerts underlined in this editor
  *
  * @public
  */
@@ -79,23 +149,18 @@ export function getAlertAtPosition(
   }
 
   // Find decorations at this position
-  let foundAlertId: string | null = null;
+  let foundAlert: ValeAlert | null = null;
 
   decorations.between(pos, pos, (from, to, value) => {
-    // Extract alert ID from decoration attributes
-    const alertId = getDecorationAttribute(value.spec, "data-alert-id");
-    if (alertId) {
-      foundAlertId = alertId;
+    // Only Vale marks hold an alert, not selections and highlights
+    const alert = getAlertFromDecoration(value);
+    if (alert) {
+      foundAlert = alert;
       return false; // Stop iteration
     }
   });
 
-  if (!foundAlertId) {
-    return null;
-  }
-
-  // Lookup alert data in map
-  return valeAlertMap.get(foundAlertId) ?? null;
+  return foundAlert;
 }
 
 /**
@@ -106,6 +171,7 @@ export function getAlertAtPosition(
  * All user-provided content is safely inserted using textContent to prevent XSS.
  *
  * @param alert - Vale alert to display
+ * @param actions - Handlers for the actions the tooltip offers
  * @returns HTMLElement containing tooltip content
  *
  * @example
@@ -131,12 +197,21 @@ export function getAlertAtPosition(
  * - Message: Alert description
  * - Match: Matched text (if available)
  * - Link: Documentation URL (if available, opens in new tab)
+ * - Actions: One button per quick fix, one to add a misspelled word to a
+ *   vocabulary, and ones to ignore the check (if available, and the handler
+ *   is given)
  *
  * **Styling**: CSS classes follow the pattern `vale-tooltip__*` for styling via styles.css
  *
  * @public
  */
-export function createTooltipContent(alert: ValeAlert): HTMLElement {
+export function createTooltipContent(
+  alert: ValeAlert,
+  actions: TooltipActions = {},
+): HTMLElement {
+  const { onFix, onAddToVocabulary, onDismiss, onIgnoreHere, onIgnoreInNote } =
+    actions;
+
   const container = document.createElement("div");
   container.className = "vale-tooltip";
 
@@ -181,6 +256,44 @@ export function createTooltipContent(alert: ValeAlert): HTMLElement {
     container.appendChild(link);
   }
 
+  // Quick fixes, vocabulary, dismissing and ignoring (if available)
+  const buttons: HTMLButtonElement[] = [];
+  const addButton = (title: string, onClick: () => void) => {
+    const button = document.createElement("button");
+    button.className = "vale-tooltip__fix";
+    button.textContent = title;
+    button.addEventListener("click", (event) => {
+      event.preventDefault();
+      onClick();
+    });
+    buttons.push(button);
+  };
+
+  if (onFix) {
+    for (const fix of getQuickFixes(alert)) {
+      addButton(fix.title, () => onFix(fix));
+    }
+  }
+  if (onAddToVocabulary && isSpellingAlert(alert)) {
+    addButton(`Add "${alert.Match}" to vocabulary`, onAddToVocabulary);
+  }
+  if (onDismiss) {
+    addButton("Dismiss", onDismiss);
+  }
+  if (onIgnoreHere) {
+    addButton("Ignore here", onIgnoreHere);
+  }
+  if (onIgnoreInNote) {
+    addButton("Ignore in this note", onIgnoreInNote);
+  }
+
+  if (buttons.length) {
+    const list = document.createElement("div");
+    list.className = "vale-tooltip__fixes";
+    buttons.forEach((button) => list.appendChild(button));
+    container.appendChild(list);
+  }
+
   return container;
 }
 
@@ -213,6 +326,10 @@ export function createTooltipContent(alert: ValeAlert): HTMLElement {
  * **Configuration**:
  * - `hoverTime`: Delay before showing tooltip (default: 300ms)
  * - `enabled`: Toggle tooltip functionality (default: true)
+ * - `onFix`: Applies a quick fix picked in the tooltip
+ * - `onAddToVocabulary`: Adds a misspelled word to a vocabulary
+ * - `onDismiss`: Hides the alert in later checks
+ * - `onIgnoreHere`, `onIgnoreInNote`: Ignore the alert's check
  *
  * **Behavior**:
  * - Tooltips appear after hovering for the specified delay
@@ -229,7 +346,16 @@ export function createTooltipContent(alert: ValeAlert): HTMLElement {
  * @public
  */
 export function valeHoverTooltip(config: ValeTooltipConfig = {}): Extension {
-  const { hoverTime = 300, enabled = true } = config;
+  const {
+    hoverTime = 300,
+    enabled = true,
+    onFix = applyQuickFix,
+    onAddToVocabulary,
+    onDismiss = (view, alert) =>
+      dispatchAlertDismiss(view, generateAlertId(alert)),
+    onIgnoreHere = ignoreAlertHere,
+    onIgnoreInNote,
+  } = config;
 
   if (!enabled) {
     return [];
@@ -250,7 +376,15 @@ export function valeHoverTooltip(config: ValeTooltipConfig = {}): Extension {
         above: true, // Prefer showing above (less intrusive)
         create: (view: EditorView) => {
           return {
-            dom: createTooltipContent(alert),
+            dom: createTooltipContent(alert, {
+              onFix: (fix) => onFix(view, alert, fix),
+              onAddToVocabulary:
+                onAddToVocabulary && (() => onAddToVocabulary(view, alert)),
+              onDismiss: () => onDismiss(view, alert),
+              onIgnoreHere: () => onIgnoreHere(view, alert),
+              onIgnoreInNote:
+                onIgnoreInNote && (() => onIgnoreInNote(view, alert)),
+            }),
           };
         },
       };
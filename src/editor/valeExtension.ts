@@ -11,8 +11,18 @@
 import { Extension } from "@codemirror/state";
 import { EditorView, ViewUpdate } from "@codemirror/view";
 import { valeStateField } from "./stateField";
+import { changedRangesField } from "./incremental";
+import { valeAlertFilter } from "./alertFilter";
 import { clickHandler, hoverHandler } from "./eventHandlers";
-import { valeHoverTooltip } from "./tooltip";
+import { valeAlertMarkers } from "./gutter";
+import { valeInlineMessages } from "./inlineMessages";
+import { LintDiagnosticsMode, valeLintDiagnostics } from "./lintDiagnostics";
+import { SeverityLevel } from "../components/icons/severityGlyphs";
+import {
+  AlertActionHandler,
+  QuickFixHandler,
+  valeHoverTooltip,
+} from "./tooltip";
 
 /**
  * Base theme for Vale decorations.
@@ -121,6 +131,37 @@ export interface ValeExtensionConfig {
    */
   enableTooltips?: boolean;
 
+  /**
+   * Show markers for lines with alerts.
+   *
+   * When enabled, a gutter shows the severity of each line's alerts and
+   * ticks along the scrollbar show where the alerts are in the note.
+   *
+   * @defaultValue false
+   */
+  enableAlertMarkers?: boolean;
+
+  /**
+   * Severities whose messages are shown at the end of their lines.
+   *
+   * Each line with alerts of these severities shows the message of its most
+   * severe one, dimmed, after the end of the line.
+   *
+   * @defaultValue []
+   */
+  inlineMessageSeverities?: SeverityLevel[];
+
+  /**
+   * Publish alerts as `@codemirror/lint` diagnostics.
+   *
+   * With `alongside`, the lint panel and commands see the alerts while Vale
+   * keeps its own underlines and tooltips. With `instead`, the lint
+   * extension underlines the alerts and shows their tooltips.
+   *
+   * @defaultValue "off"
+   */
+  lintDiagnostics?: LintDiagnosticsMode;
+
   /**
    * Callback invoked when the document content changes.
    *
@@ -133,6 +174,30 @@ export interface ValeExtensionConfig {
    * by the caller.
    */
   onDocChange?: () => void;
+
+  /**
+   * Applies a quick fix picked in a tooltip.
+   * When omitted, the fix is applied to the editor directly.
+   */
+  onFix?: QuickFixHandler;
+
+  /**
+   * Adds the word of a spelling alert to a vocabulary, from a tooltip.
+   * When omitted, tooltips don't offer it.
+   */
+  onAddToVocabulary?: AlertActionHandler;
+
+  /**
+   * Ignores an alert's check in the block it's in, from a tooltip.
+   * When omitted, the block is wrapped in Vale comments directly.
+   */
+  onIgnoreHere?: AlertActionHandler;
+
+  /**
+   * Ignores an alert's check in the whole note, from a tooltip.
+   * When omitted, tooltips don't offer it.
+   */
+  onIgnoreInNote?: AlertActionHandler;
 }
 
 /**
@@ -183,13 +248,26 @@ export function valeExtension(config: ValeExtensionConfig = {}): Extension {
     enableBaseTheme = true,
     tooltipHoverDelay = 300,
     enableTooltips = true,
+    enableAlertMarkers = false,
+    inlineMessageSeverities = [],
+    lintDiagnostics = "off",
     onDocChange,
+    onFix,
+    onAddToVocabulary,
+    onIgnoreHere,
+    onIgnoreInNote,
   } = config;
 
   const extensions: Extension[] = [
     // Core state management for decorations
     valeStateField,
 
+    // Edits since the last check, for incremental re-checking
+    changedRangesField,
+
+    // Dims or hides the underlines filtered out of the results panel
+    valeAlertFilter(),
+
     // Event handlers for click and hover interactions
     clickHandler(),
     hoverHandler(), // Keep for potential future use
@@ -197,7 +275,11 @@ export function valeExtension(config: ValeExtensionConfig = {}): Extension {
     // Hover tooltip for displaying alert details
     valeHoverTooltip({
       hoverTime: tooltipHoverDelay,
-      enabled: enableTooltips,
+      enabled: enableTooltips && lintDiagnostics !== "instead",
+      onFix,
+      onAddToVocabulary,
+      onIgnoreHere,
+      onIgnoreInNote,
     }),
   ];
 
@@ -206,6 +288,21 @@ export function valeExtension(config: ValeExtensionConfig = {}): Extension {
     extensions.push(valeBaseTheme);
   }
 
+  // Add gutter and scrollbar markers if enabled
+  if (enableAlertMarkers) {
+    extensions.push(valeAlertMarkers());
+  }
+
+  // Add inline messages for the chosen severities
+  if (inlineMessageSeverities.length) {
+    extensions.push(valeInlineMessages(inlineMessageSeverities));
+  }
+
+  // Publish alerts as lint diagnostics
+  if (lintDiagnostics !== "off") {
+    extensions.push(valeLintDiagnostics(lintDiagnostics, onFix));
+  }
+
   // Add document change listener for auto-check functionality
   if (onDocChange) {
     extensions.push(
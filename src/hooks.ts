@@ -1,9 +1,16 @@
 import { FileSystemAdapter, normalizePath, Vault } from "obsidian";
 import path from "path";
 import * as React from "react";
+import { StyleLibraryLoader } from "vale/styleLibrary";
 import { ValeConfigManager } from "vale/ValeConfigManager";
 import { useApp } from "./context/AppContext";
 import { ValeSettings } from "./types";
+import {
+  getConfigBackupDir,
+  getManagedConfigPath,
+  getManagedValePath,
+  getStyleLibraryCachePath,
+} from "./utils/pluginPaths";
 
 // Re-export hooks from the hooks directory
 export { useLocalStorage } from "./hooks/useLocalStorage";
@@ -25,8 +32,10 @@ export const useConfigManager = (
       return undefined;
     }
 
+    const styleLibrary = newStyleLibraryLoader(settings, app.vault);
+
     if (settings.cli.managed) {
-      return newManagedConfigManager(app.vault);
+      return newManagedConfigManager(app.vault, styleLibrary);
     }
 
     // Create a ConfigManager even with empty paths so validation can run
@@ -37,6 +46,8 @@ export const useConfigManager = (
     return new ValeConfigManager(
       valePath ? ensureAbsolutePath(valePath, app.vault) : "",
       configPath ? ensureAbsolutePath(configPath, app.vault) : "",
+      configBackupDir(app.vault),
+      styleLibrary,
     );
   }, [settings, app]);
 };
@@ -55,13 +66,35 @@ const ensureAbsolutePath = (resourcePath: string, vault: Vault): string => {
   throw new Error("Unrecognized resource path");
 };
 
-const newManagedConfigManager = (vault: Vault): ValeConfigManager => {
-  const dataDir = path.join(vault.configDir, "plugins/obsidian-vale/data");
+// configBackupDir is where copies of the config file are kept from before
+// each change. Backups are skipped without a file system.
+const configBackupDir = (vault: Vault): string | undefined =>
+  vault.adapter instanceof FileSystemAdapter
+    ? ensureAbsolutePath(getConfigBackupDir(vault.configDir), vault)
+    : undefined;
 
-  const binaryName = process.platform === "win32" ? "vale.exe" : "vale";
+// newStyleLibraryLoader reads the style library from the configured URL,
+// keeping a copy next to the config backups. Without a file system, the
+// library is downloaded each time.
+const newStyleLibraryLoader = (
+  settings: ValeSettings,
+  vault: Vault,
+): StyleLibraryLoader =>
+  new StyleLibraryLoader(
+    settings.styleLibraryUrl ?? "",
+    vault.adapter instanceof FileSystemAdapter
+      ? ensureAbsolutePath(getStyleLibraryCachePath(vault.configDir), vault)
+      : undefined,
+  );
 
+const newManagedConfigManager = (
+  vault: Vault,
+  styleLibrary: StyleLibraryLoader,
+): ValeConfigManager => {
   return new ValeConfigManager(
-    ensureAbsolutePath(path.join(dataDir, "bin", binaryName), vault),
-    ensureAbsolutePath(path.join(dataDir, ".vale.ini"), vault),
+    ensureAbsolutePath(getManagedValePath(vault.configDir), vault),
+    ensureAbsolutePath(getManagedConfigPath(vault.configDir), vault),
+    configBackupDir(vault),
+    styleLibrary,
   );
 };
@@ -36,9 +36,18 @@ export { useObsidianSetting, type SettingConfig } from "./useObsidianSetting";
 // Export rules management hook
 export { useRules, type UseRulesState } from "./useRules";
 
+// Export config section hook
+export {
+  useConfigSections,
+  type ConfigSectionsState,
+} from "./useConfigSections";
+
 // Export styles management hook
 export { useStyles, type StylesResult } from "./useStyles";
 
+// Export vocabularies management hook
+export { useVocabularies, type UseVocabulariesState } from "./useVocabularies";
+
 // Export localStorage persistence hook
 export { useLocalStorage } from "./useLocalStorage";
 
@@ -0,0 +1,119 @@
+import * as React from "react";
+import { useApp } from "../context/AppContext";
+import { EffectiveConfig } from "../vale/configSections";
+import { ValeConfigManager } from "../vale/ValeConfigManager";
+import { DEFAULT_SECTION } from "../vale/valeIni";
+import { useLocalStorage } from "./useLocalStorage";
+
+/**
+ * State for the useConfigSections hook
+ */
+export interface ConfigSectionsState {
+  /** Sections of .vale.ini that apply to files, in the order they're written */
+  sections: string[];
+  /** The section that styles and rules are changed in */
+  section: string;
+  /** Choose the section to change styles and rules in */
+  setSection: (section: string) => void;
+  /** Path of the current note in the vault, if a note is open */
+  notePath: string | null;
+  /** What the sections that apply to the current note add up to */
+  effective: EffectiveConfig | null;
+  /** Read the sections again after the config changed */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for choosing which section of .vale.ini to edit.
+ *
+ * Features:
+ * - Lists the format sections of the config, such as [*.md] and [drafts/*.md]
+ * - Remembers the chosen section, so that the Styles and Rules pages edit
+ *   the same one
+ * - Falls back to [*.md], or the first section, when the chosen section is
+ *   no longer in the config
+ * - Combines the sections that apply to the current note when it's checked,
+ *   so that pages can show which values the note gets
+ *
+ * @param configManager - ValeConfigManager instance (may be undefined)
+ * @returns The sections, the chosen section and the current note's config
+ *
+ * @example
+ * ```tsx
+ * const { section } = useConfigSections(configManager);
+ * const { rules, updateRule } = useRules(style, configManager, section);
+ * ```
+ */
+export function useConfigSections(
+  configManager: ValeConfigManager | undefined,
+): ConfigSectionsState {
+  const app = useApp();
+  const notePath = app?.workspace.getActiveFile()?.path ?? null;
+
+  // State: Sections found in the config
+  const [sections, setSections] = React.useState<string[]>([]);
+
+  // State: Effective config of the current note
+  const [effective, setEffective] = React.useState<EffectiveConfig | null>(
+    null,
+  );
+
+  // State: Section chosen by the user, shared across pages and sessions
+  const [chosen, setChosen] = useLocalStorage<string>(
+    "config-section",
+    DEFAULT_SECTION,
+  );
+
+  // Ref: Track if component is mounted
+  const isMountedRef = React.useRef<boolean>(true);
+
+  React.useEffect(() => {
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  /**
+   * Read the sections of the config and combine the ones that apply to the
+   * current note.
+   */
+  const fetchSections = React.useCallback(async (): Promise<void> => {
+    if (!configManager) {
+      return;
+    }
+
+    try {
+      const [found, combined] = await Promise.all([
+        configManager.getFormatSections(),
+        notePath ? configManager.getEffectiveConfig(notePath) : null,
+      ]);
+      if (isMountedRef.current) {
+        setSections(found ?? []);
+        setEffective(combined ?? null);
+      }
+    } catch (err) {
+      // Without sections, the pages keep editing the chosen section
+      console.warn("Failed to read the sections of the Vale config:", err);
+    }
+  }, [configManager, notePath]);
+
+  React.useEffect(() => {
+    void fetchSections();
+  }, [fetchSections]);
+
+  const section =
+    sections.length === 0 || sections.includes(chosen)
+      ? chosen
+      : sections.includes(DEFAULT_SECTION)
+        ? DEFAULT_SECTION
+        : sections[0];
+
+  return {
+    sections,
+    section,
+    setSection: setChosen,
+    notePath,
+    effective,
+    refresh: fetchSections,
+  };
+}
@@ -1,6 +1,14 @@
+import { parse } from "ini";
 import * as React from "react";
 import { ValeConfig } from "../types";
+import { flattenConfig } from "../vale/iniDocument";
 import { ValeConfigManager } from "../vale/ValeConfigManager";
+import {
+  ConfigDiagnostic,
+  isFormatSection,
+  validateConfigText,
+  validateConfigValue,
+} from "../vale/valeIni";
 
 /**
  * Validation result for Vale config file.
@@ -14,6 +22,8 @@ export interface ConfigValidationResult {
   error?: string;
   /** Whether validation is currently in progress */
   isValidating: boolean;
+  /** Problems by line, when validating the text of a config file */
+  diagnostics?: ConfigDiagnostic[];
 }
 
 /**
@@ -42,8 +52,11 @@ const DEBOUNCE_DELAY_MS = 500;
  * - Debounced validation (500ms delay)
  * - AbortController for cleanup and cancellation
  * - Only validates when configManager is available
+ * - Validates unsaved text instead of the config file, such as the contents
+ *   of the config editor, with problems reported by line
  *
  * @param configManager - ValeConfigManager instance (may be undefined)
+ * @param text - Config file contents to validate instead of the saved file
  * @returns Validation result with parsed config
  *
  * @example
@@ -67,6 +80,7 @@ const DEBOUNCE_DELAY_MS = 500;
  */
 export function useConfigValidation(
   configManager: ValeConfigManager | undefined,
+  text?: string,
 ): ConfigValidationResult {
   // State: Validation result
   const [validation, setValidation] = React.useState<ConfigValidationResult>(
@@ -84,6 +98,11 @@ export function useConfigValidation(
    */
   const validateConfig = React.useCallback(
     async (signal: AbortSignal): Promise<void> => {
+      if (text !== undefined) {
+        setValidation(validateConfigDraft(text));
+        return;
+      }
+
       if (!configManager) {
         // Clear validation state if configManager unavailable
         setValidation(DEFAULT_CONFIG_VALIDATION);
@@ -166,7 +185,7 @@ export function useConfigValidation(
         });
       }
     },
-    [configManager],
+    [configManager, text],
   );
 
   /**
@@ -212,6 +231,27 @@ export function useConfigValidation(
   return validation;
 }
 
+/**
+ * Check whether a parsed value is a section rather than the value of a key.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Check whether a parsed section, or any section nested in it by the dots of
+ * its name, has a BasedOnStyles value that isn't a string.
+ */
+function hasInvalidStyles(section: Record<string, unknown>): boolean {
+  return Object.entries(section).some(([key, value]) =>
+    isObject(value)
+      ? hasInvalidStyles(value)
+      : key === "BasedOnStyles" &&
+        value !== undefined &&
+        typeof value !== "string",
+  );
+}
+
 /**
  * Validate the structure of a ValeConfig object.
  * Ensures required fields are present and properly formatted.
@@ -219,7 +259,7 @@ export function useConfigValidation(
  * @param config - Config object to validate
  * @returns Validation result with error message if invalid
  */
-function validateConfigStructure(config: ValeConfig): {
+export function validateConfigStructure(config: ValeConfig): {
   valid: boolean;
   error?: string;
 } {
@@ -242,33 +282,76 @@ function validateConfigStructure(config: ValeConfig): {
     };
   }
 
-  // Validate "*" section exists
-  if (!config["*"] || typeof config["*"] !== "object") {
+  // Validate there's a section for notes, such as [*.md] or [drafts/*.md]
+  const sections = [
+    ...flattenConfig(config as unknown as Record<string, unknown>),
+  ].filter(([section]) => isFormatSection(section));
+  if (sections.length === 0) {
     return {
       valid: false,
-      error: 'Config file must have a "*" section',
+      error: 'Config file must have a section for notes, such as "[*.md]"',
     };
   }
 
-  // Validate "md" subsection exists within "*"
-  if (!config["*"].md || typeof config["*"].md !== "object") {
+  // Validate BasedOnStyles (optional, but must be a string if present)
+  if (
+    Object.values(config).some(
+      (value) => isObject(value) && hasInvalidStyles(value),
+    )
+  ) {
     return {
       valid: false,
-      error: 'Config file must have a "*.md" section',
+      error: "BasedOnStyles must be a string",
     };
   }
 
-  // Validate BasedOnStyles (optional, but must be a string if present)
-  if (
-    config["*"].md.BasedOnStyles !== undefined &&
-    typeof config["*"].md.BasedOnStyles !== "string"
-  ) {
+  // Validate the values of known keys and rules, such as MinAlertLevel
+  const problem = [
+    ...Object.entries(config).map(([key, value]) =>
+      typeof value === "string"
+        ? validateConfigValue(key, value, null)
+        : undefined,
+    ),
+    ...sections.flatMap(([section, keys]) =>
+      [...keys].map(([key, value]) => validateConfigValue(key, value, section)),
+    ),
+  ].find((found) => found?.severity === "error");
+  if (problem) {
     return {
       valid: false,
-      error: "BasedOnStyles must be a string",
+      error: problem.message,
     };
   }
 
   // Config structure is valid
   return { valid: true };
 }
+
+/**
+ * Validate the text of a config file line by line, and the structure of the
+ * config it describes.
+ *
+ * @param text - Config file contents
+ * @returns Validation result with the problems found on each line
+ */
+function validateConfigDraft(text: string): ConfigValidationResult {
+  const diagnostics = validateConfigText(text);
+  const config = parse(text) as ValeConfig;
+  const structureValidation = validateConfigStructure(config);
+
+  // Errors on a line are more specific than those about the structure
+  const lineError = diagnostics.find(
+    (diagnostic) => diagnostic.severity === "error",
+  );
+  const error = lineError
+    ? `Line ${lineError.line}: ${lineError.message}`
+    : structureValidation.error;
+
+  return {
+    valid: !error,
+    config: error ? null : config,
+    error,
+    isValidating: false,
+    diagnostics,
+  };
+}
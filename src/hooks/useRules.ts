@@ -1,6 +1,7 @@
 import * as React from "react";
 import { ValeConfigManager } from "vale/ValeConfigManager";
 import { ValeRule } from "../types";
+import { DEFAULT_SECTION } from "../vale/valeIni";
 
 /**
  * State for the useRules hook
@@ -30,6 +31,7 @@ export interface UseRulesState {
  *
  * @param styleName - The name of the Vale style to fetch rules for
  * @param configManager - ValeConfigManager instance (may be undefined)
+ * @param section - Section of the config to read and change rules in
  * @returns State and methods for managing rules
  *
  * @example
@@ -54,6 +56,7 @@ export interface UseRulesState {
 export function useRules(
   styleName: string,
   configManager: ValeConfigManager | undefined,
+  section = DEFAULT_SECTION,
 ): UseRulesState {
   // State: Track rules
   const [rules, setRules] = React.useState<ValeRule[]>([]);
@@ -98,7 +101,7 @@ export function useRules(
       // Fetch both available rules (with defaults) and configured overrides in parallel
       const [rulesWithDefaults, configuredRules] = await Promise.all([
         configManager.getRulesWithDefaults(styleName),
-        configManager.getConfiguredRules(styleName),
+        configManager.getConfiguredRules(styleName, section),
       ]);
 
       // Merge: Start with available rules, apply configured overrides
@@ -135,7 +138,7 @@ export function useRules(
         setLoading(false);
       }
     }
-  }, [styleName, configManager]);
+  }, [styleName, configManager, section]);
 
   /**
    * Load rules on mount and when dependencies change
@@ -163,14 +166,14 @@ export function useRules(
 
       try {
         // Persist to Vale config
-        await configManager.updateRule(styleName, updatedRule);
+        await configManager.updateRule(styleName, updatedRule, section);
       } catch (err) {
         // Revert optimistic update on error by refetching
         void fetchRules();
         throw err;
       }
     },
-    [styleName, configManager, fetchRules],
+    [styleName, configManager, section, fetchRules],
   );
 
   return {
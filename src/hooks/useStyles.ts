@@ -1,6 +1,7 @@
 import * as React from "react";
 import { ValeConfigManager } from "../vale/ValeConfigManager";
 import { ValeSettings, ValeStyle } from "../types";
+import { StyleLibrary } from "../vale/styleLibrary";
 
 /**
  * Result of fetching styles.
@@ -8,7 +9,7 @@ import { ValeSettings, ValeStyle } from "../types";
 export interface StylesResult {
   /** List of available or installed styles */
   styles: ValeStyle[];
-  /** List of enabled style names */
+  /** List of styles enabled in the section, or in any section if none is given */
   enabledStyles: string[];
   /** Whether styles are currently loading */
   loading: boolean;
@@ -16,13 +17,18 @@ export interface StylesResult {
   error: Error | null;
   /** Refetch styles (useful after errors) */
   refetch: () => Promise<void>;
+  /** Style library the styles were read from, in Managed mode */
+  library: StyleLibrary | null;
+  /** Download the style library again and refetch styles */
+  refreshLibrary: () => Promise<void>;
 }
 
 /**
  * Custom hook for fetching and managing Vale styles.
  *
  * Handles the Managed vs Custom mode logic internally:
- * - **Managed mode**: Returns hardcoded library of 8 official styles
+ * - **Managed mode**: Returns the styles of the style library, downloaded from
+ *   its URL, or its cached copy or the bundled styles when offline
  * - **Custom mode**: Returns styles from user's StylesPath directory
  *
  * This hook encapsulates all the style-fetching complexity and provides
@@ -36,6 +42,7 @@ export interface StylesResult {
  *
  * @param settings - Current Vale settings
  * @param configManager - Vale config manager instance (optional)
+ * @param section - Section of the config to read enabled styles from, such as "*.md"
  * @returns Styles data, loading state, error state, and refetch function
  *
  * @example
@@ -65,6 +72,7 @@ export interface StylesResult {
 export function useStyles(
   settings: ValeSettings,
   configManager: ValeConfigManager | undefined,
+  section?: string,
 ): StylesResult {
   // State: Styles list
   const [styles, setStyles] = React.useState<ValeStyle[]>([]);
@@ -78,6 +86,9 @@ export function useStyles(
   // State: Error status
   const [error, setError] = React.useState<Error | null>(null);
 
+  // State: Style library of Managed mode
+  const [library, setLibrary] = React.useState<StyleLibrary | null>(null);
+
   // Ref: Track if component is mounted
   const isMountedRef = React.useRef<boolean>(true);
 
@@ -90,92 +101,100 @@ export function useStyles(
 
   /**
    * Fetch styles based on current mode.
-   * This function handles both Managed and Custom modes.
+   * This function handles both Managed and Custom modes. With refresh, the
+   * style library is downloaded even if its cached copy is recent.
    */
-  const fetchStyles = React.useCallback(async (): Promise<void> => {
-    // Early return if configManager not available
-    if (!configManager) {
-      if (isMountedRef.current) {
-        setLoading(false);
-        setError(new Error("Config manager not available"));
+  const fetchStyles = React.useCallback(
+    async (refresh = false): Promise<void> => {
+      // Early return if configManager not available
+      if (!configManager) {
+        if (isMountedRef.current) {
+          setLoading(false);
+          setError(new Error("Config manager not available"));
+        }
+        return;
       }
-      return;
-    }
-
-    // Reset error and set loading
-    if (isMountedRef.current) {
-      setLoading(true);
-      setError(null);
-    }
-
-    try {
-      // Check if config path exists
-      const configExists = await configManager.configPathExists();
-      if (!configExists) {
-        throw new Error(
-          "Vale config file not found. Please configure a valid config path in General settings.",
-        );
+
+      // Reset error and set loading
+      if (isMountedRef.current) {
+        setLoading(true);
+        setError(null);
       }
 
-      // Determine if Custom mode
-      const isCustomMode = settings.type === "cli" && !settings.cli.managed;
-
-      // Fetch styles based on mode
-      let fetchedStyles = isCustomMode
-        ? await configManager.getInstalledStyles()
-        : await configManager.getAvailableStyles();
-
-      // Fetch enabled styles
-      const fetchedEnabledStyles = await configManager.getEnabledStyles();
-
-      // In Custom mode, check for missing styles (referenced in config but not on filesystem)
-      if (isCustomMode) {
-        // Get installed style names
-        const installedNames = new Set(fetchedStyles.map((s) => s.name));
-
-        // Check for enabled styles that aren't installed
-        const missingStyles: ValeStyle[] = [];
-        for (const styleName of fetchedEnabledStyles) {
-          if (!installedNames.has(styleName)) {
-            missingStyles.push({
-              name: styleName,
-              description: "Referenced in .vale.ini but not found",
-              isMissing: true,
-            });
-          }
+      try {
+        // Check if config path exists
+        const configExists = await configManager.configPathExists();
+        if (!configExists) {
+          throw new Error(
+            "Vale config file not found. Please configure a valid config path in General settings.",
+          );
         }
 
-        // Add missing styles to the list
-        fetchedStyles = [...fetchedStyles, ...missingStyles];
-      }
-
-      // Fetch rule counts for all styles
-      const stylesWithRuleCounts = await Promise.all(
-        fetchedStyles.map(async (style) => {
-          // Skip rule count for missing styles
-          if (style.isMissing) {
-            return style;
+        // Determine if Custom mode
+        const isCustomMode = settings.type === "cli" && !settings.cli.managed;
+
+        // Fetch styles based on mode
+        const fetchedLibrary = isCustomMode
+          ? null
+          : await configManager.getStyleLibrary(refresh);
+        let fetchedStyles =
+          fetchedLibrary?.styles ?? (await configManager.getInstalledStyles());
+
+        // Fetch enabled styles
+        const fetchedEnabledStyles =
+          await configManager.getEnabledStyles(section);
+
+        // In Custom mode, check for missing styles (referenced in config but not on filesystem)
+        if (isCustomMode) {
+          // Get installed style names
+          const installedNames = new Set(fetchedStyles.map((s) => s.name));
+
+          // Check for enabled styles that aren't installed
+          const missingStyles: ValeStyle[] = [];
+          for (const styleName of fetchedEnabledStyles) {
+            if (!installedNames.has(styleName)) {
+              missingStyles.push({
+                name: styleName,
+                description: "Referenced in .vale.ini but not found",
+                isMissing: true,
+              });
+            }
           }
-          const ruleCount = await configManager.getRuleCount(style.name);
-          return { ...style, ruleCount };
-        }),
-      );
 
-      // Update state if still mounted
-      if (isMountedRef.current) {
-        setStyles(stylesWithRuleCounts);
-        setEnabledStyles(fetchedEnabledStyles);
-        setLoading(false);
-      }
-    } catch (err) {
-      // Handle error if still mounted
-      if (isMountedRef.current) {
-        const error = err instanceof Error ? err : new Error(String(err));
-        setError(error);
-        setLoading(false);
+          // Add missing styles to the list
+          fetchedStyles = [...fetchedStyles, ...missingStyles];
+        }
+
+        // Fetch rule counts for all styles
+        const stylesWithRuleCounts = await Promise.all(
+          fetchedStyles.map(async (style) => {
+            // Skip rule count for missing styles
+            if (style.isMissing) {
+              return style;
+            }
+            const ruleCount = await configManager.getRuleCount(style.name);
+            return { ...style, ruleCount };
+          }),
+        );
+
+        // Update state if still mounted
+        if (isMountedRef.current) {
+          setStyles(stylesWithRuleCounts);
+          setEnabledStyles(fetchedEnabledStyles);
+          setLibrary(fetchedLibrary);
+          setLoading(false);
+        }
+      } catch (err) {
+        // Handle error if still mounted
+        if (isMountedRef.current) {
+          const error = err instanceof Error ? err : new Error(String(err));
+          setError(error);
+          setLoading(false);
+        }
       }
-    }
-  }, [settings, configManager]);
+    },
+    [settings, configManager, section],
+  );
 
   /**
    * Effect: Fetch styles when settings or configManager changes.
@@ -184,11 +203,20 @@ export function useStyles(
     void fetchStyles();
   }, [fetchStyles]);
 
+  const refetch = React.useCallback(() => fetchStyles(), [fetchStyles]);
+
+  const refreshLibrary = React.useCallback(
+    () => fetchStyles(true),
+    [fetchStyles],
+  );
+
   return {
     styles,
     enabledStyles,
     loading,
     error,
-    refetch: fetchStyles,
+    refetch,
+    library,
+    refreshLibrary,
   };
 }
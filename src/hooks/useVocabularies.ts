@@ -0,0 +1,164 @@
+import * as React from "react";
+import { ValeVocabulary } from "../types";
+import { ValeConfigManager } from "../vale/ValeConfigManager";
+
+/**
+ * State for the useVocabularies hook
+ */
+export interface UseVocabulariesState {
+  /** Vocabularies found under the StylesPath, and missing ones in Vocab */
+  vocabularies: ValeVocabulary[];
+  /** Whether vocabularies are currently being loaded */
+  loading: boolean;
+  /** Error that occurred during loading, if any */
+  error: Error | null;
+  /** Create an empty vocabulary */
+  createVocabulary: (name: string) => Promise<void>;
+  /** Rename a vocabulary and its entry in Vocab */
+  renameVocabulary: (name: string, newName: string) => Promise<void>;
+  /** Delete a vocabulary and its entry in Vocab */
+  deleteVocabulary: (name: string) => Promise<void>;
+  /** Add a vocabulary to Vocab or remove it */
+  setActive: (name: string, active: boolean) => Promise<void>;
+  /** Refresh the vocabulary list */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for managing Vale vocabularies.
+ *
+ * Features:
+ * - Lists the vocabulary folders with the sizes of their lists
+ * - Creates, renames and deletes vocabularies
+ * - Toggles which vocabularies the config's Vocab key lists
+ * - Reloads the list after each change, reporting errors to the caller
+ * - Prevents state updates after unmount
+ *
+ * @param configManager - ValeConfigManager instance (may be undefined)
+ * @returns State and methods for managing vocabularies
+ *
+ * @example
+ * ```tsx
+ * const { vocabularies, setActive } = useVocabularies(configManager);
+ *
+ * return vocabularies.map((vocabulary) => (
+ *   <VocabularyItem
+ *     key={vocabulary.name}
+ *     vocabulary={vocabulary}
+ *     onToggle={(active) => setActive(vocabulary.name, active)}
+ *   />
+ * ));
+ * ```
+ */
+export function useVocabularies(
+  configManager: ValeConfigManager | undefined,
+): UseVocabulariesState {
+  // State: Track vocabularies
+  const [vocabularies, setVocabularies] = React.useState<ValeVocabulary[]>([]);
+
+  // State: Track loading status
+  const [loading, setLoading] = React.useState<boolean>(true);
+
+  // State: Track error
+  const [error, setError] = React.useState<Error | null>(null);
+
+  // Ref: Track if component is mounted
+  const isMountedRef = React.useRef<boolean>(true);
+
+  /**
+   * Cleanup: Set mounted flag on unmount
+   */
+  React.useEffect(() => {
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  /**
+   * Fetch the vocabularies. Only the first load shows the loading state,
+   * so that the page doesn't flash after each change.
+   */
+  const fetchVocabularies = React.useCallback(async (): Promise<void> => {
+    if (!configManager) {
+      if (isMountedRef.current) {
+        setError(new Error("Config manager not available"));
+        setLoading(false);
+      }
+      return;
+    }
+
+    try {
+      const fetched = await configManager.getVocabularies();
+      if (isMountedRef.current) {
+        setVocabularies(fetched);
+        setError(null);
+        setLoading(false);
+      }
+    } catch (err) {
+      if (isMountedRef.current) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+        setLoading(false);
+      }
+    }
+  }, [configManager]);
+
+  /**
+   * Load vocabularies on mount and when the config manager changes
+   */
+  React.useEffect(() => {
+    void fetchVocabularies();
+  }, [fetchVocabularies]);
+
+  /**
+   * Run a change through the config manager, then reload the list, also
+   * when the change failed part way.
+   */
+  const change = React.useCallback(
+    async (
+      apply: (manager: ValeConfigManager) => Promise<void>,
+    ): Promise<void> => {
+      if (!configManager) {
+        throw new Error("Config manager not available");
+      }
+      try {
+        await apply(configManager);
+      } finally {
+        await fetchVocabularies();
+      }
+    },
+    [configManager, fetchVocabularies],
+  );
+
+  const createVocabulary = React.useCallback(
+    (name: string) => change((manager) => manager.createVocabulary(name)),
+    [change],
+  );
+
+  const renameVocabulary = React.useCallback(
+    (name: string, newName: string) =>
+      change((manager) => manager.renameVocabulary(name, newName)),
+    [change],
+  );
+
+  const deleteVocabulary = React.useCallback(
+    (name: string) => change((manager) => manager.deleteVocabulary(name)),
+    [change],
+  );
+
+  const setActive = React.useCallback(
+    (name: string, active: boolean) =>
+      change((manager) => manager.setVocabularyActive(name, active)),
+    [change],
+  );
+
+  return {
+    vocabularies,
+    loading,
+    error,
+    createVocabulary,
+    renameVocabulary,
+    deleteVocabulary,
+    setActive,
+    refresh: fetchVocabularies,
+  };
+}
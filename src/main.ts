@@ -8,7 +8,10 @@ import {
   Menu,
   MenuItem,
   normalizePath,
+  Notice,
   Plugin,
+  TFile,
+  TFolder,
 } from "obsidian";
 
 /**
@@ -18,23 +21,99 @@ import {
 interface MenuItemWithSubmenu extends MenuItem {
   setSubmenu(): Menu;
 }
+import { Extension } from "@codemirror/state";
 import { EditorView } from "@codemirror/view";
 import * as path from "path";
 import { ValeSettingTab } from "./settings/ValeSettingTab";
-import { DEFAULT_SETTINGS, ValeAlert, ValeSettings } from "./types";
+import {
+  BatchCheckFile,
+  BatchFileResult,
+  DEFAULT_SETTINGS,
+  ValeAlert,
+  ValeSettings,
+} from "./types";
 import { ValeConfigManager } from "./vale/ValeConfigManager";
+import {
+  exportFileName,
+  ExportFormat,
+  serializeResults,
+} from "./vale/exportResults";
+import { isCheckCancelled } from "./vale/CheckCancelledError";
+import {
+  filterIgnoredAlerts,
+  getIgnoredChecks,
+  IGNORE_PROPERTY,
+} from "./vale/ignoredChecks";
+import {
+  alertFingerprint,
+  DEFAULT_DISMISSALS_PATH,
+  fingerprintInText,
+  ValeDismissals,
+} from "./vale/ValeDismissals";
+import { ValeResultCache } from "./vale/ValeResultCache";
 import { ValeRunner } from "./vale/ValeRunner";
 import { ValeView, VIEW_TYPE_VALE } from "./ValeView";
+import { ExportFormatModal } from "./ExportFormatModal";
+import { QuickFixModal } from "./QuickFixModal";
 import {
   valeExtension,
   registerValeEventListeners,
   ValeAlertClickDetail,
+  ValeAlertDismissDetail,
   selectValeAlert,
-  valeAlertMap,
+  getValeAlert,
+  getValeAlerts,
+  findAdjacentValeAlert,
+  valeStateField,
+  valeReadingViewProcessor,
   addValeMarks,
   clearAllValeMarks,
   scrollToAlert,
+  resetChangedRanges,
+  changedRangesField,
+  splitIntoBlocks,
+  findChangedBlocks,
+  getBlockCheckText,
+  buildIncrementalUpdate,
+  CheckedBlock,
+  getAlertAtPosition,
+  getQuickFixes,
+  suggestionFixes,
+  setSuggestionsAvailable,
+  applyQuickFix,
+  findAlertRange,
+  generateAlertId,
+  QuickFix,
+  ignoreAlertHere,
+  clearValeMarksForCheck,
+  setValeAlertFilter,
+  ValeAlertFilter,
 } from "./editor";
+import {
+  countBySeverity,
+  describeSeverityCounts,
+  isSpellingAlert,
+} from "./utils/alerts";
+import {
+  AlertListOptions,
+  isFiltering,
+  matchesAlertFilter,
+} from "./utils/alertFilters";
+import {
+  getConfigBackupDir,
+  getManagedConfigPath,
+  getManagedValePath,
+  getResultCachePath,
+} from "./utils/pluginPaths";
+import type { AlertActions } from "./components/Alert";
+
+/**
+ * Interface to access the CM6 EditorView from Obsidian's Editor.
+ * This property exists but may not be in official types.
+ */
+interface EditorWithCM {
+  cm?: EditorView;
+}
 
 /** Debounce delay for auto-check after document edits (typing) */
 const AUTO_CHECK_EDIT_DELAY_MS = 800;
@@ -42,11 +121,16 @@ const AUTO_CHECK_EDIT_DELAY_MS = 800;
 /** Debounce delay for auto-check after switching notes */
 const AUTO_CHECK_SWITCH_DELAY_MS = 150;
 
+/** Notes shorter than this (about 10,000 words) are always checked in full */
+const INCREMENTAL_MIN_LENGTH = 60000;
+
 export default class ValePlugin extends Plugin {
   public settings: ValeSettings = DEFAULT_SETTINGS;
 
   private configManager?: ValeConfigManager; // Manages operations that require disk access.
   private runner?: ValeRunner; // Runs the actual check.
+  private resultCache = new ValeResultCache(); // Outlives runners, keyed by config.
+  private dismissals?: ValeDismissals; // Alerts the user has dismissed, per note.
   private showAlerts = true;
 
   private alerts: ValeAlert[] = [];
@@ -63,6 +147,11 @@ export default class ValePlugin extends Plugin {
     return;
   };
   private unregisterCheckListener: (() => void) | undefined;
+  private unregisterStaleCheck: (() => void) | undefined;
+  private unregisterFilterAlerts: (() => void) | undefined;
+
+  /** Which underlines the results panel's filters dim or hide, if any */
+  private alertFilter: ValeAlertFilter | null = null;
 
   /**
    * Stores the EditorView that was active when a Vale check was triggered.
@@ -73,6 +162,42 @@ export default class ValePlugin extends Plugin {
    */
   private lastCheckedView: EditorView | null = null;
 
+  /**
+   * The EditorView of the check in flight. Its results go to this editor even
+   * if the user focuses another one while Vale runs.
+   */
+  private checkingView: EditorView | null = null;
+
+  /**
+   * Editors that hold the results of a complete check. Each one keeps its own
+   * underlines, and focusing one shows its alerts in the Vale panel.
+   */
+  private checkedViews = new WeakSet<EditorView>();
+
+  /**
+   * The alerts of each editor while alerts are hidden, for showing them again.
+   */
+  private hiddenAlerts = new WeakMap<EditorView, ValeAlert[]>();
+
+  /**
+   * The EditorView whose decorations hold the results of a complete check.
+   * Incremental checks only run on this view, since they merge their results
+   * into the existing decorations.
+   */
+  private incrementalBase: EditorView | null = null;
+
+  /** Aborts the incremental check in flight, if any */
+  private incrementalController: AbortController | null = null;
+
+  /**
+   * The editor extension, registered once. It's replaced in place when the
+   * settings it depends on change.
+   */
+  private editorExtensions: Extension[] = [];
+
+  /** The settings the registered editor extension was created with */
+  private editorExtensionKey = "";
+
   /** Timer for debounced auto-checks */
   private autoCheckTimer: ReturnType<typeof setTimeout> | null = null;
 
@@ -90,13 +215,22 @@ export default class ValePlugin extends Plugin {
 
     await this.loadSettings();
 
+    this.dismissals = new ValeDismissals(
+      this.app.vault.adapter,
+      this.getDismissalsPath(),
+    );
+    await this.dismissals.load();
+
     // Register CM6 extension for Vale decorations and event handling
-    this.registerEditorExtension(
-      valeExtension({
-        onDocChange: () => {
-          if (this.settings.autoCheckOnChange) {
-            this.scheduleAutoCheck(AUTO_CHECK_EDIT_DELAY_MS);
-          }
+    this.editorExtensions.push(this.createEditorExtension());
+    this.registerEditorExtension(this.editorExtensions);
+
+    // Underline alerts in Reading view too
+    this.registerMarkdownPostProcessor(
+      valeReadingViewProcessor({
+        getAlerts: (path) => this.getNoteAlerts(path),
+        onAlertClick: (path, alert) => {
+          void this.openReadingAlert(path, alert);
         },
       }),
     );
@@ -138,6 +272,20 @@ export default class ValePlugin extends Plugin {
       }),
     );
 
+    // Show the results of the focused editor, e.g. when switching between
+    // split panes. Each editor keeps its own underlines.
+    this.registerEvent(
+      this.app.workspace.on("active-leaf-change", (leaf) => {
+        const editorView =
+          leaf?.view instanceof MarkdownView
+            ? (leaf.view.editor as EditorWithCM).cm
+            : undefined;
+        if (editorView) {
+          this.showEditorResults(editorView);
+        }
+      }),
+    );
+
     // Auto-check on note switch (file-open event)
     // Uses checkOnNoteOpen setting (separate from autoCheckOnChange for edits)
     this.registerEvent(
@@ -167,6 +315,66 @@ export default class ValePlugin extends Plugin {
 
             const submenu = (item as MenuItemWithSubmenu).setSubmenu();
 
+            // Offer the fixes for the alert under the cursor first.
+            const editorView = (editor as EditorWithCM).cm;
+            const alert =
+              isEditable && editorView
+                ? getAlertAtPosition(
+                    editorView,
+                    editorView.state.selection.main.head,
+                  )
+                : null;
+            const fixes = alert ? getQuickFixes(alert) : [];
+            if (alert && editorView && fixes.length) {
+              for (const fix of fixes) {
+                submenu.addItem((subItem) => {
+                  subItem
+                    .setTitle(fix.title)
+                    .setIcon("wand-2")
+                    .onClick(() => {
+                      this.applyFix(editorView, alert, fix);
+                    });
+                });
+              }
+            }
+            if (alert && editorView && isSpellingAlert(alert)) {
+              submenu.addItem((subItem) => {
+                subItem
+                  .setTitle("Add word to vocabulary")
+                  .setIcon("book-plus")
+                  .onClick(() => {
+                    void this.addToVocabulary(editorView, alert);
+                  });
+              });
+            }
+            if (alert && editorView) {
+              submenu.addItem((subItem) => {
+                subItem
+                  .setTitle("Dismiss")
+                  .setIcon("x")
+                  .onClick(() => {
+                    void this.dismissAlert(editorView, alert);
+                  });
+              });
+              submenu.addItem((subItem) => {
+                subItem
+                  .setTitle("Ignore here")
+                  .setIcon("eye-off")
+                  .onClick(() => {
+                    this.ignoreHere(editorView, alert);
+                  });
+              });
+              submenu.addItem((subItem) => {
+                subItem
+                  .setTitle("Ignore in this note")
+                  .setIcon("file-x")
+                  .onClick(() => {
+                    void this.ignoreInNote(editorView, alert);
+                  });
+              });
+              submenu.addSeparator();
+            }
+
             submenu.addItem((subItem) => {
               subItem
                 .setTitle("Check document")
@@ -192,7 +400,7 @@ export default class ValePlugin extends Plugin {
                 .setIcon("trash-2")
                 .setDisabled(!isEditable)
                 .onClick(() => {
-                  this.clearAlertMarkers();
+                  this.clearAllAlertMarkers();
                 });
             });
 
@@ -213,6 +421,10 @@ export default class ValePlugin extends Plugin {
     // Add status bar item to show check results
     this.statusBarItem = this.addStatusBarItem();
     this.statusBarItem.setText("Vale: ready");
+    this.statusBarItem.addClass("mod-clickable");
+    this.registerDomEvent(this.statusBarItem, "click", (event) => {
+      this.showStatusBarMenu(event);
+    });
 
     this.addCommand({
       id: "vale-check-document",
@@ -240,10 +452,37 @@ export default class ValePlugin extends Plugin {
       id: "vale-clear-alerts",
       name: "Clear alerts",
       editorCallback: () => {
-        this.clearAlertMarkers();
+        this.clearAllAlertMarkers();
       },
     });
 
+    // Move between the alerts underlined in the editor
+    this.addCommand({
+      id: "vale-next-alert",
+      name: "Go to next alert",
+      editorCheckCallback: (checking, editor) =>
+        this.goToAlert(editor, "next", checking),
+    });
+
+    this.addCommand({
+      id: "vale-previous-alert",
+      name: "Go to previous alert",
+      editorCheckCallback: (checking, editor) =>
+        this.goToAlert(editor, "previous", checking),
+    });
+
+    this.addCommand({
+      id: "vale-next-error",
+      name: "Go to next error",
+      editorCheckCallback: (checking, editor) =>
+        this.goToAlert(
+          editor,
+          "next",
+          checking,
+          (alert) => alert.Severity.toLowerCase() === "error",
+        ),
+    });
+
     // Open Vale panel command (without running check)
     this.addCommand({
       id: "vale-open-panel",
@@ -253,17 +492,105 @@ export default class ValePlugin extends Plugin {
       },
     });
 
+    // Check every note in the folder of the active note
+    this.addCommand({
+      id: "vale-check-folder",
+      name: "Check current folder",
+      checkCallback: (checking: boolean) => {
+        const folder = this.app.workspace.getActiveFile()?.parent;
+        if (!folder) {
+          return false;
+        }
+        if (!checking) {
+          void this.checkFolder(folder);
+        }
+        return true;
+      },
+    });
+
+    // Check every note in the vault
+    this.addCommand({
+      id: "vale-check-vault",
+      name: "Check all notes in vault",
+      callback: () => {
+        void this.checkFolder(this.app.vault.getRoot());
+      },
+    });
+
+    // Export the results shown in the panel, or those of the last check
+    this.addCommand({
+      id: "vale-export-results",
+      name: "Export results",
+      checkCallback: (checking: boolean) => {
+        const panelOpen =
+          this.app.workspace.getLeavesOfType(VIEW_TYPE_VALE).length > 0;
+        if (!panelOpen && !this.getCheckedFile()) {
+          return false;
+        }
+        if (!checking) {
+          if (panelOpen) {
+            this.eventBus.dispatch("export-results", undefined);
+          } else {
+            this.onExport();
+          }
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "vale-undo-config-change",
+      name: "Undo last config change",
+      checkCallback: (checking: boolean) => {
+        if (!this.configManager) {
+          return false;
+        }
+        if (!checking) {
+          void this.undoConfigChange();
+        }
+        return true;
+      },
+    });
+
+    // Add "Check folder" to the file explorer's folder context menu
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        if (!(file instanceof TFolder)) {
+          return;
+        }
+        menu.addItem((item) => {
+          item
+            .setTitle("Check folder with Vale")
+            .setIcon("vale-book")
+            .onClick(() => {
+              void this.checkFolder(file);
+            });
+        });
+      }),
+    );
+
+    // Keep the dismissed alerts of notes that are renamed or moved.
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        void this.dismissals?.rename(oldPath, file.path);
+      }),
+    );
+
     this.registerView(VIEW_TYPE_VALE, (leaf) => {
-      if (!this.runner) {
+      if (!this.runner || !this.dismissals) {
         throw new Error("ValeRunner not initialized");
       }
       return new ValeView(
         leaf,
         this.settings,
         this.runner,
+        this.dismissals,
         this.eventBus,
         this.onAlertClick,
         this.onCheckStart,
+        this.onBatchAlertClick,
+        this.alertActions,
+        this.onExport,
       );
     });
 
@@ -272,6 +599,13 @@ export default class ValePlugin extends Plugin {
       "vale-alert-click": (event: CustomEvent<ValeAlertClickDetail>) => {
         this.onMarkerClick(event.detail);
       },
+      "vale-alert-dismiss": (event: CustomEvent<ValeAlertDismissDetail>) => {
+        const { view, alertId } = event.detail;
+        const alert = getValeAlert(view.state, alertId);
+        if (alert) {
+          void this.dismissAlert(view, alert);
+        }
+      },
     });
 
     this.unregisterAlerts = this.eventBus.on("alerts", this.onResult);
@@ -281,6 +615,19 @@ export default class ValePlugin extends Plugin {
         this.statusBarItem.setText("Vale: checking...");
       }
     });
+
+    // The note changed while it was being checked, so its results were
+    // dropped. Check it again once the user stops typing.
+    this.unregisterStaleCheck = this.eventBus.on("stale-check", () => {
+      this.scheduleAutoCheck(AUTO_CHECK_EDIT_DELAY_MS);
+    });
+
+    this.unregisterFilterAlerts = this.eventBus.on(
+      "filter-alerts",
+      (options: AlertListOptions) => {
+        this.filterAlerts(options);
+      },
+    );
   }
 
   // onunload runs when plugin becomes disabled.
@@ -290,6 +637,10 @@ export default class ValePlugin extends Plugin {
       clearTimeout(this.autoCheckTimer);
       this.autoCheckTimer = null;
     }
+    this.incrementalController?.abort();
+
+    // Save any check results that haven't been written yet
+    void this.resultCache.flush();
 
     // Clean up status bar
     if (this.statusBarItem) {
@@ -312,6 +663,12 @@ export default class ValePlugin extends Plugin {
     if (this.unregisterCheckListener) {
       this.unregisterCheckListener();
     }
+    if (this.unregisterStaleCheck) {
+      this.unregisterStaleCheck();
+    }
+    if (this.unregisterFilterAlerts) {
+      this.unregisterFilterAlerts();
+    }
 
     // Clear all decorations
     this.withEditorView((view) => {
@@ -391,14 +748,49 @@ export default class ValePlugin extends Plugin {
     );
   }
 
+  /**
+   * Checks every Markdown note in a folder (recursively) and shows the
+   * results in the Vale panel, grouped by note. Checking the vault root
+   * checks the whole vault.
+   */
+  async checkFolder(folder: TFolder): Promise<void> {
+    const prefix = folder.isRoot() ? "" : folder.path + "/";
+    const files: BatchCheckFile[] = this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.startsWith(prefix))
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map((file) => ({
+        path: file.path,
+        format: "." + file.extension,
+        read: () => this.app.vault.cachedRead(file),
+      }));
+
+    const scope = folder.isRoot() ? this.app.vault.getName() : folder.path;
+
+    if (files.length === 0) {
+      new Notice(`Vale: no notes to check in ${scope}`);
+      return;
+    }
+
+    await this.openPanel();
+
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_VALE)) {
+      if (leaf.view instanceof ValeView) {
+        leaf.view.runBatchCheck({ scope, files });
+        break;
+      }
+    }
+  }
+
   /**
    * Runs a Vale check without opening/revealing the panel.
    * Creates the Vale view if needed but keeps it hidden.
    * Used when autoOpenResultsPane is false.
+   * Checks the currently active markdown view unless given another one.
    */
-  private async runCheckOnly(): Promise<void> {
-    // Capture the currently active markdown view
-    const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+  private async runCheckOnly(
+    markdownView = this.app.workspace.getActiveViewOfType(MarkdownView),
+  ): Promise<void> {
     if (!markdownView) {
       console.warn("[Vale] runCheckOnly: No active markdown view");
       return;
@@ -440,6 +832,58 @@ export default class ValePlugin extends Plugin {
     return true;
   }
 
+  // createEditorExtension creates the CM6 extension for the current settings.
+  private createEditorExtension(): Extension {
+    this.editorExtensionKey = this.getEditorExtensionKey();
+    return valeExtension({
+      enableAlertMarkers: this.settings.showAlertMarkers === true,
+      inlineMessageSeverities: this.settings.inlineMessageSeverities ?? [],
+      lintDiagnostics: this.settings.lintDiagnostics ?? "off",
+      onDocChange: () => {
+        if (this.settings.autoCheckOnChange) {
+          this.scheduleAutoCheck(AUTO_CHECK_EDIT_DELAY_MS, true);
+        }
+      },
+      onFix: (view, alert, fix) => {
+        this.applyFix(view, alert, fix);
+      },
+      onAddToVocabulary: (view, alert) => {
+        void this.addToVocabulary(view, alert);
+      },
+      onIgnoreHere: (view, alert) => {
+        this.ignoreHere(view, alert);
+      },
+      onIgnoreInNote: (view, alert) => {
+        void this.ignoreInNote(view, alert);
+      },
+    });
+  }
+
+  // getEditorExtensionKey describes the settings the editor extension
+  // depends on, to tell when they change.
+  private getEditorExtensionKey(): string {
+    return JSON.stringify([
+      this.settings.showAlertMarkers === true,
+      [...(this.settings.inlineMessageSeverities ?? [])].sort(),
+      this.settings.lintDiagnostics ?? "off",
+    ]);
+  }
+
+  // refreshEditorExtension reconfigures open editors when the alert markers,
+  // inline messages or lint diagnostics settings change. Their alerts stay, since the state
+  // field is the same.
+  private refreshEditorExtension(): void {
+    if (this.editorExtensionKey === this.getEditorExtensionKey()) {
+      return;
+    }
+    this.editorExtensions.splice(
+      0,
+      this.editorExtensions.length,
+      this.createEditorExtension(),
+    );
+    this.app.workspace.updateOptions();
+  }
+
   async saveSettings(): Promise<void> {
     console.debug("[DEBUG:ValePlugin] saveSettings called", {
       type: this.settings.type,
@@ -450,8 +894,10 @@ export default class ValePlugin extends Plugin {
       "[DEBUG:ValePlugin] saveData completed, calling initializeValeRunner",
     );
     this.initializeValeRunner();
+    await this.dismissals?.switchTo(this.getDismissalsPath());
     // Refresh toolbar buttons in case the setting changed
     this.refreshToolbarButtons();
+    this.refreshEditorExtension();
     // Clear auto-check state if both auto-check features are disabled
     if (!this.settings.autoCheckOnChange && !this.settings.checkOnNoteOpen) {
       this.lastAutoCheckedPath = null;
@@ -482,6 +928,14 @@ export default class ValePlugin extends Plugin {
     this.initializeValeRunner();
   }
 
+  // getDismissalsPath returns the vault file that dismissed alerts are saved
+  // to.
+  private getDismissalsPath(): string {
+    return normalizePath(
+      this.settings.dismissalsPath?.trim() || DEFAULT_DISMISSALS_PATH,
+    );
+  }
+
   // initializeValeRunner rebuilds the config manager and runner. Should be run
   // whenever the settings change.
   initializeValeRunner(): void {
@@ -503,13 +957,23 @@ export default class ValePlugin extends Plugin {
           this.configManager = new ValeConfigManager(
             valePath,
             this.normalizeConfigPath(configPath),
+            this.configBackupDir(),
           );
         }
       }
     }
 
     console.debug("[DEBUG:ValePlugin] Creating new ValeRunner");
-    this.runner = new ValeRunner(this.settings, this.configManager);
+    this.runner = new ValeRunner(
+      this.settings,
+      this.configManager,
+      this.resultCache,
+    );
+    // Older Vale releases can't compute suggestions, so their fix is hidden.
+    void this.runner.canSuggest().then(setSuggestionsAvailable);
+    void this.resultCache.setPersistPath(
+      this.settings.persistResultCache ? this.resultCachePath() : null,
+    );
 
     // Detach any leaves that use the old runner.
     const leavesToDetach = this.app.workspace.getLeavesOfType(VIEW_TYPE_VALE);
@@ -522,17 +986,28 @@ export default class ValePlugin extends Plugin {
     console.debug("[DEBUG:ValePlugin] initializeValeRunner completed");
   }
 
-  newManagedConfigManager(): ValeConfigManager {
-    const dataDir = path.join(
-      this.app.vault.configDir,
-      "plugins/obsidian-vale/data",
+  // resultCachePath is where check results are saved between sessions.
+  resultCachePath(): string {
+    return this.normalizeConfigPath(
+      getResultCachePath(this.app.vault.configDir),
     );
+  }
 
-    const binaryName = process.platform === "win32" ? "vale.exe" : "vale";
+  // configBackupDir is where copies of the config file are kept from before
+  // each change, for undoing it.
+  configBackupDir(): string {
+    return this.normalizeConfigPath(
+      getConfigBackupDir(this.app.vault.configDir),
+    );
+  }
+
+  newManagedConfigManager(): ValeConfigManager {
+    const { configDir } = this.app.vault;
 
     return new ValeConfigManager(
-      this.normalizeConfigPath(path.join(dataDir, "bin", binaryName)),
-      this.normalizeConfigPath(path.join(dataDir, ".vale.ini")),
+      this.normalizeConfigPath(getManagedValePath(configDir)),
+      this.normalizeConfigPath(getManagedConfigPath(configDir)),
+      this.configBackupDir(),
     );
   }
 
@@ -558,6 +1033,8 @@ export default class ValePlugin extends Plugin {
    */
   onCheckStart = (editorView: EditorView | null): void => {
     this.lastCheckedView = editorView;
+    this.checkingView = editorView;
+    this.incrementalController?.abort();
     if (!editorView) {
       console.warn(
         "[Vale] onCheckStart: No EditorView available. " +
@@ -568,40 +1045,236 @@ export default class ValePlugin extends Plugin {
 
   // onResult creates markers for every alert after each new check.
   onResult = (alerts: ValeAlert[]): void => {
+    this.lastCheckedView = this.checkingView ?? this.lastCheckedView;
     this.alerts = alerts;
-
-    // Update status bar
-    if (this.statusBarItem) {
-      if (alerts.length === 0) {
-        this.statusBarItem.setText("Vale: no issues");
-      } else {
-        const noun = alerts.length === 1 ? "issue" : "issues";
-        this.statusBarItem.setText(`Vale: ${alerts.length} ${noun}`);
-      }
-    }
+    this.updateStatusBar();
 
     this.clearAlertMarkers();
     this.markAlerts();
+    this.refreshReadingView();
+    this.incrementalBase = this.showAlerts ? this.lastCheckedView : null;
+    if (this.lastCheckedView) {
+      this.checkedViews.add(this.lastCheckedView);
+    }
   };
 
+  // showEditorResults shows the alerts an editor holds in the Vale panel and
+  // the status bar, without checking the note again.
+  private showEditorResults(editorView: EditorView): void {
+    if (
+      editorView === this.lastCheckedView ||
+      !this.checkedViews.has(editorView)
+    ) {
+      return;
+    }
+
+    this.incrementalController?.abort();
+    this.lastCheckedView = editorView;
+    this.incrementalBase = this.showAlerts ? editorView : null;
+    this.alerts = getValeAlerts(editorView.state);
+    this.updateStatusBar();
+    if (this.app.workspace.getLeavesOfType(VIEW_TYPE_VALE).length) {
+      this.eventBus.dispatch("show-alerts", this.alerts);
+    }
+  }
+
+  private updateStatusBar(): void {
+    if (this.statusBarItem) {
+      this.statusBarItem.setText(
+        `Vale: ${describeSeverityCounts(countBySeverity(this.alerts))}`,
+      );
+    }
+  }
+
+  // showStatusBarMenu opens the menu of the status bar item, with the actions
+  // for the active note and its alerts.
+  private showStatusBarMenu(event: MouseEvent): void {
+    const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+    const menu = new Menu();
+
+    menu.addItem((item) =>
+      item
+        .setTitle("Check document")
+        .setIcon("vale-book")
+        .setDisabled(!editor)
+        .onClick(() => {
+          void this.activateView(true);
+        }),
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle("Open panel")
+        .setIcon("layout-sidebar-right")
+        .onClick(() => {
+          void this.openPanel();
+        }),
+    );
+
+    if (this.alerts.length > 0) {
+      menu.addSeparator();
+      menu.addItem((item) =>
+        item
+          .setTitle("Go to next alert")
+          .setIcon("arrow-down")
+          .setDisabled(!editor || !this.goToAlert(editor, "next", true))
+          .onClick(() => {
+            if (editor) {
+              this.goToAlert(editor, "next", false);
+            }
+          }),
+      );
+      menu.addItem((item) =>
+        item
+          .setTitle(this.showAlerts ? "Hide alerts" : "Show alerts")
+          .setIcon(this.showAlerts ? "eye-off" : "eye")
+          .onClick(() => {
+            this.toggleAlerts();
+          }),
+      );
+      menu.addItem((item) =>
+        item
+          .setTitle("Clear alerts")
+          .setIcon("x")
+          .onClick(() => {
+            this.clearAllAlertMarkers();
+          }),
+      );
+      menu.addItem((item) =>
+        item
+          .setTitle("Export results")
+          .setIcon("download")
+          .onClick(() => {
+            this.onExport();
+          }),
+      );
+    }
+
+    menu.showAtMouseEvent(event);
+  }
+
   /**
-   * Toggles the visibility of Vale alert decorations in the editor.
+   * Toggles the visibility of Vale alert decorations in every editor.
    * When toggled off, clears all markers. When toggled on, re-displays them.
    */
   private toggleAlerts(): void {
     this.showAlerts = !this.showAlerts;
-    this.clearAlertMarkers();
-    if (this.showAlerts) {
+    const editors = this.getValeEditors();
+
+    if (!this.showAlerts) {
+      const hidden = editors.map((view): [EditorView, ValeAlert[]] => [
+        view,
+        getValeAlerts(view.state),
+      ]);
+      this.clearAllAlertMarkers();
+      this.hiddenAlerts = new WeakMap(hidden);
+    } else {
+      // The last checked editor may have been checked again in the meantime.
+      for (const view of editors) {
+        const alerts = this.hiddenAlerts.get(view);
+        if (view !== this.lastCheckedView && alerts?.length) {
+          view.dispatch({
+            effects: [
+              addValeMarks.of(alerts),
+              setValeAlertFilter.of(this.alertFilter),
+            ],
+          });
+        }
+      }
+      this.hiddenAlerts = new WeakMap();
+      this.clearAlertMarkers();
       this.markAlerts();
     }
+    this.refreshReadingView(editors);
+  }
+
+  // getValeEditors returns the editors of open notes that have the Vale
+  // extension.
+  private getValeEditors(): EditorView[] {
+    const editors: EditorView[] = [];
+    for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+      const editorView =
+        leaf.view instanceof MarkdownView
+          ? (leaf.view.editor as EditorWithCM).cm
+          : undefined;
+      if (editorView?.state.field(valeStateField, false)) {
+        editors.push(editorView);
+      }
+    }
+    return editors;
+  }
+
+  // getNoteAlerts returns the alerts underlined in an editor of a note, for
+  // Reading view.
+  private getNoteAlerts(path: string): ValeAlert[] {
+    for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+      const editorView =
+        leaf.view instanceof MarkdownView && leaf.view.file?.path === path
+          ? (leaf.view.editor as EditorWithCM).cm
+          : undefined;
+      if (editorView && this.checkedViews.has(editorView)) {
+        return getValeAlerts(editorView.state);
+      }
+    }
+    return [];
+  }
+
+  // refreshReadingView renders the notes of the given editors, by default the
+  // one of the last check, again if they're in Reading view, so that their
+  // underlines match the editors.
+  private refreshReadingView(
+    editors: (EditorView | null)[] = [this.lastCheckedView],
+  ): void {
+    for (const editorView of editors) {
+      const markdownView = editorView && this.findMarkdownView(editorView);
+      if (markdownView?.getMode() === "preview") {
+        markdownView.previewMode.rerender(true);
+      }
+    }
+  }
+
+  // openReadingAlert switches a note from Reading view to the editor and
+  // scrolls to the alert that was clicked.
+  private async openReadingAlert(
+    path: string,
+    alert: ValeAlert,
+  ): Promise<void> {
+    const leaf = this.app.workspace
+      .getLeavesOfType("markdown")
+      .find(
+        (candidate) =>
+          candidate.view instanceof MarkdownView &&
+          candidate.view.file?.path === path,
+      );
+    if (!leaf || !(leaf.view instanceof MarkdownView)) {
+      return;
+    }
+
+    const viewState = leaf.getViewState();
+    await leaf.setViewState({
+      ...viewState,
+      state: { ...viewState.state, mode: "source" },
+    });
+
+    const markdownView = leaf.view;
+    const editorView = (markdownView.editor as EditorWithCM).cm;
+    if (!editorView) {
+      return;
+    }
+
+    this.app.workspace.setActiveLeaf(leaf, { focus: true });
+    this.showEditorResults(editorView);
+    scrollToAlert(editorView, markdownView.editor, alert, true);
+    this.eventBus.dispatch("select-alert", alert);
   }
 
   clearAlertMarkers = (): void => {
+    this.incrementalBase = null;
+
     // Use the stored EditorView from when the check started.
     // This ensures we dispatch to the same editor that was checked.
     if (this.lastCheckedView) {
       this.lastCheckedView.dispatch({
-        effects: clearAllValeMarks.of(),
+        effects: [clearAllValeMarks.of(), resetChangedRanges.of()],
       });
     } else {
       // Fallback to withEditorView for commands like "Toggle alerts"
@@ -614,6 +1287,18 @@ export default class ValePlugin extends Plugin {
     }
   };
 
+  // clearAllAlertMarkers removes the underlines from every editor, such as for
+  // the Clear alerts command.
+  clearAllAlertMarkers = (): void => {
+    this.incrementalBase = null;
+    this.hiddenAlerts = new WeakMap();
+    for (const view of this.getValeEditors()) {
+      view.dispatch({
+        effects: [clearAllValeMarks.of(), resetChangedRanges.of()],
+      });
+    }
+  };
+
   markAlerts = (): void => {
     if (!this.showAlerts || this.alerts.length === 0) {
       return;
@@ -623,7 +1308,10 @@ export default class ValePlugin extends Plugin {
     // This ensures we dispatch to the same editor that was checked.
     if (this.lastCheckedView) {
       this.lastCheckedView.dispatch({
-        effects: addValeMarks.of(this.alerts),
+        effects: [
+          addValeMarks.of(this.alerts),
+          setValeAlertFilter.of(this.alertFilter),
+        ],
       });
     } else {
       // Fallback to withEditorView for commands like "Toggle alerts"
@@ -634,12 +1322,36 @@ export default class ValePlugin extends Plugin {
       );
       this.withEditorView((view) => {
         view.dispatch({
-          effects: addValeMarks.of(this.alerts),
+          effects: [
+            addValeMarks.of(this.alerts),
+            setValeAlertFilter.of(this.alertFilter),
+          ],
         });
       });
     }
   };
 
+  // filterAlerts dims or hides the underlines of the alerts filtered out of
+  // the results panel, in every open editor.
+  private filterAlerts(options: AlertListOptions): void {
+    this.alertFilter = isFiltering(options)
+      ? {
+          matches: (alert) => matchesAlertFilter(alert, options),
+          mode: options.filteredInEditor,
+        }
+      : null;
+
+    for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+      const editorView =
+        leaf.view instanceof MarkdownView
+          ? (leaf.view.editor as EditorWithCM).cm
+          : undefined;
+      editorView?.dispatch({
+        effects: setValeAlertFilter.of(this.alertFilter),
+      });
+    }
+  }
+
   // onAlertClick highlights an alert in the editor when the user clicks one of
   // the cards in the results view.
   onAlertClick = (alert: ValeAlert): void => {
@@ -655,9 +1367,9 @@ export default class ValePlugin extends Plugin {
       return;
     }
 
-    // Get the MarkdownView to access the editor for scrollToAlert.
-    // This is needed for the Editor abstraction that scrollToAlert uses.
-    const markdownView = this.getMarkdownView();
+    // Get the MarkdownView of that editor for scrollToAlert, which uses the
+    // Editor abstraction. The active view may show another note.
+    const markdownView = this.findMarkdownView(editorView);
     if (!markdownView) {
       console.warn(
         "[Vale] onAlertClick: No MarkdownView found. Cannot scroll to alert.",
@@ -672,6 +1384,442 @@ export default class ValePlugin extends Plugin {
     this.eventBus.dispatch("select-alert", alert);
   };
 
+  // goToAlert moves the cursor to the alert after or before it, and selects
+  // the alert in the editor and in the results view. Returns false when the
+  // editor has no such alert, so the command is hidden while checking.
+  private goToAlert(
+    editor: Editor,
+    direction: "next" | "previous",
+    checking: boolean,
+    filter?: (alert: ValeAlert) => boolean,
+  ): boolean {
+    const view = (editor as EditorWithCM).cm;
+    if (!view) {
+      return false;
+    }
+
+    const target = findAdjacentValeAlert(
+      view.state,
+      view.state.selection.main.head,
+      direction,
+      filter,
+    );
+    if (!target) {
+      return false;
+    }
+    if (checking) {
+      return true;
+    }
+
+    // Show the results of this editor if another one was checked last.
+    this.showEditorResults(view);
+
+    view.dispatch({
+      selection: { anchor: target.from },
+      effects: [
+        selectValeAlert.of(generateAlertId(target.alert)),
+        EditorView.scrollIntoView(target.from, { y: "center" }),
+      ],
+    });
+    this.eventBus.dispatch("select-alert", target.alert);
+    return true;
+  }
+
+  // alertActions are the actions offered on the cards in the results view.
+  // They apply to the editor of the last check.
+  alertActions: AlertActions = {
+    onFix: (alert, fix) =>
+      this.withLastCheckedView((view) => this.applyFix(view, alert, fix)),
+    onAddToVocabulary: (alert) =>
+      this.withLastCheckedView((view) => {
+        void this.addToVocabulary(view, alert);
+      }),
+    onDismiss: (alert) =>
+      this.withLastCheckedView((view) => {
+        void this.dismissAlert(view, alert);
+      }),
+    onRestore: (alert) =>
+      this.withLastCheckedView((view) => {
+        void this.restoreAlert(view, alert);
+      }),
+    onIgnoreHere: (alert) =>
+      this.withLastCheckedView((view) => this.ignoreHere(view, alert)),
+    onIgnoreInNote: (alert) =>
+      this.withLastCheckedView((view) => {
+        void this.ignoreInNote(view, alert);
+      }),
+  };
+
+  // withLastCheckedView runs an action on the editor of the last check.
+  private withLastCheckedView(action: (view: EditorView) => void): void {
+    if (!this.lastCheckedView) {
+      console.warn(
+        "[Vale] No lastCheckedView available. Cannot apply the action.",
+      );
+      return;
+    }
+    action(this.lastCheckedView);
+  }
+
+  // applyFix replaces the text of an alert and removes the alert from the
+  // results, without checking the note again.
+  private applyFix(view: EditorView, alert: ValeAlert, fix: QuickFix): void {
+    if (fix.pick) {
+      void this.pickSuggestion(view, alert);
+      return;
+    }
+
+    if (!applyQuickFix(view, alert, fix)) {
+      new Notice("Vale: couldn't apply the fix because the text has changed");
+      return;
+    }
+
+    if (view !== this.lastCheckedView) {
+      return;
+    }
+
+    const alertId = generateAlertId(alert);
+    this.alerts = this.alerts.filter((a) => generateAlertId(a) !== alertId);
+    this.updateStatusBar();
+    if (this.app.workspace.getLeavesOfType(VIEW_TYPE_VALE).length) {
+      this.eventBus.dispatch("update-alerts", this.alerts);
+    }
+  }
+
+  // pickSuggestion asks Vale for the replacements of a suggest or convert
+  // action, such as the spellings of a misspelled word, and applies the one
+  // picked from the list.
+  private async pickSuggestion(
+    view: EditorView,
+    alert: ValeAlert,
+  ): Promise<void> {
+    if (!this.runner) {
+      return;
+    }
+
+    let fixes: QuickFix[];
+    try {
+      fixes = suggestionFixes(alert, await this.runner.suggest(alert));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      new Notice(`Vale: couldn't get suggestions: ${message}`);
+      return;
+    }
+
+    if (!fixes.length) {
+      new Notice(`Vale: no suggestions for "${alert.Match}"`);
+      return;
+    }
+
+    new QuickFixModal(this.app, fixes, (fix) => {
+      this.applyFix(view, alert, fix);
+    }).open();
+  }
+
+  // undoConfigChange restores the config file from before its last change,
+  // whether made in the settings, from an alert or in the config editor.
+  private async undoConfigChange(): Promise<void> {
+    if (!this.configManager) {
+      return;
+    }
+
+    try {
+      if (await this.configManager.undoLastConfigChange()) {
+        new Notice("Vale: restored the config from before its last change");
+      } else {
+        new Notice("Vale: no config changes to undo");
+      }
+    } catch (err) {
+      console.error("[Vale] Failed to undo config change:", err);
+      new Notice("Vale: couldn't undo the last config change");
+    }
+  }
+
+  // addToVocabulary adds the word of a spelling alert to the configured
+  // vocabulary, and checks the note again so that the alert goes away.
+  private async addToVocabulary(
+    view: EditorView,
+    alert: ValeAlert,
+  ): Promise<void> {
+    if (!this.configManager) {
+      new Notice("Vale: vocabularies can only be edited when using Vale CLI");
+      return;
+    }
+
+    const word = alert.Match.trim();
+    try {
+      const vocabulary = await this.configManager.addToVocabulary(word);
+      new Notice(`Vale: added "${word}" to the ${vocabulary} vocabulary`);
+    } catch (err) {
+      console.error("[Vale] Failed to add word to vocabulary:", err);
+      new Notice(`Vale: couldn't add "${word}" to the vocabulary`);
+      return;
+    }
+
+    const markdownView = this.findMarkdownView(view);
+    if (markdownView) {
+      await this.runCheckOnly(markdownView);
+    }
+  }
+
+  // dismissAlert hides an alert in this and later checks of the note, until
+  // the text around it changes.
+  private async dismissAlert(
+    view: EditorView,
+    alert: ValeAlert,
+  ): Promise<void> {
+    const markdownView = this.findMarkdownView(view);
+    const file = markdownView?.file;
+    if (!this.dismissals || !markdownView || !file) {
+      return;
+    }
+
+    // The underline has the current text around the alert, which is what the
+    // next check sees.
+    const range = findAlertRange(view, alert);
+    if (!range) {
+      new Notice(
+        "Vale: couldn't dismiss the alert because the text has changed",
+      );
+      return;
+    }
+    const line = view.state.doc.lineAt(range.from);
+    const fingerprint = alertFingerprint(
+      alert.Check,
+      line.text,
+      range.from - line.from,
+      range.to - line.from,
+    );
+
+    await this.dismissals.dismiss(file.path, fingerprint);
+    await this.runCheckOnly(markdownView);
+  }
+
+  // restoreAlert shows a dismissed alert again.
+  private async restoreAlert(
+    view: EditorView,
+    alert: ValeAlert,
+  ): Promise<void> {
+    const markdownView = this.findMarkdownView(view);
+    const file = markdownView?.file;
+    if (!this.dismissals || !markdownView || !file) {
+      return;
+    }
+
+    // Dismissed alerts aren't underlined, so their fingerprint comes from the
+    // line they were found on.
+    const fingerprint = fingerprintInText(view.state.doc.toString(), alert);
+    if (!(await this.dismissals.restore(file.path, fingerprint))) {
+      new Notice(
+        "Vale: couldn't restore the alert because the text has changed",
+      );
+      return;
+    }
+    await this.runCheckOnly(markdownView);
+  }
+
+  // ignoreHere tells Vale to ignore an alert's check in the block the alert
+  // is in, and checks the note again since the lines below have moved.
+  private ignoreHere(view: EditorView, alert: ValeAlert): void {
+    if (!ignoreAlertHere(view, alert)) {
+      new Notice(
+        "Vale: couldn't ignore the alert because the text has changed",
+      );
+      return;
+    }
+
+    const markdownView = this.findMarkdownView(view);
+    if (markdownView) {
+      void this.runCheckOnly(markdownView);
+    }
+  }
+
+  // ignoreInNote adds an alert's check to the note's front matter, and
+  // removes the check's alerts without checking the note again.
+  private async ignoreInNote(
+    view: EditorView,
+    alert: ValeAlert,
+  ): Promise<void> {
+    const file = this.findMarkdownView(view)?.file;
+    if (!file) {
+      return;
+    }
+
+    try {
+      await this.app.fileManager.processFrontMatter(
+        file,
+        (frontMatter: Record<string, unknown>) => {
+          const current: unknown = frontMatter[IGNORE_PROPERTY];
+          const checks = Array.isArray(current)
+            ? current
+            : typeof current === "string"
+              ? current.split(",").map((check) => check.trim())
+              : [];
+          if (!checks.includes(alert.Check)) {
+            checks.push(alert.Check);
+          }
+          frontMatter[IGNORE_PROPERTY] = checks;
+        },
+      );
+    } catch (err) {
+      console.error("[Vale] Failed to update front matter:", err);
+      new Notice(`Vale: couldn't ignore ${alert.Check} in this note`);
+      return;
+    }
+
+    view.dispatch({
+      effects: clearValeMarksForCheck.of({
+        check: alert.Check,
+        from: 0,
+        to: view.state.doc.length,
+      }),
+    });
+
+    if (view !== this.lastCheckedView) {
+      return;
+    }
+
+    this.alerts = filterIgnoredAlerts(this.alerts, [alert.Check]);
+    this.updateStatusBar();
+    if (this.app.workspace.getLeavesOfType(VIEW_TYPE_VALE).length) {
+      this.eventBus.dispatch("update-alerts", this.alerts);
+    }
+  }
+
+  // getCheckedFile returns the note of the last check, if it's still open.
+  private getCheckedFile(): TFile | null {
+    return (
+      (this.lastCheckedView &&
+        this.findMarkdownView(this.lastCheckedView)?.file) ??
+      null
+    );
+  }
+
+  // onExport asks for a format and exports the results of a batch check, or
+  // the alerts of the last checked note.
+  onExport = (batch?: BatchFileResult[]): void => {
+    const file = this.getCheckedFile();
+    const results =
+      batch ?? (file ? [{ path: file.path, alerts: this.alerts }] : []);
+    if (results.length === 0) {
+      new Notice("Vale: no results to export");
+      return;
+    }
+
+    new ExportFormatModal(this.app, ({ format }) => {
+      void this.exportResults(results, format);
+    }).open();
+  };
+
+  // exportResults saves results to a new file at the root of the vault. A
+  // Markdown report is opened, since it links to the notes it lists.
+  private async exportResults(
+    results: BatchFileResult[],
+    format: ExportFormat,
+  ): Promise<void> {
+    try {
+      const notes: Record<string, string> = {};
+      if (format === "markdown") {
+        for (const { path, alerts } of results) {
+          const file = this.app.vault.getAbstractFileByPath(path);
+          if (alerts.length > 0 && file instanceof TFile) {
+            notes[path] = await this.app.vault.cachedRead(file);
+          }
+        }
+      }
+
+      const date = new Date();
+      const name = exportFileName(format, date);
+      let filePath = name;
+      for (let n = 1; this.app.vault.getAbstractFileByPath(filePath); n++) {
+        filePath = name.replace(/(\.\w+)$/, ` ${n}$1`);
+      }
+
+      const file = await this.app.vault.create(
+        filePath,
+        serializeResults(results, format, notes, date),
+      );
+      if (format === "markdown") {
+        await this.app.workspace.getLeaf(true).openFile(file);
+      } else {
+        new Notice(`Vale: exported results to ${file.path}`);
+      }
+    } catch (err) {
+      new Notice(
+        `Vale: couldn't export results: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  // findMarkdownView returns the Markdown view that an editor belongs to.
+  private findMarkdownView(editorView: EditorView): MarkdownView | null {
+    for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+      if (
+        leaf.view instanceof MarkdownView &&
+        (leaf.view.editor as EditorWithCM)?.cm === editorView
+      ) {
+        return leaf.view;
+      }
+    }
+    return null;
+  }
+
+  // onBatchAlertClick opens the note an alert from a batch check belongs to,
+  // marks the note's alerts in the editor and scrolls to the clicked alert.
+  onBatchAlertClick = (result: BatchFileResult, alert: ValeAlert): void => {
+    void this.openBatchAlert(result, alert);
+  };
+
+  private async openBatchAlert(
+    result: BatchFileResult,
+    alert: ValeAlert,
+  ): Promise<void> {
+    const file = this.app.vault.getFileByPath(result.path);
+    if (!file) {
+      new Notice(`Vale: couldn't find ${result.path}`);
+      return;
+    }
+
+    // Prevent the file-open auto-check from replacing the batch results.
+    this.lastAutoCheckedPath = file.path;
+
+    // Reuse a leaf that already shows the note, if there is one.
+    let leaf = this.app.workspace
+      .getLeavesOfType("markdown")
+      .find(
+        (candidate) =>
+          candidate.view instanceof MarkdownView &&
+          candidate.view.file?.path === file.path,
+      );
+    if (leaf) {
+      this.app.workspace.setActiveLeaf(leaf, { focus: true });
+    } else {
+      leaf = this.app.workspace.getLeaf(false);
+      await leaf.openFile(file);
+    }
+
+    if (!(leaf.view instanceof MarkdownView)) {
+      return;
+    }
+
+    const markdownView = leaf.view;
+    const editorView = (markdownView.editor as EditorWithCM).cm;
+    if (!editorView) {
+      console.warn("[Vale] onBatchAlertClick: EditorView not available.");
+      return;
+    }
+
+    this.lastCheckedView = editorView;
+    this.alerts = result.alerts;
+    this.clearAlertMarkers();
+    this.markAlerts();
+    this.checkedViews.add(editorView);
+    this.refreshReadingView();
+
+    scrollToAlert(editorView, markdownView.editor, alert, true);
+    this.eventBus.dispatch("select-alert", alert);
+  }
+
   // onMarkerClick determines whether the user clicks on an existing marker in
   // the editor and highlights the corresponding alert in the results view.
   onMarkerClick = (detail: ValeAlertClickDetail): void => {
@@ -680,18 +1828,30 @@ export default class ValePlugin extends Plugin {
       return;
     }
 
-    // Get the alert from the map using the alert ID
-    const alert = valeAlertMap.get(detail.alertId);
+    const view =
+      detail.view ??
+      (
+        this.app.workspace.getActiveViewOfType(MarkdownView)?.editor as
+          | EditorWithCM
+          | undefined
+      )?.cm;
+    if (!view) {
+      return;
+    }
+
+    // Get the alert from the editor that was clicked
+    const alert = getValeAlert(view.state, detail.alertId);
 
     if (!alert) {
       return;
     }
 
+    // The clicked editor's alerts must be in the panel to highlight one.
+    this.showEditorResults(view);
+
     // Dispatch selection effect
-    this.withEditorView((view) => {
-      view.dispatch({
-        effects: selectValeAlert.of(detail.alertId),
-      });
+    view.dispatch({
+      effects: selectValeAlert.of(detail.alertId),
     });
 
     // Dispatch to EventBus for UI panel
@@ -782,14 +1942,15 @@ export default class ValePlugin extends Plugin {
    * Cancels any pending auto-check and schedules a new one after the specified delay.
    *
    * @param delayMs - Delay in milliseconds before running the check
+   * @param incremental - Whether only the edited blocks may be re-checked
    */
-  private scheduleAutoCheck(delayMs: number): void {
+  private scheduleAutoCheck(delayMs: number, incremental = false): void {
     if (this.autoCheckTimer) {
       clearTimeout(this.autoCheckTimer);
     }
     this.autoCheckTimer = setTimeout(() => {
       this.autoCheckTimer = null;
-      void this.runAutoCheck();
+      void this.runAutoCheck(incremental);
     }, delayMs);
   }
 
@@ -798,15 +1959,125 @@ export default class ValePlugin extends Plugin {
    * Updates lastAutoCheckedPath to prevent redundant checks on the same file.
    * Respects the autoOpenResultsPane setting (doesn't force panel open).
    */
-  private async runAutoCheck(): Promise<void> {
+  private async runAutoCheck(incremental = false): Promise<void> {
     const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
     if (!markdownView?.file) return;
 
     this.lastAutoCheckedPath = markdownView.file.path;
+    if (incremental && (await this.runIncrementalCheck(markdownView))) {
+      return;
+    }
     // Don't force panel open - let activateView respect autoOpenResultsPane setting
     await this.activateView();
   }
 
+  /**
+   * Re-checks only the blocks of a long note that changed since the last
+   * check, and merges their alerts into the existing decorations.
+   *
+   * @param markdownView - The view of the edited note
+   * @returns false if the note needs a full check instead
+   */
+  private async runIncrementalCheck(
+    markdownView: MarkdownView,
+  ): Promise<boolean> {
+    const editorView = (markdownView.editor as EditorWithCM)?.cm;
+    const file = markdownView.file;
+    if (
+      !this.settings.incrementalCheck ||
+      !this.runner ||
+      !file ||
+      !editorView ||
+      editorView !== this.incrementalBase
+    ) {
+      return false;
+    }
+
+    const state = editorView.state;
+    if (state.doc.length < INCREMENTAL_MIN_LENGTH) {
+      return false;
+    }
+
+    const changed = findChangedBlocks(
+      splitIntoBlocks(state.doc),
+      state.field(changedRangesField),
+    );
+
+    // A full check is just as fast once most of the note has changed.
+    const changedLength = changed.reduce((sum, b) => sum + b.to - b.from, 0);
+    if (changedLength > state.doc.length / 2) {
+      return false;
+    }
+
+    this.incrementalController?.abort();
+    const controller = new AbortController();
+    this.incrementalController = controller;
+    this.statusBarItem?.setText("Vale: checking...");
+
+    try {
+      const ignoredChecks = getIgnoredChecks(state.doc.toString());
+      const checked: CheckedBlock[] = [];
+      for (const block of changed) {
+        const text = state.sliceDoc(block.from, block.to);
+        const checkText = getBlockCheckText(state.doc, block);
+        const response = await this.runner.run(
+          checkText.text,
+          "." + file.extension,
+          controller.signal,
+        );
+        // Alerts are reported relative to the block, without the lines of
+        // the Vale comments put before it.
+        const alerts = filterIgnoredAlerts(
+          (Object.values(response)[0] ?? [])
+            .filter((alert) => alert.Line > checkText.lineOffset)
+            .map((alert) => ({
+              ...alert,
+              Line: alert.Line - checkText.lineOffset,
+            })),
+          ignoredChecks,
+        );
+        checked.push({
+          block,
+          alerts:
+            this.dismissals?.partition(file.path, text, alerts).alerts ??
+            alerts,
+        });
+      }
+
+      // If the note changed in the meantime, the edit has already scheduled
+      // another check that covers these blocks too.
+      if (
+        editorView.state.doc !== state.doc ||
+        editorView !== this.incrementalBase
+      ) {
+        return true;
+      }
+
+      const { effects, alerts } = buildIncrementalUpdate(
+        editorView.state,
+        checked,
+      );
+      editorView.dispatch({ effects });
+
+      this.alerts = alerts;
+      this.updateStatusBar();
+      if (this.app.workspace.getLeavesOfType(VIEW_TYPE_VALE).length) {
+        this.eventBus.dispatch("update-alerts", alerts);
+      }
+      return true;
+    } catch (err) {
+      if (isCheckCancelled(err)) {
+        return true;
+      }
+      // Let a full check report the error in the panel.
+      return false;
+    } finally {
+      if (this.incrementalController === controller) {
+        this.incrementalController = null;
+      }
+    }
+  }
+
   // withEditorView is a convenience function for making sure that a
   // function runs with a valid CM6 EditorView.
   // NOTE: This is a FALLBACK method. For check results, prefer using
@@ -821,10 +2092,6 @@ export default class ValePlugin extends Plugin {
     }
 
     // Access CM6 EditorView through Obsidian's editor.cm property
-    // This property exists but may not be in official types
-    interface EditorWithCM {
-      cm?: EditorView;
-    }
     const editorView = (markdownView.editor as EditorWithCM)?.cm;
 
     if (!editorView) {
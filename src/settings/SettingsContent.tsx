@@ -6,6 +6,7 @@ import {
   isStylesRoute,
   isGeneralRoute,
   isConfigurationRoute,
+  isVocabulariesRoute,
   createRoute,
 } from "./navigation";
 
@@ -15,6 +16,7 @@ import { GeneralSettings } from "./pages/GeneralSettings";
 import { StyleSettings } from "./pages/StyleSettings";
 import { RuleSettings } from "./pages/RuleSettings";
 import { ConfigurationSettings } from "./pages/ConfigurationSettings";
+import { VocabularySettings } from "./pages/VocabularySettings";
 
 /**
  * Props for SettingsContent component
@@ -34,6 +36,7 @@ interface SettingsContentProps {
  * - GeneralSettings: General configuration page
  * - StyleSettings: Style management page
  * - RuleSettings: Rule configuration page for a specific style
+ * - VocabularySettings: Vocabulary management page
  *
  * Implements proper tabpanel ARIA attributes for accessibility.
  *
@@ -122,6 +125,37 @@ export const SettingsContent = ({
       return <RuleSettings style={route.style} onNavigate={onNavigate} />;
     }
 
+    if (isVocabulariesRoute(route)) {
+      // Vocabularies live in the StylesPath, like styles
+      if (!validation.configPathValid || settings.type !== "cli") {
+        return (
+          <div
+            role="tabpanel"
+            id="panel-vocabularies"
+            aria-labelledby="tab-vocabularies"
+            tabIndex={0}
+            className="vale-settings-feedback"
+          >
+            <p>
+              Configure a valid Vale config path in General settings to manage
+              vocabularies.
+            </p>
+          </div>
+        );
+      }
+
+      return (
+        <div
+          role="tabpanel"
+          id="panel-vocabularies"
+          aria-labelledby="tab-vocabularies"
+          tabIndex={0}
+        >
+          <VocabularySettings />
+        </div>
+      );
+    }
+
     if (isConfigurationRoute(route)) {
       return (
         <div
@@ -20,12 +20,14 @@ interface SettingsNavigationProps {
 /**
  * Navigation component for settings pages.
  *
- * Renders tab navigation for General, Styles, and Configuration pages.
+ * Renders tab navigation for General, Styles, Vocabularies and
+ * Configuration pages.
  * Hides when on Rules page (accessed via gear icon).
  *
  * Tab visibility logic:
  * - General tab: Always visible
  * - Styles tab: Visible when config path is valid AND type is CLI
+ * - Vocabularies tab: Same as the Styles tab, since both live in StylesPath
  * - Configuration tab: Always visible
  *
  * Uses TabBar component from Phase 1 for consistent WAI-ARIA patterns.
@@ -65,6 +67,11 @@ export const SettingsNavigation = ({
       label: "Styles",
       disabled: !showStylesTab,
     },
+    {
+      id: PAGES.VOCABULARIES,
+      label: "Vocabularies",
+      disabled: !showStylesTab,
+    },
     {
       id: PAGES.CONFIGURATION,
       label: "Configuration",
@@ -14,10 +14,12 @@ import {
   isStylesRoute,
   isGeneralRoute,
   isConfigurationRoute,
+  isVocabulariesRoute,
   navigateToGeneral,
   navigateToStyles,
   navigateToRules,
   navigateToConfiguration,
+  navigateToVocabularies,
   createRoute,
 } from "../types/routes";
 
@@ -26,13 +28,20 @@ export type { SettingsRoute, PageType };
 export { PAGES, createRoute };
 
 // Re-export type guards
-export { isRulesRoute, isStylesRoute, isGeneralRoute, isConfigurationRoute };
+export {
+  isRulesRoute,
+  isStylesRoute,
+  isGeneralRoute,
+  isConfigurationRoute,
+  isVocabulariesRoute,
+};
 
 // Re-export navigation helpers with clearer names
 export const createGeneralRoute = navigateToGeneral;
 export const createStylesRoute = navigateToStyles;
 export const createRulesRoute = navigateToRules;
 export const createConfigurationRoute = navigateToConfiguration;
+export const createVocabulariesRoute = navigateToVocabularies;
 
 /**
  * Check if a route requires a back button.
@@ -84,6 +93,8 @@ export function tabIdToRoute(tabId: string): SettingsRoute {
       return createStylesRoute();
     case PAGES.CONFIGURATION:
       return createConfigurationRoute();
+    case PAGES.VOCABULARIES:
+      return createVocabulariesRoute();
     default:
       // Default to General if unknown tab
       return createGeneralRoute();
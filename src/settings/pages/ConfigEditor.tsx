@@ -0,0 +1,277 @@
+import * as React from "react";
+import { lintGutter } from "@codemirror/lint";
+import { EditorView } from "@codemirror/view";
+import { ValidationFeedback } from "../../components/feedback";
+import { iniHighlighting, showConfigDiagnostics } from "../../editor/iniEditor";
+import {
+  ConfigValidationResult,
+  useConfigValidation,
+} from "../../hooks/useConfigValidation";
+import { useObsidianSetting } from "../../hooks/useObsidianSetting";
+import type { ValidationStatus } from "../../types/validation";
+import { pluralize } from "../../utils/alerts";
+import { ValeConfigManager } from "../../vale/ValeConfigManager";
+import { validateConfigText } from "../../vale/valeIni";
+
+/**
+ * Summarizes the validation of the draft. Problems on lines are listed
+ * separately, so only their number is given here.
+ */
+function describeValidation(validation: ConfigValidationResult): {
+  status: ValidationStatus;
+  message?: string;
+} {
+  const problems = validation.diagnostics ?? [];
+  const errors = problems.filter(({ severity }) => severity === "error");
+  const warnings = problems.length - errors.length;
+
+  if (validation.isValidating) {
+    return { status: "validating" };
+  }
+  if (errors.length > 0) {
+    return {
+      status: "error",
+      message: `Fix ${pluralize(errors.length, "error")} before saving`,
+    };
+  }
+  if (validation.error) {
+    return { status: "error", message: validation.error };
+  }
+  if (!validation.diagnostics) {
+    return { status: "idle" };
+  }
+  return {
+    status: "valid",
+    message: warnings ? pluralize(warnings, "warning") : "No problems found",
+  };
+}
+
+/**
+ * Props for ConfigEditor component
+ */
+export interface ConfigEditorProps {
+  /** Reads and writes the config file */
+  configManager: ValeConfigManager;
+}
+
+/**
+ * ConfigEditor - Editor for the text of .vale.ini
+ *
+ * Covers the settings that have no controls of their own, such as
+ * MinAlertLevel, Vocab or the settings of other file formats.
+ *
+ * Features:
+ * - INI syntax highlighting
+ * - Problems underlined and listed by line as you type, for unknown keys and
+ *   values Vale doesn't accept
+ * - Saving is disabled until the errors are fixed
+ * - Revert discards unsaved changes
+ *
+ * Architecture:
+ * - CodeMirror holds the text; React tracks the draft for validation
+ * - useConfigValidation validates the draft (debounced)
+ * - Saves through ValeConfigManager, keeping the text as written
+ *
+ * Nielsen Heuristic Alignment:
+ * - H5 (Error Prevention): Invalid configs can't be saved
+ * - H9 (Error Recovery): Each problem names its line
+ *
+ * @example
+ * ```tsx
+ * <ConfigEditor key={configManager.getConfigPath()} configManager={configManager} />
+ * ```
+ */
+export const ConfigEditor: React.FC<ConfigEditorProps> = ({
+  configManager,
+}) => {
+  // State: Text of the config file on disk (null while loading)
+  const [savedText, setSavedText] = React.useState<string | null>(null);
+
+  // State: Text in the editor
+  const [draft, setDraft] = React.useState<string>("");
+
+  // State: Error from loading or saving the file
+  const [fileError, setFileError] = React.useState<string>();
+
+  const [isSaving, setIsSaving] = React.useState<boolean>(false);
+
+  const editorRef = React.useRef<HTMLDivElement>(null);
+  const viewRef = React.useRef<EditorView | null>(null);
+
+  // Ref: Latest saved text, for creating the editor without recreating it
+  // after each save
+  const savedTextRef = React.useRef<string>("");
+  savedTextRef.current = savedText ?? "";
+
+  const validation = useConfigValidation(
+    configManager,
+    savedText === null ? undefined : draft,
+  );
+
+  const headingRef = useObsidianSetting(
+    {
+      name: "Configuration file",
+      desc: `Edit ${configManager.getConfigPath()} directly, for settings that have no controls here.`,
+      heading: true,
+    },
+    [configManager],
+  );
+
+  // Ref: Config manager to load the file with. It's recreated whenever the
+  // settings change, but the file is only loaded once, to keep the draft.
+  const configManagerRef = React.useRef(configManager);
+
+  /**
+   * Effect: Load the config file.
+   * Runs once; the editor is remounted for another config file.
+   */
+  React.useEffect(() => {
+    let isMounted = true;
+
+    configManagerRef.current
+      .loadConfigText()
+      .then((text) => {
+        if (isMounted) {
+          setSavedText(text);
+          setDraft(text);
+        }
+      })
+      .catch((error: unknown) => {
+        if (isMounted) {
+          setFileError(
+            error instanceof Error ? error.message : "Couldn't read the file",
+          );
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  /**
+   * Effect: Create the editor once the file is loaded.
+   */
+  const isLoaded = savedText !== null;
+  React.useEffect(() => {
+    if (!isLoaded || !editorRef.current) {
+      return;
+    }
+
+    const view = new EditorView({
+      doc: savedTextRef.current,
+      parent: editorRef.current,
+      extensions: [
+        iniHighlighting,
+        lintGutter(),
+        EditorView.contentAttributes.of({
+          "aria-label": "Contents of .vale.ini",
+        }),
+        EditorView.updateListener.of((update) => {
+          if (update.docChanged) {
+            setDraft(update.state.doc.toString());
+          }
+        }),
+      ],
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [isLoaded]);
+
+  /**
+   * Effect: Underline the problems found in the draft.
+   */
+  React.useEffect(() => {
+    if (viewRef.current && validation.diagnostics) {
+      showConfigDiagnostics(viewRef.current, validation.diagnostics);
+    }
+  }, [validation.diagnostics]);
+
+  const isDirty = isLoaded && draft !== savedText;
+
+  const handleSave = async (): Promise<void> => {
+    // The validation lags behind typing, so check the lines once more
+    if (
+      validateConfigText(draft).some(({ severity }) => severity === "error")
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    setFileError(undefined);
+    try {
+      await configManager.saveConfigText(draft);
+      setSavedText(draft);
+    } catch (error) {
+      setFileError(
+        error instanceof Error ? error.message : "Couldn't save the file",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevert = (): void => {
+    const view = viewRef.current;
+    if (view && savedText !== null) {
+      view.dispatch({
+        changes: { from: 0, to: view.state.doc.length, insert: savedText },
+      });
+    }
+  };
+
+  const problems = validation.diagnostics ?? [];
+  const feedback = describeValidation(validation);
+
+  return (
+    <div className="vale-config-editor">
+      <div ref={headingRef} />
+
+      <div ref={editorRef} className="vale-config-editor__editor" />
+
+      {isLoaded && (
+        <ValidationFeedback
+          status={feedback.status}
+          message={feedback.message}
+        />
+      )}
+
+      {problems.length > 0 && (
+        <ul className="vale-config-editor__problems" aria-label="Problems">
+          {problems.map(({ line, severity, message }) => (
+            <li
+              key={`${line}-${message}`}
+              className={`vale-config-editor__problem vale-config-editor__problem--${severity}`}
+            >
+              Line {line}: {message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {fileError && (
+        <p className="vale-config-editor__error" role="alert">
+          {fileError}
+        </p>
+      )}
+
+      <div className="vale-config-editor__actions">
+        <button type="button" onClick={handleRevert} disabled={!isDirty}>
+          Revert
+        </button>
+        <button
+          type="button"
+          className="mod-cta"
+          onClick={() => void handleSave()}
+          disabled={!isDirty || !validation.valid || isSaving}
+        >
+          {isSaving ? "Saving…" : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import * as React from "react";
+import { useObsidianSetting } from "../../hooks/useObsidianSetting";
+import { EffectiveConfig, checkedFileName } from "../../vale/configSections";
+
+/**
+ * Props for ConfigSectionPicker component
+ */
+export interface ConfigSectionPickerProps {
+  /** Sections of .vale.ini that apply to files, such as "*.md" */
+  sections: string[];
+  /** The section being edited */
+  section: string;
+  /** Callback when another section is chosen */
+  onChange: (section: string) => void;
+  /** Path of the current note in the vault, if a note is open */
+  notePath: string | null;
+  /** What the sections that apply to the current note add up to */
+  effective: EffectiveConfig | null;
+}
+
+/**
+ * Describe which sections apply to the current note. Vale reads notes from
+ * stdin during a check, so sections for folders never apply to them.
+ */
+function describeNote(
+  notePath: string | null,
+  sections: string[],
+  effective: EffectiveConfig | null,
+): string {
+  if (!notePath || !effective) {
+    return "Open a note to see which sections apply to it.";
+  }
+  const applied =
+    effective.sections.length === 0
+      ? "no section"
+      : `${effective.sections.map((name) => `[${name}]`).join(", ")}, in that order`;
+  const description = `Checks read ${notePath} as ${checkedFileName(notePath)}, so it gets ${applied}.`;
+
+  const folderSection = sections.find((name) => name.includes("/"));
+  return folderSection
+    ? `${description} Sections for folders, such as [${folderSection}], don't apply to checks.`
+    : description;
+}
+
+/**
+ * ConfigSectionPicker - Chooses the section of .vale.ini to edit
+ *
+ * Vale applies every section whose glob matches a file, such as [*],
+ * [*.md] and [drafts/*.md]. Notes are checked as stdin.md, so sections for
+ * folders only apply when Vale is run on the files outside Obsidian. Styles
+ * and rules are saved to the section chosen here, which is shared by the
+ * Styles and Rules pages.
+ *
+ * Features:
+ * - Dropdown of the format sections, in the order they're written
+ * - Lists the sections that apply to the current note when it's checked,
+ *   which Vale reads as stdin.md rather than by its path in the vault
+ * - Hidden when the config has only one section, which is always edited
+ *
+ * Nielsen Heuristic Alignment:
+ * - H1 (Visibility): Shows which section changes are saved to
+ * - H2 (Match Real World): Sections are named as in .vale.ini
+ *
+ * @example
+ * ```tsx
+ * <ConfigSectionPicker
+ *   sections={["*", "*.md", "drafts/*.md"]}
+ *   section="*.md"
+ *   onChange={setSection}
+ *   notePath="drafts/idea.md"
+ *   effective={effective}
+ * />
+ * ```
+ */
+export const ConfigSectionPicker: React.FC<ConfigSectionPickerProps> = ({
+  sections,
+  section,
+  onChange,
+  notePath,
+  effective,
+}) => {
+  const containerRef = useObsidianSetting(
+    {
+      name: "Section",
+      desc: "The section of .vale.ini that changes are saved to.",
+      configure: (setting) => {
+        setting.descEl.createEl("div", {
+          cls: "vale-config-section-note",
+          text: describeNote(notePath, sections, effective),
+        });
+        setting.addDropdown((dropdown) => {
+          for (const name of sections) {
+            dropdown.addOption(name, `[${name}]`);
+          }
+          dropdown.setValue(section).onChange(onChange);
+        });
+      },
+    },
+    [sections, section, onChange, notePath, effective],
+  );
+
+  if (sections.length < 2) {
+    return null;
+  }
+
+  return <div ref={containerRef} className="vale-config-section-picker" />;
+};
@@ -2,6 +2,7 @@ import * as React from "react";
 import { useSettings } from "../../context/SettingsContext";
 import { useConfigManager } from "../../hooks";
 import { CliSettings } from "./CliSettings";
+import { ConfigEditor } from "./ConfigEditor";
 import { OnboardingBanner } from "./OnboardingBanner";
 
 /**
@@ -10,6 +11,7 @@ import { OnboardingBanner } from "./OnboardingBanner";
  * Contains all settings related to Vale setup:
  * - CLI settings (managed vs custom mode, paths)
  * - Onboarding banner for first-time setup
+ * - Editor for the text of .vale.ini
  *
  * This component is separate from GeneralSettings which contains
  * the behavior toggles (toolbar button, auto-check, etc.).
@@ -18,6 +20,7 @@ import { OnboardingBanner } from "./OnboardingBanner";
  * - Uses SettingsContext for state management
  * - Delegates to CliSettings for path configuration
  * - Shows onboarding banner when Vale is not installed
+ * - Delegates to ConfigEditor for editing the config file
  *
  * Nielsen Heuristic Alignment:
  * - H1 (Visibility): Shows installation status
@@ -70,6 +73,14 @@ export const ConfigurationSettings: React.FC = () => {
 
       {/* CLI settings */}
       <CliSettings />
+
+      {/* Config file editor */}
+      {configManager && (
+        <ConfigEditor
+          key={configManager.getConfigPath()}
+          configManager={configManager}
+        />
+      )}
     </div>
   );
 };
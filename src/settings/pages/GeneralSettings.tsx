@@ -1,6 +1,7 @@
 import * as React from "react";
 import { Setting } from "obsidian";
 import { useSettings } from "../../context/SettingsContext";
+import { DEFAULT_DISMISSALS_PATH } from "../../vale/ValeDismissals";
 
 /**
  * WhaleSvg - Inline SVG component for the Vale whale mascot
@@ -50,8 +51,11 @@ const GitHubSvg: React.FC<{ className?: string }> = ({ className }) => (
  * Provides configuration for plugin behavior:
  * - Show editor toolbar button
  * - Auto-check on changes
+ * - Incremental checks for long notes
  * - Check when opening notes
  * - Auto-open results pane
+ * - Remember results between sessions
+ * - File that dismissed alerts are saved to
  *
  * Architecture:
  * - Uses SettingsContext for state management
@@ -68,15 +72,33 @@ export const GeneralSettings: React.FC = () => {
   // Ref: Container for the toolbar button toggle Setting
   const toolbarToggleRef = React.useRef<HTMLDivElement>(null);
 
+  // Ref: Container for the alert markers toggle Setting
+  const alertMarkersRef = React.useRef<HTMLDivElement>(null);
+
+  // Ref: Container for the inline messages toggle Settings
+  const inlineMessagesRef = React.useRef<HTMLDivElement>(null);
+
+  // Ref: Container for the lint diagnostics dropdown Setting
+  const lintDiagnosticsRef = React.useRef<HTMLDivElement>(null);
+
   // Ref: Container for the auto-check toggle Setting
   const autoCheckToggleRef = React.useRef<HTMLDivElement>(null);
 
+  // Ref: Container for the incremental check toggle Setting
+  const incrementalCheckRef = React.useRef<HTMLDivElement>(null);
+
   // Ref: Container for the check-on-note-open toggle Setting
   const checkOnNoteOpenRef = React.useRef<HTMLDivElement>(null);
 
   // Ref: Container for the auto-open-panel toggle Setting
   const autoOpenPanelRef = React.useRef<HTMLDivElement>(null);
 
+  // Ref: Container for the persist-results toggle Setting
+  const persistCacheRef = React.useRef<HTMLDivElement>(null);
+
+  // Ref: Container for the dismissed alerts file Setting
+  const dismissalsPathRef = React.useRef<HTMLDivElement>(null);
+
   /**
    * Effect: Create the toolbar button toggle Setting.
    * Recreates when the setting value changes.
@@ -116,6 +138,130 @@ export const GeneralSettings: React.FC = () => {
     };
   }, [settings.showEditorToolbarButton, updateSettings]);
 
+  /**
+   * Effect: Create the alert markers toggle Setting.
+   * Recreates when the setting value changes.
+   */
+  React.useEffect(() => {
+    const el = alertMarkersRef.current;
+    if (!el) {
+      return;
+    }
+
+    // Clear previous Setting
+    el.empty();
+
+    // Create alert markers toggle Setting using Obsidian's API
+    // Off unless turned on, so the gutter doesn't change for existing users
+    const showMarkers = settings.showAlertMarkers === true;
+
+    new Setting(el)
+      .setName("Show alert markers")
+      .setDesc(
+        "Mark lines with alerts in the editor gutter and along the scrollbar. Click a gutter icon to list the line's alerts.",
+      )
+      .addToggle((toggle) => {
+        return toggle.setValue(showMarkers).onChange((value: boolean) => {
+          void updateSettings({
+            showAlertMarkers: value,
+          });
+        });
+      });
+
+    // Cleanup: Clear on unmount (uses captured local variable, not ref.current)
+    return () => {
+      el.empty();
+    };
+  }, [settings.showAlertMarkers, updateSettings]);
+
+  /**
+   * Effect: Create the inline messages toggle Settings, one per severity.
+   * Recreates when the setting value changes.
+   */
+  React.useEffect(() => {
+    const el = inlineMessagesRef.current;
+    if (!el) {
+      return;
+    }
+
+    // Clear previous Settings
+    el.empty();
+
+    // Default to no inline messages if the setting doesn't exist
+    const severities = settings.inlineMessageSeverities ?? [];
+    const toggles = [
+      { severity: "error", name: "Inline messages for errors" },
+      { severity: "warning", name: "Inline messages for warnings" },
+      { severity: "suggestion", name: "Inline messages for suggestions" },
+    ] as const;
+
+    for (const { severity, name } of toggles) {
+      new Setting(el)
+        .setName(name)
+        .setDesc(
+          `Show the message of a line's most severe ${severity} after the end of the line.`,
+        )
+        .addToggle((toggle) => {
+          return toggle
+            .setValue(severities.includes(severity))
+            .onChange((value: boolean) => {
+              void updateSettings({
+                inlineMessageSeverities: value
+                  ? [...severities, severity]
+                  : severities.filter((s) => s !== severity),
+              });
+            });
+        });
+    }
+
+    // Cleanup: Clear on unmount (uses captured local variable, not ref.current)
+    return () => {
+      el.empty();
+    };
+  }, [settings.inlineMessageSeverities, updateSettings]);
+
+  /**
+   * Effect: Create the lint diagnostics dropdown Setting.
+   * Recreates when the setting value changes.
+   */
+  React.useEffect(() => {
+    const el = lintDiagnosticsRef.current;
+    if (!el) {
+      return;
+    }
+
+    // Clear previous Setting
+    el.empty();
+
+    // Default to not publishing diagnostics if the setting doesn't exist
+    const mode = settings.lintDiagnostics ?? "off";
+
+    new Setting(el)
+      .setName("Lint diagnostics")
+      .setDesc(
+        "Publish alerts as editor lint diagnostics, for the lint panel and commands that move between diagnostics.",
+      )
+      .addDropdown((dropdown) => {
+        return dropdown
+          .addOptions({
+            off: "Off",
+            alongside: "Alongside Vale underlines",
+            instead: "Instead of Vale underlines",
+          })
+          .setValue(mode)
+          .onChange((value) => {
+            void updateSettings({
+              lintDiagnostics: value as typeof mode,
+            });
+          });
+      });
+
+    // Cleanup: Clear on unmount (uses captured local variable, not ref.current)
+    return () => {
+      el.empty();
+    };
+  }, [settings.lintDiagnostics, updateSettings]);
+
   /**
    * Effect: Create the auto-check toggle Setting.
    * Recreates when the setting value changes.
@@ -151,6 +297,47 @@ export const GeneralSettings: React.FC = () => {
     };
   }, [settings.autoCheckOnChange, updateSettings]);
 
+  /**
+   * Effect: Create the incremental check toggle Setting.
+   * Recreates when the setting value changes.
+   */
+  React.useEffect(() => {
+    const el = incrementalCheckRef.current;
+    if (!el) {
+      return;
+    }
+
+    // Clear previous Setting
+    el.empty();
+
+    // Only relevant when checking as you type
+    if (settings.autoCheckOnChange !== true) {
+      return;
+    }
+
+    // Create incremental check toggle Setting using Obsidian's API
+    // Default to false if the setting doesn't exist
+    const incremental = settings.incrementalCheck === true;
+
+    new Setting(el)
+      .setName("Check long notes incrementally")
+      .setDesc(
+        "In long notes, only re-check the paragraphs you edited. Faster, but rules that look at the whole note, such as acronym definitions, may miss context until the next full check.",
+      )
+      .addToggle((toggle) => {
+        return toggle.setValue(incremental).onChange((value: boolean) => {
+          void updateSettings({
+            incrementalCheck: value,
+          });
+        });
+      });
+
+    // Cleanup: Clear on unmount (uses captured local variable, not ref.current)
+    return () => {
+      el.empty();
+    };
+  }, [settings.autoCheckOnChange, settings.incrementalCheck, updateSettings]);
+
   /**
    * Effect: Create the check-on-note-open toggle Setting.
    * Recreates when the setting value changes.
@@ -223,20 +410,119 @@ export const GeneralSettings: React.FC = () => {
     };
   }, [settings.autoOpenResultsPane, updateSettings]);
 
+  /**
+   * Effect: Create the persist-results toggle Setting.
+   * Recreates when the setting value changes.
+   */
+  React.useEffect(() => {
+    const el = persistCacheRef.current;
+    if (!el) {
+      return;
+    }
+
+    // Clear previous Setting
+    el.empty();
+
+    // Create persist-results toggle Setting using Obsidian's API
+    // Default to false if the setting doesn't exist
+    const persistCache = settings.persistResultCache === true;
+
+    new Setting(el)
+      .setName("Remember results between sessions")
+      .setDesc(
+        "Save check results in the plugin folder so notes show their last results right after startup. Unchanged notes always reuse their results within a session.",
+      )
+      .addToggle((toggle) => {
+        return toggle.setValue(persistCache).onChange((value: boolean) => {
+          void updateSettings({
+            persistResultCache: value,
+          });
+        });
+      });
+
+    // Cleanup: Clear on unmount (uses captured local variable, not ref.current)
+    return () => {
+      el.empty();
+    };
+  }, [settings.persistResultCache, updateSettings]);
+
+  /**
+   * Effect: Create the dismissed alerts file Setting.
+   * Recreates when the setting value changes.
+   */
+  React.useEffect(() => {
+    const el = dismissalsPathRef.current;
+    if (!el) {
+      return;
+    }
+
+    // Clear previous Setting
+    el.empty();
+
+    // Empty means the default file, which the placeholder shows
+    const dismissalsPath = settings.dismissalsPath ?? "";
+
+    new Setting(el)
+      .setName("Dismissed alerts file")
+      .setDesc(
+        "File in your vault that dismissed alerts are saved to, so they stay hidden after a restart and on synced devices. Leave empty for the default.",
+      )
+      .addText((text) => {
+        const component = text
+          .setValue(dismissalsPath)
+          .setPlaceholder(DEFAULT_DISMISSALS_PATH);
+
+        // Save on blur (not on every keystroke)
+        component.inputEl.onblur = (event: FocusEvent): void => {
+          const newPath = (event.currentTarget as HTMLInputElement).value;
+
+          // Only update if value changed
+          if (newPath.trim() !== dismissalsPath) {
+            void updateSettings({ dismissalsPath: newPath.trim() });
+          }
+        };
+
+        return component;
+      });
+
+    // Cleanup: Clear on unmount (uses captured local variable, not ref.current)
+    return () => {
+      el.empty();
+    };
+  }, [settings.dismissalsPath, updateSettings]);
+
   return (
     <div className="vale-general-settings">
       {/* Editor toolbar button toggle */}
       <div ref={toolbarToggleRef} />
 
+      {/* Gutter and scrollbar markers toggle */}
+      <div ref={alertMarkersRef} />
+
+      {/* Inline messages toggles, one per severity */}
+      <div ref={inlineMessagesRef} />
+
+      {/* Lint diagnostics dropdown */}
+      <div ref={lintDiagnosticsRef} />
+
       {/* Auto-check toggle */}
       <div ref={autoCheckToggleRef} />
 
+      {/* Incremental check toggle (only shown with auto-check) */}
+      <div ref={incrementalCheckRef} />
+
       {/* Check on note open toggle */}
       <div ref={checkOnNoteOpenRef} />
 
       {/* Auto-open results pane toggle */}
       <div ref={autoOpenPanelRef} />
 
+      {/* Persist results toggle */}
+      <div ref={persistCacheRef} />
+
+      {/* Dismissed alerts file */}
+      <div ref={dismissalsPathRef} />
+
       {/* Footer with whale mascot and GitHub link */}
       <div className="vale-settings-footer">
         <div className="vale-footer-whale">
@@ -3,6 +3,7 @@ import * as ReactDOM from "react-dom";
 import { Setting } from "obsidian";
 import { ValeRule, ValeRuleSeverity } from "../../types";
 import { getSeverityIcon } from "../../components/icons/SeverityIcons";
+import { EffectiveValue } from "../../vale/configSections";
 
 /**
  * Get the CSS class for a severity level
@@ -20,6 +21,15 @@ function capitalize(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
 }
 
+/**
+ * Describe the value of a rule in .vale.ini
+ */
+function describeValue(value: string): string {
+  if (value === "NO") return "Off";
+  if (value === "YES") return "On";
+  return capitalize(value);
+}
+
 /**
  * Props for RuleItem component
  */
@@ -34,6 +44,12 @@ export interface RuleItemProps {
    * Called when either severity or disabled state changes
    */
   onUpdate: (rule: ValeRule) => Promise<void>;
+
+  /**
+   * Value the current note gets from another section of .vale.ini, which
+   * overrides or adds to the one edited here
+   */
+  effective?: EffectiveValue;
 }
 
 /**
@@ -44,6 +60,7 @@ export interface RuleItemProps {
  * - Severity icon next to the dropdown showing current severity
  * - Severity dropdown (Default (X), Suggestion, Warning, Error)
  * - Enable/disable toggle
+ * - The value the current note gets from another section, if any
  *
  * Uses the HYBRID pattern:
  * - Obsidian Setting API for native UI controls (dropdown + toggle)
@@ -66,7 +83,11 @@ export interface RuleItemProps {
  * />
  * ```
  */
-export const RuleItem: React.FC<RuleItemProps> = ({ rule, onUpdate }) => {
+export const RuleItem: React.FC<RuleItemProps> = ({
+  rule,
+  onUpdate,
+  effective,
+}) => {
   const containerRef = React.useRef<HTMLDivElement>(null);
   const iconContainerRef = React.useRef<HTMLSpanElement | null>(null);
 
@@ -187,6 +208,14 @@ export const RuleItem: React.FC<RuleItemProps> = ({ rule, onUpdate }) => {
         });
       });
 
+    // Note the value the current note gets from another section
+    if (effective) {
+      setting.descEl.createEl("div", {
+        cls: "vale-effective-hint",
+        text: `For the current note: ${describeValue(effective.value)}, from [${effective.section}]`,
+      });
+    }
+
     // Add class to setting for styling
     setting.settingEl.addClass("vale-rule-item-setting");
 
@@ -201,7 +230,13 @@ export const RuleItem: React.FC<RuleItemProps> = ({ rule, onUpdate }) => {
       }
       iconContainerRef.current = null;
     };
-  }, [internalRule, handleSeverityChange, handleToggle, getDropdownOptions]);
+  }, [
+    internalRule,
+    handleSeverityChange,
+    handleToggle,
+    getDropdownOptions,
+    effective,
+  ]);
 
   // Determine which icon to show
   const effectiveSeverity = getEffectiveSeverity();
@@ -1,9 +1,13 @@
 import * as React from "react";
 import { ErrorMessage } from "components/feedback/ErrorMessage";
 import { useConfigManager } from "hooks";
+import { useConfigSections } from "hooks/useConfigSections";
 import { useRules } from "hooks/useRules";
 import { useSettings } from "../../context/SettingsContext";
+import { ValeRule } from "../../types";
+import { EffectiveValue } from "../../vale/configSections";
 import { SettingsRoute, createStylesRoute } from "../navigation";
+import { ConfigSectionPicker } from "./ConfigSectionPicker";
 import { RulesHeader } from "./RulesHeader";
 import { RulesList } from "./RulesList";
 import { RulesLoadingSkeleton } from "./RulesLoadingSkeleton";
@@ -35,6 +39,8 @@ export interface RuleSettingsProps {
  * - Shows error message if loading fails
  * - Allows configuring individual rule severity and enable/disable state
  * - Correct navigation back to Styles page (fixes previous bug)
+ * - Section picker shared with the Styles page, and the values the current
+ *   note gets from other sections of .vale.ini
  * - Uses hybrid pattern: Obsidian Setting API + React state management
  *
  * Architecture:
@@ -63,12 +69,42 @@ export const RuleSettings: React.FC<RuleSettingsProps> = ({
   // Get config manager
   const configManager = useConfigManager(settings);
 
+  // Section of .vale.ini being edited, and the current note's config
+  const sections = useConfigSections(configManager);
+  const { section, effective, refresh: refreshSections } = sections;
+
   // Fetch and manage rules for this style
   const { rules, loading, error, updateRule, refresh } = useRules(
     style,
     configManager,
+    section,
+  );
+
+  /**
+   * Update a rule, then what the current note gets from the sections
+   */
+  const handleRuleUpdate = React.useCallback(
+    async (rule: ValeRule): Promise<void> => {
+      await updateRule(rule);
+      await refreshSections();
+    },
+    [updateRule, refreshSections],
   );
 
+  /**
+   * Values of this style's rules that the current note gets from sections
+   * other than the edited one
+   */
+  const effectiveValues = React.useMemo(() => {
+    const values = new Map<string, EffectiveValue>();
+    effective?.values.forEach((value, key) => {
+      if (key.startsWith(`${style}.`) && value.section !== section) {
+        values.set(key.slice(style.length + 1), value);
+      }
+    });
+    return values;
+  }, [effective, style, section]);
+
   /**
    * Handle back button click - navigate to Styles page (fixes previous bug)
    * Uses type-safe createStylesRoute() helper from Phase 0
@@ -116,7 +152,18 @@ export const RuleSettings: React.FC<RuleSettingsProps> = ({
   return (
     <div className="vale-rule-settings">
       <RulesHeader styleName={style} onBack={handleBack} />
-      <RulesList rules={rules} onRuleUpdate={updateRule} />
+      <ConfigSectionPicker
+        sections={sections.sections}
+        section={section}
+        onChange={sections.setSection}
+        notePath={sections.notePath}
+        effective={effective}
+      />
+      <RulesList
+        rules={rules}
+        onRuleUpdate={handleRuleUpdate}
+        effectiveValues={effectiveValues}
+      />
     </div>
   );
 };
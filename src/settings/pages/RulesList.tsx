@@ -1,5 +1,6 @@
 import * as React from "react";
 import { ValeRule } from "../../types";
+import { EffectiveValue } from "../../vale/configSections";
 import { RuleItem } from "./RuleItem";
 
 /**
@@ -15,6 +16,12 @@ export interface RulesListProps {
    * Callback when a rule is updated
    */
   onRuleUpdate: (rule: ValeRule) => Promise<void>;
+
+  /**
+   * Values the current note gets from other sections of .vale.ini, by rule
+   * name
+   */
+  effectiveValues?: Map<string, EffectiveValue>;
 }
 
 /**
@@ -41,6 +48,7 @@ export interface RulesListProps {
 export const RulesList: React.FC<RulesListProps> = ({
   rules,
   onRuleUpdate,
+  effectiveValues,
 }) => {
   // Empty state: Show message when no rules exist
   if (rules.length === 0) {
@@ -56,7 +64,12 @@ export const RulesList: React.FC<RulesListProps> = ({
   return (
     <div className="vale-rules-list">
       {rules.map((rule) => (
-        <RuleItem key={rule.name} rule={rule} onUpdate={onRuleUpdate} />
+        <RuleItem
+          key={rule.name}
+          rule={rule}
+          onUpdate={onRuleUpdate}
+          effective={effectiveValues?.get(rule.name)}
+        />
       ))}
     </div>
   );
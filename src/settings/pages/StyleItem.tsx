@@ -16,6 +16,8 @@ export interface StyleItemProps {
   onToggle: (styleName: string, enabled: boolean) => Promise<void>;
   /** Callback when configure button is clicked */
   onConfigure: (styleName: string) => void;
+  /** Other sections that enable the style for the current note */
+  enabledBy?: string[];
 }
 
 /**
@@ -23,10 +25,12 @@ export interface StyleItemProps {
  *
  * Displays a single Vale style with:
  * - Style name and description
+ * - Latest version and homepage from the style library
  * - Rule count indicator (e.g., "12 rules")
  * - Toggle switch to enable/disable
  * - Gear icon (configure rules) when enabled
  * - Warning indicator for missing styles (Custom mode)
+ * - Which other sections of .vale.ini enable it for the current note
  *
  * Uses the hybrid pattern: Obsidian Setting API for UI + React for state management.
  *
@@ -63,6 +67,7 @@ export const StyleItem: React.FC<StyleItemProps> = ({
   isCustomMode,
   onToggle,
   onConfigure,
+  enabledBy,
 }) => {
   const isMissing = style.isMissing ?? false;
 
@@ -99,6 +104,31 @@ export const StyleItem: React.FC<StyleItemProps> = ({
           );
         }
 
+        // Add the version and homepage from the style library
+        if ((style.version || style.homepage) && !isMissing) {
+          const detailsEl = setting.descEl.createEl("div", {
+            cls: "vale-style-details",
+          });
+          if (style.version) {
+            detailsEl.createSpan({ text: `Version ${style.version}` });
+          }
+          if (style.homepage) {
+            const link = detailsEl.createEl("a", { text: "Homepage" });
+            link.href = style.homepage;
+            link.setAttribute("aria-label", `Homepage of ${style.name}`);
+          }
+        }
+
+        // Note which other sections enable the style for the current note
+        if (enabledBy && enabledBy.length > 0 && !isMissing) {
+          setting.descEl.createEl("div", {
+            cls: "vale-effective-hint",
+            text: `Enabled for the current note by ${enabledBy
+              .map((section) => `[${section}]`)
+              .join(", ")}`,
+          });
+        }
+
         // Add rule count text before other controls (if available and not missing)
         if (style.ruleCount !== undefined && !isMissing) {
           const ruleCountEl = setting.controlEl.createSpan({
@@ -139,7 +169,7 @@ export const StyleItem: React.FC<StyleItemProps> = ({
         });
       },
     },
-    [style, enabled, isCustomMode, isMissing],
+    [style, enabled, isCustomMode, isMissing, enabledBy?.join()],
   );
 
   return <div ref={containerRef} />;
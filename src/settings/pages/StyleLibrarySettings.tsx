@@ -0,0 +1,114 @@
+import * as React from "react";
+import { useSettings } from "../../context/SettingsContext";
+import { useObsidianSetting } from "../../hooks/useObsidianSetting";
+import {
+  DEFAULT_STYLE_LIBRARY_URL,
+  StyleLibrary,
+} from "../../vale/styleLibrary";
+
+/**
+ * Props for StyleLibrarySettings component
+ */
+export interface StyleLibrarySettingsProps {
+  /** Style library the listed styles were read from */
+  library: StyleLibrary | null;
+  /** Callback when the library should be downloaded again */
+  onRefresh: () => Promise<void>;
+}
+
+/**
+ * Describes where the styles of the library were read from.
+ */
+const describeLibrary = (library: StyleLibrary): string => {
+  const date = library.fetchedAt
+    ? new Date(library.fetchedAt).toLocaleString()
+    : "";
+
+  if (library.error) {
+    const shown =
+      library.source === "cache"
+        ? `the copy from ${date} is shown`
+        : "the built-in list is shown";
+    return `Couldn't download the library, so ${shown}. ${library.error}`;
+  }
+
+  return library.source === "bundled"
+    ? "Showing the built-in list of styles."
+    : `Updated ${date}.`;
+};
+
+/**
+ * StyleLibrarySettings - Where Managed mode finds styles to install
+ *
+ * The style library is a JSON catalog of styles, in the format of Vale's
+ * library.json. Teams can host their own and point the plugin to it.
+ *
+ * Features:
+ * - URL of the library, saved on blur, with Vale's library as placeholder
+ * - When the library was downloaded, or why it couldn't be
+ * - Button to download the library again
+ *
+ * Nielsen Heuristic Alignment:
+ * - H1 (Visibility): Tells when the styles are a cached copy or the
+ *   built-in list, because the library couldn't be downloaded
+ * - H3 (User Control): The library can be downloaded again at any time
+ *
+ * @example
+ * ```tsx
+ * <StyleLibrarySettings library={library} onRefresh={refreshLibrary} />
+ * ```
+ */
+export const StyleLibrarySettings: React.FC<StyleLibrarySettingsProps> = ({
+  library,
+  onRefresh,
+}) => {
+  const { settings, updateSettings } = useSettings();
+  const url = settings.styleLibraryUrl ?? "";
+
+  const containerRef = useObsidianSetting(
+    {
+      name: "Style library",
+      desc: "Catalog of styles to install. Leave empty for the styles published by Vale, or enter the address of your team's catalog.",
+      configure: (setting) => {
+        if (library) {
+          setting.descEl.createEl("div", {
+            cls: library.error
+              ? "vale-style-library-status mod-warning"
+              : "vale-style-library-status",
+            text: describeLibrary(library),
+          });
+        }
+
+        setting.addText((text) => {
+          const component = text
+            .setValue(url)
+            .setPlaceholder(DEFAULT_STYLE_LIBRARY_URL);
+
+          // Save on blur (not on every keystroke)
+          component.inputEl.onblur = (event: FocusEvent): void => {
+            const newUrl = (event.currentTarget as HTMLInputElement).value;
+
+            // Only update if value changed
+            if (newUrl.trim() !== url) {
+              void updateSettings({ styleLibraryUrl: newUrl.trim() });
+            }
+          };
+
+          return component;
+        });
+
+        setting.addExtraButton((button) =>
+          button
+            .setIcon("refresh-cw")
+            .setTooltip("Download the library again")
+            .onClick(() => {
+              void onRefresh();
+            }),
+        );
+      },
+    },
+    [library, url, updateSettings, onRefresh],
+  );
+
+  return <div ref={containerRef} />;
+};
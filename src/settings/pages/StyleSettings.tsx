@@ -1,7 +1,10 @@
 import * as React from "react";
 import { useSettings } from "../../context/SettingsContext";
 import { useConfigManager } from "../../hooks";
+import { useConfigSections } from "../../hooks/useConfigSections";
 import { useStyles } from "../../hooks/useStyles";
+import { ConfigSectionPicker } from "./ConfigSectionPicker";
+import { StyleLibrarySettings } from "./StyleLibrarySettings";
 import { StylesHeader } from "./StylesHeader";
 import { StylesList } from "./StylesList";
 import { StylesLoadingSkeleton } from "./StylesLoadingSkeleton";
@@ -19,7 +22,7 @@ export interface StyleSettingsProps {
  * StyleSettings - Main settings page for Vale styles
  *
  * Provides style management with:
- * - **Managed mode**: Shows hardcoded library of 8 official styles with install/uninstall
+ * - **Managed mode**: Shows the styles of the style library with install/uninstall
  * - **Custom mode**: Shows styles from user's StylesPath directory (config-only updates)
  *
  * Features:
@@ -27,18 +30,24 @@ export interface StyleSettingsProps {
  * - Error handling with recovery actions
  * - Empty state for Custom mode when no styles found
  * - Mode-specific header and descriptions
+ * - Style library URL and status in Managed mode, with cached or built-in
+ *   styles when the library can't be downloaded
  * - Toggle to enable/disable styles
  * - Configure button (gear icon) to access rules page
+ * - Section picker when .vale.ini has several sections, such as [*.md] and
+ *   [drafts/*.md], and which of them enable each style for the current note
  *
  * Architecture:
  * - Uses SettingsContext for settings state
  * - Uses useStyles hook for data fetching
+ * - Uses useConfigSections for the edited section, shared with the Rules page
  * - Uses useConfigManager for Vale operations
  * - Delegates to subcomponents for focused responsibilities
  * - Computes isCustomMode once at the top level
  *
  * **Toggle behavior:**
- * - **Managed mode**: Calls installStyle() -> enableStyle() or disableStyle() -> uninstallStyle()
+ * - **Managed mode**: Calls installStyle() -> enableStyle() or disableStyle() -> uninstallStyle(),
+ *   keeping the files of styles that other sections still enable
  * - **Custom mode**: Only calls enableStyle() or disableStyle() (never modifies files)
  *
  * Nielsen Heuristic Alignment:
@@ -59,10 +68,17 @@ export interface StyleSettingsProps {
 export const StyleSettings: React.FC<StyleSettingsProps> = ({ navigate }) => {
   const { settings } = useSettings();
   const configManager = useConfigManager(settings);
-  const { styles, enabledStyles, loading, error, refetch } = useStyles(
-    settings,
-    configManager,
-  );
+  const sections = useConfigSections(configManager);
+  const { section, refresh: refreshSections } = sections;
+  const {
+    styles,
+    enabledStyles,
+    loading,
+    error,
+    refetch,
+    library,
+    refreshLibrary,
+  } = useStyles(settings, configManager, section);
 
   // Compute isCustomMode once
   const isCustomMode = settings.type === "cli" && !settings.cli.managed;
@@ -109,22 +125,26 @@ export const StyleSettings: React.FC<StyleSettingsProps> = ({ navigate }) => {
             }
           }
           // Enable in config
-          await configManager.enableStyle(styleName);
+          await configManager.enableStyle(styleName, section);
         } else {
           // Disabling style
           // Disable in config
-          await configManager.disableStyle(styleName);
-          // Managed mode: uninstall style files (if URL exists)
+          await configManager.disableStyle(styleName, section);
+          // Managed mode: uninstall style files (if URL exists) unless
+          // another section still uses them
           if (!isCustomMode) {
             const style = styles.find((s) => s.name === styleName);
-            if (style?.url) {
+            const stillEnabled =
+              sections.sections.length > 1 &&
+              (await configManager.getEnabledStyles()).includes(styleName);
+            if (style?.url && !stillEnabled) {
               await configManager.uninstallStyle(style);
             }
           }
         }
 
         // Refetch to ensure consistency
-        await refetch();
+        await Promise.all([refetch(), refreshSections()]);
       } catch (err) {
         console.error(
           `Failed to ${enabled ? "enable" : "disable"} style ${styleName}:`,
@@ -141,6 +161,9 @@ export const StyleSettings: React.FC<StyleSettingsProps> = ({ navigate }) => {
       localEnabledStyles,
       enabledStyles,
       refetch,
+      section,
+      sections.sections,
+      refreshSections,
     ],
   );
 
@@ -189,12 +212,24 @@ export const StyleSettings: React.FC<StyleSettingsProps> = ({ navigate }) => {
   return (
     <div className="vale-style-settings">
       <StylesHeader isCustomMode={isCustomMode} />
+      {!isCustomMode && (
+        <StyleLibrarySettings library={library} onRefresh={refreshLibrary} />
+      )}
+      <ConfigSectionPicker
+        sections={sections.sections}
+        section={section}
+        onChange={sections.setSection}
+        notePath={sections.notePath}
+        effective={sections.effective}
+      />
       <StylesList
         styles={styles}
         enabledStyles={localEnabledStyles}
         isCustomMode={isCustomMode}
         onToggle={handleToggle}
         onConfigure={handleConfigure}
+        section={section}
+        effective={sections.effective}
       />
     </div>
   );
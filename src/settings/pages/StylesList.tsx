@@ -1,5 +1,6 @@
 import * as React from "react";
 import { ValeStyle } from "../../types";
+import { EffectiveConfig } from "../../vale/configSections";
 import { StyleItem } from "./StyleItem";
 import { StylesEmptyState } from "./StylesEmptyState";
 
@@ -17,6 +18,10 @@ export interface StylesListProps {
   onToggle: (styleName: string, enabled: boolean) => Promise<void>;
   /** Callback when configure button is clicked */
   onConfigure: (styleName: string) => void;
+  /** The section of .vale.ini being edited */
+  section?: string;
+  /** What the sections that apply to the current note add up to */
+  effective?: EffectiveConfig | null;
 }
 
 /**
@@ -26,6 +31,7 @@ export interface StylesListProps {
  * - Vale style (always shown first, hardcoded)
  * - Other styles (filtered to exclude Vale)
  * - Empty state message (Custom mode only, when no other styles exist)
+ * - Other sections that enable each style for the current note
  *
  * Architecture:
  * - Vale style is always rendered first with hardcoded description
@@ -49,7 +55,13 @@ export const StylesList: React.FC<StylesListProps> = ({
   isCustomMode,
   onToggle,
   onConfigure,
+  section,
+  effective,
 }) => {
+  // Sections other than the edited one that enable a style for the note
+  const enabledBy = (name: string): string[] | undefined =>
+    effective?.styles.get(name)?.filter((other) => other !== section);
+
   // Filter out non-Vale styles and get the Vale style separately for rule count
   const valeStyle = styles.find((s) => s.name === "Vale");
   const otherStyles = styles.filter((s) => s.name !== "Vale");
@@ -70,6 +82,7 @@ export const StylesList: React.FC<StylesListProps> = ({
         isCustomMode={isCustomMode}
         onToggle={onToggle}
         onConfigure={onConfigure}
+        enabledBy={enabledBy("Vale")}
       />
 
       {/* Empty state for Custom mode when no other installed styles */}
@@ -86,6 +99,7 @@ export const StylesList: React.FC<StylesListProps> = ({
           isCustomMode={isCustomMode}
           onToggle={onToggle}
           onConfigure={onConfigure}
+          enabledBy={enabledBy(style.name)}
         />
       ))}
     </>
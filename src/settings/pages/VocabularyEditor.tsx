@@ -0,0 +1,270 @@
+import * as React from "react";
+import { useObsidianSetting } from "../../hooks/useObsidianSetting";
+import { VocabularyList } from "../../types";
+import { pluralize } from "../../utils/alerts";
+import { ValeConfigManager } from "../../vale/ValeConfigManager";
+import {
+  isRegexEntry,
+  mergeVocabularyEntries,
+  parseVocabularyText,
+  validateVocabularyEntry,
+} from "../../vale/vocabularies";
+
+const LIST_LABELS: Record<VocabularyList, string> = {
+  accept: "Accepted terms",
+  reject: "Rejected terms",
+};
+
+/**
+ * Props for VocabularyEditor component
+ */
+export interface VocabularyEditorProps {
+  /** Reads and writes the vocabulary's lists */
+  configManager: ValeConfigManager;
+  /** Name of the vocabulary to edit */
+  name: string;
+  /** Callback after the entries of a list changed */
+  onChange: () => void;
+}
+
+/**
+ * VocabularyEditor - Editor for the accept and reject lists of a vocabulary
+ *
+ * Vale doesn't flag accepted terms in spelling checks, and always flags
+ * rejected ones. Each entry is a regular expression, so plain words and
+ * patterns such as "[Oo]bsidian" can be mixed.
+ *
+ * Features:
+ * - Switches between accept.txt and reject.txt
+ * - Search to filter long lists
+ * - Adds single entries, or many pasted at once, one per line
+ * - Marks regular expressions, and refuses ones Vale couldn't read
+ * - Saves each change right away
+ *
+ * Nielsen Heuristic Alignment:
+ * - H1 (Visibility): Reports how many pasted entries were added
+ * - H5 (Error Prevention): Invalid regular expressions aren't saved
+ * - H7 (Flexibility): Bulk paste for long lists
+ *
+ * @example
+ * ```tsx
+ * <VocabularyEditor
+ *   key={selected}
+ *   configManager={configManager}
+ *   name={selected}
+ *   onChange={refresh}
+ * />
+ * ```
+ */
+export const VocabularyEditor: React.FC<VocabularyEditorProps> = ({
+  configManager,
+  name,
+  onChange,
+}) => {
+  const [list, setList] = React.useState<VocabularyList>("accept");
+  const [entries, setEntries] = React.useState<string[] | null>(null);
+  const [query, setQuery] = React.useState("");
+  const [newEntry, setNewEntry] = React.useState("");
+  const [pasted, setPasted] = React.useState("");
+  const [message, setMessage] = React.useState<string>();
+  const [error, setError] = React.useState<string>();
+
+  const headingRef = useObsidianSetting(
+    {
+      name: `Terms of ${name}`,
+      desc: "Accepted terms aren't flagged by spelling checks. Rejected terms are always flagged.",
+      configure: (setting) => {
+        setting.addDropdown((dropdown) => {
+          dropdown
+            .addOptions(LIST_LABELS)
+            .setValue(list)
+            .onChange((value) => {
+              setList(value as VocabularyList);
+            });
+        });
+      },
+    },
+    [name, list],
+  );
+
+  /**
+   * Effect: Load the chosen list.
+   */
+  React.useEffect(() => {
+    let isMounted = true;
+
+    configManager
+      .loadVocabulary(name, list)
+      .then((loaded) => {
+        if (isMounted) {
+          setEntries(loaded);
+          setMessage(undefined);
+          setError(undefined);
+        }
+      })
+      .catch((err: unknown) => {
+        if (isMounted) {
+          setEntries([]);
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [configManager, name, list]);
+
+  /**
+   * Save the entries of the list and report what happened.
+   */
+  const save = async (updated: string[], done?: string): Promise<boolean> => {
+    setError(undefined);
+    try {
+      await configManager.saveVocabulary(name, list, updated);
+      setEntries(updated);
+      setMessage(done);
+      onChange();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't save the list");
+      return false;
+    }
+  };
+
+  const handleAdd = async (event: React.FormEvent): Promise<void> => {
+    event.preventDefault();
+    const entry = newEntry.trim();
+    if (!entries || !entry) {
+      return;
+    }
+    const problem = validateVocabularyEntry(entry);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (entries.includes(entry)) {
+      setError(`${entry} is already in the list`);
+      return;
+    }
+    if (await save([...entries, entry], `Added ${entry}`)) {
+      setNewEntry("");
+    }
+  };
+
+  const handlePaste = async (): Promise<void> => {
+    if (!entries) {
+      return;
+    }
+    const problem = parseVocabularyText(pasted)
+      .map(validateVocabularyEntry)
+      .find(Boolean);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const merged = mergeVocabularyEntries(entries, pasted);
+    if (
+      await save(merged.entries, `Added ${pluralize(merged.added, "term")}`)
+    ) {
+      setPasted("");
+    }
+  };
+
+  const handleRemove = (entry: string): void => {
+    if (entries) {
+      void save(
+        entries.filter((other) => other !== entry),
+        `Removed ${entry}`,
+      );
+    }
+  };
+
+  const filtered = (entries ?? []).filter((entry) =>
+    entry.toLowerCase().includes(query.trim().toLowerCase()),
+  );
+
+  return (
+    <div className="vale-vocabulary-editor">
+      <div ref={headingRef} />
+
+      <form
+        className="vale-vocabulary-editor__add"
+        onSubmit={(event) => void handleAdd(event)}
+      >
+        <input
+          type="text"
+          value={newEntry}
+          placeholder="Term or regular expression"
+          aria-label="New term"
+          onChange={(event) => setNewEntry(event.target.value)}
+        />
+        <button type="submit" className="mod-cta" disabled={!newEntry.trim()}>
+          Add
+        </button>
+      </form>
+
+      <input
+        type="search"
+        className="vale-vocabulary-editor__search"
+        value={query}
+        placeholder="Search terms"
+        aria-label="Search terms"
+        onChange={(event) => setQuery(event.target.value)}
+      />
+
+      {error && (
+        <p className="vale-vocabulary-editor__error" role="alert">
+          {error}
+        </p>
+      )}
+      <p className="vale-vocabulary-editor__status" aria-live="polite">
+        {message}
+      </p>
+
+      {entries && filtered.length === 0 ? (
+        <p className="vale-vocabulary-editor__empty">
+          {entries.length === 0 ? "No terms yet." : "No terms match."}
+        </p>
+      ) : (
+        <ul
+          className="vale-vocabulary-editor__entries"
+          aria-label={LIST_LABELS[list]}
+        >
+          {filtered.map((entry) => (
+            <li key={entry} className="vale-vocabulary-editor__entry">
+              <code>{entry}</code>
+              {isRegexEntry(entry) && (
+                <span className="vale-vocabulary-editor__badge">Regex</span>
+              )}
+              <button
+                type="button"
+                aria-label={`Remove ${entry}`}
+                onClick={() => handleRemove(entry)}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <details className="vale-vocabulary-editor__paste">
+        <summary>Paste many terms</summary>
+        <textarea
+          value={pasted}
+          rows={6}
+          placeholder="One term per line"
+          aria-label="Terms to add, one per line"
+          onChange={(event) => setPasted(event.target.value)}
+        />
+        <button
+          type="button"
+          onClick={() => void handlePaste()}
+          disabled={!pasted.trim()}
+        >
+          Add terms
+        </button>
+      </details>
+    </div>
+  );
+};
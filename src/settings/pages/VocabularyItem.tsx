@@ -0,0 +1,197 @@
+import * as React from "react";
+import { useObsidianSetting } from "../../hooks/useObsidianSetting";
+import { ValeVocabulary } from "../../types";
+import { pluralize } from "../../utils/alerts";
+import { validateVocabularyName } from "../../vale/vocabularies";
+
+/**
+ * Props for VocabularyItem component
+ */
+export interface VocabularyItemProps {
+  /** The vocabulary to display */
+  vocabulary: ValeVocabulary;
+  /** Names of the other vocabularies, which a new name can't repeat */
+  otherNames: string[];
+  /** Whether the vocabulary's terms are being edited */
+  isEditing: boolean;
+  /** Callback when the edit button is clicked */
+  onEdit: (name: string) => void;
+  /** Callback when the vocabulary is turned on or off */
+  onToggle: (name: string, active: boolean) => Promise<void>;
+  /** Callback when a new name is confirmed */
+  onRename: (name: string, newName: string) => Promise<void>;
+  /** Callback when deleting is confirmed */
+  onDelete: (name: string) => Promise<void>;
+}
+
+/**
+ * Adds a text button to the controls of a Setting.
+ */
+function addTextButton(
+  controlEl: HTMLElement,
+  text: string,
+  label: string,
+  onClick: () => void,
+): void {
+  const button = controlEl.createEl("button", { text });
+  button.setAttribute("aria-label", label);
+  button.addEventListener("click", onClick);
+}
+
+/**
+ * VocabularyItem - Vocabulary row with toggle, edit, rename and delete
+ *
+ * Displays a single vocabulary with:
+ * - Name and the number of accepted and rejected terms
+ * - Toggle for whether the config's Vocab key lists it
+ * - Buttons to edit its terms, rename it or delete it
+ * - Inline rename field and delete confirmation
+ * - Warning for vocabularies in Vocab without a folder
+ *
+ * Uses the hybrid pattern: Obsidian Setting API for the row, React for the
+ * rename and delete steps.
+ *
+ * Nielsen Heuristic Alignment:
+ * - H3 (User Control): Rename and delete can be cancelled
+ * - H5 (Error Prevention): Deleting asks for confirmation, and names are
+ *   checked before renaming
+ *
+ * @example
+ * ```tsx
+ * <VocabularyItem
+ *   vocabulary={{ name: "Team", active: true, acceptCount: 12, rejectCount: 1 }}
+ *   otherNames={["Project"]}
+ *   isEditing={false}
+ *   onEdit={setSelected}
+ *   onToggle={setActive}
+ *   onRename={renameVocabulary}
+ *   onDelete={deleteVocabulary}
+ * />
+ * ```
+ */
+export const VocabularyItem: React.FC<VocabularyItemProps> = ({
+  vocabulary,
+  otherNames,
+  isEditing,
+  onEdit,
+  onToggle,
+  onRename,
+  onDelete,
+}) => {
+  const { name, active, acceptCount, rejectCount, isMissing } = vocabulary;
+
+  // State: Which step is open below the row
+  const [mode, setMode] = React.useState<"idle" | "renaming" | "deleting">(
+    "idle",
+  );
+  const [newName, setNewName] = React.useState(name);
+
+  const containerRef = useObsidianSetting(
+    {
+      name,
+      desc: isMissing
+        ? "Listed in Vocab but not found on filesystem"
+        : `${pluralize(acceptCount, "accepted term")}, ${pluralize(rejectCount, "rejected term")}`,
+      class: isEditing ? "vale-vocabulary-item--editing" : undefined,
+      configure: (setting) => {
+        if (!isMissing) {
+          addTextButton(
+            setting.controlEl,
+            isEditing ? "Editing" : "Edit",
+            `Edit the terms of ${name}`,
+            () => onEdit(name),
+          );
+          addTextButton(setting.controlEl, "Rename", `Rename ${name}`, () => {
+            setNewName(name);
+            setMode("renaming");
+          });
+        }
+        addTextButton(setting.controlEl, "Delete", `Delete ${name}`, () =>
+          setMode("deleting"),
+        );
+
+        setting.addToggle((toggle) => {
+          toggle.setValue(active).onChange((value) => {
+            void onToggle(name, value);
+          });
+        });
+      },
+    },
+    [vocabulary, isEditing, onEdit, onToggle],
+  );
+
+  const nameProblem =
+    newName.trim() === name
+      ? undefined
+      : validateVocabularyName(newName, otherNames);
+
+  const handleRename = async (event: React.FormEvent): Promise<void> => {
+    event.preventDefault();
+    if (nameProblem || newName.trim() === name) {
+      return;
+    }
+    await onRename(name, newName.trim());
+    setMode("idle");
+  };
+
+  const handleDelete = async (): Promise<void> => {
+    await onDelete(name);
+    setMode("idle");
+  };
+
+  return (
+    <div className="vale-vocabulary-item">
+      <div ref={containerRef} />
+
+      {mode === "renaming" && (
+        <form
+          className="vale-vocabulary-item__step"
+          onSubmit={(event) => void handleRename(event)}
+        >
+          <input
+            type="text"
+            value={newName}
+            aria-label={`New name for ${name}`}
+            aria-invalid={nameProblem ? true : undefined}
+            onChange={(event) => setNewName(event.target.value)}
+          />
+          <button
+            type="submit"
+            className="mod-cta"
+            disabled={!!nameProblem || newName.trim() === name}
+          >
+            Rename
+          </button>
+          <button type="button" onClick={() => setMode("idle")}>
+            Cancel
+          </button>
+          {nameProblem && (
+            <span className="vale-vocabulary-item__problem" role="alert">
+              {nameProblem}
+            </span>
+          )}
+        </form>
+      )}
+
+      {mode === "deleting" && (
+        <div className="vale-vocabulary-item__step" role="group">
+          <span>
+            {isMissing
+              ? `Remove ${name} from Vocab?`
+              : `Delete ${name} and its ${pluralize(acceptCount + rejectCount, "term")}?`}
+          </span>
+          <button
+            type="button"
+            className="mod-warning"
+            onClick={() => void handleDelete()}
+          >
+            Delete
+          </button>
+          <button type="button" onClick={() => setMode("idle")}>
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
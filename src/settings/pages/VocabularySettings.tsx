@@ -0,0 +1,222 @@
+import * as React from "react";
+import { ErrorMessage } from "../../components/feedback/ErrorMessage";
+import { LoadingSpinner } from "../../components/feedback/LoadingSpinner";
+import { useSettings } from "../../context/SettingsContext";
+import { useConfigManager } from "../../hooks";
+import { useObsidianSetting } from "../../hooks/useObsidianSetting";
+import { useVocabularies } from "../../hooks/useVocabularies";
+import { validateVocabularyName } from "../../vale/vocabularies";
+import { VocabularyEditor } from "./VocabularyEditor";
+import { VocabularyItem } from "./VocabularyItem";
+
+/**
+ * VocabularySettings - Page for managing Vale vocabularies
+ *
+ * Vocabularies are folders under `<StylesPath>/config/vocabularies`, or
+ * `<StylesPath>/Vocab` before Vale 3, each with an accept.txt and a
+ * reject.txt list. Checks use the vocabularies
+ * listed in the config's Vocab key.
+ *
+ * Features:
+ * - Lists the vocabulary folders with the sizes of their lists
+ * - Creates, renames and deletes vocabularies
+ * - Toggles which vocabularies are active
+ * - Edits the terms of one vocabulary at a time
+ * - Loading and error states with retry
+ *
+ * Architecture:
+ * - Uses useSettings() and useConfigManager for Vale operations
+ * - Uses useVocabularies for the list and its changes
+ * - Delegates rows to VocabularyItem and terms to VocabularyEditor
+ *
+ * Nielsen Heuristic Alignment:
+ * - H1 (Visibility): Shows which vocabularies are active and their sizes
+ * - H5 (Error Prevention): Names are checked before creating
+ * - H9 (Error Recovery): Failed changes are reported on the page
+ *
+ * @example
+ * ```tsx
+ * <VocabularySettings />
+ * ```
+ */
+export const VocabularySettings: React.FC = () => {
+  const { settings } = useSettings();
+  const configManager = useConfigManager(settings);
+  const {
+    vocabularies,
+    loading,
+    error,
+    createVocabulary,
+    renameVocabulary,
+    deleteVocabulary,
+    setActive,
+    refresh,
+  } = useVocabularies(configManager);
+
+  // State: Vocabulary whose terms are being edited
+  const [selected, setSelected] = React.useState<string | null>(null);
+
+  // State: Name typed for a new vocabulary
+  const [newName, setNewName] = React.useState("");
+
+  // State: Error from the latest change
+  const [actionError, setActionError] = React.useState<string>();
+
+  const names = vocabularies.map((vocabulary) => vocabulary.name);
+  const nameProblem = newName.trim()
+    ? validateVocabularyName(newName, names)
+    : undefined;
+
+  const headingRef = useObsidianSetting(
+    {
+      name: "Vocabularies",
+      desc: "Terms that spelling checks accept or flag, from config/vocabularies in your styles folder (Vocab before Vale 3). Turn a vocabulary on to use it in checks.",
+      heading: true,
+    },
+    [],
+  );
+
+  /**
+   * Run a change, reporting its error on the page.
+   */
+  const run = React.useCallback(
+    async (change: () => Promise<void>): Promise<boolean> => {
+      setActionError(undefined);
+      try {
+        await change();
+        return true;
+      } catch (err) {
+        setActionError(err instanceof Error ? err.message : String(err));
+        return false;
+      }
+    },
+    [],
+  );
+
+  const handleCreate = async (event: React.FormEvent): Promise<void> => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name || nameProblem) {
+      return;
+    }
+    if (await run(() => createVocabulary(name))) {
+      setNewName("");
+      setSelected(name);
+    }
+  };
+
+  const handleToggle = React.useCallback(
+    async (name: string, active: boolean): Promise<void> => {
+      await run(() => setActive(name, active));
+    },
+    [run, setActive],
+  );
+
+  const handleRename = React.useCallback(
+    async (name: string, newName: string): Promise<void> => {
+      if (await run(() => renameVocabulary(name, newName))) {
+        setSelected((current) => (current === name ? newName : current));
+      }
+    },
+    [run, renameVocabulary],
+  );
+
+  const handleDelete = React.useCallback(
+    async (name: string): Promise<void> => {
+      if (await run(() => deleteVocabulary(name))) {
+        setSelected((current) => (current === name ? null : current));
+      }
+    },
+    [run, deleteVocabulary],
+  );
+
+  const handleEditorChange = React.useCallback(() => {
+    void refresh();
+  }, [refresh]);
+
+  if (loading) {
+    return (
+      <div className="vale-vocabulary-settings__loading">
+        <LoadingSpinner size="large" label="Loading vocabularies" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <ErrorMessage
+        title="Failed to load vocabularies"
+        description="Unable to read the vocabularies. Check that StylesPath is set in your Vale config."
+        details={error.message}
+        actions={[{ label: "Retry", onClick: () => void refresh() }]}
+      />
+    );
+  }
+
+  return (
+    <div className="vale-vocabulary-settings">
+      <div ref={headingRef} />
+
+      <form
+        className="vale-vocabulary-settings__create"
+        onSubmit={(event) => void handleCreate(event)}
+      >
+        <input
+          type="text"
+          value={newName}
+          placeholder="Name"
+          aria-label="New vocabulary name"
+          aria-invalid={nameProblem ? true : undefined}
+          onChange={(event) => setNewName(event.target.value)}
+        />
+        <button
+          type="submit"
+          className="mod-cta"
+          disabled={!newName.trim() || !!nameProblem}
+        >
+          Create vocabulary
+        </button>
+        {nameProblem && (
+          <span className="vale-vocabulary-settings__problem">
+            {nameProblem}
+          </span>
+        )}
+      </form>
+
+      {actionError && (
+        <p className="vale-vocabulary-settings__error" role="alert">
+          {actionError}
+        </p>
+      )}
+
+      {vocabularies.length === 0 && (
+        <p className="vale-vocabulary-settings__empty">
+          No vocabularies yet. Create one to collect the terms of your team or
+          project.
+        </p>
+      )}
+
+      {vocabularies.map((vocabulary) => (
+        <VocabularyItem
+          key={vocabulary.name}
+          vocabulary={vocabulary}
+          otherNames={names.filter((name) => name !== vocabulary.name)}
+          isEditing={selected === vocabulary.name}
+          onEdit={setSelected}
+          onToggle={handleToggle}
+          onRename={handleRename}
+          onDelete={handleDelete}
+        />
+      ))}
+
+      {configManager && selected && names.includes(selected) && (
+        <VocabularyEditor
+          key={selected}
+          configManager={configManager}
+          name={selected}
+          onChange={handleEditorChange}
+        />
+      )}
+    </div>
+  );
+};
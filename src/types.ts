@@ -22,6 +22,20 @@ export interface ValeSettings {
   checkOnNoteOpen?: boolean;
   /** Whether to automatically open the results pane when running checks */
   autoOpenResultsPane?: boolean;
+  /** Whether to keep check results on disk so they're shown again after a restart */
+  persistResultCache?: boolean;
+  /** Whether edits to long notes only re-check the changed blocks */
+  incrementalCheck?: boolean;
+  /** Whether to mark lines with alerts in the gutter and along the scrollbar */
+  showAlertMarkers?: boolean;
+  /** Severities whose messages are shown at the end of their lines */
+  inlineMessageSeverities?: Array<"error" | "warning" | "suggestion">;
+  /** Whether alerts are published as lint diagnostics, alongside or instead of underlines */
+  lintDiagnostics?: "off" | "alongside" | "instead";
+  /** URL of the style library that managed mode installs styles from, or empty for Vale's */
+  styleLibraryUrl?: string;
+  /** Vault file that dismissed alerts are saved to, or empty for vale-dismissed.json */
+  dismissalsPath?: string;
 }
 
 export const DEFAULT_SETTINGS: ValeSettings = {
@@ -39,6 +53,13 @@ export const DEFAULT_SETTINGS: ValeSettings = {
   autoCheckOnChange: false,
   checkOnNoteOpen: true,
   autoOpenResultsPane: false,
+  persistResultCache: false,
+  incrementalCheck: false,
+  showAlertMarkers: false,
+  inlineMessageSeverities: [],
+  lintDiagnostics: "off",
+  styleLibraryUrl: "",
+  dismissalsPath: "",
 };
 
 export interface ValeResponse {
@@ -67,15 +88,71 @@ export interface ValeStyle {
   description?: string;
   homepage?: string;
   url?: string;
+  /** Latest version of the style, from the style library */
+  version?: string;
   /** Number of rules in this style (if available) */
   ruleCount?: number;
   /** Whether this style is referenced in config but not found on filesystem */
   isMissing?: boolean;
 }
 
+/** The lists of a vocabulary: terms to accept and terms to flag */
+export type VocabularyList = "accept" | "reject";
+
+export interface ValeVocabulary {
+  name: string;
+  /** Whether the config's Vocab key lists this vocabulary */
+  active: boolean;
+  /** Number of entries in accept.txt */
+  acceptCount: number;
+  /** Number of entries in reject.txt */
+  rejectCount: number;
+  /** Whether this vocabulary is referenced in config but not found on filesystem */
+  isMissing?: boolean;
+}
+
 export interface CheckInput {
   text: string;
   format: string;
+  /** Vault path of the note being checked, if known */
+  path?: string;
+  /**
+   * Returns false once the note or its text has changed since the check was
+   * started, meaning the results no longer line up with the editor.
+   */
+  isCurrent?: () => boolean;
+}
+
+/** A single note queued for a batch check. */
+export interface BatchCheckFile {
+  /** Vault path of the note */
+  path: string;
+  /** File extension including the leading dot, e.g. ".md" */
+  format: string;
+  /** Reads the current contents of the note */
+  read: () => Promise<string>;
+}
+
+export interface BatchCheckInput {
+  /** Human-readable description of what is being checked (folder path or "vault") */
+  scope: string;
+  files: BatchCheckFile[];
+}
+
+/** Results of checking a single note as part of a batch. */
+export interface BatchFileResult {
+  path: string;
+  alerts: ValeAlert[];
+  /** Error message if the note couldn't be checked */
+  error?: string;
+}
+
+export interface BatchProgress {
+  /** Number of notes checked so far */
+  checked: number;
+  total: number;
+  /** Path of the note currently being checked */
+  currentPath?: string;
 }
 
 export type ValeRuleSeverity = "default" | "suggestion" | "warning" | "error";
@@ -88,15 +165,28 @@ export interface ValeRule {
   defaultSeverity?: "suggestion" | "warning" | "error";
 }
 
+/** Keys of a section of .vale.ini that applies to files, such as [*.md] */
+export interface ValeConfigSection {
+  BasedOnStyles?: string;
+
+  // Rules
+  [key: string]: string | undefined;
+}
+
+/**
+ * .vale.ini as parsed by the ini package, which splits section names at
+ * dots, so that [*.md] is `["*"].md`. Other sections, such as
+ * [drafts/*.md], are read by name with `readIniSections`.
+ */
 export interface ValeConfig {
   StylesPath?: string;
+  /**
+   * Comma-separated vocabularies under `<StylesPath>/config/vocabularies`, or
+   * `<StylesPath>/Vocab` before Vale 3
+   */
+  Vocab?: string;
   "*": {
-    md: {
-      BasedOnStyles?: string;
-
-      // Rules
-      [key: string]: string | undefined;
-    };
+    md: ValeConfigSection;
   };
 }
 
@@ -5,6 +5,7 @@
  * - General page has no context
  * - Styles page has no context
  * - Rules page requires a style name
+ * - Vocabularies page has no context
  */
 
 /**
@@ -15,6 +16,7 @@ export const PAGES = {
   STYLES: "Styles",
   RULES: "Rules",
   CONFIGURATION: "Configuration",
+  VOCABULARIES: "Vocabularies",
 } as const;
 
 /**
@@ -29,6 +31,7 @@ export type PageType = (typeof PAGES)[keyof typeof PAGES];
  * - GeneralRoute: General settings page
  * - StylesRoute: Styles management page
  * - RulesRoute: Rules configuration page for a specific style
+ * - VocabulariesRoute: Vocabulary management page
  *
  * @example
  * ```typescript
@@ -40,7 +43,8 @@ export type SettingsRoute =
   | { page: "General" }
   | { page: "Styles" }
   | { page: "Rules"; style: string }
-  | { page: "Configuration" };
+  | { page: "Configuration" }
+  | { page: "Vocabularies" };
 
 /**
  * Type guard to check if a route is a Rules page
@@ -78,6 +82,15 @@ export function isConfigurationRoute(
   return route.page === "Configuration";
 }
 
+/**
+ * Type guard to check if a route is a Vocabularies page
+ */
+export function isVocabulariesRoute(
+  route: SettingsRoute,
+): route is { page: "Vocabularies" } {
+  return route.page === "Vocabularies";
+}
+
 /**
  * Navigation function signature
  *
@@ -105,6 +118,10 @@ export function createRoute(page: PageType, context?: string): SettingsRoute {
     return { page: PAGES.CONFIGURATION };
   }
 
+  if (page === PAGES.VOCABULARIES) {
+    return { page: PAGES.VOCABULARIES };
+  }
+
   return { page: PAGES.GENERAL };
 }
 
@@ -138,3 +155,10 @@ export function navigateToRules(style: string): SettingsRoute {
 export function navigateToConfiguration(): SettingsRoute {
   return { page: PAGES.CONFIGURATION };
 }
+
+/**
+ * Helper to navigate to Vocabularies page
+ */
+export function navigateToVocabularies(): SettingsRoute {
+  return { page: PAGES.VOCABULARIES };
+}
@@ -0,0 +1,181 @@
+/**
+ * Filtering, sorting and grouping of the alerts in the results panel.
+ *
+ * The panel's toolbar state is kept in {@link AlertListOptions}. The same
+ * options decide which underlines the editor dims or hides, so both use the
+ * helpers here.
+ */
+
+import { SeverityLevel } from "../components/icons/severityGlyphs";
+import { severityOf } from "../editor/severity";
+import { ValeAlert } from "../types";
+
+/**
+ * How alerts are grouped: not at all, by severity, by style (the part of the
+ * check before the dot) or by rule (the whole check).
+ */
+export type AlertGrouping = "none" | "severity" | "style" | "rule";
+
+/**
+ * How alerts are sorted: by their position in the note, or errors first.
+ */
+export type AlertSorting = "position" | "severity";
+
+/**
+ * The state of the results panel's toolbar.
+ */
+export interface AlertListOptions {
+  /** Severities shown in the list */
+  severities: SeverityLevel[];
+  /** Text searched for in the message, match and check of each alert */
+  query: string;
+  groupBy: AlertGrouping;
+  sortBy: AlertSorting;
+  /** Whether the editor dims or hides the underlines of filtered alerts */
+  filteredInEditor: "dim" | "hide";
+}
+
+/**
+ * A group of alerts in the results panel.
+ */
+export interface AlertGroup {
+  key: string;
+  label: string;
+  alerts: ValeAlert[];
+}
+
+export const DEFAULT_ALERT_LIST_OPTIONS: AlertListOptions = {
+  severities: ["error", "warning", "suggestion"],
+  query: "",
+  groupBy: "none",
+  sortBy: "position",
+  filteredInEditor: "dim",
+};
+
+const SEVERITY_ORDER: SeverityLevel[] = ["error", "warning", "suggestion"];
+
+const SEVERITY_LABELS: Record<SeverityLevel, string> = {
+  error: "Errors",
+  warning: "Warnings",
+  suggestion: "Suggestions",
+};
+
+/**
+ * Returns whether the options filter out any alerts.
+ *
+ * @param options - The toolbar state
+ * @returns False if every alert is shown
+ */
+export function isFiltering(options: AlertListOptions): boolean {
+  return (
+    SEVERITY_ORDER.some((severity) => !options.severities.includes(severity)) ||
+    options.query.trim() !== ""
+  );
+}
+
+/**
+ * Returns whether an alert passes the severity toggles and the search.
+ *
+ * The search ignores case and looks at the message, the matched text and the
+ * check of the alert.
+ *
+ * @param alert - The alert to test
+ * @param options - The toolbar state
+ * @returns True if the alert is shown
+ *
+ * @example
+ * ```typescript
+ * matchesAlertFilter(alert, { ...options, query: "spelling" });
+ * // Returns: true for alerts of the "Vale.Spelling" check
+ * ```
+ */
+export function matchesAlertFilter(
+  alert: ValeAlert,
+  options: AlertListOptions,
+): boolean {
+  if (!options.severities.includes(severityOf(alert))) {
+    return false;
+  }
+
+  const query = options.query.trim().toLowerCase();
+  return (
+    !query ||
+    [alert.Message, alert.Match, alert.Check].some((text) =>
+      text?.toLowerCase().includes(query),
+    )
+  );
+}
+
+/**
+ * Sorts alerts by position, or by severity and then position.
+ *
+ * @param alerts - The alerts to sort, left unchanged
+ * @param sortBy - The order
+ * @returns A sorted copy of the alerts
+ */
+export function sortAlerts(
+  alerts: ValeAlert[],
+  sortBy: AlertSorting,
+): ValeAlert[] {
+  const byPosition = (a: ValeAlert, b: ValeAlert) =>
+    a.Line - b.Line || a.Span[0] - b.Span[0];
+
+  return [...alerts].sort((a, b) =>
+    sortBy === "severity"
+      ? SEVERITY_ORDER.indexOf(severityOf(a)) -
+          SEVERITY_ORDER.indexOf(severityOf(b)) || byPosition(a, b)
+      : byPosition(a, b),
+  );
+}
+
+/**
+ * Groups alerts for the results panel.
+ *
+ * Severity groups are listed from errors to suggestions. Style and rule groups
+ * are listed in the order their first alert appears, so they follow the sort
+ * order of the alerts.
+ *
+ * @param alerts - The alerts to group, in the order they're listed
+ * @param groupBy - How to group them
+ * @returns The groups without empty ones, or a single group for "none"
+ */
+export function groupAlerts(
+  alerts: ValeAlert[],
+  groupBy: AlertGrouping,
+): AlertGroup[] {
+  if (groupBy === "none") {
+    return [{ key: "all", label: "", alerts }];
+  }
+
+  const groups = new Map<string, AlertGroup>();
+  for (const alert of alerts) {
+    const key = groupKey(alert, groupBy);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        label:
+          groupBy === "severity" ? SEVERITY_LABELS[key as SeverityLevel] : key,
+        alerts: [],
+      };
+      groups.set(key, group);
+    }
+    group.alerts.push(alert);
+  }
+
+  if (groupBy === "severity") {
+    return SEVERITY_ORDER.flatMap((severity) => groups.get(severity) ?? []);
+  }
+  return [...groups.values()];
+}
+
+function groupKey(alert: ValeAlert, groupBy: AlertGrouping): string {
+  switch (groupBy) {
+    case "severity":
+      return severityOf(alert);
+    case "style":
+      return alert.Check.split(".")[0];
+    default:
+      return alert.Check;
+  }
+}
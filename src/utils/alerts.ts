@@ -0,0 +1,126 @@
+/**
+ * Helpers for summarizing and classifying Vale alerts.
+ *
+ * Shared by the results panel, the batch results tree and the editor so that
+ * alerts are treated the same way everywhere.
+ */
+
+import { ValeAlert } from "../types";
+
+/**
+ * Alert counts per severity level.
+ */
+export interface SeverityCounts {
+  error: number;
+  warning: number;
+  suggestion: number;
+}
+
+/**
+ * Counts alerts per severity level.
+ *
+ * Severities are compared case-insensitively. Alerts with an unknown severity
+ * are not counted.
+ *
+ * @param alerts - Alerts to count
+ * @returns Number of errors, warnings and suggestions
+ *
+ * @example
+ * ```typescript
+ * countBySeverity(alerts);
+ * // Returns: { error: 2, warning: 5, suggestion: 0 }
+ * ```
+ */
+export function countBySeverity(alerts: ValeAlert[]): SeverityCounts {
+  const counts: SeverityCounts = { error: 0, warning: 0, suggestion: 0 };
+
+  for (const alert of alerts) {
+    const severity = alert.Severity.toLowerCase();
+    if (
+      severity === "error" ||
+      severity === "warning" ||
+      severity === "suggestion"
+    ) {
+      counts[severity]++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Number of alerts of a check.
+ */
+export interface CheckCount {
+  check: string;
+  count: number;
+}
+
+/**
+ * Counts alerts per check, most frequent first.
+ *
+ * @param alerts - Alerts to count
+ * @returns The checks with their counts, ties sorted by name
+ *
+ * @example
+ * ```typescript
+ * countByCheck(alerts);
+ * // Returns: [{ check: "Vale.Spelling", count: 4 }, { check: "Google.We", count: 1 }]
+ * ```
+ */
+export function countByCheck(alerts: ValeAlert[]): CheckCount[] {
+  const counts = new Map<string, number>();
+  for (const alert of alerts) {
+    counts.set(alert.Check, (counts.get(alert.Check) ?? 0) + 1);
+  }
+
+  return [...counts]
+    .map(([check, count]) => ({ check, count }))
+    .sort((a, b) => b.count - a.count || a.check.localeCompare(b.check));
+}
+
+/**
+ * Describes severity counts, leaving out severities without alerts, e.g.
+ * "2 errors, 1 suggestion".
+ *
+ * @param counts - Counts from {@link countBySeverity}
+ * @returns The description, or "no issues" if all counts are zero
+ */
+export function describeSeverityCounts(counts: SeverityCounts): string {
+  const parts = (["error", "warning", "suggestion"] as const)
+    .filter((severity) => counts[severity] > 0)
+    .map((severity) => pluralize(counts[severity], severity));
+  return parts.length ? parts.join(", ") : "no issues";
+}
+
+/**
+ * Formats a count with a singular or plural noun, e.g. "1 error", "3 errors".
+ *
+ * @param count - The number to format
+ * @param noun - Singular form of the noun
+ * @returns The formatted string
+ */
+export function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Returns whether an alert comes from a spelling check, so that its match can
+ * be added to a vocabulary.
+ *
+ * Spelling rules in any style suggest corrections with the "spellings" action.
+ * Checks named `Spelling` are matched as well, in case they don't.
+ *
+ * @param alert - The alert to classify
+ * @returns True for spelling alerts with a matched word
+ */
+export function isSpellingAlert(alert: ValeAlert): boolean {
+  if (!alert.Match?.trim()) {
+    return false;
+  }
+
+  const suggestsSpellings =
+    alert.Action?.Name === "suggest" &&
+    (alert.Action.Params ?? []).includes("spellings");
+  return suggestsSpellings || /(^|\.)Spelling$/.test(alert.Check);
+}
@@ -34,3 +34,13 @@ export {
   detectVale,
   type ValeDetectionResult,
 } from "./platformDefaults";
+
+// Alert summary utilities
+export {
+  countBySeverity,
+  countByCheck,
+  describeSeverityCounts,
+  pluralize,
+  type SeverityCounts,
+  type CheckCount,
+} from "./alerts";
@@ -0,0 +1,55 @@
+/**
+ * Where the plugin keeps its files, relative to the vault's config folder.
+ *
+ * The plugin and the settings tab create their own config managers, so both
+ * take the paths from here.
+ *
+ * @module utils/pluginPaths
+ */
+
+import * as path from "path";
+import { getValeBinaryName } from "./platformDefaults";
+
+const PLUGIN_DATA_DIR = "plugins/obsidian-vale/data";
+
+/**
+ * Get the folder of the plugin's data, such as the managed Vale install.
+ */
+export function getPluginDataDir(configDir: string): string {
+  return path.join(configDir, PLUGIN_DATA_DIR);
+}
+
+/**
+ * Get the path of the Vale binary the plugin installs in managed mode.
+ */
+export function getManagedValePath(configDir: string): string {
+  return path.join(getPluginDataDir(configDir), "bin", getValeBinaryName());
+}
+
+/**
+ * Get the path of the config file the plugin uses in managed mode.
+ */
+export function getManagedConfigPath(configDir: string): string {
+  return path.join(getPluginDataDir(configDir), ".vale.ini");
+}
+
+/**
+ * Get the folder of the copies of the config file from before each change.
+ */
+export function getConfigBackupDir(configDir: string): string {
+  return path.join(getPluginDataDir(configDir), "backups");
+}
+
+/**
+ * Get the path of the copy of the style library.
+ */
+export function getStyleLibraryCachePath(configDir: string): string {
+  return path.join(getPluginDataDir(configDir), "style-library.json");
+}
+
+/**
+ * Get the path of the check results saved between sessions.
+ */
+export function getResultCachePath(configDir: string): string {
+  return path.join(getPluginDataDir(configDir), "result-cache.json");
+}
@@ -0,0 +1,21 @@
+// CheckCancelledError is thrown when a check is aborted before it finishes,
+// usually because a newer check has superseded it. Callers should treat it as
+// "no result" rather than as a failure.
+export class CheckCancelledError extends Error {
+  constructor() {
+    super("Vale check was cancelled");
+    this.name = "CheckCancelledError";
+  }
+}
+
+// throwIfCancelled throws a CheckCancelledError if the signal has already been
+// aborted.
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new CheckCancelledError();
+  }
+};
+
+// isCheckCancelled reports whether an error comes from a cancelled check.
+export const isCheckCancelled = (err: unknown): err is CheckCancelledError =>
+  err instanceof CheckCancelledError;
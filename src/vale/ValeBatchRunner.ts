@@ -0,0 +1,80 @@
+import { timed } from "../debug";
+import { BatchCheckFile, BatchFileResult, BatchProgress } from "../types";
+import { isCheckCancelled } from "./CheckCancelledError";
+import { filterIgnoredAlerts, getIgnoredChecks } from "./ignoredChecks";
+import { ValeDismissals } from "./ValeDismissals";
+import { ValeRunner } from "./ValeRunner";
+
+export interface BatchRunOptions {
+  /** Called before each note is checked, and once more when the batch ends */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Aborting stops the batch, including the note that is being checked */
+  signal?: AbortSignal;
+}
+
+// ValeBatchRunner checks many notes with the same ValeRunner. Notes are checked
+// one at a time, so a large batch doesn't start hundreds of checks at once.
+// Aborting the signal cancels the note that is
+// being checked and stops the batch.
+export class ValeBatchRunner {
+  private runner: ValeRunner;
+  private dismissals?: ValeDismissals;
+
+  // Dismissed alerts are left out of the results, if dismissals are given.
+  constructor(runner: ValeRunner, dismissals?: ValeDismissals) {
+    this.runner = runner;
+    this.dismissals = dismissals;
+  }
+
+  async run(
+    files: BatchCheckFile[],
+    options: BatchRunOptions = {},
+  ): Promise<BatchFileResult[]> {
+    const { onProgress, signal } = options;
+
+    return timed("ValeBatchRunner.run()", async () => {
+      const results: BatchFileResult[] = [];
+
+      for (const file of files) {
+        if (signal?.aborted) {
+          break;
+        }
+
+        onProgress?.({
+          checked: results.length,
+          total: files.length,
+          currentPath: file.path,
+        });
+
+        try {
+          const text = await file.read();
+          const response = await this.runner.run(text, file.format, signal);
+          const alerts = filterIgnoredAlerts(
+            Object.values(response)[0] ?? [],
+            getIgnoredChecks(text),
+          );
+          results.push({
+            path: file.path,
+            alerts: this.dismissals
+              ? this.dismissals.partition(file.path, text, alerts).alerts
+              : alerts,
+          });
+        } catch (err) {
+          if (isCheckCancelled(err)) {
+            break;
+          }
+          // A single unreadable note shouldn't abort the whole batch.
+          results.push({
+            path: file.path,
+            alerts: [],
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+
+      onProgress?.({ checked: results.length, total: files.length });
+
+      return results;
+    });
+  }
+}
@@ -1,12 +1,33 @@
 import { spawn } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
-import { ValeResponse } from "../types";
+import { ValeAlert, ValeResponse } from "../types";
+import { CheckCancelledError, throwIfCancelled } from "./CheckCancelledError";
 import { ValeConfigManager } from "./ValeConfigManager";
+import {
+  isVersionAtLeast,
+  readValeVersion,
+  VALE_3_VERSION,
+} from "./valeVersion";
 
 // Maximum stderr size to prevent memory issues from malformed configs
 const MAX_STDERR_LENGTH = 50000;
 
+// The oldest Vale release known to have the `fix` subcommand. The managed
+// install is older, so it can't compute suggestions.
+export const MIN_FIX_VERSION = VALE_3_VERSION;
+
+// supportsFix tells whether a Vale version, as printed by `vale --version`,
+// has the `fix` subcommand.
+export const supportsFix = (version: string): boolean =>
+  isVersionAtLeast(version, MIN_FIX_VERSION);
+
+// ValeFix is the output of `vale fix`.
+interface ValeFix {
+  suggestions?: string[];
+  error?: string;
+}
+
 export class ValeCli {
   configManager: ValeConfigManager;
 
@@ -14,45 +35,14 @@ export class ValeCli {
     this.configManager = configManager;
   }
 
-  async vale(text: string, format: string): Promise<ValeResponse> {
-    const configPath = this.configManager.getConfigPath();
+  async vale(
+    text: string,
+    format: string,
+    signal?: AbortSignal,
+  ): Promise<ValeResponse> {
+    throwIfCancelled(signal);
 
-    // Defensive validation: ensure configPath is valid
-    if (!configPath || configPath.trim() === "") {
-      throw new Error(
-        "Vale config path is not set. Please configure Vale in Settings.",
-      );
-    }
-
-    // Resolve symlinks to get the real path for accurate directory resolution
-    let resolvedConfigPath: string;
-    try {
-      resolvedConfigPath = fs.realpathSync(configPath);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      throw new Error(
-        `Vale config file not accessible at "${configPath}": ${message}`,
-      );
-    }
-
-    const configDir = path.dirname(resolvedConfigPath);
-
-    // Validate configDir is a real directory path, not "." or ""
-    if (configDir === "." || configDir === "") {
-      throw new Error(
-        `Invalid Vale config path: "${configPath}". Path must include a directory (not just a filename).`,
-      );
-    }
-
-    // Verify the directory exists and is accessible
-    try {
-      fs.accessSync(configDir, fs.constants.R_OK);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      throw new Error(
-        `Vale config directory not accessible at "${configDir}": ${message}`,
-      );
-    }
+    const { resolvedConfigPath, configDir } = this.resolveConfig();
 
     const child = spawn(
       this.configManager.getValePath(),
@@ -82,7 +72,16 @@ export class ValeCli {
     }
 
     return new Promise((resolve, reject) => {
+      // Kill vale when the check is superseded. The process may still emit
+      // "close" afterwards, but the promise has already settled by then.
+      const onAbort = () => {
+        reject(new CheckCancelledError());
+        child.kill();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
       child.on("error", (err) => {
+        signal?.removeEventListener("abort", onAbort);
         // Add context to spawn errors for better debugging
         reject(
           new Error(
@@ -92,6 +91,8 @@ export class ValeCli {
       });
 
       child.on("close", (code) => {
+        signal?.removeEventListener("abort", onAbort);
+
         if (code === 0) {
           // Vale exited without alerts.
           resolve({});
@@ -107,8 +108,121 @@ export class ValeCli {
         }
       });
 
+      // Writing to a killed process fails with EPIPE; the check has already
+      // been rejected as cancelled, so there's nothing left to report.
+      child.stdin.on("error", (err) => {
+        if (!signal?.aborted) {
+          reject(err);
+        }
+      });
+
       child.stdin.write(text);
       child.stdin.end();
     });
   }
+
+  // suggest runs `vale fix` on an alert, which computes the replacements of
+  // the suggest and convert actions, such as the spellings of a misspelled
+  // word.
+  async suggest(alert: ValeAlert): Promise<string[]> {
+    const { resolvedConfigPath, configDir } = this.resolveConfig();
+
+    const child = spawn(
+      this.configManager.getValePath(),
+      ["--config", resolvedConfigPath, "fix", JSON.stringify(alert)],
+      { cwd: configDir },
+    );
+
+    let stdout = "";
+    let stderr = "";
+
+    child.stdout?.on("data", (data) => {
+      stdout += data;
+    });
+    child.stderr?.on("data", (data) => {
+      if (stderr.length < MAX_STDERR_LENGTH) {
+        stderr += data;
+      }
+    });
+
+    return new Promise((resolve, reject) => {
+      child.on("error", (err) => {
+        reject(new Error(`Failed to run Vale: ${err.message}`));
+      });
+
+      child.on("close", (code) => {
+        if (code !== 0) {
+          reject(
+            new Error(
+              stderr.trim()
+                ? `Vale exited with code ${code}: ${stderr.trim()}`
+                : `Vale exited with code ${code}`,
+            ),
+          );
+          return;
+        }
+
+        try {
+          const fix = JSON.parse(stdout) as ValeFix;
+          if (fix.error) {
+            reject(new Error(fix.error));
+          } else {
+            resolve(fix.suggestions ?? []);
+          }
+        } catch {
+          reject(new Error(`Couldn't read the output of vale fix: ${stdout}`));
+        }
+      });
+    });
+  }
+
+  // version returns the version vale reports, such as "2.13.0".
+  async version(): Promise<string> {
+    return readValeVersion(this.configManager.getValePath());
+  }
+
+  // resolveConfig finds the config file, following symlinks, and the folder
+  // Vale runs in, which relative paths in the config are resolved against.
+  private resolveConfig(): { resolvedConfigPath: string; configDir: string } {
+    const configPath = this.configManager.getConfigPath();
+
+    // Defensive validation: ensure configPath is valid
+    if (!configPath || configPath.trim() === "") {
+      throw new Error(
+        "Vale config path is not set. Please configure Vale in Settings.",
+      );
+    }
+
+    // Resolve symlinks to get the real path for accurate directory resolution
+    let resolvedConfigPath: string;
+    try {
+      resolvedConfigPath = fs.realpathSync(configPath);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(
+        `Vale config file not accessible at "${configPath}": ${message}`,
+      );
+    }
+
+    const configDir = path.dirname(resolvedConfigPath);
+
+    // Validate configDir is a real directory path, not "." or ""
+    if (configDir === "." || configDir === "") {
+      throw new Error(
+        `Invalid Vale config path: "${configPath}". Path must include a directory (not just a filename).`,
+      );
+    }
+
+    // Verify the directory exists and is accessible
+    try {
+      fs.accessSync(configDir, fs.constants.R_OK);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(
+        `Vale config directory not accessible at "${configDir}": ${message}`,
+      );
+    }
+
+    return { resolvedConfigPath, configDir };
+  }
 }
@@ -1,7 +1,8 @@
 import * as compressing from "compressing";
+import { createHash } from "crypto";
 import download from "download";
 import * as fs from "fs";
-import { parse, stringify } from "ini";
+import { parse } from "ini";
 import * as os from "os";
 import * as path from "path";
 import { Extract } from "unzipper";
@@ -11,22 +12,93 @@ import {
   ValeRule,
   ValeRuleSeverity,
   ValeStyle,
+  ValeVocabulary,
+  VocabularyList,
 } from "../types";
+import {
+  EffectiveConfig,
+  checkedFileName,
+  getEffectiveConfig,
+  parseList,
+} from "./configSections";
+import {
+  readIniSections,
+  updateIniText,
+  writeIniSections,
+} from "./iniDocument";
+import {
+  BUNDLED_STYLES,
+  StyleLibrary,
+  StyleLibraryLoader,
+} from "./styleLibrary";
+import { DEFAULT_SECTION, isFormatSection } from "./valeIni";
+import {
+  isVersionAtLeast,
+  readValeVersion,
+  VALE_3_VERSION,
+} from "./valeVersion";
+import {
+  escapeVocabularyTerm,
+  formatVocabularyText,
+  parseVocabularyText,
+  validateVocabularyName,
+} from "./vocabularies";
 
 export interface ValidationResult {
   valid: boolean;
   error?: string;
 }
 
+// configRevision is bumped whenever any ValeConfigManager changes the config
+// file or the installed styles. Caches of check results compare it to notice
+// changes made by other instances, such as the ones used by the settings tab.
+let configRevision = 0;
+
+export const getConfigRevision = (): number => configRevision;
+
+// Vocabulary that words are added to when the config doesn't name one.
+export const DEFAULT_VOCABULARY = "Obsidian";
+
+// How many backups of the config file are kept.
+export const MAX_CONFIG_BACKUPS = 20;
+
+// How long a config fingerprint is reused before the styles are walked again
+// for edits made outside the plugin.
+export const FINGERPRINT_MAX_AGE_MS = 30_000;
+
+// toRuleSeverity reads the value of a rule in the config. YES and NO leave
+// the severity as the rule defines it.
+const toRuleSeverity = (value: string): ValeRuleSeverity =>
+  value === "suggestion" || value === "warning" || value === "error"
+    ? value
+    : "default";
+
 // ValeManager exposes file operations for working with the Vale configuration
 // file and styles.
 export class ValeConfigManager {
   private valePath: string;
   private configPath: string;
-
-  constructor(valePath: string, configPath: string) {
+  private backupPath?: string;
+  private styleLibrary?: StyleLibraryLoader;
+  private fingerprint?: { stamp: string; time: number; value: string };
+  private valeVersion?: Promise<string | undefined>;
+
+  // Before each change to the config file, a copy of it is saved in
+  // backupDir, if given. Config files at different paths have their own
+  // backups. Available styles are read from styleLibrary, if given.
+  constructor(
+    valePath: string,
+    configPath: string,
+    backupDir?: string,
+    styleLibrary?: StyleLibraryLoader,
+  ) {
     this.valePath = valePath;
     this.configPath = configPath;
+    this.styleLibrary = styleLibrary;
+    if (backupDir) {
+      const id = createHash("sha1").update(configPath).digest("hex");
+      this.backupPath = path.join(backupDir, id.slice(0, 12));
+    }
   }
 
   getValePath(): string {
@@ -158,6 +230,7 @@ export class ValeConfigManager {
             .pipe(Extract({ path: path.dirname(zipPath) }))
             .on("close", () => {
               fs.unlinkSync(zipPath);
+              configRevision++;
               resolve();
             });
         }),
@@ -171,10 +244,11 @@ export class ValeConfigManager {
       throw new Error("Styles path not configured");
     }
 
-    return fs.promises.rm(path.join(stylesPath, style.name), {
+    await fs.promises.rm(path.join(stylesPath, style.name), {
       force: true,
       recursive: true,
     });
+    configRevision++;
   }
 
   async loadConfig(): Promise<ValeConfig> {
@@ -183,11 +257,178 @@ export class ValeConfigManager {
     ) as ValeConfig;
   }
 
+  // saveConfig writes the changes made to a loaded config to the config
+  // file, leaving the lines of unchanged keys, comments and blank lines as
+  // they are.
   async saveConfig(config: ValeConfig): Promise<void> {
+    const text = await this.loadConfigText();
+    await this.writeConfigText(updateIniText(text, config));
+  }
+
+  // loadConfigText returns the config file as it's written, or an empty
+  // string if there's no config file yet.
+  async loadConfigText(): Promise<string> {
+    if (!(await this.configPathExists())) {
+      return "";
+    }
+    return fs.promises.readFile(this.configPath, "utf-8");
+  }
+
+  // saveConfigText replaces the config file with text edited by hand.
+  async saveConfigText(text: string): Promise<void> {
+    await this.writeConfigText(text);
+  }
+
+  // undoLastConfigChange restores the config file from its latest backup,
+  // which is then removed, so that undoing again goes further back. Returns
+  // false if there's no backup left.
+  async undoLastConfigChange(): Promise<boolean> {
+    const backups = await this.listConfigBackups();
+    const latest = backups.pop();
+    if (!latest || !this.backupPath) {
+      return false;
+    }
+
+    const backup = path.join(this.backupPath, latest);
+    await fs.promises.writeFile(
+      this.configPath,
+      await fs.promises.readFile(backup, "utf-8"),
+      { encoding: "utf-8" },
+    );
+    await fs.promises.rm(backup, { force: true });
+    configRevision++;
+    return true;
+  }
+
+  // writeConfigText backs up the config file and replaces it with text.
+  private async writeConfigText(text: string): Promise<void> {
+    const current = await this.loadConfigText();
+    if (current && current === text) {
+      return;
+    }
+    if (current) {
+      await this.backupConfig(current);
+    }
+
     await fs.promises.mkdir(path.dirname(this.configPath), { recursive: true });
-    return fs.promises.writeFile(this.configPath, stringify(config), {
+    await fs.promises.writeFile(this.configPath, text, { encoding: "utf-8" });
+    configRevision++;
+  }
+
+  // backupConfig saves a copy of the config file named after the time, and
+  // removes the oldest copies beyond MAX_CONFIG_BACKUPS.
+  private async backupConfig(text: string): Promise<void> {
+    const backupPath = this.backupPath;
+    if (!backupPath) {
+      return;
+    }
+    await fs.promises.mkdir(backupPath, { recursive: true });
+
+    const existing = new Set(await this.listConfigBackups());
+    let time = Date.now();
+    const nameAt = (ms: number) =>
+      `${new Date(ms).toISOString().replace(/[:.]/g, "-")}.ini`;
+    while (existing.has(nameAt(time))) {
+      time++;
+    }
+    await fs.promises.writeFile(path.join(backupPath, nameAt(time)), text, {
       encoding: "utf-8",
     });
+
+    const backups = await this.listConfigBackups();
+    await Promise.all(
+      backups
+        .slice(0, Math.max(0, backups.length - MAX_CONFIG_BACKUPS))
+        .map((name) => fs.promises.rm(path.join(backupPath, name))),
+    );
+  }
+
+  // listConfigBackups returns the names of the backups of the config file,
+  // oldest first.
+  private async listConfigBackups(): Promise<string[]> {
+    if (!this.backupPath) {
+      return [];
+    }
+    try {
+      const names = await fs.promises.readdir(this.backupPath);
+      return names.filter((name) => name.endsWith(".ini")).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  // getConfigFingerprint describes everything besides the text itself that
+  // affects Vale's output: the binary, the config file contents and the
+  // files of the styles and vocabularies. Used to key cached check results.
+  //
+  // Walking the styles is slow for large libraries, so the fingerprint is
+  // reused until the plugin changes the config or the styles, the config
+  // file is modified, or FINGERPRINT_MAX_AGE_MS passes.
+  async getConfigFingerprint(): Promise<string> {
+    const configStat = await fs.promises
+      .stat(this.configPath)
+      .catch(() => null);
+    const stamp = JSON.stringify([
+      configRevision,
+      configStat?.mtimeMs,
+      configStat?.size,
+    ]);
+    const cached = this.fingerprint;
+    if (
+      cached?.stamp === stamp &&
+      Date.now() - cached.time < FINGERPRINT_MAX_AGE_MS
+    ) {
+      return cached.value;
+    }
+
+    const config = await fs.promises
+      .readFile(this.configPath, "utf-8")
+      .catch(() => "");
+    const stylesPath = await this.getStylesPath().catch(() => undefined);
+    const styles = stylesPath ? await this.getStyleFileStats(stylesPath) : [];
+
+    const value = JSON.stringify([
+      this.valePath,
+      this.configPath,
+      config,
+      styles,
+    ]);
+    this.fingerprint = { stamp, time: Date.now(), value };
+    return value;
+  }
+
+  // getStyleFileStats lists every file under the styles directory, such as
+  // rule .yml files and vocabulary lists, with its modification time and
+  // size. Editing a file doesn't change the modification time of its
+  // folders, so the whole tree is walked.
+  private async getStyleFileStats(
+    stylesPath: string,
+  ): Promise<[string, number, number][]> {
+    const stats: [string, number, number][] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.promises
+        .readdir(dir, { withFileTypes: true })
+        .catch((): fs.Dirent[] => []);
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else {
+          const stat = await fs.promises.stat(entryPath).catch(() => null);
+          if (stat) {
+            stats.push([
+              path.relative(stylesPath, entryPath),
+              stat.mtimeMs,
+              stat.size,
+            ]);
+          }
+        }
+      }
+    };
+
+    await walk(stylesPath);
+    return stats.sort(([a], [b]) => a.localeCompare(b));
   }
 
   async getStylesPath(): Promise<string | undefined> {
@@ -225,78 +466,94 @@ export class ValeConfigManager {
     );
   }
 
-  async enableStyle(name: string): Promise<void> {
-    const config = await this.loadConfig();
-
-    const basedOnStyles = config["*"].md.BasedOnStyles;
-    if (!basedOnStyles) {
-      config["*"].md.BasedOnStyles = name;
-      return this.saveConfig(config);
-    }
-
-    const styles = basedOnStyles.split(",").map((style) => style.trim());
-    const stylesSet = new Set(styles);
-    stylesSet.add(name);
-    config["*"].md.BasedOnStyles = [...stylesSet].join(", ");
-
-    return this.saveConfig(config);
+  // getFormatSections lists the sections of the config that apply to files,
+  // such as [*.md] or [drafts/*.md], in the order they're written in.
+  async getFormatSections(): Promise<string[]> {
+    const sections = readIniSections(await this.loadConfigText());
+    return [...sections.keys()].filter(isFormatSection);
   }
 
-  async disableStyle(name: string): Promise<void> {
-    const config = await this.loadConfig();
-
-    const basedOnStyles = config["*"].md.BasedOnStyles;
-    if (!basedOnStyles) {
-      return;
-    }
-
-    const styles = basedOnStyles.split(",").map((style) => style.trim());
-    const stylesSet = new Set(styles);
-    stylesSet.delete(name);
-    config["*"].md.BasedOnStyles = [...stylesSet].join(", ");
-
-    return this.saveConfig(config);
+  // getEffectiveConfig combines the sections of the config that apply to a
+  // note when it's checked. Vale matches them against the name it gives the
+  // note on stdin, not against the note's path in the vault.
+  async getEffectiveConfig(notePath: string): Promise<EffectiveConfig> {
+    return getEffectiveConfig(
+      readIniSections(await this.loadConfigText()),
+      checkedFileName(notePath),
+    );
   }
 
-  async updateRule(style: string, rule: ValeRule): Promise<void> {
-    const config = await this.loadConfig();
+  // updateSection changes the keys of a section of the config, which is
+  // added to the config if it isn't there yet.
+  private async updateSection(
+    section: string,
+    change: (keys: Map<string, string>) => void,
+  ): Promise<void> {
+    const text = await this.loadConfigText();
+    const sections = readIniSections(text);
+    const keys = new Map(sections.get(section));
+    change(keys);
+    sections.set(section, keys);
+    await this.writeConfigText(writeIniSections(text, sections));
+  }
 
-    if (rule.disabled) {
-      config["*"].md[`${style}.${rule.name}`] = "NO";
-    } else if (rule.severity !== "default") {
-      config["*"].md[`${style}.${rule.name}`] = rule.severity;
-    } else {
-      delete config["*"].md[`${style}.${rule.name}`];
-    }
+  async enableStyle(name: string, section = DEFAULT_SECTION): Promise<void> {
+    return this.updateSection(section, (keys) => {
+      const styles = parseList(keys.get("BasedOnStyles"));
+      keys.set(
+        "BasedOnStyles",
+        parseList([...styles, name].join(", ")).join(", "),
+      );
+    });
+  }
 
-    return this.saveConfig(config);
+  async disableStyle(name: string, section = DEFAULT_SECTION): Promise<void> {
+    return this.updateSection(section, (keys) => {
+      const value = keys.get("BasedOnStyles");
+      if (value) {
+        keys.set(
+          "BasedOnStyles",
+          parseList(value)
+            .filter((style) => style !== name)
+            .join(", "),
+        );
+      }
+    });
   }
 
-  async getConfiguredRules(style: string): Promise<ValeRule[]> {
-    const config = await this.loadConfig();
+  async updateRule(
+    style: string,
+    rule: ValeRule,
+    section = DEFAULT_SECTION,
+  ): Promise<void> {
+    return this.updateSection(section, (keys) => {
+      const key = `${style}.${rule.name}`;
+      if (rule.disabled) {
+        keys.set(key, "NO");
+      } else if (rule.severity !== "default") {
+        keys.set(key, rule.severity);
+      } else {
+        keys.delete(key);
+      }
+    });
+  }
 
-    const md = config["*"].md;
+  async getConfiguredRules(
+    style: string,
+    section = DEFAULT_SECTION,
+  ): Promise<ValeRule[]> {
+    const sections = readIniSections(await this.loadConfigText());
+    const keys = sections.get(section) ?? new Map<string, string>();
 
     const rules: Record<string, ValeRule> = {};
 
-    Object.entries(md).map(([key, value]) => {
-      const identifier: string = key;
+    keys.forEach((value, identifier) => {
       if (identifier.startsWith(style + ".")) {
         const ruleName = identifier.split(".")[1];
         if (ruleName) {
-          // Type guard to ensure value is a valid severity
-          const severity: ValeRuleSeverity =
-            value === "YES" || value === "NO"
-              ? "default"
-              : value === "suggestion" ||
-                  value === "warning" ||
-                  value === "error"
-                ? value
-                : "default";
-
           rules[ruleName] = {
             name: ruleName,
-            severity,
+            severity: toRuleSeverity(value),
             disabled: value === "NO",
           };
         }
@@ -385,6 +642,264 @@ export class ValeConfigManager {
     }
   }
 
+  /**
+   * Adds a word to the accepted terms of a vocabulary, so that spelling checks
+   * no longer flag it.
+   *
+   * Uses the first vocabulary in the config's `Vocab` key. If there is none,
+   * the default vocabulary is created and added to the config.
+   * Returns the name of the vocabulary the word was added to.
+   */
+  async addToVocabulary(word: string): Promise<string> {
+    const config = await this.loadConfig();
+
+    const vocabularies = (config.Vocab ?? "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+    const vocabulary = vocabularies[0] ?? DEFAULT_VOCABULARY;
+
+    const acceptPath = path.join(
+      await this.getVocabulariesPath(),
+      vocabulary,
+      "accept.txt",
+    );
+    await fs.promises.mkdir(path.dirname(acceptPath), { recursive: true });
+
+    const accepted = await fs.promises
+      .readFile(acceptPath, "utf-8")
+      .catch(() => "");
+
+    // Entries are regular expressions, so special characters are escaped.
+    const entry = escapeVocabularyTerm(word);
+    const lines = accepted.split(/\r?\n/);
+    if (!lines.includes(entry)) {
+      const separator = accepted && !accepted.endsWith("\n") ? "\n" : "";
+      await fs.promises.writeFile(
+        acceptPath,
+        `${accepted}${separator}${entry}\n`,
+        { encoding: "utf-8" },
+      );
+    }
+
+    if (vocabularies.length === 0) {
+      config.Vocab = vocabulary;
+      await this.saveConfig(config);
+    } else {
+      // The vocabulary changed without a config change. Make sure cached
+      // results are checked again.
+      configRevision++;
+    }
+
+    return vocabulary;
+  }
+
+  /**
+   * Lists the vocabularies in the folder the installed Vale reads, with
+   * the number of entries in their lists. Vocabularies named in the `Vocab`
+   * key without a folder are listed as missing.
+   */
+  async getVocabularies(): Promise<ValeVocabulary[]> {
+    const vocabulariesPath = await this.getVocabulariesPath();
+    const active = await this.getActiveVocabularies();
+
+    const entries = await fs.promises
+      .readdir(vocabulariesPath, { withFileTypes: true })
+      .catch((): fs.Dirent[] => []);
+    const names = entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort((a, b) => a.localeCompare(b));
+
+    const vocabularies = await Promise.all(
+      names.map(async (name): Promise<ValeVocabulary> => {
+        const [accept, reject] = await Promise.all([
+          this.loadVocabulary(name, "accept"),
+          this.loadVocabulary(name, "reject"),
+        ]);
+        return {
+          name,
+          active: active.includes(name),
+          acceptCount: accept.length,
+          rejectCount: reject.length,
+        };
+      }),
+    );
+
+    const missing = active
+      .filter((name) => !names.includes(name))
+      .map(
+        (name): ValeVocabulary => ({
+          name,
+          active: true,
+          acceptCount: 0,
+          rejectCount: 0,
+          isMissing: true,
+        }),
+      );
+
+    return [...vocabularies, ...missing];
+  }
+
+  /**
+   * Creates a vocabulary folder with empty accept and reject lists.
+   */
+  async createVocabulary(name: string): Promise<void> {
+    const existing = (await this.getVocabularies())
+      .filter((vocabulary) => !vocabulary.isMissing)
+      .map((vocabulary) => vocabulary.name);
+    const problem = validateVocabularyName(name, existing);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const folder = path.join(await this.getVocabulariesPath(), name.trim());
+    await fs.promises.mkdir(folder, { recursive: true });
+    await Promise.all(
+      ["accept.txt", "reject.txt"].map((file) =>
+        fs.promises.writeFile(path.join(folder, file), "", {
+          encoding: "utf-8",
+          flag: "a",
+        }),
+      ),
+    );
+    configRevision++;
+  }
+
+  /**
+   * Renames a vocabulary folder, and the vocabulary in the `Vocab` key if
+   * it's active.
+   */
+  async renameVocabulary(name: string, newName: string): Promise<void> {
+    const existing = (await this.getVocabularies())
+      .map((vocabulary) => vocabulary.name)
+      .filter((other) => other !== name);
+    const problem = validateVocabularyName(newName, existing);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const vocabulariesPath = await this.getVocabulariesPath();
+    await fs.promises.rename(
+      path.join(vocabulariesPath, name),
+      path.join(vocabulariesPath, newName.trim()),
+    );
+    await this.updateActiveVocabularies((active) =>
+      active.map((other) => (other === name ? newName.trim() : other)),
+    );
+    configRevision++;
+  }
+
+  /**
+   * Deletes a vocabulary folder and removes it from the `Vocab` key.
+   */
+  async deleteVocabulary(name: string): Promise<void> {
+    await fs.promises.rm(path.join(await this.getVocabulariesPath(), name), {
+      recursive: true,
+      force: true,
+    });
+    await this.updateActiveVocabularies((active) =>
+      active.filter((other) => other !== name),
+    );
+    configRevision++;
+  }
+
+  /**
+   * Adds a vocabulary to the `Vocab` key, or removes it, so that checks use
+   * it or not.
+   */
+  async setVocabularyActive(name: string, active: boolean): Promise<void> {
+    await this.updateActiveVocabularies((names) =>
+      active ? [...names, name] : names.filter((other) => other !== name),
+    );
+  }
+
+  /**
+   * Reads the entries of a vocabulary's accept or reject list. A missing
+   * list has no entries.
+   */
+  async loadVocabulary(name: string, list: VocabularyList): Promise<string[]> {
+    const file = path.join(
+      await this.getVocabulariesPath(),
+      name,
+      `${list}.txt`,
+    );
+    const text = await fs.promises.readFile(file, "utf-8").catch(() => "");
+    return parseVocabularyText(text);
+  }
+
+  /**
+   * Replaces the entries of a vocabulary's accept or reject list.
+   */
+  async saveVocabulary(
+    name: string,
+    list: VocabularyList,
+    entries: string[],
+  ): Promise<void> {
+    const folder = path.join(await this.getVocabulariesPath(), name);
+    await fs.promises.mkdir(folder, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(folder, `${list}.txt`),
+      formatVocabularyText(entries),
+      { encoding: "utf-8" },
+    );
+    // Vocabularies change check results without a config change.
+    configRevision++;
+  }
+
+  // getVocabulariesPath returns the folder Vale reads vocabularies from:
+  // <StylesPath>/config/vocabularies since Vale 3, and <StylesPath>/Vocab
+  // before. If vale can't tell its version, the folder that exists is used.
+  private async getVocabulariesPath(): Promise<string> {
+    const stylesPath = await this.getStylesPath();
+    if (!stylesPath) {
+      throw new Error("StylesPath isn't set in the config file");
+    }
+
+    const current = path.join(stylesPath, "config", "vocabularies");
+    const legacy = path.join(stylesPath, "Vocab");
+
+    this.valeVersion ??= readValeVersion(this.valePath).catch(() => {
+      // Vale may be installed later, so ask again next time.
+      this.valeVersion = undefined;
+      return undefined;
+    });
+    const version = await this.valeVersion;
+    if (version) {
+      return isVersionAtLeast(version, VALE_3_VERSION) ? current : legacy;
+    }
+
+    const exists = (dir: string) =>
+      fs.promises.access(dir).then(
+        () => true,
+        () => false,
+      );
+    return !(await exists(current)) && (await exists(legacy))
+      ? legacy
+      : current;
+  }
+
+  // getActiveVocabularies lists the vocabularies of the Vocab key.
+  private async getActiveVocabularies(): Promise<string[]> {
+    const sections = readIniSections(await this.loadConfigText());
+    return parseList(sections.get("")?.get("Vocab"));
+  }
+
+  // updateActiveVocabularies changes the list of the Vocab key, which is
+  // removed when no vocabulary is left.
+  private async updateActiveVocabularies(
+    change: (names: string[]) => string[],
+  ): Promise<void> {
+    await this.updateSection("", (keys) => {
+      const names = parseList(change(parseList(keys.get("Vocab"))).join(","));
+      if (names.length > 0) {
+        keys.set("Vocab", names.join(", "));
+      } else {
+        keys.delete("Vocab");
+      }
+    });
+  }
+
   /**
    * Checks if a style exists on the filesystem.
    * Returns true if the style directory exists, false otherwise.
@@ -437,11 +952,12 @@ export class ValeConfigManager {
   /**
    * Gets installed styles as ValeStyle objects for Custom mode.
    * Returns actual styles from StylesPath directory with minimal metadata.
+   * The library isn't downloaded for this; only a cached copy is used.
    */
   async getInstalledStyles(): Promise<ValeStyle[]> {
     try {
       const installedNames = await this.getInstalled();
-      const availableStyles = await this.getAvailableStyles();
+      const availableStyles = await this.getKnownStyles();
 
       return installedNames.map((name) => {
         // Enrich known styles with library metadata
@@ -459,20 +975,17 @@ export class ValeConfigManager {
     }
   }
 
-  async getEnabledStyles(): Promise<string[]> {
-    const config = await this.loadConfig();
-
-    const basedOnStyles = config["*"].md.BasedOnStyles;
-    if (!basedOnStyles) {
-      return [];
-    }
-
-    const styles = basedOnStyles
-      .split(",")
-      .map((style) => style.trim())
-      .filter((style) => style);
-
-    return [...new Set(styles)];
+  // getEnabledStyles lists the styles enabled in a section of the config, or
+  // in any of its format sections if none is given.
+  async getEnabledStyles(section?: string): Promise<string[]> {
+    const sections = readIniSections(await this.loadConfigText());
+    const values = [...sections]
+      .filter(([name]) =>
+        section === undefined ? isFormatSection(name) : name === section,
+      )
+      .map(([, keys]) => keys.get("BasedOnStyles") ?? "");
+
+    return parseList(values.join(", "));
   }
 
   async installVale(): Promise<string> {
@@ -530,66 +1043,26 @@ export class ValeConfigManager {
     }
   }
 
+  /**
+   * Returns the style library, with where its styles were read from. Without
+   * a library loader, the bundled styles are used.
+   */
+  async getStyleLibrary(refresh = false): Promise<StyleLibrary> {
+    if (!this.styleLibrary) {
+      return { styles: BUNDLED_STYLES, source: "bundled" };
+    }
+    return this.styleLibrary.load(refresh);
+  }
+
+  // getKnownStyles lists the styles of the library as far as they're known
+  // without downloading it: the cached copy, or else the bundled styles.
+  async getKnownStyles(): Promise<ValeStyle[]> {
+    return (await this.styleLibrary?.loadCached()) ?? BUNDLED_STYLES;
+  }
+
+  // getAvailableStyles lists the styles of the library, which can be
+  // installed in managed mode.
   async getAvailableStyles(): Promise<ValeStyle[]> {
-    // Snatched from https://github.com/errata-ai/styles/blob/master/library.json.
-    // If the FuzzySuggestModal ever gets async support, we should make a
-    // request instead.
-    return Promise.resolve([
-      {
-        name: "Google",
-        description:
-          "A Vale-compatible implementation of the Google Developer Documentation Style Guide.",
-        homepage: "https://github.com/errata-ai/Google",
-        url: "https://github.com/errata-ai/Google/releases/latest/download/Google.zip",
-      },
-      {
-        name: "Joblint",
-        description:
-          "Test tech job posts for issues with sexism, culture, expectations, and recruiter fails.",
-        homepage: "https://github.com/errata-ai/Joblint",
-        url: "https://github.com/errata-ai/Joblint/releases/latest/download/Joblint.zip",
-      },
-      {
-        name: "Microsoft",
-        description:
-          "A Vale-compatible implementation of the Microsoft Writing Style Guide.",
-        homepage: "https://github.com/errata-ai/Microsoft",
-        url: "https://github.com/errata-ai/Microsoft/releases/latest/download/Microsoft.zip",
-      },
-      {
-        name: "proselint",
-        description:
-          "proselint places the world’s greatest writers and editors by your side, where they whisper suggestions on how to improve your prose.",
-        homepage: "https://github.com/errata-ai/proselint",
-        url: "https://github.com/errata-ai/proselint/releases/latest/download/proselint.zip",
-      },
-      {
-        name: "write-good",
-        description:
-          "Naive linter for English prose for developers who can't write good and wanna learn to do other stuff good too.",
-        homepage: "https://github.com/errata-ai/write-good",
-        url: "https://github.com/errata-ai/write-good/releases/latest/download/write-good.zip",
-      },
-      {
-        name: "alex",
-        description: "Catch insensitive, inconsiderate writing.",
-        homepage: "https://github.com/errata-ai/alex",
-        url: "https://github.com/errata-ai/alex/releases/latest/download/alex.zip",
-      },
-      {
-        name: "Readability",
-        description:
-          "Vale-compatible implementations of many popular readability metrics.",
-        homepage: "https://github.com/errata-ai/Readability",
-        url: "https://github.com/errata-ai/Readability/releases/latest/download/Readability.zip",
-      },
-      {
-        name: "Openly",
-        description:
-          "A Vale linter style that attempts to emulate some features of the commercial, and closed source.",
-        homepage: "https://github.com/testthedocs/Openly",
-        url: "https://github.com/testthedocs/Openly/releases/latest/download/Openly.zip",
-      },
-    ]);
+    return (await this.getStyleLibrary()).styles;
   }
 }
@@ -0,0 +1,184 @@
+import { createHash } from "crypto";
+import { ValeAlert } from "../types";
+import { byteToIndex } from "./preprocess";
+
+// Number of characters on each side of the match that identify an alert.
+const CONTEXT_LENGTH = 24;
+
+// Bump when the format of the saved file changes.
+const DISMISSALS_VERSION = 1;
+
+// DEFAULT_DISMISSALS_PATH is the file in the vault that dismissals are saved
+// to, unless the settings name another one.
+export const DEFAULT_DISMISSALS_PATH = "vale-dismissed.json";
+
+interface PersistedDismissals {
+  version: number;
+  notes: Record<string, string[]>;
+}
+
+// DismissalsStorage is the part of Obsidian's DataAdapter that is needed to
+// save dismissals to a file in the vault.
+export interface DismissalsStorage {
+  exists(path: string): Promise<boolean>;
+  read(path: string): Promise<string>;
+  write(path: string, data: string): Promise<void>;
+  mkdir(path: string): Promise<void>;
+}
+
+// alertFingerprint identifies an alert by its check, its matched text and the
+// text around it on the same line, so that it stays the same when lines above
+// it are edited. `from` and `to` are string indices in `line`.
+export const alertFingerprint = (
+  check: string,
+  line: string,
+  from: number,
+  to: number,
+): string => {
+  const normalize = (text: string) => text.replace(/\s+/g, " ");
+  const hash = createHash("sha256");
+  for (const part of [
+    line.slice(Math.max(0, from - CONTEXT_LENGTH), from),
+    line.slice(from, to),
+    line.slice(to, to + CONTEXT_LENGTH),
+  ]) {
+    hash.update(normalize(part));
+    hash.update("\0");
+  }
+  return `${check}:${hash.digest("hex").slice(0, 16)}`;
+};
+
+// fingerprintInText returns the fingerprint of an alert from the text it was
+// found in, which is the text of a whole note or of the block that was
+// checked.
+export const fingerprintInText = (text: string, alert: ValeAlert): string => {
+  const line = (text.split("\n")[alert.Line - 1] ?? "").replace(/\r$/, "");
+  return alertFingerprint(
+    alert.Check,
+    line,
+    byteToIndex(line, alert.Span[0] - 1),
+    byteToIndex(line, alert.Span[1]),
+  );
+};
+
+// ValeDismissals remembers the alerts the user has dismissed, per note, and
+// saves them to a file in the vault so they survive restarts and sync.
+export class ValeDismissals {
+  private storage: DismissalsStorage;
+  private filePath: string;
+  private notes = new Map<string, Set<string>>();
+
+  constructor(storage: DismissalsStorage, filePath: string) {
+    this.storage = storage;
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    try {
+      if (!(await this.storage.exists(this.filePath))) {
+        return;
+      }
+
+      const data = JSON.parse(
+        await this.storage.read(this.filePath),
+      ) as PersistedDismissals;
+      if (data.version !== DISMISSALS_VERSION || !data.notes) {
+        return;
+      }
+
+      this.notes = new Map(
+        Object.entries(data.notes).map(([path, fingerprints]) => [
+          path,
+          new Set(fingerprints),
+        ]),
+      );
+    } catch (err) {
+      console.warn("Vale: Failed to load dismissed alerts:", err);
+    }
+  }
+
+  // switchTo saves dismissals to another file from now on, and loads the
+  // ones already in it.
+  async switchTo(filePath: string): Promise<void> {
+    if (filePath === this.filePath) {
+      return;
+    }
+    this.filePath = filePath;
+    this.notes = new Map();
+    await this.load();
+  }
+
+  // partition splits the alerts from checking a note into the ones to show
+  // and the ones that have been dismissed.
+  partition(
+    path: string | undefined,
+    text: string,
+    alerts: ValeAlert[],
+  ): { alerts: ValeAlert[]; dismissed: ValeAlert[] } {
+    const dismissedFingerprints = (path && this.notes.get(path)) || new Set();
+    const result = { alerts: [] as ValeAlert[], dismissed: [] as ValeAlert[] };
+
+    for (const alert of alerts) {
+      if (dismissedFingerprints.has(fingerprintInText(text, alert))) {
+        result.dismissed.push(alert);
+      } else {
+        result.alerts.push(alert);
+      }
+    }
+    return result;
+  }
+
+  async dismiss(path: string, fingerprint: string): Promise<void> {
+    const fingerprints = this.notes.get(path) ?? new Set<string>();
+    fingerprints.add(fingerprint);
+    this.notes.set(path, fingerprints);
+    await this.save();
+  }
+
+  // restore shows a dismissed alert again. It returns false if the alert
+  // isn't dismissed, such as when the text around it has changed.
+  async restore(path: string, fingerprint: string): Promise<boolean> {
+    const fingerprints = this.notes.get(path);
+    if (!fingerprints?.delete(fingerprint)) {
+      return false;
+    }
+    if (!fingerprints.size) {
+      this.notes.delete(path);
+    }
+    await this.save();
+    return true;
+  }
+
+  // rename keeps the dismissals of a note that has been renamed or moved.
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const fingerprints = this.notes.get(oldPath);
+    if (!fingerprints) {
+      return;
+    }
+    this.notes.delete(oldPath);
+    this.notes.set(newPath, fingerprints);
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    const data: PersistedDismissals = {
+      version: DISMISSALS_VERSION,
+      notes: Object.fromEntries(
+        [...this.notes].map(([path, fingerprints]) => [
+          path,
+          [...fingerprints],
+        ]),
+      ),
+    };
+
+    try {
+      const folder = this.filePath.slice(0, this.filePath.lastIndexOf("/"));
+      if (folder && !(await this.storage.exists(folder))) {
+        await this.storage.mkdir(folder);
+      }
+      await this.storage.write(this.filePath, JSON.stringify(data, null, 2));
+    } catch (err) {
+      console.warn("Vale: Failed to save dismissed alerts:", err);
+    }
+  }
+}
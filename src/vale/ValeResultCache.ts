@@ -0,0 +1,171 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ValeResponse } from "../types";
+import { debounce } from "../utils/debounce";
+import { getConfigRevision } from "./ValeConfigManager";
+
+// Oldest results are dropped once the cache holds this many checks.
+const MAX_ENTRIES = 200;
+
+// Saving is debounced so that a burst of checks writes the file once.
+const SAVE_DELAY_MS = 2000;
+
+// Bump when the format of the persisted file changes.
+const CACHE_VERSION = 1;
+
+interface PersistedCache {
+  version: number;
+  entries: [string, ValeResponse][];
+}
+
+// ValeResultCache remembers check results by a hash of everything that
+// affects them, so that checking an unchanged note again doesn't run Vale.
+//
+// The cache is cleared whenever a ValeConfigManager changes the config or the
+// installed styles. It can optionally be persisted to disk so that results
+// survive a restart.
+export class ValeResultCache {
+  private entries = new Map<string, ValeResponse>();
+  private revision = getConfigRevision();
+  private persistPath: string | null = null;
+
+  private saveDebounced = debounce(() => {
+    void this.save();
+  }, SAVE_DELAY_MS);
+
+  // key hashes the parts that identify a check into a cache key.
+  static key(...parts: string[]): string {
+    const hash = createHash("sha256");
+    for (const part of parts) {
+      hash.update(part);
+      hash.update("\0");
+    }
+    return hash.digest("hex");
+  }
+
+  get size(): number {
+    this.checkRevision();
+    return this.entries.size;
+  }
+
+  get(key: string): ValeResponse | undefined {
+    this.checkRevision();
+
+    const response = this.entries.get(key);
+    if (response) {
+      // Move the entry to the end so that it's evicted last.
+      this.entries.delete(key);
+      this.entries.set(key, response);
+    }
+    return response;
+  }
+
+  set(key: string, response: ValeResponse): void {
+    this.checkRevision();
+
+    this.entries.delete(key);
+    this.entries.set(key, response);
+    this.trim();
+
+    this.scheduleSave();
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.scheduleSave();
+  }
+
+  // setPersistPath turns persistence on or off. Turning it on loads results
+  // saved by a previous session. Turning it off deletes the saved file.
+  async setPersistPath(filePath: string | null): Promise<void> {
+    if (filePath === this.persistPath) {
+      return;
+    }
+
+    const previous = this.persistPath;
+    this.persistPath = filePath;
+    this.saveDebounced.cancel();
+
+    if (filePath) {
+      await this.load(filePath);
+    } else if (previous) {
+      await fs.promises.rm(previous, { force: true });
+    }
+  }
+
+  // flush writes pending changes right away, e.g. when the plugin unloads.
+  async flush(): Promise<void> {
+    this.saveDebounced.cancel();
+    await this.save();
+  }
+
+  private checkRevision(): void {
+    const revision = getConfigRevision();
+    if (revision !== this.revision) {
+      this.revision = revision;
+      this.entries.clear();
+    }
+  }
+
+  // trim drops the oldest results beyond MAX_ENTRIES.
+  private trim(): void {
+    while (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.persistPath) {
+      this.saveDebounced();
+    }
+  }
+
+  private async load(filePath: string): Promise<void> {
+    try {
+      const data = JSON.parse(
+        await fs.promises.readFile(filePath, "utf-8"),
+      ) as PersistedCache;
+
+      if (data.version !== CACHE_VERSION || !Array.isArray(data.entries)) {
+        return;
+      }
+
+      // Results from this session are newer than the saved ones.
+      const current = [...this.entries];
+      this.entries = new Map([
+        ...data.entries.filter(([key]) => !this.entries.has(key)),
+        ...current,
+      ]);
+      this.trim();
+    } catch {
+      // No saved results yet, or the file is unreadable. Start empty.
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (!this.persistPath) {
+      return;
+    }
+
+    const data: PersistedCache = {
+      version: CACHE_VERSION,
+      entries: [...this.entries],
+    };
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.persistPath), {
+        recursive: true,
+      });
+      await fs.promises.writeFile(this.persistPath, JSON.stringify(data), {
+        encoding: "utf-8",
+      });
+    } catch (err) {
+      console.warn("Vale: Failed to save result cache:", err);
+    }
+  }
+}
@@ -1,71 +1,173 @@
 import { timed } from "../debug";
-import { ValeResponse, ValeSettings } from "../types";
-import { ValeCli } from "./ValeCli";
+import { ValeAlert, ValeResponse, ValeSettings } from "../types";
+import { throwIfCancelled } from "./CheckCancelledError";
+import { preprocessMarkdown, remapResponse } from "./preprocess";
+import { MIN_FIX_VERSION, supportsFix, ValeCli } from "./ValeCli";
 import { ValeConfigManager } from "./ValeConfigManager";
+import { ValeResultCache } from "./ValeResultCache";
 import { ValeServer } from "./ValeServer";
 
-// The primary responsibility of the ValeRunner is to make sure only one check
-// is running at any given time.
+// ValeRunner runs a single check against the configured backend.
+//
+// Checks can be cancelled with an AbortSignal. A cancelled check kills the
+// spawned vale process (CLI) or discards the response (server), and rejects
+// with a CheckCancelledError. Deciding which check is the latest one is up to
+// the caller, which aborts the previous check before starting a new one.
+//
+// Markdown is preprocessed so that Obsidian-specific syntax, such as wikilinks
+// and tags, doesn't produce alerts. Alerts are mapped back to the original
+// text before they're returned.
+//
+// When given a ValeResultCache, results are reused for text that has already
+// been checked with the same configuration.
 export class ValeRunner {
   private settings: ValeSettings;
 
   // Only exists when user is using the CLI.
   private configManager?: ValeConfigManager;
 
-  constructor(settings: ValeSettings, configManager?: ValeConfigManager) {
+  private cache?: ValeResultCache;
+
+  // Whether vale has the `fix` subcommand, once known.
+  private fixSupport?: Promise<boolean>;
+
+  constructor(
+    settings: ValeSettings,
+    configManager?: ValeConfigManager,
+    cache?: ValeResultCache,
+  ) {
     this.settings = settings;
     this.configManager = configManager;
+    this.cache = cache;
   }
 
-  run = notConcurrent(
-    async (text: string, format: string): Promise<ValeResponse> => {
-      return timed("ValeRunner.run()", async () => {
-        if (this.settings.type === "server") {
-          return new ValeServer(this.settings.server.url).vale(text, format);
-        } else if (this.settings.type === "cli") {
-          if (!this.configManager) {
-            throw new Error("Config manager is required for CLI mode");
-          }
-
-          const [valeExists, configExists] = await Promise.all([
-            this.configManager.valePathExists(),
-            this.configManager.configPathExists(),
-          ]);
-
-          if (valeExists && configExists) {
-            return new ValeCli(this.configManager).vale(text, format);
-          }
-
-          if (!valeExists) {
-            throw new Error("Couldn't find vale");
-          }
-          if (!configExists) {
-            throw new Error("Couldn't find config file");
-          }
-        }
-
-        throw new Error("Unknown runner");
+  run = async (
+    text: string,
+    format: string,
+    signal?: AbortSignal,
+  ): Promise<ValeResponse> => {
+    return timed("ValeRunner.run()", async () => {
+      throwIfCancelled(signal);
+
+      const key = this.cache ? await this.cacheKey(text, format) : undefined;
+      const cached = key ? this.cache?.get(key) : undefined;
+      if (cached) {
+        return cached;
+      }
+
+      const response = await this.checkMarkdown(text, format, signal);
+      if (key) {
+        this.cache?.set(key, response);
+      }
+      return response;
+    });
+  };
+
+  // getActiveStyles returns the styles the checks are based on. Vale Server
+  // doesn't tell, so it's empty in server mode.
+  getActiveStyles = async (): Promise<string[]> => {
+    if (this.settings.type !== "cli" || !this.configManager) {
+      return [];
+    }
+    return this.configManager.getEnabledStyles();
+  };
+
+  // canSuggest tells whether suggestions can be computed: only the CLI can,
+  // with `vale fix`, which older releases such as the managed install lack.
+  canSuggest = async (): Promise<boolean> => {
+    if (this.settings.type !== "cli" || !this.configManager) {
+      return false;
+    }
+    this.fixSupport ??= new ValeCli(this.configManager)
+      .version()
+      .then(supportsFix)
+      .catch(() => {
+        // Vale may be installed later, so ask again next time.
+        this.fixSupport = undefined;
+        return false;
       });
-    },
-  );
-}
+    return this.fixSupport;
+  };
 
-// notConcurrent ensures there's only ever one promise in-flight.
-const notConcurrent = (
-  proc: (text: string, format: string) => PromiseLike<ValeResponse>,
-) => {
-  let inFlight: Promise<ValeResponse> | false = false;
-
-  return (text: string, format: string) => {
-    if (!inFlight) {
-      inFlight = (async () => {
-        try {
-          return await proc(text, format);
-        } finally {
-          inFlight = false;
-        }
-      })();
+  // suggest returns the replacements Vale suggests for an alert whose action
+  // is suggest or convert.
+  suggest = async (alert: ValeAlert): Promise<string[]> => {
+    if (this.settings.type !== "cli" || !this.configManager) {
+      throw new Error("Vale Server doesn't compute suggestions");
     }
-    return inFlight;
+    if (!(await this.configManager.valePathExists())) {
+      throw new Error("Couldn't find vale");
+    }
+    if (!(await this.canSuggest())) {
+      throw new Error(`Suggestions need Vale ${MIN_FIX_VERSION} or later`);
+    }
+    return new ValeCli(this.configManager).suggest(alert);
   };
-};
+
+  // cacheKey identifies a check by its text, format and everything about the
+  // configuration that could change the results.
+  private async cacheKey(text: string, format: string): Promise<string> {
+    if (this.settings.type === "server") {
+      return ValeResultCache.key(text, format, this.settings.server.url);
+    }
+
+    const fingerprint = this.configManager
+      ? await this.configManager.getConfigFingerprint()
+      : "";
+    return ValeResultCache.key(text, format, fingerprint);
+  }
+
+  private async checkMarkdown(
+    text: string,
+    format: string,
+    signal?: AbortSignal,
+  ): Promise<ValeResponse> {
+    if (format !== ".md") {
+      return this.check(text, format, signal);
+    }
+
+    const preprocessed = preprocessMarkdown(text);
+    const response = await this.check(preprocessed.text, format, signal);
+    return remapResponse(response, text, preprocessed);
+  }
+
+  private async check(
+    text: string,
+    format: string,
+    signal?: AbortSignal,
+  ): Promise<ValeResponse> {
+    if (this.settings.type === "server") {
+      return new ValeServer(this.settings.server.url).vale(
+        text,
+        format,
+        signal,
+      );
+    } else if (this.settings.type === "cli") {
+      if (!this.configManager) {
+        throw new Error("Config manager is required for CLI mode");
+      }
+
+      const [valeExists, configExists] = await Promise.all([
+        this.configManager.valePathExists(),
+        this.configManager.configPathExists(),
+      ]);
+
+      // Don't spawn vale for a check that was superseded while we were
+      // looking for the binary and config.
+      throwIfCancelled(signal);
+
+      if (valeExists && configExists) {
+        return new ValeCli(this.configManager).vale(text, format, signal);
+      }
+
+      if (!valeExists) {
+        throw new Error("Couldn't find vale");
+      }
+      if (!configExists) {
+        throw new Error("Couldn't find config file");
+      }
+    }
+
+    throw new Error("Unknown runner");
+  }
+}
@@ -1,5 +1,6 @@
 import { request } from "obsidian";
 import { ValeResponse } from "../types";
+import { CheckCancelledError, throwIfCancelled } from "./CheckCancelledError";
 
 export class ValeServer {
   private url: string;
@@ -8,18 +9,36 @@ export class ValeServer {
     this.url = url;
   }
 
-  async vale(text: string, format: string): Promise<ValeResponse> {
+  async vale(
+    text: string,
+    format: string,
+    signal?: AbortSignal,
+  ): Promise<ValeResponse> {
+    throwIfCancelled(signal);
+
     const formData = `text=${encodeURIComponent(
       text,
     )}&format=${encodeURIComponent(format)}`;
 
-    const res = await request({
+    const response = request({
       url: this.url + "/vale",
       method: "POST",
       contentType: "application/x-www-form-urlencoded",
       body: formData,
     });
 
+    // Obsidian's request() can't be aborted, so a cancelled check stops
+    // waiting for the server and discards the response when it arrives.
+    const res = signal
+      ? await new Promise<string>((resolve, reject) => {
+          const onAbort = () => reject(new CheckCancelledError());
+          signal.addEventListener("abort", onAbort, { once: true });
+          response
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener("abort", onAbort));
+        })
+      : await response;
+
     return JSON.parse(res) as ValeResponse;
   }
 }
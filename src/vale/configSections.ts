@@ -0,0 +1,124 @@
+import { IniValues } from "./iniDocument";
+import { isFormatSection } from "./valeIni";
+
+// EffectiveValue is the value a note gets for a key, and the last of the
+// sections that apply to the note to set it.
+export interface EffectiveValue {
+  value: string;
+  section: string;
+}
+
+// EffectiveConfig is what the format sections of a config add up to for one
+// note.
+export interface EffectiveConfig {
+  // Sections whose globs match the note, in the order Vale applies them.
+  sections: string[];
+  // Styles enabled by any of the sections, with the sections that enable
+  // them.
+  styles: Map<string, string[]>;
+  // Other keys, such as rules, by name.
+  values: Map<string, EffectiveValue>;
+}
+
+// parseList lists the names in a comma-separated value, such as the styles
+// of BasedOnStyles or the vocabularies of Vocab, each once.
+export const parseList = (value: string | undefined): string[] => [
+  ...new Set(
+    (value ?? "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name),
+  ),
+];
+
+// globToRegExp converts the glob of a section to a regular expression. As in
+// Vale, * matches any characters including slashes, ? matches one
+// character, {md,txt} matches either alternative and [abc] matches one of
+// the characters, or any other with [!abc].
+const globToRegExp = (glob: string): RegExp => {
+  let source = "";
+  let braces = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob.charAt(i);
+    const classEnd = char === "[" ? glob.indexOf("]", i + 2) : -1;
+
+    if (char === "*") {
+      source += ".*";
+    } else if (char === "?") {
+      source += ".";
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else if (classEnd > 0) {
+      const chars = glob.slice(i + 1, classEnd).replace(/\\/g, "\\\\");
+      source += chars.startsWith("!") ? `[^${chars.slice(1)}]` : `[${chars}]`;
+      i = classEnd;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+// sectionMatches tells whether the glob of a section matches the path of a
+// note, relative to the vault. Globs that can't be read, such as ones with
+// unclosed braces, match nothing.
+export const sectionMatches = (section: string, notePath: string): boolean => {
+  try {
+    return globToRegExp(section).test(notePath);
+  } catch {
+    return false;
+  }
+};
+
+// checkedFileName returns the name Vale gives a note during a check. Notes
+// are written to Vale's stdin with their extension, so Vale reads them as
+// "stdin.md" and matches the globs of sections against that name rather than
+// the note's path in the vault: a section such as [drafts/*.md] never
+// applies to a check.
+export const checkedFileName = (notePath: string): string => {
+  const ext = /\.[^./]+$/.exec(notePath)?.[0] ?? "";
+  return `stdin${ext}`;
+};
+
+// getEffectiveConfig combines the sections of a config that apply to a note.
+// Styles add up across sections, while for other keys the last section to
+// set them wins.
+export const getEffectiveConfig = (
+  sections: IniValues,
+  notePath: string,
+): EffectiveConfig => {
+  const effective: EffectiveConfig = {
+    sections: [],
+    styles: new Map(),
+    values: new Map(),
+  };
+
+  for (const [section, keys] of sections) {
+    if (!isFormatSection(section) || !sectionMatches(section, notePath)) {
+      continue;
+    }
+
+    effective.sections.push(section);
+    for (const [key, value] of keys) {
+      if (key === "BasedOnStyles") {
+        for (const style of parseList(value)) {
+          effective.styles.set(style, [
+            ...(effective.styles.get(style) ?? []),
+            section,
+          ]);
+        }
+      } else {
+        effective.values.set(key, { value, section });
+      }
+    }
+  }
+  return effective;
+};
@@ -0,0 +1,292 @@
+import { severityOf } from "../editor/severity";
+import { BatchFileResult, ValeAlert } from "../types";
+import {
+  countBySeverity,
+  describeSeverityCounts,
+  pluralize,
+} from "../utils/alerts";
+
+// ExportFormat is a file format the results of a check can be exported to.
+export type ExportFormat = "json" | "csv" | "sarif" | "checkstyle" | "markdown";
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  name: string;
+  extension: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: "markdown", name: "Markdown report", extension: "md" },
+  { format: "json", name: "JSON", extension: "json" },
+  { format: "csv", name: "CSV", extension: "csv" },
+  { format: "sarif", name: "SARIF 2.1.0", extension: "sarif" },
+  { format: "checkstyle", name: "Checkstyle XML", extension: "xml" },
+];
+
+// serializeResults writes the results of a check in one of the export
+// formats. The Markdown report links each alert to the closest block or
+// heading of its note, so it needs the text of the notes by path. Notes
+// without text are linked as a whole.
+export const serializeResults = (
+  results: BatchFileResult[],
+  format: ExportFormat,
+  notes: Record<string, string> = {},
+  date = new Date(),
+): string => {
+  switch (format) {
+    case "json":
+      return toJson(results);
+    case "csv":
+      return toCsv(results);
+    case "sarif":
+      return toSarif(results);
+    case "checkstyle":
+      return toCheckstyle(results);
+    case "markdown":
+      return toMarkdownReport(results, notes, date);
+  }
+};
+
+// exportFileName names an export after the time it was made, e.g.
+// "Vale results 2024-05-01 1430.json".
+export const exportFileName = (
+  format: ExportFormat,
+  date = new Date(),
+): string => {
+  const info = EXPORT_FORMATS.find((f) => f.format === format);
+  return `Vale results ${formatDate(date).replace(":", "")}.${info?.extension ?? "txt"}`;
+};
+
+// toJson mirrors the JSON output of Vale: alerts keyed by file path.
+export const toJson = (results: BatchFileResult[]): string =>
+  JSON.stringify(
+    Object.fromEntries(results.map(({ path, alerts }) => [path, alerts])),
+    null,
+    2,
+  );
+
+const CSV_COLUMNS = [
+  "Path",
+  "Line",
+  "Column",
+  "End column",
+  "Severity",
+  "Check",
+  "Message",
+  "Match",
+  "Link",
+];
+
+// toCsv writes one row per alert, with a header row.
+export const toCsv = (results: BatchFileResult[]): string => {
+  const rows = results.flatMap(({ path, alerts }) =>
+    alerts.map((alert) => [
+      path,
+      alert.Line,
+      alert.Span[0],
+      alert.Span[1],
+      severityOf(alert),
+      alert.Check,
+      alert.Message,
+      alert.Match,
+      alert.Link,
+    ]),
+  );
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map((value) => csvField(String(value ?? ""))).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+};
+
+const csvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const SARIF_LEVELS = {
+  error: "error",
+  warning: "warning",
+  suggestion: "note",
+} as const;
+
+// toSarif writes a SARIF 2.1.0 log with a single run of Vale. Each check
+// is a rule, and paths are relative to the vault.
+export const toSarif = (results: BatchFileResult[]): string => {
+  const rules: Array<{ id: string; helpUri?: string }> = [];
+  const ruleIndex = new Map<string, number>();
+  const ruleOf = (alert: ValeAlert): number => {
+    let index = ruleIndex.get(alert.Check);
+    if (index === undefined) {
+      index = rules.length;
+      ruleIndex.set(alert.Check, index);
+      rules.push(
+        alert.Link
+          ? { id: alert.Check, helpUri: alert.Link }
+          : { id: alert.Check },
+      );
+    }
+    return index;
+  };
+
+  const sarifResults = results.flatMap(({ path, alerts }) =>
+    alerts.map((alert) => ({
+      ruleId: alert.Check,
+      ruleIndex: ruleOf(alert),
+      level: SARIF_LEVELS[severityOf(alert)],
+      message: { text: alert.Message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: path.split("/").map(encodeURIComponent).join("/"),
+            },
+            // Vale spans end on the last character, SARIF regions after it.
+            region: {
+              startLine: alert.Line,
+              startColumn: alert.Span[0],
+              endColumn: alert.Span[1] + 1,
+            },
+          },
+        },
+      ],
+    })),
+  );
+
+  return JSON.stringify(
+    {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "Vale",
+              informationUri: "https://vale.sh",
+              rules,
+            },
+          },
+          results: sarifResults,
+        },
+      ],
+    },
+    null,
+    2,
+  );
+};
+
+const CHECKSTYLE_SEVERITIES = {
+  error: "error",
+  warning: "warning",
+  suggestion: "info",
+} as const;
+
+// toCheckstyle writes the Checkstyle XML format that most CI servers read.
+export const toCheckstyle = (results: BatchFileResult[]): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<checkstyle version="4.3">',
+  ];
+  for (const { path, alerts } of results) {
+    lines.push(`  <file name="${xmlAttribute(path)}">`);
+    for (const alert of alerts) {
+      const attributes = [
+        ["line", alert.Line],
+        ["column", alert.Span[0]],
+        ["severity", CHECKSTYLE_SEVERITIES[severityOf(alert)]],
+        ["message", alert.Message],
+        ["source", alert.Check],
+      ]
+        .map(([name, value]) => `${name}="${xmlAttribute(String(value))}"`)
+        .join(" ");
+      lines.push(`    <error ${attributes}/>`);
+    }
+    lines.push("  </file>");
+  }
+  lines.push("</checkstyle>");
+  return lines.join("\n") + "\n";
+};
+
+const xmlAttribute = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    .replace(/\r?\n/g, "&#10;");
+
+// toMarkdownReport writes a note that lists the alerts of each note. Every
+// alert links to its line's block if it has a block ID, or else to the
+// closest heading above it, so that the report can be used inside the vault.
+export const toMarkdownReport = (
+  results: BatchFileResult[],
+  notes: Record<string, string> = {},
+  date = new Date(),
+): string => {
+  const alerts = results.flatMap((result) => result.alerts);
+  const withIssues = results.filter(
+    (result) => result.alerts.length > 0 || result.error,
+  );
+
+  const lines = [
+    "# Vale results",
+    "",
+    `Checked ${pluralize(results.length, "note")} on ${formatDate(date)}: ${describeSeverityCounts(countBySeverity(alerts))}.`,
+  ];
+
+  for (const { path, alerts, error } of withIssues) {
+    const linkPath = path.replace(/\.md$/, "");
+    lines.push("", `## [[${linkPath}]]`, "");
+
+    if (error) {
+      lines.push(`Couldn't check this note: ${error}`);
+      continue;
+    }
+
+    const text = notes[path];
+    const noteLines = text?.split(/\r?\n/);
+    for (const alert of alerts) {
+      const subpath = noteLines ? linkSubpath(noteLines, alert.Line) : "";
+      const link = `[[${linkPath}${subpath}|Line ${alert.Line}]]`;
+      lines.push(
+        `- ${link} **${severityOf(alert)}** ${alert.Message} (\`${alert.Check}\`)`,
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n";
+};
+
+const BLOCK_ID_PATTERN = /\s\^([A-Za-z0-9-]+)\s*$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)(?:\s+#+)?\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+// linkSubpath returns the part of a link after the note name that points
+// closest to a line: its block, or the heading of its section.
+const linkSubpath = (lines: string[], line: number): string => {
+  const blockId = BLOCK_ID_PATTERN.exec(lines[line - 1] ?? "")?.[1];
+  if (blockId) {
+    return `#^${blockId}`;
+  }
+
+  let heading: string | undefined;
+  let fence: string | undefined;
+  for (const text of lines.slice(0, line - 1)) {
+    const marker = FENCE_PATTERN.exec(text)?.[1];
+    if (marker && (!fence || marker === fence)) {
+      fence = fence ? undefined : marker;
+    } else if (!fence) {
+      heading = HEADING_PATTERN.exec(text)?.[1] ?? heading;
+    }
+  }
+
+  // Obsidian leaves these characters out of links to headings.
+  const subpath = heading
+    ?.replace(/[#^|:[\]]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return subpath ? `#${subpath}` : "";
+};
+
+const formatDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
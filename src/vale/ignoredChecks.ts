@@ -0,0 +1,56 @@
+import { parseYaml } from "obsidian";
+import { ValeAlert } from "../types";
+
+// IGNORE_PROPERTY is the front matter property listing the checks that are
+// ignored in a note, e.g.
+//
+//   ---
+//   vale-ignore: [Vale.Spelling, Google.Passive]
+//   ---
+//
+// An entry can also name a whole style, such as "Google".
+export const IGNORE_PROPERTY = "vale-ignore";
+
+const FRONT_MATTER_PATTERN =
+  /^---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+// getIgnoredChecks returns the checks a note's front matter says to ignore.
+export const getIgnoredChecks = (text: string): string[] => {
+  const frontMatter = FRONT_MATTER_PATTERN.exec(text)?.[1];
+  if (!frontMatter) {
+    return [];
+  }
+
+  let value: unknown;
+  try {
+    value = (parseYaml(frontMatter) as Record<string, unknown> | null)?.[
+      IGNORE_PROPERTY
+    ];
+  } catch {
+    // Obsidian shows invalid front matter to the user already.
+    return [];
+  }
+
+  const entries = Array.isArray(value) ? value : [value];
+  return entries
+    .flatMap((entry) => (typeof entry === "string" ? entry.split(",") : []))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+};
+
+// filterIgnoredAlerts removes the alerts from ignored checks.
+export const filterIgnoredAlerts = (
+  alerts: ValeAlert[],
+  ignoredChecks: string[],
+): ValeAlert[] => {
+  if (!ignoredChecks.length) {
+    return alerts;
+  }
+
+  return alerts.filter(
+    (alert) =>
+      !ignoredChecks.some(
+        (check) => alert.Check === check || alert.Check.startsWith(`${check}.`),
+      ),
+  );
+};
@@ -0,0 +1,206 @@
+import { parse, safe } from "ini";
+import { parseIniLine } from "./valeIni";
+
+// IniValues holds the values of a config file by section and key. Keys
+// before the first section are in the section named "".
+export type IniValues = Map<string, Map<string, string>>;
+
+interface SectionLines {
+  // Index of the [section] line, or -1 before the first section.
+  header: number;
+  // Index of the last line with a key, or of the header without keys.
+  last: number;
+  keys: Map<string, number>;
+}
+
+// flattenConfig lists the values of a parsed config by section. The ini
+// package splits section names at dots, so [*.md] is parsed as "*" > "md"
+// and joined back here. A name that only leads to other sections, like "*"
+// for [*.md], isn't listed as a section unless it has keys of its own.
+export const flattenConfig = (
+  config: Record<string, unknown>,
+  section = "",
+  values: IniValues = new Map(),
+): IniValues => {
+  const keys = values.get(section) ?? new Map<string, string>();
+  let hasSections = false;
+
+  for (const [key, value] of Object.entries(config)) {
+    if (value !== null && typeof value === "object") {
+      if (!Array.isArray(value)) {
+        hasSections = true;
+        flattenConfig(
+          value as Record<string, unknown>,
+          section ? `${section}.${key}` : key,
+          values,
+        );
+      }
+    } else if (
+      typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean"
+    ) {
+      keys.set(key, String(value));
+    }
+  }
+  if (!section || keys.size > 0 || !hasSections) {
+    values.set(section, keys);
+  }
+  return values;
+};
+
+// indexLines finds the lines of each section and key.
+const indexLines = (lines: string[]): Map<string, SectionLines> => {
+  const sections = new Map<string, SectionLines>();
+  let current: SectionLines = { header: -1, last: -1, keys: new Map() };
+  sections.set("", current);
+
+  lines.forEach((line, index) => {
+    const parsed = parseIniLine(line);
+    if (parsed.kind === "section") {
+      // Repeated sections are merged; keys are added to the last one.
+      current = sections.get(parsed.name) ?? {
+        header: index,
+        last: index,
+        keys: new Map(),
+      };
+      current.last = Math.max(current.last, index);
+      sections.set(parsed.name, current);
+    } else if (parsed.kind === "entry" && parsed.key) {
+      current.keys.set(parsed.key, index);
+      current.last = index;
+    }
+  });
+  return sections;
+};
+
+// formatEntry writes a key and a value the way the ini package would, so
+// that it's parsed back to the same value.
+const formatEntry = (key: string, value: string): string =>
+  `${key} = ${safe(value)}`;
+
+// replaceValue changes the value of a key = value line, keeping the
+// spacing around the key and the equals sign.
+const replaceValue = (line: string, value: string): string => {
+  const parsed = parseIniLine(line);
+  if (parsed.kind !== "entry") {
+    return line;
+  }
+  const prefix = parsed.value
+    ? line.slice(0, parsed.valueStart)
+    : `${line.slice(0, parsed.equalsAt + 1).trimEnd()} `;
+  return prefix + safe(value);
+};
+
+// readIniSections reads the values of a config file by section, with the
+// sections in the order they're written in. Vale applies the sections that
+// match a file in that order.
+export const readIniSections = (text: string): IniValues => {
+  const values = flattenConfig(parse(text) as Record<string, unknown>);
+  const keysOf = (section: string) =>
+    values.get(section) ?? new Map<string, string>();
+
+  const sections: IniValues = new Map([["", keysOf("")]]);
+  for (const line of text.split(/\r?\n/)) {
+    const parsed = parseIniLine(line);
+    if (parsed.kind === "section" && !sections.has(parsed.name)) {
+      sections.set(parsed.name, keysOf(parsed.name));
+    }
+  }
+  return sections;
+};
+
+// updateIniText writes a config to the text of a config file, changing only
+// the lines of the keys whose values changed. Comments, blank lines and the
+// order of sections and keys are kept, so that the file can be kept under
+// version control with small diffs. New keys are added at the end of their
+// section, and new sections at the end of the file.
+export const updateIniText = (text: string, config: object): string =>
+  writeIniSections(text, flattenConfig(config as Record<string, unknown>));
+
+// writeIniSections is updateIniText for values listed by section, as read by
+// readIniSections.
+export const writeIniSections = (text: string, after: IniValues): string => {
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const lines: Array<string | null> = text ? text.split(/\r?\n/) : [];
+  const hasFinalNewline = lines.length > 0 && lines[lines.length - 1] === "";
+  if (hasFinalNewline) {
+    lines.pop();
+  }
+
+  const before = flattenConfig(parse(text) as Record<string, unknown>);
+  const sections = indexLines(lines as string[]);
+
+  // Lines to add after the line at an index, where -1 is the top of the file.
+  const insertions = new Map<number, string[]>();
+  const insertAfter = (index: number, added: string[]) => {
+    insertions.set(index, [...(insertions.get(index) ?? []), ...added]);
+  };
+  const appended: string[] = [];
+
+  for (const [section, keys] of before) {
+    const lineOf = sections.get(section)?.keys;
+    for (const key of keys.keys()) {
+      const index = lineOf?.get(key);
+      if (!after.get(section)?.has(key) && index !== undefined) {
+        lines[index] = null;
+      }
+    }
+  }
+
+  for (const [section, keys] of after) {
+    const changed = [...keys].filter(
+      ([key, value]) => before.get(section)?.get(key) !== value,
+    );
+    if (changed.length === 0) {
+      continue;
+    }
+
+    const found = sections.get(section);
+    const added: string[] = [];
+    for (const [key, value] of changed) {
+      const index = found?.keys.get(key);
+      const line = index === undefined ? null : lines[index];
+      if (index !== undefined && line !== null) {
+        lines[index] = replaceValue(line, value);
+      } else {
+        added.push(formatEntry(key, value));
+      }
+    }
+    if (added.length === 0) {
+      continue;
+    }
+
+    if (found && (found.header >= 0 || found.keys.size > 0)) {
+      insertAfter(found.last, added);
+    } else if (section) {
+      appended.push("", `[${section}]`, ...added);
+    } else {
+      // Keys before the first section go above it.
+      const firstSection = Math.min(
+        ...[...sections.values()]
+          .map(({ header }) => header)
+          .filter((header) => header >= 0),
+        lines.length,
+      );
+      insertAfter(
+        firstSection - 1,
+        firstSection < lines.length ? [...added, ""] : added,
+      );
+    }
+  }
+
+  const result: string[] = [...(insertions.get(-1) ?? [])];
+  lines.forEach((line, index) => {
+    if (line !== null) {
+      result.push(line);
+    }
+    result.push(...(insertions.get(index) ?? []));
+  });
+  if (appended.length > 0) {
+    // Don't start the file with a blank line.
+    result.push(...(result.length > 0 ? appended : appended.slice(1)));
+  }
+
+  return result.join(eol) + (hasFinalNewline || !text ? eol : "");
+};
@@ -0,0 +1,369 @@
+import { ValeAlert, ValeResponse } from "../types";
+
+// Obsidian-specific syntax isn't Markdown, so Vale would read it as prose and
+// report false spelling and style alerts. Before a note is checked, this
+// module rewrites that syntax into something Vale understands or ignores, and
+// keeps a source map to move the alerts back to the original text.
+//
+// Rewrites never add or remove lines, so an alert's Line stays the same and
+// only its Span needs to be translated.
+
+// Replaces text that Vale should skip. Vale ignores inline code, so the
+// content of the placeholder doesn't matter.
+const MASK = "`_`";
+
+// A replacement of the source line range [from, to) with text. Offsets are
+// UTF-16 code units, like JavaScript string indices.
+interface Replacement {
+  from: number;
+  to: number;
+  text: string;
+}
+
+// SourceMap holds the replacements made on each line, indexed by line.
+export type SourceMap = Replacement[][];
+
+export interface PreprocessedText {
+  text: string;
+  map: SourceMap;
+}
+
+interface Rule {
+  pattern: RegExp;
+  replace: (match: RegExpExecArray) => Replacement[];
+}
+
+const replaceWith =
+  (text: (match: RegExpExecArray) => string, group = 0) =>
+  (match: RegExpExecArray): Replacement[] => {
+    // Rules can match a leading prefix that must be kept, e.g. the
+    // whitespace before a tag. Only the given group is replaced.
+    const offset = group ? match[0].indexOf(match[group]) : 0;
+    const from = match.index + offset;
+    return [{ from, to: from + match[group].length, text: text(match) }];
+  };
+
+// Rules are applied in order. A match that overlaps an earlier replacement or
+// inline code is skipped.
+const RULES: Rule[] = [
+  // Embeds: ![[image.png]], ![[Note#Heading]]
+  {
+    pattern: /!\[\[[^\]]*\]\]/g,
+    replace: replaceWith(() => ""),
+  },
+  // Wikilinks with an alias: [[Note|alias]] reads as "alias"
+  {
+    pattern: /\[\[[^\]|]*\|([^\]]*)\]\]/g,
+    replace: (match) => {
+      // The alias itself is kept so that its alerts map back exactly.
+      const aliasFrom = match.index + match[0].length - match[1].length - 2;
+      return [
+        { from: match.index, to: aliasFrom, text: "" },
+        {
+          from: aliasFrom + match[1].length,
+          to: aliasFrom + match[1].length + 2,
+          text: "",
+        },
+      ];
+    },
+  },
+  // Wikilinks: [[Note]], [[Note#Heading]]
+  {
+    pattern: /\[\[[^\]]*\]\]/g,
+    replace: replaceWith(() => MASK),
+  },
+  // Callout headers: > [!note]+ Title reads as "> Title"
+  {
+    pattern: /^(\s*(?:>\s*)+)(\[![^\]]+\][+-]?\s?)/g,
+    replace: replaceWith(() => "", 2),
+  },
+  // Block IDs at the end of a line: Some text ^abc123
+  {
+    pattern: /(\s)(\^[A-Za-z0-9-]+)\s*$/g,
+    replace: replaceWith(() => "", 2),
+  },
+  // Dataview inline fields: [key:: value], (key:: value)
+  {
+    pattern: /[[(][^[\]()]+?::[^\])]*[\])]/g,
+    replace: replaceWith(() => MASK),
+  },
+  // Dataview fields on their own line: key:: value, - key:: value
+  {
+    pattern: /^(\s*(?:[-*+]\s+)?)([\p{L}\p{N}_][\p{L}\p{N}_ -]*::.*)$/gu,
+    replace: replaceWith(() => MASK, 2),
+  },
+  // Tags: #tag, #nested/tag. A tag needs at least one non-digit.
+  {
+    pattern: /(^|\s)(#[\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu,
+    replace: replaceWith(() => MASK, 2),
+  },
+];
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Rewrites Obsidian-specific syntax in a Markdown note so that Vale doesn't
+ * report alerts for it.
+ *
+ * Handles wikilinks, embeds, %% comments %%, callout headers, block IDs,
+ * tags and Dataview inline fields. Front matter, code blocks and inline code
+ * are left as they are.
+ *
+ * @param text - The note as written
+ * @returns The text to send to Vale, and a map back to the original
+ */
+export function preprocessMarkdown(text: string): PreprocessedText {
+  const lines = text.split("\n");
+  const map: SourceMap = [];
+  let fence: string | null = null;
+  let inComment = false;
+  // Vale reads front matter itself, so it's left alone.
+  let inFrontMatter = lines[0] === "---";
+
+  const output = lines.map((line, index) => {
+    if (inFrontMatter) {
+      if (index > 0 && /^(---|\.\.\.)$/.test(line)) {
+        inFrontMatter = false;
+      }
+      map.push([]);
+      return line;
+    }
+
+    if (fence) {
+      if (closesFence(line, fence)) {
+        fence = null;
+      }
+      map.push([]);
+      return line;
+    }
+
+    if (!inComment) {
+      const opening = FENCE_PATTERN.exec(line);
+      if (opening) {
+        fence = opening[1];
+        map.push([]);
+        return line;
+      }
+    }
+
+    const code = findInlineCode(line);
+    const comments = findComments(line, inComment, code);
+    inComment = comments.open;
+
+    const replacements = [...comments.ranges];
+    for (const rule of RULES) {
+      rule.pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = rule.pattern.exec(line))) {
+        const matched = rule.replace(match);
+        if (
+          !matched.some(
+            (replacement) =>
+              overlapsAny(replacement, code) ||
+              overlapsAny(replacement, replacements),
+          )
+        ) {
+          replacements.push(...matched);
+        }
+      }
+    }
+
+    replacements.sort((a, b) => a.from - b.from);
+    map.push(replacements);
+    return applyReplacements(line, replacements);
+  });
+
+  return { text: output.join("\n"), map };
+}
+
+/**
+ * Translates alerts for preprocessed text back to the original text.
+ *
+ * @param response - Vale's response for the preprocessed text
+ * @param source - The original text
+ * @param preprocessed - The result of {@link preprocessMarkdown}
+ * @returns The response with each alert's Span pointing into the original
+ */
+export function remapResponse(
+  response: ValeResponse,
+  source: string,
+  preprocessed: PreprocessedText,
+): ValeResponse {
+  const sourceLines = source.split("\n");
+  const outputLines = preprocessed.text.split("\n");
+
+  const remapped: ValeResponse = {};
+  for (const [file, alerts] of Object.entries(response)) {
+    remapped[file] = alerts.map((alert) =>
+      remapAlert(
+        alert,
+        sourceLines[alert.Line - 1],
+        outputLines[alert.Line - 1],
+        preprocessed.map[alert.Line - 1],
+      ),
+    );
+  }
+  return remapped;
+}
+
+function remapAlert(
+  alert: ValeAlert,
+  sourceLine: string | undefined,
+  outputLine: string | undefined,
+  replacements: Replacement[] | undefined,
+): ValeAlert {
+  if (
+    sourceLine === undefined ||
+    outputLine === undefined ||
+    !replacements?.length
+  ) {
+    return alert;
+  }
+
+  // Vale's Span is 1-based and inclusive, in bytes.
+  const start = byteToIndex(outputLine, alert.Span[0] - 1);
+  const end = byteToIndex(outputLine, alert.Span[1]);
+
+  const from = toSourceIndex(replacements, start, "start");
+  const to = toSourceIndex(replacements, end, "end");
+
+  return {
+    ...alert,
+    Span: [indexToByte(sourceLine, from) + 1, indexToByte(sourceLine, to)],
+  };
+}
+
+// toSourceIndex maps an index in the rewritten line to the original line.
+// Indices inside a replacement snap to its start or end.
+function toSourceIndex(
+  replacements: Replacement[],
+  index: number,
+  bias: "start" | "end",
+): number {
+  let shift = 0;
+  for (const { from, to, text } of replacements) {
+    const outputFrom = from + shift;
+    const outputTo = outputFrom + text.length;
+
+    if (index < outputFrom || (index === outputFrom && bias === "end")) {
+      break;
+    }
+    if (index < outputTo) {
+      return bias === "start" ? from : to;
+    }
+
+    shift += text.length - (to - from);
+  }
+  return index - shift;
+}
+
+function applyReplacements(line: string, replacements: Replacement[]): string {
+  let result = "";
+  let last = 0;
+  for (const { from, to, text } of replacements) {
+    result += line.slice(last, from) + text;
+    last = to;
+  }
+  return result + line.slice(last);
+}
+
+function overlapsAny(range: Replacement, others: Replacement[]): boolean {
+  return others.some((other) => range.from < other.to && other.from < range.to);
+}
+
+// findInlineCode returns the ranges of inline code spans in a line.
+function findInlineCode(line: string): Replacement[] {
+  const ranges: Replacement[] = [];
+  const pattern = /`+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line))) {
+    const closing = line.indexOf(match[0], match.index + match[0].length);
+    if (closing === -1) {
+      continue;
+    }
+    ranges.push({
+      from: match.index,
+      to: closing + match[0].length,
+      text: "",
+    });
+    pattern.lastIndex = closing + match[0].length;
+  }
+  return ranges;
+}
+
+// findComments returns the %% comment %% ranges in a line, which are removed,
+// and whether a comment is still open at the end of the line.
+function findComments(
+  line: string,
+  inComment: boolean,
+  code: Replacement[],
+): { ranges: Replacement[]; open: boolean } {
+  const ranges: Replacement[] = [];
+  let start = inComment ? 0 : -1;
+  let index = 0;
+
+  while ((index = line.indexOf("%%", index)) !== -1) {
+    const marker = { from: index, to: index + 2, text: "" };
+    if (start === -1 && overlapsAny(marker, code)) {
+      index += 2;
+      continue;
+    }
+
+    if (start === -1) {
+      start = index;
+    } else {
+      ranges.push({ from: start, to: index + 2, text: "" });
+      start = -1;
+    }
+    index += 2;
+  }
+
+  if (start !== -1) {
+    ranges.push({ from: start, to: line.length, text: "" });
+  }
+  return { ranges, open: start !== -1 };
+}
+
+function closesFence(line: string, fence: string): boolean {
+  const closing = line.trim();
+  return (
+    closing.length >= fence.length &&
+    [...closing].every((char) => char === fence[0])
+  );
+}
+
+// byteToIndex converts a UTF-8 byte offset in a line to a string index.
+export function byteToIndex(line: string, byteOffset: number): number {
+  let bytes = 0;
+  for (let i = 0; i < line.length; i++) {
+    if (bytes >= byteOffset) {
+      return i;
+    }
+    const code = line.codePointAt(i) ?? 0;
+    bytes += utf8Length(code);
+    if (code > 0xffff) {
+      i++;
+    }
+  }
+  return line.length;
+}
+
+// indexToByte converts a string index in a line to a UTF-8 byte offset.
+export function indexToByte(line: string, index: number): number {
+  let bytes = 0;
+  for (let i = 0; i < index && i < line.length; i++) {
+    const code = line.codePointAt(i) ?? 0;
+    bytes += utf8Length(code);
+    if (code > 0xffff) {
+      i++;
+    }
+  }
+  return bytes;
+}
+
+function utf8Length(codePoint: number): number {
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
@@ -0,0 +1,259 @@
+import * as fs from "fs";
+import { request } from "obsidian";
+import * as path from "path";
+import { ValeStyle } from "../types";
+
+// The style library is a JSON list of styles that can be installed in
+// managed mode, in the format of errata-ai's library.json:
+//
+//   [{ "name": "Google", "description": "...", "homepage": "...",
+//      "url": ".../Google.zip", "version": "0.6.1" }]
+//
+// Teams can host their own catalog and point the plugin to it.
+
+// Library published by the Vale project.
+export const DEFAULT_STYLE_LIBRARY_URL =
+  "https://raw.githubusercontent.com/errata-ai/styles/master/library.json";
+
+// How long a downloaded library is used before it's downloaded again.
+export const STYLE_LIBRARY_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// Styles shipped with the plugin, for when the library has never been
+// downloaded. Snatched from errata-ai's library.json.
+export const BUNDLED_STYLES: ValeStyle[] = [
+  {
+    name: "Google",
+    description:
+      "A Vale-compatible implementation of the Google Developer Documentation Style Guide.",
+    homepage: "https://github.com/errata-ai/Google",
+    url: "https://github.com/errata-ai/Google/releases/latest/download/Google.zip",
+  },
+  {
+    name: "Joblint",
+    description:
+      "Test tech job posts for issues with sexism, culture, expectations, and recruiter fails.",
+    homepage: "https://github.com/errata-ai/Joblint",
+    url: "https://github.com/errata-ai/Joblint/releases/latest/download/Joblint.zip",
+  },
+  {
+    name: "Microsoft",
+    description:
+      "A Vale-compatible implementation of the Microsoft Writing Style Guide.",
+    homepage: "https://github.com/errata-ai/Microsoft",
+    url: "https://github.com/errata-ai/Microsoft/releases/latest/download/Microsoft.zip",
+  },
+  {
+    name: "proselint",
+    description:
+      "proselint places the world’s greatest writers and editors by your side, where they whisper suggestions on how to improve your prose.",
+    homepage: "https://github.com/errata-ai/proselint",
+    url: "https://github.com/errata-ai/proselint/releases/latest/download/proselint.zip",
+  },
+  {
+    name: "write-good",
+    description:
+      "Naive linter for English prose for developers who can't write good and wanna learn to do other stuff good too.",
+    homepage: "https://github.com/errata-ai/write-good",
+    url: "https://github.com/errata-ai/write-good/releases/latest/download/write-good.zip",
+  },
+  {
+    name: "alex",
+    description: "Catch insensitive, inconsiderate writing.",
+    homepage: "https://github.com/errata-ai/alex",
+    url: "https://github.com/errata-ai/alex/releases/latest/download/alex.zip",
+  },
+  {
+    name: "Readability",
+    description:
+      "Vale-compatible implementations of many popular readability metrics.",
+    homepage: "https://github.com/errata-ai/Readability",
+    url: "https://github.com/errata-ai/Readability/releases/latest/download/Readability.zip",
+  },
+  {
+    name: "Openly",
+    description:
+      "A Vale linter style that attempts to emulate some features of the commercial, and closed source.",
+    homepage: "https://github.com/testthedocs/Openly",
+    url: "https://github.com/testthedocs/Openly/releases/latest/download/Openly.zip",
+  },
+];
+
+// Where the styles of a library were read from.
+export type StyleLibrarySource = "remote" | "cache" | "bundled";
+
+export interface StyleLibrary {
+  styles: ValeStyle[];
+  source: StyleLibrarySource;
+  /** When the styles were downloaded, unless they're the bundled ones */
+  fetchedAt?: number;
+  /** Why the library couldn't be downloaded, if it was tried and failed */
+  error?: string;
+}
+
+// The file the last downloaded library is kept in.
+interface StyleLibraryCache {
+  url: string;
+  fetchedAt: number;
+  styles: ValeStyle[];
+}
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+// parseStyleLibrary reads the styles of a library. Entries without a name
+// or a download URL are left out, and so are names that aren't a single
+// folder, since styles are installed to and removed from
+// <StylesPath>/<name>.
+export const parseStyleLibrary = (text: string): ValeStyle[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The style library isn't valid JSON");
+  }
+  if (!Array.isArray(data)) {
+    throw new Error("The style library isn't a list of styles");
+  }
+
+  const styles: ValeStyle[] = [];
+  for (const entry of data as unknown[]) {
+    if (typeof entry !== "object" || entry === null) {
+      continue;
+    }
+    const fields = entry as Record<string, unknown>;
+    const name = optionalString(fields.name);
+    const url = optionalString(fields.url);
+    if (
+      !name ||
+      !url ||
+      /[/\\]/.test(name) ||
+      name === "." ||
+      name === ".." ||
+      !/^https?:\/\//.test(url) ||
+      styles.some((style) => style.name === name)
+    ) {
+      continue;
+    }
+    styles.push({
+      name,
+      url,
+      description: optionalString(fields.description),
+      homepage: optionalString(fields.homepage),
+      version: optionalString(fields.version),
+    });
+  }
+
+  if (styles.length === 0) {
+    throw new Error("The style library has no styles");
+  }
+  return styles;
+};
+
+// StyleLibraryLoader downloads the style library and keeps a copy of it in
+// cachePath, if given. The copy is used while it's recent, and when the
+// library can't be downloaded. Without either, the bundled styles are used.
+export class StyleLibraryLoader {
+  private url: string;
+  private cachePath?: string;
+  private fetchText: (url: string) => Promise<string>;
+
+  constructor(
+    url: string,
+    cachePath?: string,
+    fetchText: (url: string) => Promise<string> = (url) => request({ url }),
+  ) {
+    this.url = url.trim() || DEFAULT_STYLE_LIBRARY_URL;
+    this.cachePath = cachePath;
+    this.fetchText = fetchText;
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  // load returns the library, downloading it unless the cached copy is
+  // recent. With refresh, it's always downloaded.
+  async load(refresh = false): Promise<StyleLibrary> {
+    const cached = await this.readCache();
+    if (
+      cached &&
+      !refresh &&
+      Date.now() - cached.fetchedAt < STYLE_LIBRARY_MAX_AGE
+    ) {
+      return {
+        styles: cached.styles,
+        source: "cache",
+        fetchedAt: cached.fetchedAt,
+      };
+    }
+
+    try {
+      const styles = parseStyleLibrary(await this.fetchText(this.url));
+      const fetchedAt = Date.now();
+      await this.writeCache({ url: this.url, fetchedAt, styles });
+      return { styles, source: "remote", fetchedAt };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      if (cached) {
+        return {
+          styles: cached.styles,
+          source: "cache",
+          fetchedAt: cached.fetchedAt,
+          error,
+        };
+      }
+      return { styles: BUNDLED_STYLES, source: "bundled", error };
+    }
+  }
+
+  // loadCached returns the styles of the cached copy, however old, without
+  // downloading the library.
+  async loadCached(): Promise<ValeStyle[] | undefined> {
+    return (await this.readCache())?.styles;
+  }
+
+  // readCache returns the cached library, if it was downloaded from the
+  // same URL.
+  private async readCache(): Promise<StyleLibraryCache | undefined> {
+    if (!this.cachePath) {
+      return undefined;
+    }
+    try {
+      const cache = JSON.parse(
+        await fs.promises.readFile(this.cachePath, "utf-8"),
+      ) as Partial<StyleLibraryCache>;
+      if (
+        cache.url !== this.url ||
+        typeof cache.fetchedAt !== "number" ||
+        !Array.isArray(cache.styles)
+      ) {
+        return undefined;
+      }
+      return {
+        url: cache.url,
+        fetchedAt: cache.fetchedAt,
+        styles: parseStyleLibrary(JSON.stringify(cache.styles)),
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  // writeCache keeps a copy of the library. A copy that can't be written
+  // only means it's downloaded again next time.
+  private async writeCache(cache: StyleLibraryCache): Promise<void> {
+    if (!this.cachePath) {
+      return;
+    }
+    try {
+      await fs.promises.mkdir(path.dirname(this.cachePath), {
+        recursive: true,
+      });
+      await fs.promises.writeFile(this.cachePath, JSON.stringify(cache), {
+        encoding: "utf-8",
+      });
+    } catch (err) {
+      console.warn("Failed to cache the style library:", err);
+    }
+  }
+}
@@ -0,0 +1,233 @@
+// IniLine is a line of .vale.ini, with the offsets of its parts within the
+// line for highlighting.
+export type IniLine =
+  | { kind: "blank" }
+  | { kind: "comment" }
+  | { kind: "section"; name: string }
+  | {
+      kind: "entry";
+      key: string;
+      value: string;
+      keyStart: number;
+      equalsAt: number;
+      valueStart: number;
+    }
+  | { kind: "invalid" };
+
+// ConfigValueType is the kind of value a key of .vale.ini takes:
+//
+//   - path: a path, relative to the config file
+//   - level: one of the alert levels, suggestion, warning or error
+//   - list: comma-separated names, such as styles or vocabularies
+//   - text: anything else, such as a pattern
+export type ConfigValueType = "path" | "level" | "list" | "text";
+
+export interface ConfigKey {
+  name: string;
+  type: ConfigValueType;
+  // Global keys go before the first section. Format keys go in sections
+  // that match files, such as [*.md].
+  scope: "global" | "format";
+}
+
+// VALE_CONFIG_KEYS are the keys Vale reads from .vale.ini, besides the
+// severities of rules, such as `Vale.Spelling = NO`.
+export const VALE_CONFIG_KEYS: ConfigKey[] = [
+  { name: "StylesPath", type: "path", scope: "global" },
+  { name: "MinAlertLevel", type: "level", scope: "global" },
+  { name: "Vocab", type: "list", scope: "global" },
+  { name: "Packages", type: "list", scope: "global" },
+  { name: "IgnoredScopes", type: "list", scope: "global" },
+  { name: "SkippedScopes", type: "list", scope: "global" },
+  { name: "IgnoredClasses", type: "list", scope: "global" },
+  { name: "WordTemplate", type: "text", scope: "global" },
+  { name: "NLPEndpoint", type: "text", scope: "global" },
+  { name: "BasedOnStyles", type: "list", scope: "format" },
+  { name: "BlockIgnores", type: "text", scope: "format" },
+  { name: "TokenIgnores", type: "text", scope: "format" },
+  { name: "CommentDelimiters", type: "text", scope: "format" },
+  { name: "Transform", type: "path", scope: "format" },
+  { name: "Lang", type: "text", scope: "format" },
+];
+
+// Sections whose keys aren't settings: [formats] maps file extensions to
+// formats and [asciidoctor] sets document attributes.
+const FREEFORM_SECTIONS = ["formats", "asciidoctor"];
+
+// The section the plugin edits when no other is chosen.
+export const DEFAULT_SECTION = "*.md";
+
+// isFormatSection tells whether a section is a glob of the files its styles
+// and rules apply to, such as [*.md] or [drafts/*.md].
+export const isFormatSection = (section: string): boolean =>
+  section !== "" && !FREEFORM_SECTIONS.includes(section.toLowerCase());
+
+const ALERT_LEVELS = ["suggestion", "warning", "error"];
+const RULE_SEVERITIES = ["YES", "NO", ...ALERT_LEVELS];
+
+export interface ConfigProblem {
+  severity: "error" | "warning";
+  message: string;
+}
+
+// ConfigDiagnostic is a problem on a line of .vale.ini, counted from 1.
+export interface ConfigDiagnostic extends ConfigProblem {
+  line: number;
+}
+
+const SECTION_PATTERN = /^\s*\[(.*)\]\s*$/;
+const ENTRY_PATTERN = /^(\s*)([^=]*?)\s*=\s*(.*?)\s*$/;
+
+// parseIniLine tells what a line of .vale.ini holds.
+export const parseIniLine = (line: string): IniLine => {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return { kind: "blank" };
+  }
+  if (trimmed.startsWith("#") || trimmed.startsWith(";")) {
+    return { kind: "comment" };
+  }
+
+  const section = SECTION_PATTERN.exec(line);
+  if (section) {
+    return { kind: "section", name: section[1].trim() };
+  }
+
+  const entry = ENTRY_PATTERN.exec(line);
+  if (entry) {
+    const [, indent, key, value] = entry;
+    const equalsAt = line.indexOf("=");
+    return {
+      kind: "entry",
+      key,
+      value,
+      keyStart: indent.length,
+      equalsAt,
+      valueStart: value ? line.indexOf(value, equalsAt + 1) : line.length,
+    };
+  }
+
+  return { kind: "invalid" };
+};
+
+// validateConfigValue checks a key and its value against what Vale expects
+// in a section, or before the first section if the section is null.
+export const validateConfigValue = (
+  key: string,
+  value: string,
+  section: string | null,
+): ConfigProblem | undefined => {
+  if (section !== null && FREEFORM_SECTIONS.includes(section.toLowerCase())) {
+    return undefined;
+  }
+
+  const known = VALE_CONFIG_KEYS.find(({ name }) => name === key);
+  if (!known) {
+    // Rules are named after their style, like Vale.Spelling.
+    if (section !== null && key.includes(".")) {
+      return RULE_SEVERITIES.includes(value)
+        ? undefined
+        : {
+            severity: "error",
+            message: `${key} must be YES, NO, suggestion, warning or error`,
+          };
+    }
+    return { severity: "warning", message: `Unknown key "${key}"` };
+  }
+
+  if (known.scope === "global" && section !== null) {
+    return {
+      severity: "warning",
+      message: `${key} only applies before the first section`,
+    };
+  }
+  if (known.scope === "format" && section === null) {
+    return {
+      severity: "warning",
+      message: `${key} only applies in a section, such as [*.md]`,
+    };
+  }
+
+  switch (known.type) {
+    case "path":
+      return value
+        ? undefined
+        : { severity: "error", message: `${key} needs a path` };
+    case "level":
+      return ALERT_LEVELS.includes(value)
+        ? undefined
+        : {
+            severity: "error",
+            message: `${key} must be suggestion, warning or error`,
+          };
+    case "list":
+      // An empty list is fine, as in `BasedOnStyles =`.
+      return value && value.split(",").some((name) => !name.trim())
+        ? { severity: "error", message: `${key} has an empty entry` }
+        : undefined;
+    case "text":
+      return undefined;
+  }
+};
+
+// validateConfigText checks each line of .vale.ini for syntax errors and
+// for keys and values Vale doesn't expect.
+export const validateConfigText = (text: string): ConfigDiagnostic[] => {
+  const diagnostics: ConfigDiagnostic[] = [];
+  let section: string | null = null;
+  let keys = new Set<string>();
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    const line = index + 1;
+    const parsed = parseIniLine(content);
+
+    switch (parsed.kind) {
+      case "invalid":
+        diagnostics.push({
+          line,
+          severity: "error",
+          message: "Expected a [section] or a key = value pair",
+        });
+        return;
+      case "section":
+        section = parsed.name;
+        keys = new Set();
+        if (!parsed.name) {
+          diagnostics.push({
+            line,
+            severity: "error",
+            message: "The section has no name",
+          });
+        }
+        return;
+      case "entry": {
+        if (!parsed.key) {
+          diagnostics.push({
+            line,
+            severity: "error",
+            message: "The value has no key",
+          });
+          return;
+        }
+        if (keys.has(parsed.key)) {
+          diagnostics.push({
+            line,
+            severity: "warning",
+            message: `${parsed.key} is already set in this section`,
+          });
+        }
+        keys.add(parsed.key);
+
+        const problem = validateConfigValue(parsed.key, parsed.value, section);
+        if (problem) {
+          diagnostics.push({ line, ...problem });
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  });
+
+  return diagnostics;
+};
@@ -0,0 +1,49 @@
+import { spawn } from "child_process";
+
+// Vale 3 moved vocabularies from <StylesPath>/Vocab to
+// <StylesPath>/config/vocabularies, and is the oldest release known to have
+// the `fix` subcommand. The managed install is older than both.
+export const VALE_3_VERSION = "3.0.0";
+
+// readValeVersion returns the version a vale binary reports, such as
+// "2.13.0".
+export const readValeVersion = (valePath: string): Promise<string> => {
+  const child = spawn(valePath, ["--version"]);
+
+  let stdout = "";
+  child.stdout?.on("data", (data) => {
+    stdout += data;
+  });
+
+  return new Promise((resolve, reject) => {
+    child.on("error", (err) => {
+      reject(new Error(`Failed to run Vale: ${err.message}`));
+    });
+
+    child.on("close", (code) => {
+      const version = /\d+\.\d+\.\d+/.exec(stdout)?.[0];
+      if (code === 0 && version) {
+        resolve(version);
+      } else {
+        reject(new Error(`Couldn't read the Vale version: ${stdout.trim()}`));
+      }
+    });
+  });
+};
+
+// isVersionAtLeast compares two versions, such as "v2.13.0" and "3.0.0". A
+// version that can't be read is never recent enough.
+export const isVersionAtLeast = (version: string, min: string): boolean => {
+  const parse = (v: string) =>
+    (/(\d+)\.(\d+)\.(\d+)/.exec(v) ?? []).slice(1).map(Number);
+  const [have, need] = [parse(version), parse(min)];
+  if (!have.length) {
+    return false;
+  }
+  for (let i = 0; i < need.length; i++) {
+    if (have[i] !== need[i]) {
+      return have[i] > need[i];
+    }
+  }
+  return true;
+};
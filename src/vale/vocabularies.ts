@@ -0,0 +1,76 @@
+// Vale reads vocabularies from <StylesPath>/config/vocabularies/<Name>, or
+// <StylesPath>/Vocab/<Name> before Vale 3, where accept.txt lists terms that
+// checks shouldn't flag and reject.txt terms that they should. Each line of a list is one entry, which Vale reads as a
+// case-sensitive regular expression.
+
+// Characters that make an entry more than a plain word. A dot is left out,
+// since entries like "Node.js" are meant as words even though the dot
+// matches any character.
+const REGEX_CHARACTERS = /[[\]()?*+|^${}\\]/;
+
+// parseVocabularyText lists the entries of an accept.txt or reject.txt file,
+// without blank lines.
+export const parseVocabularyText = (text: string): string[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line);
+
+// formatVocabularyText writes entries as the text of a vocabulary file.
+export const formatVocabularyText = (entries: string[]): string =>
+  entries.length > 0 ? `${entries.join("\n")}\n` : "";
+
+// isRegexEntry tells whether an entry uses regular expression syntax, such
+// as "[Oo]bsidian" or "(?i)markdown", rather than naming a single word.
+export const isRegexEntry = (entry: string): boolean =>
+  REGEX_CHARACTERS.test(entry);
+
+// validateVocabularyEntry checks that an entry is a regular expression Vale
+// can read. Vale uses Go's syntax, whose flags, such as (?i), JavaScript only
+// accepts at the start of a pattern, so those are left out of the check.
+export const validateVocabularyEntry = (entry: string): string | undefined => {
+  try {
+    new RegExp(entry.replace(/^\(\?[imsU]+\)/, ""));
+    return undefined;
+  } catch {
+    return `"${entry}" isn't a valid regular expression`;
+  }
+};
+
+// escapeVocabularyTerm turns a word into an entry that matches only that
+// word.
+export const escapeVocabularyTerm = (word: string): string =>
+  word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// mergeVocabularyEntries adds pasted entries, one per line, to a list,
+// leaving out blank lines and entries that are already in it. Returns the
+// list and the number of entries added.
+export const mergeVocabularyEntries = (
+  entries: string[],
+  pasted: string,
+): { entries: string[]; added: number } => {
+  const merged = new Set(entries);
+  for (const entry of parseVocabularyText(pasted)) {
+    merged.add(entry);
+  }
+  return { entries: [...merged], added: merged.size - new Set(entries).size };
+};
+
+// validateVocabularyName checks a name for a new vocabulary folder. Names
+// are listed in the comma-separated Vocab key, so they can't have commas.
+export const validateVocabularyName = (
+  name: string,
+  existing: string[],
+): string | undefined => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return "Enter a name";
+  }
+  if (/[,/\\]/.test(trimmed) || trimmed === "." || trimmed === "..") {
+    return "Names can't contain commas or slashes";
+  }
+  if (existing.some((other) => other.toLowerCase() === trimmed.toLowerCase())) {
+    return `A vocabulary named ${trimmed} already exists`;
+  }
+  return undefined;
+};
@@ -0,0 +1,48 @@
+/**
+ * Tests for QuickFixModal, which lists Vale's suggestions for an alert
+ */
+
+import { App } from "obsidian";
+import { suggestionFixes } from "../src/editor/quickFix";
+import { QuickFixModal } from "../src/QuickFixModal";
+import { createMockValeAlert } from "./mocks/valeAlerts";
+
+describe("QuickFixModal", () => {
+  const fixes = suggestionFixes(createMockValeAlert({ Match: "teh" }), [
+    "the",
+    "ten",
+    "tech",
+  ]);
+
+  it("should list every suggestion, narrowed down by the query", () => {
+    const modal = new QuickFixModal(new App(), fixes, jest.fn());
+
+    expect(modal.getSuggestions("").map((fix) => fix.replacement)).toEqual([
+      "the",
+      "ten",
+      "tech",
+    ]);
+    expect(modal.getSuggestions("TE").map((fix) => fix.replacement)).toEqual([
+      "ten",
+      "tech",
+    ]);
+  });
+
+  it("should show the replacement of each suggestion", () => {
+    const modal = new QuickFixModal(new App(), fixes, jest.fn());
+    const el = document.createElement("div");
+
+    modal.renderSuggestion(fixes[0], el);
+
+    expect(el.textContent).toBe("the");
+  });
+
+  it("should report the picked suggestion", () => {
+    const onChoose = jest.fn();
+    const modal = new QuickFixModal(new App(), fixes, onChoose);
+
+    modal.onChooseSuggestion(fixes[1]);
+
+    expect(onChoose).toHaveBeenCalledWith(fixes[1]);
+  });
+});
@@ -25,6 +25,53 @@ export class MarkdownView {}
 export class Editor {}
 export class EditorPosition {}
 
+/**
+ * Mock MarkdownRenderChild, which runs its registered callbacks on unload
+ */
+export class MarkdownRenderChild {
+  containerEl: HTMLElement;
+  private callbacks: Array<() => void> = [];
+
+  constructor(containerEl: HTMLElement) {
+    this.containerEl = containerEl;
+  }
+
+  register(callback: () => void): void {
+    this.callbacks.push(callback);
+  }
+
+  unload(): void {
+    this.callbacks.forEach((callback) => callback());
+    this.callbacks = [];
+  }
+}
+
+/**
+ * Mock SuggestModal, which lists the suggestions of its subclass without
+ * opening
+ */
+export class SuggestModal<T> {
+  app: App;
+  placeholder = "";
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  setPlaceholder(placeholder: string): void {
+    this.placeholder = placeholder;
+  }
+
+  open(): void {}
+
+  close(): void {}
+
+  // Implemented by subclasses
+  getSuggestions(_query: string): T[] {
+    return [];
+  }
+}
+
 /**
  * Mock Setting class that captures instances when enabled
  */
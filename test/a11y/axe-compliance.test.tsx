@@ -9,6 +9,7 @@
  * - Feedback components (LoadingSpinner, ErrorMessage, Toast, etc.)
  * - Navigation components (TabBar, Breadcrumb, BackButton)
  * - Settings components (CollapsibleSection)
+ * - Results panel (AlertList)
  *
  * Rule Configuration:
  * - 'region' rule disabled: Plugin components render inside Obsidian's
@@ -43,6 +44,13 @@ import { BackButton } from "../../src/components/navigation/BackButton";
 import { CollapsibleSection } from "../../src/components/settings/CollapsibleSection";
 import { SettingGroup } from "../../src/components/settings/SettingGroup";
 
+// Results Panel
+import {
+  AlertList,
+  VIRTUALIZE_THRESHOLD,
+} from "../../src/components/AlertList";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
 // Mock Obsidian module
 jest.mock("obsidian", () => ({
   setIcon: jest.fn((element: HTMLElement, _iconId: string) => {
@@ -788,6 +796,56 @@ Suggestion: Ensure BasedOnStyles is within a [*] or [*.md] section`}
     });
   });
 
+  describe("Results Panel", () => {
+    const alerts = [
+      createMockValeAlert({ Check: "Vale.Spelling", Severity: "error" }),
+      createMockValeAlert({ Check: "Google.We", Severity: "warning", Line: 2 }),
+      createMockValeAlert({
+        Check: "Google.Passive",
+        Severity: "suggestion",
+        Line: 3,
+      }),
+    ];
+    const actions = { onFix: jest.fn(), onDismiss: jest.fn() };
+
+    it("passes axe checks for AlertList", async () => {
+      const { container } = render(
+        <AlertList
+          alerts={alerts}
+          highlight={alerts[1]}
+          onClick={jest.fn()}
+          actions={actions}
+        />,
+      );
+      const results = await axe(container);
+      expect(results).toHaveNoViolations();
+    });
+
+    it("passes axe checks for grouped AlertList", async () => {
+      const { container } = render(
+        <AlertList
+          alerts={alerts}
+          onClick={jest.fn()}
+          actions={actions}
+          groupBy="style"
+        />,
+      );
+      const results = await axe(container);
+      expect(results).toHaveNoViolations();
+    });
+
+    it("passes axe checks for virtualized AlertList", async () => {
+      const many = Array.from({ length: VIRTUALIZE_THRESHOLD + 1 }, (_, i) =>
+        createMockValeAlert({ Line: i + 1 }),
+      );
+      const { container } = render(
+        <AlertList alerts={many} onClick={jest.fn()} groupBy="severity" />,
+      );
+      const results = await axe(container);
+      expect(results).toHaveNoViolations();
+    });
+  });
+
   describe("Combined Component Scenarios", () => {
     it("passes axe checks for loading state pattern", async () => {
       const { container } = render(
@@ -8,6 +8,7 @@
  * - Escape to close/cancel
  * - Focus trap behavior (if applicable)
  * - Focus visible indicators
+ * - Arrow keys and shortcuts in the results panel's listbox
  *
  * WCAG 2.2 Requirements:
  * - 2.1.1 Keyboard (Level A)
@@ -31,6 +32,10 @@ import {
 import { BackButton } from "../../src/components/navigation/BackButton";
 import { CollapsibleSection } from "../../src/components/settings/CollapsibleSection";
 import { Toast } from "../../src/components/feedback/Toast";
+import { AlertList } from "../../src/components/AlertList";
+import { QuickFix } from "../../src/editor/quickFix";
+import { ValeAlert } from "../../src/types";
+import { createMockValeAlert } from "../mocks/valeAlerts";
 import {
   getFocusableElements,
   simulateKeyboardNavigation,
@@ -737,4 +742,89 @@ describe("Keyboard Navigation", () => {
       );
     });
   });
+
+  describe("Results panel listbox", () => {
+    const alerts = [1, 2, 3].map((line) =>
+      createMockValeAlert({
+        Line: line,
+        Message: `Message ${line}`,
+        Action: { Name: "replace", Params: ["fixed"] },
+      }),
+    );
+
+    const renderList = () => {
+      const props = {
+        onClick: jest.fn(),
+        actions: { onFix: jest.fn(), onDismiss: jest.fn() },
+      };
+      render(<AlertList alerts={alerts} {...props} />);
+      return props;
+    };
+
+    const option = (message: string) =>
+      screen.getByRole("option", { name: new RegExp(message) });
+
+    it("should only have the active alert in the tab order", async () => {
+      renderList();
+
+      await userEvent.tab();
+
+      expect(document.activeElement).toBe(option("Message 1"));
+      expect(
+        screen
+          .getAllByRole("option")
+          .filter((el) => el.getAttribute("tabindex") === "0"),
+      ).toHaveLength(1);
+    });
+
+    it("should move between alerts with arrow keys, Home and End", async () => {
+      renderList();
+      await userEvent.tab();
+
+      await userEvent.keyboard("{ArrowDown}");
+      expect(document.activeElement).toBe(option("Message 2"));
+
+      await userEvent.keyboard("{End}");
+      expect(document.activeElement).toBe(option("Message 3"));
+
+      await userEvent.keyboard("{ArrowDown}");
+      expect(document.activeElement).toBe(option("Message 3"));
+
+      await userEvent.keyboard("{Home}");
+      expect(document.activeElement).toBe(option("Message 1"));
+
+      await userEvent.keyboard("{ArrowUp}");
+      expect(document.activeElement).toBe(option("Message 1"));
+    });
+
+    it("should select the alert with Enter", async () => {
+      const { onClick } = renderList();
+      await userEvent.tab();
+      await userEvent.keyboard("{ArrowDown}{Enter}");
+
+      expect(onClick).toHaveBeenCalledWith(alerts[1]);
+    });
+
+    it("should apply a fix with its number and dismiss with Delete", async () => {
+      const { actions } = renderList();
+      await userEvent.tab();
+
+      await userEvent.keyboard("1");
+      const [alert, fix] = actions.onFix.mock.calls[0] as [ValeAlert, QuickFix];
+      expect(alert).toBe(alerts[0]);
+      expect(fix.title).toContain("fixed");
+
+      await userEvent.keyboard("{Delete}");
+      expect(actions.onDismiss).toHaveBeenCalledWith(alerts[0]);
+    });
+
+    it("should describe the shortcuts of each alert", () => {
+      renderList();
+
+      expect(option("Message 1")).toHaveAttribute(
+        "aria-keyshortcuts",
+        "Enter 1 Delete Shift+F10",
+      );
+    });
+  });
 });
@@ -0,0 +1,144 @@
+/**
+ * AlertList Component Tests
+ *
+ * Tests for the list of alert cards covering:
+ * - Group headers, hidden from the listbox in plain and virtualized lists
+ * - Mounting only the cards in view for long lists
+ * - Scrolling to the highlighted card
+ * - Keeping the focused card mounted
+ */
+
+import React from "react";
+import "@testing-library/jest-dom";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import {
+  AlertList,
+  VIRTUALIZE_THRESHOLD,
+} from "../../src/components/AlertList";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+jest.mock("obsidian", () => ({
+  setIcon: jest.fn(),
+  Menu: jest.fn(),
+}));
+
+const manyAlerts = Array.from({ length: 1000 }, (_, i) =>
+  createMockValeAlert({ Line: i + 1, Message: `Message ${i + 1}` }),
+);
+
+// Renders the list in a scrolling panel 400 pixels high. JSDOM doesn't lay
+// out elements, so cards keep their estimated height.
+const renderInPanel = (element: React.ReactElement) => {
+  const panel = document.createElement("div");
+  panel.setCssProps({ "overflow-y": "auto" });
+  Object.defineProperty(panel, "clientHeight", { value: 400 });
+  document.body.appendChild(panel);
+  return render(element, { container: panel });
+};
+
+describe("AlertList", () => {
+  afterEach(() => {
+    document.body.replaceChildren();
+  });
+
+  it("should render every card of short lists", () => {
+    const alerts = manyAlerts.slice(0, VIRTUALIZE_THRESHOLD);
+    renderInPanel(<AlertList alerts={alerts} onClick={jest.fn()} />);
+
+    expect(screen.getAllByText(/^Message \d+$/)).toHaveLength(
+      VIRTUALIZE_THRESHOLD,
+    );
+  });
+
+  it("should show a header per group", () => {
+    renderInPanel(
+      <AlertList
+        alerts={[
+          createMockValeAlert({ Check: "Google.We" }),
+          createMockValeAlert({ Check: "Vale.Spelling", Line: 2 }),
+        ]}
+        onClick={jest.fn()}
+        groupBy="style"
+      />,
+    );
+
+    expect(screen.getByText("Google")).toBeInTheDocument();
+    expect(screen.getByText("Vale")).toBeInTheDocument();
+  });
+
+  it.each([
+    ["plain", 2],
+    ["virtualized", VIRTUALIZE_THRESHOLD],
+  ])(
+    "should only put options in the listbox of a grouped %s list",
+    (_, count) => {
+      const alerts = Array.from({ length: count }, (_, i) =>
+        createMockValeAlert({
+          Check: i % 2 ? "Vale.Spelling" : "Google.We",
+          Line: i + 1,
+        }),
+      );
+      renderInPanel(
+        <AlertList alerts={alerts} onClick={jest.fn()} groupBy="style" />,
+      );
+
+      const header = screen.getAllByText("Google")[0].parentElement;
+      expect(header).toHaveAttribute("role", "presentation");
+      expect(header).toHaveAttribute("aria-hidden", "true");
+      expect(screen.queryByRole("group")).not.toBeInTheDocument();
+
+      const option = screen.getAllByRole("option")[0];
+      expect(option).toHaveAttribute("aria-describedby", header?.id);
+    },
+  );
+
+  it("should only mount the cards in view for long lists", () => {
+    renderInPanel(<AlertList alerts={manyAlerts} onClick={jest.fn()} />);
+
+    const mounted = screen.getAllByText(/^Message \d+$/);
+    expect(mounted.length).toBeGreaterThan(0);
+    expect(mounted.length).toBeLessThan(50);
+    expect(screen.getByText("Message 1")).toBeInTheDocument();
+    expect(screen.queryByText("Message 900")).not.toBeInTheDocument();
+  });
+
+  it("should mount and scroll to the highlighted card", () => {
+    const scrollIntoView = jest.spyOn(Element.prototype, "scrollIntoView");
+    const { rerender } = renderInPanel(
+      <AlertList alerts={manyAlerts} onClick={jest.fn()} />,
+    );
+
+    rerender(
+      <AlertList
+        alerts={manyAlerts}
+        highlight={manyAlerts[899]}
+        onClick={jest.fn()}
+      />,
+    );
+
+    const card = screen.getByText("Message 900").closest(".alert");
+    expect(card).toHaveClass("alert--highlighted");
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+    expect(scrollIntoView.mock.contexts[0]).toBe(card?.parentElement);
+    scrollIntoView.mockRestore();
+  });
+
+  it("should keep the focused card mounted when it scrolls out of view", () => {
+    renderInPanel(<AlertList alerts={manyAlerts} onClick={jest.fn()} />);
+    const row = screen
+      .getByText("Message 1")
+      .closest(".vale-virtual-list__item");
+    const panel = document.body.firstElementChild as HTMLElement;
+    jest.spyOn(panel, "getBoundingClientRect").mockReturnValue({
+      top: 50000,
+    } as DOMRect);
+
+    fireEvent.focus(row as HTMLElement);
+    act(() => {
+      panel.dispatchEvent(new Event("scroll"));
+    });
+
+    expect(screen.getByText("Message 1")).toBeInTheDocument();
+    expect(screen.queryByText("Message 2")).not.toBeInTheDocument();
+  });
+});
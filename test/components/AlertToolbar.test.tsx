@@ -0,0 +1,83 @@
+/**
+ * AlertToolbar Component Tests
+ *
+ * Tests for the results panel toolbar covering:
+ * - Severity toggles with counts
+ * - Search
+ * - Grouping, sorting and the editor mode for filtered alerts
+ */
+
+import React from "react";
+import "@testing-library/jest-dom";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { AlertToolbar } from "../../src/components/AlertToolbar";
+import { DEFAULT_ALERT_LIST_OPTIONS } from "../../src/utils/alertFilters";
+
+describe("AlertToolbar", () => {
+  const counts = { error: 2, warning: 0, suggestion: 5 };
+
+  const renderToolbar = (options = DEFAULT_ALERT_LIST_OPTIONS) => {
+    const onChange = jest.fn();
+    render(
+      <AlertToolbar options={options} counts={counts} onChange={onChange} />,
+    );
+    return onChange;
+  };
+
+  it("should show a toggle with the count of each severity", () => {
+    renderToolbar({ ...DEFAULT_ALERT_LIST_OPTIONS, severities: ["error"] });
+
+    expect(screen.getByRole("button", { name: "Errors (2)" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+    expect(
+      screen.getByRole("button", { name: "Suggestions (5)" }),
+    ).toHaveAttribute("aria-pressed", "false");
+  });
+
+  it("should turn a severity off and on", () => {
+    const onChange = renderToolbar();
+
+    fireEvent.click(screen.getByRole("button", { name: "Warnings (0)" }));
+
+    expect(onChange).toHaveBeenCalledWith({
+      ...DEFAULT_ALERT_LIST_OPTIONS,
+      severities: ["error", "suggestion"],
+    });
+  });
+
+  it("should search alerts", () => {
+    const onChange = renderToolbar();
+
+    fireEvent.change(screen.getByRole("searchbox", { name: "Search alerts" }), {
+      target: { value: "passive" },
+    });
+
+    expect(onChange).toHaveBeenCalledWith({
+      ...DEFAULT_ALERT_LIST_OPTIONS,
+      query: "passive",
+    });
+  });
+
+  it("should change grouping, sorting and the editor mode", () => {
+    const onChange = renderToolbar();
+
+    fireEvent.change(screen.getByRole("combobox", { name: "Group by" }), {
+      target: { value: "style" },
+    });
+    fireEvent.change(screen.getByRole("combobox", { name: "Sort by" }), {
+      target: { value: "severity" },
+    });
+    fireEvent.change(
+      screen.getByRole("combobox", { name: "Filtered alerts in the editor" }),
+      { target: { value: "hide" } },
+    );
+
+    expect(onChange.mock.calls).toEqual([
+      [{ ...DEFAULT_ALERT_LIST_OPTIONS, groupBy: "style" }],
+      [{ ...DEFAULT_ALERT_LIST_OPTIONS, sortBy: "severity" }],
+      [{ ...DEFAULT_ALERT_LIST_OPTIONS, filteredInEditor: "hide" }],
+    ]);
+  });
+});
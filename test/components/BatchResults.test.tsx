@@ -0,0 +1,130 @@
+/**
+ * BatchResults Component Tests
+ *
+ * Tests for the folder/vault results tree covering:
+ * - Totals in the header
+ * - Grouping alerts by note with per-severity counts
+ * - Hiding notes without issues
+ * - Per-note errors
+ * - Alert click and close callbacks
+ */
+
+import React from "react";
+import "@testing-library/jest-dom";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { BatchResults } from "../../src/components/BatchResults";
+import { BatchFileResult } from "../../src/types";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+jest.mock("obsidian", () => ({
+  setIcon: jest.fn(),
+}));
+
+const error = createMockValeAlert({ Severity: "error", Message: "Err" });
+const warning1 = createMockValeAlert({
+  Severity: "warning",
+  Message: "Warn 1",
+  Line: 2,
+});
+const warning2 = createMockValeAlert({
+  Severity: "warning",
+  Message: "Warn 2",
+  Line: 3,
+});
+
+const results: BatchFileResult[] = [
+  { path: "notes/first.md", alerts: [error, warning1, warning2] },
+  { path: "notes/clean.md", alerts: [] },
+  { path: "notes/broken.md", alerts: [], error: "Vale exited with code 2" },
+];
+
+describe("BatchResults Component", () => {
+  const renderResults = (
+    overrides: Partial<React.ComponentProps<typeof BatchResults>> = {},
+  ) =>
+    render(
+      <BatchResults
+        scope="notes"
+        results={results}
+        onAlertClick={jest.fn()}
+        onClose={jest.fn()}
+        {...overrides}
+      />,
+    );
+
+  it("should show the scope and totals", () => {
+    renderResults();
+    expect(screen.getByText("notes")).toBeInTheDocument();
+    expect(
+      screen.getByText("3 notes checked, 3 issues in 2 notes"),
+    ).toBeInTheDocument();
+  });
+
+  it("should group alerts by note", () => {
+    renderResults();
+    expect(screen.getByText("first.md")).toBeInTheDocument();
+    expect(screen.getByText("Err")).toBeInTheDocument();
+    expect(screen.getByText("Warn 2")).toBeInTheDocument();
+  });
+
+  it("should show counts per severity", () => {
+    renderResults();
+    expect(screen.getByLabelText("1 error")).toHaveTextContent("1");
+    expect(screen.getByLabelText("2 warnings")).toHaveTextContent("2");
+    expect(screen.queryByLabelText(/suggestion/)).not.toBeInTheDocument();
+  });
+
+  it("should leave out notes without issues", () => {
+    renderResults();
+    expect(screen.queryByText("clean.md")).not.toBeInTheDocument();
+  });
+
+  it("should show errors for notes that couldn't be checked", () => {
+    renderResults();
+    expect(screen.getByText("broken.md")).toBeInTheDocument();
+    expect(screen.getByText("Vale exited with code 2")).toBeInTheDocument();
+  });
+
+  it("should pass the note and alert to onAlertClick", () => {
+    const onAlertClick = jest.fn();
+    renderResults({ onAlertClick });
+
+    fireEvent.click(screen.getByText("Warn 1"));
+
+    expect(onAlertClick).toHaveBeenCalledWith(results[0], warning1);
+  });
+
+  it("should call onClose when the close button is clicked", () => {
+    const onClose = jest.fn();
+    renderResults({ onClose });
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Close batch results" }),
+    );
+
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("should only offer to export the results when onExport is given", () => {
+    const onExport = jest.fn();
+    const { rerender } = renderResults();
+    expect(
+      screen.queryByRole("button", { name: "Export batch results" }),
+    ).not.toBeInTheDocument();
+
+    rerender(
+      <BatchResults
+        scope="notes"
+        results={results}
+        onAlertClick={jest.fn()}
+        onClose={jest.fn()}
+        onExport={onExport}
+      />,
+    );
+    fireEvent.click(
+      screen.getByRole("button", { name: "Export batch results" }),
+    );
+
+    expect(onExport).toHaveBeenCalled();
+  });
+});
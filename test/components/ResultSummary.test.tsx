@@ -0,0 +1,139 @@
+/**
+ * ResultSummary Component Tests
+ *
+ * Tests for the summary at the top of the results panel covering:
+ * - Counts per severity and the top rules
+ * - Filtering by clicking a count
+ * - Check duration and active styles
+ * - Exporting the results
+ */
+
+import React from "react";
+import "@testing-library/jest-dom";
+import { render, screen, fireEvent } from "@testing-library/react";
+import {
+  formatDuration,
+  ResultSummary,
+} from "../../src/components/ResultSummary";
+import {
+  AlertListOptions,
+  DEFAULT_ALERT_LIST_OPTIONS,
+} from "../../src/utils/alertFilters";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+const alerts = [
+  createMockValeAlert({ Severity: "error", Check: "Vale.Spelling" }),
+  createMockValeAlert({ Severity: "error", Check: "Vale.Spelling" }),
+  createMockValeAlert({ Severity: "suggestion", Check: "Google.We" }),
+  createMockValeAlert({ Severity: "suggestion", Check: "Google.Passive" }),
+  createMockValeAlert({ Severity: "suggestion", Check: "Google.Will" }),
+];
+
+describe("ResultSummary", () => {
+  const renderSummary = (
+    options: AlertListOptions = DEFAULT_ALERT_LIST_OPTIONS,
+    props: {
+      duration?: number;
+      styles?: string[];
+      onExport?: () => void;
+    } = {},
+  ) => {
+    const onChange = jest.fn();
+    render(
+      <ResultSummary
+        alerts={alerts}
+        options={options}
+        onChange={onChange}
+        {...props}
+      />,
+    );
+    return onChange;
+  };
+
+  it("should show the counts of the severities with alerts", () => {
+    renderSummary();
+
+    expect(screen.getByText("5 alerts")).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "2 errors" }),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "3 suggestions" }),
+    ).toBeInTheDocument();
+    expect(screen.queryByText(/warning/)).not.toBeInTheDocument();
+  });
+
+  it("should list the three rules with the most alerts", () => {
+    renderSummary();
+
+    const rules = screen
+      .getAllByRole("button", { name: /: \d+ alerts?$/ })
+      .map((button) => button.getAttribute("aria-label"));
+    expect(rules).toEqual([
+      "Vale.Spelling: 2 alerts",
+      "Google.Passive: 1 alert",
+      "Google.We: 1 alert",
+    ]);
+  });
+
+  it("should filter by a severity", () => {
+    const onChange = renderSummary();
+    fireEvent.click(screen.getByRole("button", { name: "2 errors" }));
+    expect(onChange).toHaveBeenCalledWith({
+      ...DEFAULT_ALERT_LIST_OPTIONS,
+      severities: ["error"],
+    });
+  });
+
+  it("should show all severities when the filtered one is clicked", () => {
+    const onChange = renderSummary({
+      ...DEFAULT_ALERT_LIST_OPTIONS,
+      severities: ["error"],
+    });
+
+    const errors = screen.getByRole("button", { name: "2 errors" });
+    expect(errors).toHaveAttribute("aria-pressed", "true");
+    fireEvent.click(errors);
+
+    expect(onChange).toHaveBeenCalledWith(DEFAULT_ALERT_LIST_OPTIONS);
+  });
+
+  it("should filter by a rule", () => {
+    const onChange = renderSummary();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Vale.Spelling: 2 alerts" }),
+    );
+
+    expect(onChange).toHaveBeenCalledWith({
+      ...DEFAULT_ALERT_LIST_OPTIONS,
+      query: "Vale.Spelling",
+    });
+  });
+
+  it("should show the duration and the active styles", () => {
+    renderSummary(DEFAULT_ALERT_LIST_OPTIONS, {
+      duration: 1234,
+      styles: ["Google", "Vale"],
+    });
+
+    expect(screen.getByText("Checked in 1.2 s")).toBeInTheDocument();
+    expect(screen.getByText("Styles: Google, Vale")).toBeInTheDocument();
+  });
+
+  it("should export the results", () => {
+    const onExport = jest.fn();
+    renderSummary(DEFAULT_ALERT_LIST_OPTIONS, { onExport });
+
+    fireEvent.click(screen.getByRole("button", { name: "Export" }));
+
+    expect(onExport).toHaveBeenCalled();
+  });
+});
+
+describe("formatDuration", () => {
+  it("should use milliseconds under a second", () => {
+    expect(formatDuration(320.4)).toBe("320 ms");
+    expect(formatDuration(2500)).toBe("2.5 s");
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * ValeApp Component Tests
+ *
+ * Tests for the results panel covering:
+ * - Screen reader announcements when a check finishes or fails
+ */
+
+import React from "react";
+import "@testing-library/jest-dom";
+import { act, render, screen } from "@testing-library/react";
+import { ValeApp } from "../../src/components/ValeApp";
+import { EventBus } from "../../src/EventBus";
+import { ValeAlert } from "../../src/types";
+import { ValeBatchRunner } from "../../src/vale/ValeBatchRunner";
+import { ValeDismissals } from "../../src/vale/ValeDismissals";
+import { ValeRunner } from "../../src/vale/ValeRunner";
+import { assertScreenReaderAnnouncement } from "../utils/a11y";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+jest.mock("obsidian", () => ({
+  setIcon: jest.fn(),
+  parseYaml: jest.fn(),
+  Menu: jest.fn(),
+}));
+
+const alerts = [
+  createMockValeAlert({ Severity: "error" }),
+  createMockValeAlert({ Severity: "warning", Line: 2 }),
+  createMockValeAlert({ Severity: "warning", Line: 3 }),
+];
+
+describe("ValeApp", () => {
+  const renderApp = (run: jest.Mock) => {
+    const eventBus = new EventBus();
+    const runner = {
+      run,
+      getActiveStyles: jest.fn().mockResolvedValue([]),
+    } as unknown as ValeRunner;
+    const dismissals = {
+      partition: (_path: string, _text: string, results: ValeAlert[]) => ({
+        alerts: results,
+        dismissed: [],
+      }),
+    } as unknown as ValeDismissals;
+
+    const { container } = render(
+      <ValeApp
+        runner={runner}
+        dismissals={dismissals}
+        eventBus={eventBus}
+        onAlertClick={jest.fn()}
+        alertActions={{}}
+        onBatchAlertClick={jest.fn()}
+        onExport={jest.fn()}
+      />,
+    );
+    return { container, eventBus };
+  };
+
+  const check = async (eventBus: EventBus) => {
+    await act(async () => {
+      eventBus.dispatch("check", {
+        text: "Some text",
+        format: ".md",
+        path: "Note.md",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+  };
+
+  it("should announce the results of a check", async () => {
+    const { container, eventBus } = renderApp(
+      jest.fn().mockResolvedValue({ "stdin.md": alerts }),
+    );
+
+    await check(eventBus);
+
+    assertScreenReaderAnnouncement(
+      container,
+      "Check finished: 1 error, 2 warnings",
+    );
+  });
+
+  it("should announce a check without alerts", async () => {
+    const { eventBus } = renderApp(jest.fn().mockResolvedValue({}));
+
+    await check(eventBus);
+
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Check finished: no issues",
+    );
+  });
+
+  it("should announce a failed check", async () => {
+    const { container, eventBus } = renderApp(
+      jest.fn().mockRejectedValue(new Error("net::ERR_CONNECTION_REFUSED")),
+    );
+
+    await check(eventBus);
+
+    assertScreenReaderAnnouncement(
+      container,
+      "Check failed: Couldn't connect to Vale Server.",
+    );
+  });
+
+  it("should show why a batch check failed", async () => {
+    jest
+      .spyOn(ValeBatchRunner.prototype, "run")
+      .mockRejectedValueOnce(new Error("spawn vale ENOENT"));
+    const { container, eventBus } = renderApp(jest.fn());
+
+    await act(async () => {
+      eventBus.dispatch("batch-check", {
+        scope: "vault",
+        files: [{ path: "Note.md", format: ".md", read: async () => "" }],
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    expect(screen.getByText("Something went wrong ...")).toBeInTheDocument();
+    expect(screen.getByRole("status").textContent).toMatch(/^Check failed: /);
+    expect(container.querySelector(".vale-batch-progress")).toBeNull();
+  });
+});
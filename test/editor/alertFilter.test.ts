@@ -0,0 +1,82 @@
+/**
+ * Alert Filter Tests
+ *
+ * These tests verify dimming and hiding the underlines of alerts filtered out
+ * of the results panel.
+ */
+
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { setValeAlertFilter } from "../../src/editor/alertFilter";
+import { addValeMarks, clearAllValeMarks } from "../../src/editor/effects";
+import { valeExtension } from "../../src/editor/valeExtension";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+describe("Alert filter", () => {
+  let container: HTMLElement;
+  let view: EditorView;
+
+  const alerts = [
+    createMockValeAlert({ Line: 1, Span: [1, 3], Severity: "suggestion" }),
+    createMockValeAlert({ Line: 1, Span: [5, 7], Severity: "error" }),
+  ];
+  const onlyErrors = (mode: "dim" | "hide") =>
+    setValeAlertFilter.of({
+      matches: (alert) => alert.Severity === "error",
+      mode,
+    });
+
+  const filtered = () =>
+    Array.from(view.dom.querySelectorAll(".vale-filtered")).map((mark) => [
+      mark.className,
+      mark.textContent,
+    ]);
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    view = new EditorView({
+      state: EditorState.create({
+        doc: "One two.",
+        extensions: [valeExtension()],
+      }),
+      parent: container,
+    });
+  });
+
+  afterEach(() => {
+    view.destroy();
+    container.remove();
+  });
+
+  it("should mark the underlines of filtered-out alerts", () => {
+    view.dispatch({ effects: [addValeMarks.of(alerts), onlyErrors("dim")] });
+
+    expect(filtered()).toEqual([["vale-filtered vale-filtered--dim", "One"]]);
+  });
+
+  it("should wrap the underlines, so they can be hidden", () => {
+    view.dispatch({ effects: [addValeMarks.of(alerts), onlyErrors("hide")] });
+
+    const mark = view.dom.querySelector(".vale-filtered--hide");
+    expect(mark?.firstElementChild?.classList).toContain("vale-underline");
+  });
+
+  it("should apply the filter to alerts added later", () => {
+    view.dispatch({ effects: onlyErrors("dim") });
+
+    view.dispatch({ effects: addValeMarks.of(alerts) });
+
+    expect(filtered()).toHaveLength(1);
+  });
+
+  it("should remove the marks with the filter or the alerts", () => {
+    view.dispatch({ effects: [addValeMarks.of(alerts), onlyErrors("dim")] });
+    view.dispatch({ effects: setValeAlertFilter.of(null) });
+    expect(filtered()).toEqual([]);
+
+    view.dispatch({ effects: [addValeMarks.of(alerts), onlyErrors("dim")] });
+    view.dispatch({ effects: clearAllValeMarks.of() });
+    expect(filtered()).toEqual([]);
+  });
+});
@@ -10,9 +10,11 @@ import {
   clickHandler,
   hoverHandler,
   debounce,
+  dispatchAlertDismiss,
   isValeEvent,
   registerValeEventListeners,
   ValeAlertClickDetail,
+  ValeAlertDismissDetail,
   ValeEventType,
 } from "../../src/editor/eventHandlers";
 import { createMockEditorView } from "../mocks/editorView";
@@ -469,6 +471,25 @@ describe("Event Handlers", () => {
     });
   });
 
+  describe("dispatchAlertDismiss", () => {
+    it("should dispatch a vale-alert-dismiss event with the alert and editor", () => {
+      const view = createMockEditorView();
+      const handler = jest.fn();
+      const cleanup = registerValeEventListeners({
+        "vale-alert-dismiss": handler,
+      });
+
+      dispatchAlertDismiss(view, "1:1:5:Vale.Test");
+      cleanup();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      const [[event]] = handler.mock.calls as [
+        [CustomEvent<ValeAlertDismissDetail>],
+      ];
+      expect(event.detail).toEqual({ alertId: "1:1:5:Vale.Test", view });
+    });
+  });
+
   describe("Event Detail Types", () => {
     it("should have correct ValeAlertClickDetail structure", () => {
       const detail: ValeAlertClickDetail = {
@@ -0,0 +1,170 @@
+/**
+ * Gutter and Scrollbar Marker Tests
+ *
+ * These tests verify the markers for lines with alerts, the list of a line's
+ * alerts and the overview ticks along the scrollbar.
+ */
+
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { generateAlertId } from "../../src/editor/decorations";
+import { addValeMarks, clearAllValeMarks } from "../../src/editor/effects";
+import { ValeAlertClickDetail } from "../../src/editor/eventHandlers";
+import {
+  getLineAlerts,
+  lineAlertsField,
+  toggleLineAlerts,
+} from "../../src/editor/gutter";
+import { valeExtension } from "../../src/editor/valeExtension";
+import { ValeAlert } from "../../src/types";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+describe("Alert markers", () => {
+  let container: HTMLElement;
+  let view: EditorView;
+
+  const alerts: ValeAlert[] = [
+    createMockValeAlert({
+      Line: 1,
+      Span: [1, 3],
+      Check: "A.Rule",
+      Severity: "suggestion",
+    }), // "One"
+    createMockValeAlert({
+      Line: 1,
+      Span: [5, 7],
+      Check: "B.Rule",
+      Severity: "error",
+    }), // "two"
+    createMockValeAlert({
+      Line: 3,
+      Span: [1, 5],
+      Check: "C.Rule",
+      Severity: "warning",
+    }), // "Three"
+  ];
+
+  const createView = (enableAlertMarkers = true) => {
+    view = new EditorView({
+      state: EditorState.create({
+        doc: "One two.\n\nThree.",
+        extensions: [valeExtension({ enableAlertMarkers })],
+      }),
+      parent: container,
+    });
+    view.dispatch({ effects: addValeMarks.of(alerts) });
+  };
+
+  const gutterMarkers = () =>
+    Array.from(view.dom.querySelectorAll(".vale-gutter-marker"));
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    view.destroy();
+    container.remove();
+  });
+
+  it("should mark each line with the severity of its worst alert", () => {
+    createView();
+
+    expect(gutterMarkers().map((marker) => marker.className)).toEqual([
+      "vale-gutter-marker vale-gutter-marker--error",
+      "vale-gutter-marker vale-gutter-marker--warning",
+    ]);
+    expect(gutterMarkers()[0].getAttribute("aria-label")).toBe("2 Vale alerts");
+    expect(gutterMarkers()[0].querySelector("svg path")).not.toBeNull();
+  });
+
+  it("should remove the markers when the alerts are cleared", () => {
+    createView();
+
+    view.dispatch({ effects: clearAllValeMarks.of() });
+
+    expect(gutterMarkers()).toHaveLength(0);
+  });
+
+  it("should not add a gutter unless enabled", () => {
+    createView(false);
+
+    expect(view.dom.querySelector(".vale-gutter")).toBeNull();
+    expect(view.dom.querySelector(".vale-scrollbar-markers")).toBeNull();
+  });
+
+  it("should list the alerts of a line", () => {
+    createView();
+
+    expect(
+      getLineAlerts(view.state, 2).map(({ alert, from, to }) => [
+        alert.Check,
+        from,
+        to,
+      ]),
+    ).toEqual([
+      ["A.Rule", 0, 3],
+      ["B.Rule", 4, 7],
+    ]);
+    expect(getLineAlerts(view.state, 9)).toEqual([]);
+  });
+
+  it("should open the list of a line's alerts and close it on edits", () => {
+    createView();
+
+    view.dispatch({ effects: toggleLineAlerts.of(0) });
+    expect(view.state.field(lineAlertsField)).toBe(0);
+    expect(view.dom.querySelectorAll(".vale-line-alerts__item")).toHaveLength(
+      2,
+    );
+
+    view.dispatch({ changes: { from: 0, insert: "x" } });
+    expect(view.state.field(lineAlertsField)).toBeNull();
+  });
+
+  it("should close the list when its line is toggled again", () => {
+    createView();
+
+    view.dispatch({ effects: toggleLineAlerts.of(0) });
+    view.dispatch({ effects: toggleLineAlerts.of(0) });
+
+    expect(view.state.field(lineAlertsField)).toBeNull();
+  });
+
+  it("should select an alert picked from the list", () => {
+    createView();
+    const listener = jest.fn();
+    document.addEventListener("vale-alert-click", listener);
+
+    view.dispatch({ effects: toggleLineAlerts.of(0) });
+    const items = view.dom.querySelectorAll<HTMLElement>(
+      ".vale-line-alerts__item",
+    );
+    items[1].click();
+
+    expect(view.state.selection.main.head).toBe(4);
+    expect(view.state.field(lineAlertsField)).toBeNull();
+    const [[event]] = listener.mock.calls as [
+      [CustomEvent<ValeAlertClickDetail>],
+    ];
+    expect(event.detail.alertId).toBe(generateAlertId(alerts[1]));
+    expect(event.detail.view).toBe(view);
+    document.removeEventListener("vale-alert-click", listener);
+  });
+
+  it("should draw a scrollbar tick for each line with alerts", async () => {
+    createView();
+
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+
+    const ticks = Array.from(
+      view.dom.querySelectorAll<HTMLElement>(".vale-scrollbar-marker"),
+    );
+    expect(ticks.map((tick) => tick.className)).toEqual([
+      "vale-scrollbar-marker vale-scrollbar-marker--error",
+      "vale-scrollbar-marker vale-scrollbar-marker--warning",
+    ]);
+    expect(ticks[0].style.top).toBe("0%");
+  });
+});
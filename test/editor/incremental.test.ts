@@ -0,0 +1,269 @@
+/**
+ * Incremental Re-checking Tests
+ *
+ * These tests verify splitting notes into Markdown blocks, tracking the
+ * ranges edited since the last check, and merging block results into the
+ * existing decorations.
+ */
+
+import { EditorState, Text } from "@codemirror/state";
+import {
+  generateAlertId,
+  getAlertFromDecoration,
+} from "../../src/editor/decorations";
+import { addValeMarks, resetChangedRanges } from "../../src/editor/effects";
+import {
+  buildIncrementalUpdate,
+  changedRangesField,
+  findChangedBlocks,
+  getBlockCheckText,
+  splitIntoBlocks,
+  TextBlock,
+} from "../../src/editor/incremental";
+import { getValeAlert, valeStateField } from "../../src/editor/stateField";
+import { ValeAlert } from "../../src/types";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+const lines = (blocks: TextBlock[]) =>
+  blocks.map((block) => [block.fromLine, block.toLine]);
+
+const doc = (...text: string[]) => Text.of(text);
+
+/**
+ * Returns the alerts behind the mark decorations, with their positions.
+ */
+const markedAlerts = (state: EditorState) => {
+  const marks: Array<{ from: number; alert: ValeAlert | undefined }> = [];
+  state.field(valeStateField).between(0, state.doc.length, (from, _to, d) => {
+    const alert = getAlertFromDecoration(d);
+    if (alert) {
+      marks.push({ from, alert });
+    }
+  });
+  return marks;
+};
+
+describe("splitIntoBlocks", () => {
+  it("should split paragraphs on blank lines", () => {
+    const blocks = splitIntoBlocks(
+      doc("# Title", "", "First line.", "Second line.", "", "", "Last."),
+    );
+
+    expect(lines(blocks)).toEqual([
+      [1, 1],
+      [3, 4],
+      [7, 7],
+    ]);
+    expect(blocks[1]).toMatchObject({ from: 9, to: 33 });
+  });
+
+  it("should keep front matter in one block", () => {
+    const blocks = splitIntoBlocks(
+      doc("---", "title: Note", "", "tags: [a]", "---", "Text."),
+    );
+
+    expect(lines(blocks)).toEqual([
+      [1, 5],
+      [6, 6],
+    ]);
+  });
+
+  it("should keep fenced code blocks with blank lines in one block", () => {
+    const blocks = splitIntoBlocks(
+      doc("Intro.", "", "```js", "const a = 1;", "", "const b = 2;", "```"),
+    );
+
+    expect(lines(blocks)).toEqual([
+      [1, 1],
+      [3, 7],
+    ]);
+  });
+
+  it("should only close a fence with the same marker", () => {
+    const blocks = splitIntoBlocks(
+      doc("~~~~", "```", "", "~~~", "", "~~~~", "", "After."),
+    );
+
+    expect(lines(blocks)).toEqual([
+      [1, 6],
+      [8, 8],
+    ]);
+  });
+
+  it("should keep math blocks and comments in one block", () => {
+    const blocks = splitIntoBlocks(
+      doc("$$", "a", "", "b", "$$", "", "%% note", "", "more %%", "", "End."),
+    );
+
+    expect(lines(blocks)).toEqual([
+      [1, 5],
+      [7, 9],
+      [11, 11],
+    ]);
+  });
+
+  it("should return no blocks for an empty note", () => {
+    expect(splitIntoBlocks(doc(""))).toEqual([]);
+  });
+});
+
+describe("findChangedBlocks", () => {
+  const blocks = splitIntoBlocks(doc("One.", "", "Two.", "", "Three."));
+
+  it("should return blocks overlapping a changed range", () => {
+    expect(lines(findChangedBlocks(blocks, [{ from: 7, to: 8 }]))).toEqual([
+      [3, 3],
+    ]);
+  });
+
+  it("should include blocks touched at their edges", () => {
+    expect(lines(findChangedBlocks(blocks, [{ from: 4, to: 4 }]))).toEqual([
+      [1, 1],
+    ]);
+  });
+
+  it("should return nothing for changes between blocks", () => {
+    expect(findChangedBlocks(blocks, [{ from: 5, to: 5 }])).toEqual([]);
+  });
+});
+
+describe("getBlockCheckText", () => {
+  it("should return blocks without Vale comments above them as they are", () => {
+    const text = doc("One.", "", "Two.");
+    const [, block] = splitIntoBlocks(text);
+
+    expect(getBlockCheckText(text, block)).toEqual({
+      text: "Two.",
+      lineOffset: 0,
+    });
+  });
+
+  it("should keep an edited block inside a vale off region turned off", () => {
+    let state = EditorState.create({
+      doc: "<!-- vale off -->\n\nTeh first.\n\nTeh second.\n\n<!-- vale on -->",
+      extensions: [changedRangesField],
+    });
+    state = state.update({ changes: { from: 35, insert: "very " } }).state;
+
+    const [block] = findChangedBlocks(
+      splitIntoBlocks(state.doc),
+      state.field(changedRangesField),
+    );
+    expect(state.sliceDoc(block.from, block.to)).toBe("Teh very second.");
+    expect(getBlockCheckText(state.doc, block)).toEqual({
+      text: "<!-- vale off -->\n\nTeh very second.",
+      lineOffset: 2,
+    });
+  });
+
+  it("should repeat every Vale comment above a block in order", () => {
+    const text = doc(
+      "<!-- vale Style.Rule = NO -->",
+      "",
+      "<!-- vale",
+      "off -->",
+      "",
+      "<!-- vale on -->",
+      "",
+      "Text.",
+    );
+    const block = splitIntoBlocks(text).at(-1) as TextBlock;
+
+    expect(getBlockCheckText(text, block)).toEqual({
+      text: "<!-- vale Style.Rule = NO -->\n<!-- vale off -->\n<!-- vale on -->\n\nText.",
+      lineOffset: 4,
+    });
+  });
+});
+
+describe("changedRangesField", () => {
+  const create = (text: string) =>
+    EditorState.create({ doc: text, extensions: [changedRangesField] });
+
+  it("should collect changed ranges in current document offsets", () => {
+    let state = create("Hello world");
+    state = state.update({ changes: { from: 5, insert: "," } }).state;
+    state = state.update({ changes: { from: 0, insert: ">> " } }).state;
+
+    expect(state.field(changedRangesField)).toEqual([
+      { from: 8, to: 9 },
+      { from: 0, to: 3 },
+    ]);
+  });
+
+  it("should be emptied by resetChangedRanges", () => {
+    let state = create("Hello");
+    state = state.update({ changes: { from: 5, insert: "!" } }).state;
+    state = state.update({ effects: resetChangedRanges.of() }).state;
+
+    expect(state.field(changedRangesField)).toEqual([]);
+  });
+});
+
+describe("buildIncrementalUpdate", () => {
+  const createWithMarks = (text: string, alerts: ValeAlert[]) =>
+    EditorState.create({
+      doc: text,
+      extensions: [valeStateField, changedRangesField],
+    }).update({ effects: addValeMarks.of(alerts) }).state;
+
+  it("should replace the alerts in checked blocks", () => {
+    const old = createMockValeAlert({ Line: 3, Span: [1, 3], Check: "Old" });
+    const kept = createMockValeAlert({ Line: 1, Span: [1, 3], Check: "Kept" });
+    const state = createWithMarks("One.\n\nTwo.", [kept, old]);
+    const [, block] = splitIntoBlocks(state.doc);
+
+    const { effects, alerts } = buildIncrementalUpdate(state, [
+      {
+        block,
+        alerts: [createMockValeAlert({ Line: 1, Span: [1, 2], Check: "New" })],
+      },
+    ]);
+    const next = state.update({ effects }).state;
+
+    expect(alerts.map((a) => [a.Check, a.Line])).toEqual([
+      ["Kept", 1],
+      ["New", 3],
+    ]);
+    expect(markedAlerts(next).map((m) => m.alert?.Check)).toEqual([
+      "Kept",
+      "New",
+    ]);
+    expect(getValeAlert(next, generateAlertId(old))).toBeUndefined();
+  });
+
+  it("should shift block alerts to document lines", () => {
+    const state = createWithMarks("One.\n\nTwo.\nThree.", []);
+    const [, block] = splitIntoBlocks(state.doc);
+
+    const { alerts } = buildIncrementalUpdate(state, [
+      { block, alerts: [createMockValeAlert({ Line: 2, Span: [1, 5] })] },
+    ]);
+
+    expect(alerts[0].Line).toBe(4);
+  });
+
+  it("should re-add alerts whose line moved", () => {
+    const below = createMockValeAlert({
+      Line: 3,
+      Span: [1, 3],
+      Check: "Below",
+    });
+    let state = createWithMarks("One.\n\nTwo.", [below]);
+
+    // Insert a new paragraph at the top, moving "Two." to line 5.
+    state = state.update({ changes: { from: 0, insert: "New.\n\n" } }).state;
+    const [block] = splitIntoBlocks(state.doc);
+
+    const { effects, alerts } = buildIncrementalUpdate(state, [
+      { block, alerts: [] },
+    ]);
+    const next = state.update({ effects }).state;
+
+    expect(alerts).toEqual([{ ...below, Line: 5 }]);
+    expect(markedAlerts(next)).toEqual([
+      { from: 12, alert: { ...below, Line: 5 } },
+    ]);
+    expect(next.field(changedRangesField)).toEqual([]);
+  });
+});
@@ -18,9 +18,14 @@ describe("Editor Module Exports", () => {
     expect(editorModule.highlightValeAlert).toBeDefined();
   });
 
-  it("should export state field and alert map", () => {
+  it("should export state field and alert getters", () => {
     expect(editorModule.valeStateField).toBeDefined();
-    expect(editorModule.valeAlertMap).toBeDefined();
+    expect(editorModule.getValeAlert).toBeDefined();
+    expect(editorModule.getValeAlerts).toBeDefined();
+  });
+
+  it("should export the Reading view post-processor", () => {
+    expect(typeof editorModule.valeReadingViewProcessor).toBe("function");
   });
 
   it("should export decoration utilities", () => {
@@ -0,0 +1,108 @@
+/**
+ * Inline Message Tests
+ *
+ * These tests verify the messages shown after the end of lines with alerts.
+ */
+
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { SeverityLevel } from "../../src/components/icons/severityGlyphs";
+import { addValeMarks, clearAllValeMarks } from "../../src/editor/effects";
+import { valeExtension } from "../../src/editor/valeExtension";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+describe("Inline messages", () => {
+  let container: HTMLElement;
+  let view: EditorView;
+
+  const alerts = [
+    createMockValeAlert({
+      Line: 1,
+      Span: [1, 3],
+      Severity: "suggestion",
+      Message: "Consider another word.",
+    }),
+    createMockValeAlert({
+      Line: 1,
+      Span: [5, 7],
+      Severity: "warning",
+      Message: "Avoid 'two'.",
+    }),
+    createMockValeAlert({
+      Line: 3,
+      Span: [1, 5],
+      Severity: "error",
+      Message: "Did you mean 'Three'?",
+    }),
+  ];
+
+  const createView = (inlineMessageSeverities: SeverityLevel[]) => {
+    view = new EditorView({
+      state: EditorState.create({
+        doc: "One two.\n\nThree.",
+        extensions: [valeExtension({ inlineMessageSeverities })],
+      }),
+      parent: container,
+    });
+    view.dispatch({ effects: addValeMarks.of(alerts) });
+  };
+
+  const messages = () =>
+    Array.from(view.dom.querySelectorAll(".vale-inline-message")).map(
+      (message) => [message.className, message.textContent],
+    );
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    view.destroy();
+    container.remove();
+  });
+
+  it("should show the message of each line's most severe alert", () => {
+    createView(["error", "warning", "suggestion"]);
+
+    expect(messages()).toEqual([
+      ["vale-inline-message vale-inline-message--warning", "Avoid 'two'."],
+      [
+        "vale-inline-message vale-inline-message--error",
+        "Did you mean 'Three'?",
+      ],
+    ]);
+  });
+
+  it("should only show messages of the chosen severities", () => {
+    createView(["suggestion"]);
+
+    expect(messages()).toEqual([
+      [
+        "vale-inline-message vale-inline-message--suggestion",
+        "Consider another word.",
+      ],
+    ]);
+  });
+
+  it("should show the message after the end of the line", () => {
+    createView(["error"]);
+
+    const line = view.dom.querySelectorAll(".cm-line")[2];
+    expect(line.textContent).toBe("Three.Did you mean 'Three'?");
+  });
+
+  it("should remove the messages when the alerts are cleared", () => {
+    createView(["error", "warning", "suggestion"]);
+
+    view.dispatch({ effects: clearAllValeMarks.of() });
+
+    expect(messages()).toEqual([]);
+  });
+
+  it("should not show messages unless severities are chosen", () => {
+    createView([]);
+
+    expect(messages()).toEqual([]);
+  });
+});
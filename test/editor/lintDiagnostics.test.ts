@@ -0,0 +1,210 @@
+/**
+ * Lint Diagnostics Tests
+ *
+ * These tests verify publishing Vale alerts as @codemirror/lint diagnostics,
+ * with their severities and quick fixes.
+ */
+
+import {
+  diagnosticCount,
+  forEachDiagnostic,
+  setDiagnostics,
+} from "@codemirror/lint";
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { addValeMarks, clearAllValeMarks } from "../../src/editor/effects";
+import {
+  alertToDiagnostic,
+  LintDiagnosticsMode,
+} from "../../src/editor/lintDiagnostics";
+import { valeExtension } from "../../src/editor/valeExtension";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+describe("alertToDiagnostic", () => {
+  it("should map Vale severities to lint severities", () => {
+    const severities = ["error", "warning", "suggestion"].map(
+      (Severity) =>
+        alertToDiagnostic(createMockValeAlert({ Severity }), 0, 3).severity,
+    );
+
+    expect(severities).toEqual(["error", "warning", "info"]);
+  });
+
+  it("should describe the alert with its check and message", () => {
+    const alert = createMockValeAlert({
+      Check: "Vale.Spelling",
+      Message: "Did you really mean 'teh'?",
+    });
+
+    expect(alertToDiagnostic(alert, 4, 7)).toMatchObject({
+      from: 4,
+      to: 7,
+      source: "Vale.Spelling",
+      message: "Did you really mean 'teh'?",
+    });
+  });
+
+  it("should offer an action for each quick fix", () => {
+    const alert = createMockValeAlert({
+      Match: "utilize",
+      Action: { Name: "replace", Params: ["use", "apply"] },
+    });
+
+    const { actions } = alertToDiagnostic(alert, 0, 7);
+
+    expect(actions?.map((action) => action.name)).toEqual([
+      'Replace with "use"',
+      'Replace with "apply"',
+    ]);
+  });
+
+  it("should hand picked fixes to the fix handler", () => {
+    const alert = createMockValeAlert({
+      Match: "utilize",
+      Action: { Name: "replace", Params: ["use"] },
+    });
+    const onFix = jest.fn();
+    const view = {} as EditorView;
+
+    alertToDiagnostic(alert, 0, 7, onFix).actions?.[0].apply(view, 0, 7);
+
+    expect(onFix).toHaveBeenCalledWith(view, alert, {
+      title: 'Replace with "use"',
+      replacement: "use",
+    });
+  });
+});
+
+describe("Lint diagnostics", () => {
+  let container: HTMLElement;
+  let view: EditorView;
+
+  const alerts = [
+    createMockValeAlert({
+      Line: 1,
+      Span: [5, 7],
+      Match: "two",
+      Severity: "warning",
+      Action: { Name: "replace", Params: ["2"] },
+    }),
+    createMockValeAlert({ Line: 3, Span: [1, 5], Severity: "suggestion" }),
+  ];
+
+  const createView = (lintDiagnostics: LintDiagnosticsMode) => {
+    view = new EditorView({
+      state: EditorState.create({
+        doc: "One two.\n\nThree.",
+        extensions: [valeExtension({ lintDiagnostics })],
+      }),
+      parent: container,
+    });
+  };
+
+  const dispatchAndSettle = async (
+    ...specs: Parameters<EditorView["dispatch"]>
+  ) => {
+    view.dispatch(...specs);
+    await Promise.resolve();
+  };
+
+  const diagnostics = () => {
+    const found: Array<[string, number, number]> = [];
+    forEachDiagnostic(view.state, (diagnostic, from, to) => {
+      found.push([diagnostic.severity, from, to]);
+    });
+    return found;
+  };
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    view.destroy();
+    container.remove();
+  });
+
+  it("should publish the underlined alerts as diagnostics", async () => {
+    createView("alongside");
+
+    await dispatchAndSettle({ effects: addValeMarks.of(alerts) });
+
+    expect(diagnostics()).toEqual([
+      ["warning", 4, 7],
+      ["info", 10, 15],
+    ]);
+  });
+
+  it("should clear the diagnostics with the underlines", async () => {
+    createView("alongside");
+    await dispatchAndSettle({ effects: addValeMarks.of(alerts) });
+
+    await dispatchAndSettle({ effects: clearAllValeMarks.of() });
+
+    expect(diagnosticCount(view.state)).toBe(0);
+  });
+
+  it("should keep the diagnostics of other linters", async () => {
+    createView("alongside");
+    view.dispatch(
+      setDiagnostics(view.state, [
+        { from: 0, to: 3, severity: "error", message: "Other linter" },
+      ]),
+    );
+
+    await dispatchAndSettle({ effects: addValeMarks.of(alerts) });
+    expect(diagnostics()).toEqual([
+      ["error", 0, 3],
+      ["warning", 4, 7],
+      ["info", 10, 15],
+    ]);
+
+    await dispatchAndSettle({ effects: clearAllValeMarks.of() });
+    expect(diagnostics()).toEqual([["error", 0, 3]]);
+  });
+
+  it("should apply a quick fix picked from a diagnostic", async () => {
+    createView("instead");
+    await dispatchAndSettle({ effects: addValeMarks.of(alerts) });
+
+    forEachDiagnostic(view.state, (diagnostic, from, to) => {
+      if (diagnostic.severity === "warning") {
+        diagnostic.actions?.[0].apply(view, from, to);
+      }
+    });
+    await Promise.resolve();
+
+    expect(view.state.doc.line(1).text).toBe("One 2.");
+    expect(diagnostics()).toEqual([["info", 8, 13]]);
+  });
+
+  it("should mark lint's underlines to be hidden alongside Vale's", async () => {
+    createView("alongside");
+
+    await dispatchAndSettle({ effects: addValeMarks.of(alerts) });
+
+    expect(view.dom.classList).toContain("vale-diagnostics-alongside");
+    expect(
+      view.dom.querySelectorAll(".cm-lintRange.vale-diagnostic"),
+    ).toHaveLength(2);
+    expect(view.dom.querySelectorAll(".vale-underline")).toHaveLength(2);
+  });
+
+  it("should underline with lint instead of Vale", async () => {
+    createView("instead");
+
+    await dispatchAndSettle({ effects: addValeMarks.of(alerts) });
+
+    expect(view.dom.classList).toContain("vale-diagnostics-only");
+    expect(view.dom.querySelectorAll(".cm-lintRange")).toHaveLength(2);
+  });
+
+  it("should not publish diagnostics when off", async () => {
+    createView("off");
+
+    await dispatchAndSettle({ effects: addValeMarks.of(alerts) });
+
+    expect(diagnosticCount(view.state)).toBe(0);
+  });
+});
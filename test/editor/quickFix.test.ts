@@ -0,0 +1,220 @@
+/**
+ * Quick Fix Tests
+ *
+ * These tests verify turning Vale's Action field into replacements, and
+ * applying a replacement to the underlined text in the editor.
+ */
+
+import { EditorState } from "@codemirror/state";
+import { EditorView, ViewUpdate } from "@codemirror/view";
+import { addValeMarks, clearAllValeMarks } from "../../src/editor/effects";
+import {
+  applyQuickFix,
+  getQuickFixes,
+  setSuggestionsAvailable,
+  suggestionFixes,
+} from "../../src/editor/quickFix";
+import { valeStateField } from "../../src/editor/stateField";
+import { ValeAlert } from "../../src/types";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+const alertWithAction = (
+  Match: string,
+  Name: string,
+  Params: string[],
+): ValeAlert => createMockValeAlert({ Match, Action: { Name, Params } });
+
+describe("getQuickFixes", () => {
+  it("should offer one fix per replacement", () => {
+    const fixes = getQuickFixes(
+      alertWithAction("utilize", "replace", ["use", "employ"]),
+    );
+
+    expect(fixes).toEqual([
+      { title: 'Replace with "use"', replacement: "use" },
+      { title: 'Replace with "employ"', replacement: "employ" },
+    ]);
+  });
+
+  it("should skip duplicate replacements and the matched text itself", () => {
+    const fixes = getQuickFixes(
+      alertWithAction("use", "replace", ["use", "apply", "apply"]),
+    );
+
+    expect(fixes.map((fix) => fix.replacement)).toEqual(["apply"]);
+  });
+
+  it("should offer to remove the matched text", () => {
+    expect(getQuickFixes(alertWithAction("very", "remove", []))).toEqual([
+      { title: 'Remove "very"', replacement: "" },
+    ]);
+  });
+
+  it.each([
+    [["regex", "(\\w+)ize", "$1ise"], "organize", "organise"],
+    [["trim_right", "!"], "Wow!!", "Wow"],
+    [["trim_left", "#"], "##Title", "Title"],
+    [["trim", " "], "  spaced ", "spaced"],
+    [["truncate", " "], "first second", "first"],
+    [["split", "-", "1"], "left-right", "right"],
+  ])("should apply the %j edit", (params, match, expected) => {
+    expect(getQuickFixes(alertWithAction(match, "edit", params))).toEqual([
+      { title: `Change to "${expected}"`, replacement: expected },
+    ]);
+  });
+
+  it("should offer nothing for edits that don't change the text", () => {
+    expect(
+      getQuickFixes(alertWithAction("word", "edit", ["trim_right", "!"])),
+    ).toEqual([]);
+  });
+
+  it.each(["suggest", "convert"])(
+    "should offer to pick from Vale's suggestions for the %s action",
+    (name) => {
+      expect(
+        getQuickFixes(alertWithAction("teh", name, ["spellings"])),
+      ).toEqual([{ title: "Show suggestions…", replacement: "", pick: true }]);
+    },
+  );
+
+  it("should not offer suggestions when Vale can't compute them", () => {
+    setSuggestionsAvailable(false);
+    try {
+      expect(
+        getQuickFixes(alertWithAction("teh", "suggest", ["spellings"])),
+      ).toEqual([]);
+    } finally {
+      setSuggestionsAvailable(true);
+    }
+  });
+
+  it("should offer nothing for unsupported actions", () => {
+    expect(getQuickFixes(alertWithAction("x", "edit", ["unknown"]))).toEqual(
+      [],
+    );
+    expect(
+      getQuickFixes(alertWithAction("x", "edit", ["regex", "(unclosed"])),
+    ).toEqual([]);
+    expect(getQuickFixes(alertWithAction("x", "", []))).toEqual([]);
+  });
+});
+
+describe("suggestionFixes", () => {
+  it("should offer one fix per suggestion from vale fix", () => {
+    const alert = alertWithAction("teh", "suggest", ["spellings"]);
+
+    expect(suggestionFixes(alert, ["the", "teh", "ten", "the"])).toEqual([
+      { title: 'Replace with "the"', replacement: "the" },
+      { title: 'Replace with "ten"', replacement: "ten" },
+    ]);
+  });
+});
+
+describe("applyQuickFix", () => {
+  let container: HTMLElement;
+  let view: EditorView;
+  let updates: ViewUpdate[];
+
+  const createView = (doc: string, alerts: ValeAlert[]) => {
+    updates = [];
+    view = new EditorView({
+      state: EditorState.create({
+        doc,
+        extensions: [
+          valeStateField,
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) {
+              updates.push(update);
+            }
+          }),
+        ],
+      }),
+      parent: container,
+    });
+    view.dispatch({ effects: addValeMarks.of(alerts) });
+  };
+
+  const markCount = () => {
+    let count = 0;
+    view.state.field(valeStateField).between(0, view.state.doc.length, () => {
+      count++;
+    });
+    return count;
+  };
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    view.dispatch({ effects: clearAllValeMarks.of() });
+    view.destroy();
+    container.remove();
+  });
+
+  it("should replace the underlined text in one transaction", () => {
+    const alert = createMockValeAlert({ Span: [5, 11], Match: "utilize" });
+    createView("You utilize it.", [alert]);
+
+    const applied = applyQuickFix(view, alert, {
+      title: 'Replace with "use"',
+      replacement: "use",
+    });
+
+    expect(applied).toBe(true);
+    expect(view.state.doc.toString()).toBe("You use it.");
+    expect(updates).toHaveLength(1);
+    expect(updates[0].transactions[0].isUserEvent("input.vale-fix")).toBe(true);
+    expect(markCount()).toBe(0);
+  });
+
+  it("should remove the underlined text", () => {
+    const alert = createMockValeAlert({ Span: [5, 9], Match: "very " });
+    createView("Its very good.", [alert]);
+
+    applyQuickFix(view, alert, { title: "Remove", replacement: "" });
+
+    expect(view.state.doc.toString()).toBe("Its good.");
+  });
+
+  it("should fix the text where the underline has moved to", () => {
+    const alert = createMockValeAlert({ Span: [1, 3], Match: "teh" });
+    createView("teh end", [alert]);
+    view.dispatch({ changes: { from: 7, insert: "!" } });
+    view.dispatch({ changes: { from: 0, insert: "So " } });
+
+    applyQuickFix(view, alert, { title: "Fix", replacement: "the" });
+
+    expect(view.state.doc.toString()).toBe("So the end!");
+  });
+
+  it("should not change the text once the underline is gone", () => {
+    const alert = createMockValeAlert({ Span: [1, 3], Match: "teh" });
+    createView("teh end", [alert]);
+    view.dispatch({ effects: clearAllValeMarks.of() });
+
+    const applied = applyQuickFix(view, alert, {
+      title: "Fix",
+      replacement: "the",
+    });
+
+    expect(applied).toBe(false);
+    expect(view.state.doc.toString()).toBe("teh end");
+  });
+
+  it("should not change the text before a suggestion is picked", () => {
+    const alert = createMockValeAlert({ Span: [1, 3], Match: "teh" });
+    createView("teh end", [alert]);
+
+    const applied = applyQuickFix(view, alert, {
+      title: "Show suggestions…",
+      replacement: "",
+      pick: true,
+    });
+
+    expect(applied).toBe(false);
+    expect(view.state.doc.toString()).toBe("teh end");
+  });
+});
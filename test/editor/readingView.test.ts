@@ -0,0 +1,223 @@
+/**
+ * Reading View Tests
+ *
+ * These tests verify finding the text of alerts in rendered Markdown and
+ * underlining it like the editor does.
+ */
+
+import type {
+  MarkdownPostProcessorContext,
+  MarkdownRenderChild,
+} from "obsidian";
+import {
+  markAlertsInSection,
+  valeReadingViewProcessor,
+} from "../../src/editor/readingView";
+import { ValeAlert } from "../../src/types";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+const render = (html: string) => {
+  const el = document.createElement("div");
+  el.append(
+    ...new DOMParser().parseFromString(html, "text/html").body.childNodes,
+  );
+  return el;
+};
+
+const section = (text: string, lineStart = 0, lineEnd = lineStart) => ({
+  text,
+  lineStart,
+  lineEnd,
+});
+
+const createContext = (
+  text: string,
+  lineStart = 0,
+  lineEnd = lineStart,
+  addChild = jest.fn(),
+) =>
+  ({
+    sourcePath: "note.md",
+    getSectionInfo: () => section(text, lineStart, lineEnd),
+    addChild,
+  }) as unknown as MarkdownPostProcessorContext;
+
+describe("markAlertsInSection", () => {
+  it("should underline an alert with its severity classes", () => {
+    const el = render("<p>Say teh word.</p>");
+    const alert = createMockValeAlert({ Span: [5, 7], Severity: "warning" });
+
+    markAlertsInSection(el, section("Say teh word."), [alert]);
+
+    const mark = el.querySelector(".vale-underline");
+    expect(mark?.className).toBe("vale-underline vale-warning");
+    expect(mark?.textContent).toBe("teh");
+    expect(mark?.getAttribute("data-check")).toBe(alert.Check);
+    expect(el.textContent).toBe("Say teh word.");
+  });
+
+  it("should find alerts after Markdown syntax that isn't rendered", () => {
+    const el = render("<p>A <strong>bold</strong> teh.</p>");
+    const alert = createMockValeAlert({ Span: [12, 14] });
+
+    markAlertsInSection(el, section("A **bold** teh."), [alert]);
+
+    expect(el.querySelector(".vale-underline")?.textContent).toBe("teh");
+  });
+
+  it("should underline the same occurrence as in the source", () => {
+    const el = render("<p>teh and <em>teh</em></p>");
+    const alert = createMockValeAlert({ Span: [10, 12] });
+
+    markAlertsInSection(el, section("teh and *teh*"), [alert]);
+
+    expect(el.querySelector("em .vale-underline")?.textContent).toBe("teh");
+    expect(el.querySelectorAll(".vale-underline")).toHaveLength(1);
+  });
+
+  it("should split a match across elements into several underlines", () => {
+    // Other post-processors may wrap parts of the rendered text.
+    const el = render("<p>one <span>two</span> three</p>");
+    const alert = createMockValeAlert({ Span: [1, 13] });
+
+    const [{ marks }] = markAlertsInSection(el, section("one two three"), [
+      alert,
+    ]);
+
+    expect(marks.map((mark) => mark.textContent)).toEqual([
+      "one ",
+      "two",
+      " three",
+    ]);
+  });
+
+  it("should only underline alerts on the lines of the section", () => {
+    const el = render("<p>Second teh.</p>");
+    const alerts: ValeAlert[] = [
+      createMockValeAlert({ Line: 1, Span: [1, 5] }),
+      createMockValeAlert({ Line: 3, Span: [8, 10] }),
+    ];
+
+    const result = markAlertsInSection(
+      el,
+      section("First.\n\nSecond teh.", 2),
+      alerts,
+    );
+
+    expect(result.map(({ alert }) => alert)).toEqual([alerts[1]]);
+  });
+
+  it("should skip alerts whose text isn't rendered", () => {
+    const el = render('<p><a href="https://example.com">link</a></p>');
+    const alert = createMockValeAlert({ Span: [8, 14] });
+
+    const result = markAlertsInSection(el, section("[link](example)"), [alert]);
+
+    expect(result).toEqual([]);
+  });
+
+  it("should keep only the first of overlapping alerts", () => {
+    const el = render("<p>Say teh word.</p>");
+    const alerts = [
+      createMockValeAlert({ Span: [5, 7], Check: "A.Rule" }),
+      createMockValeAlert({ Span: [5, 12], Check: "B.Rule" }),
+    ];
+
+    markAlertsInSection(el, section("Say teh word."), alerts);
+
+    expect(el.querySelectorAll(".vale-underline")).toHaveLength(1);
+  });
+});
+
+describe("valeReadingViewProcessor", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    document.body.innerHTML = "";
+  });
+
+  it("should show the alert's tooltip on hover", () => {
+    const el = render("<p>Say teh word.</p>");
+    const alert = createMockValeAlert({ Span: [5, 7] });
+    const processor = valeReadingViewProcessor({ getAlerts: () => [alert] });
+
+    void processor(el, createContext("Say teh word."));
+    el.querySelector(".vale-underline")?.dispatchEvent(
+      new MouseEvent("mouseenter"),
+    );
+    jest.advanceTimersByTime(300);
+
+    const tooltip = document.body.querySelector(".vale-reading-tooltip");
+    expect(tooltip?.querySelector(".vale-tooltip__message")?.textContent).toBe(
+      alert.Message,
+    );
+  });
+
+  it("should remove the tooltip when the section is unloaded", () => {
+    const el = render("<p>Say teh word.</p>");
+    const alert = createMockValeAlert({ Span: [5, 7] });
+    const processor = valeReadingViewProcessor({ getAlerts: () => [alert] });
+    const addChild = jest.fn();
+
+    void processor(el, createContext("Say teh word.", 0, 0, addChild));
+    el.querySelector(".vale-underline")?.dispatchEvent(
+      new MouseEvent("mouseenter"),
+    );
+    jest.advanceTimersByTime(300);
+    expect(document.body.querySelector(".vale-reading-tooltip")).not.toBeNull();
+
+    const [[child]] = addChild.mock.calls as [[MarkdownRenderChild]];
+    child.unload();
+
+    expect(document.body.querySelector(".vale-reading-tooltip")).toBeNull();
+  });
+
+  it("should not show a pending tooltip once the section is unloaded", () => {
+    const el = render("<p>Say teh word.</p>");
+    const alert = createMockValeAlert({ Span: [5, 7] });
+    const processor = valeReadingViewProcessor({ getAlerts: () => [alert] });
+    const addChild = jest.fn();
+
+    void processor(el, createContext("Say teh word.", 0, 0, addChild));
+    el.querySelector(".vale-underline")?.dispatchEvent(
+      new MouseEvent("mouseenter"),
+    );
+    const [[child]] = addChild.mock.calls as [[MarkdownRenderChild]];
+    child.unload();
+    jest.advanceTimersByTime(300);
+
+    expect(document.body.querySelector(".vale-reading-tooltip")).toBeNull();
+  });
+
+  it("should open the alert when an underline is clicked", () => {
+    const el = render("<p>Say teh word.</p>");
+    const alert = createMockValeAlert({ Span: [5, 7] });
+    const onAlertClick = jest.fn();
+    const processor = valeReadingViewProcessor({
+      getAlerts: () => [alert],
+      onAlertClick,
+    });
+
+    void processor(el, createContext("Say teh word."));
+    el.querySelector<HTMLElement>(".vale-underline")?.click();
+
+    expect(onAlertClick).toHaveBeenCalledWith("note.md", alert);
+  });
+
+  it("should leave notes without alerts alone", () => {
+    const el = render("<p>Say teh word.</p>");
+    const getSectionInfo = jest.fn();
+    const processor = valeReadingViewProcessor({ getAlerts: () => [] });
+
+    void processor(el, {
+      sourcePath: "note.md",
+      getSectionInfo,
+    } as unknown as MarkdownPostProcessorContext);
+
+    expect(getSectionInfo).not.toHaveBeenCalled();
+    expect(el.innerHTML).toBe("<p>Say teh word.</p>");
+  });
+});
@@ -6,15 +6,22 @@
  */
 
 import { EditorState } from "@codemirror/state";
-import { valeStateField, valeAlertMap } from "../../src/editor/stateField";
+import {
+  valeStateField,
+  getValeAlert,
+  getValeAlerts,
+  findAdjacentValeAlert,
+} from "../../src/editor/stateField";
 import {
   addValeMarks,
   clearAllValeMarks,
   clearValeMarksInRange,
+  clearValeMarksForCheck,
   selectValeAlert,
   highlightValeAlert,
 } from "../../src/editor/effects";
 import { generateAlertId } from "../../src/editor/decorations";
+import { ValeAlert } from "../../src/types";
 import {
   createMockValeAlert,
   createSequentialAlerts,
@@ -124,11 +131,6 @@ describe("StateField", () => {
     return ids;
   }
 
-  beforeEach(() => {
-    // Clear alert map before each test
-    valeAlertMap.clear();
-  });
-
   describe("Initialization", () => {
     it("should start with empty decoration set", () => {
       const state = createTestState();
@@ -179,7 +181,7 @@ describe("StateField", () => {
       expect(countDecorations(state)).toBe(3);
     });
 
-    it("should store alerts in valeAlertMap", () => {
+    it("should store alerts in the editor state", () => {
       const state = createTestState("test document");
       const alert = createMockValeAlert({
         Line: 1,
@@ -192,9 +194,90 @@ describe("StateField", () => {
         effects: addValeMarks.of([alert]),
       }).state;
 
-      expect(valeAlertMap.has(alertId)).toBe(true);
-      expect(valeAlertMap.get(alertId)).toBe(alert);
-      expect(newState).toBeDefined();
+      expect(getValeAlert(newState, alertId)).toBe(alert);
+      expect(getValeAlert(state, alertId)).toBeUndefined();
+    });
+
+    it("should keep the alerts of each editor apart", () => {
+      const alert = createMockValeAlert({
+        Line: 1,
+        Span: [1, 4],
+        Check: "Vale.Test",
+      });
+      const alertId = generateAlertId(alert);
+
+      const first = createTestState("test document").update({
+        effects: addValeMarks.of([alert]),
+      }).state;
+      const second = createTestState("test document").update({
+        effects: [addValeMarks.of([alert]), clearAllValeMarks.of(undefined)],
+      }).state;
+
+      expect(getValeAlert(first, alertId)).toBe(alert);
+      expect(getValeAlert(second, alertId)).toBeUndefined();
+    });
+
+    it("should report the lines the underlines have moved to", () => {
+      const alert = createMockValeAlert({
+        Line: 1,
+        Span: [1, 4],
+        Check: "Vale.Test",
+      });
+      const state = createTestState("test document").update({
+        effects: addValeMarks.of([alert]),
+      }).state;
+
+      const moved = state.update({
+        changes: { from: 0, insert: "New line\n\n" },
+      }).state;
+
+      expect(getValeAlerts(moved)).toEqual([{ ...alert, Line: 3 }]);
+    });
+
+    it("should report the spans the underlines have moved to", () => {
+      const alert = createMockValeAlert({
+        Line: 1,
+        Span: [6, 8],
+        Check: "Vale.Test",
+      });
+      const state = createTestState("Some teh word").update({
+        effects: addValeMarks.of([alert]),
+      }).state;
+
+      // "é" is two bytes in UTF-8, so the span moves by four bytes.
+      const moved = state.update({
+        changes: { from: 0, insert: "Très " },
+      }).state;
+
+      const [current] = getValeAlerts(moved);
+      expect(current).toEqual({ ...alert, Span: [12, 14] });
+      expect(moved.sliceDoc(10, 13)).toBe("teh");
+    });
+
+    it("should return alerts that haven't moved as they are", () => {
+      const alert = createMockValeAlert({ Line: 1, Span: [1, 4] });
+      const state = createTestState("test document").update({
+        effects: addValeMarks.of([alert]),
+      }).state;
+
+      expect(getValeAlerts(state)[0]).toBe(alert);
+    });
+
+    it("should find moved alerts by their old and their current ID", () => {
+      const alert = createMockValeAlert({ Line: 1, Span: [6, 8] });
+      let state = createTestState("Some teh word").update({
+        effects: addValeMarks.of([alert]),
+      }).state;
+      state = state.update({ changes: { from: 0, insert: "Très " } }).state;
+
+      const [current] = getValeAlerts(state);
+      expect(getValeAlert(state, generateAlertId(alert))).toBe(alert);
+      expect(getValeAlert(state, generateAlertId(current))).toBe(alert);
+
+      state = state.update({
+        effects: selectValeAlert.of(generateAlertId(current)),
+      }).state;
+      expect(countDecorations(state)).toBe(2);
     });
 
     it("should apply correct CSS class based on severity", () => {
@@ -330,7 +413,7 @@ describe("StateField", () => {
       expect(countDecorations(state)).toBe(0);
     });
 
-    it("should clear valeAlertMap when clearing all", () => {
+    it("should forget alerts when clearing all", () => {
       const state = createTestState("test document");
       const alert = createMockValeAlert({
         Line: 1,
@@ -342,14 +425,13 @@ describe("StateField", () => {
         effects: addValeMarks.of([alert]),
       }).state;
 
-      expect(valeAlertMap.size).toBeGreaterThan(0);
+      expect(getValeAlerts(stateWithAlerts)).toEqual([alert]);
 
       const clearedState = stateWithAlerts.update({
         effects: clearAllValeMarks.of(undefined),
       }).state;
 
-      expect(valeAlertMap.size).toBe(0);
-      expect(clearedState).toBeDefined();
+      expect(getValeAlerts(clearedState)).toEqual([]);
     });
 
     it("should clear decorations in specific range", () => {
@@ -396,7 +478,7 @@ describe("StateField", () => {
       expect(ids).not.toContain("1:13:16:Vale.Clear");
     });
 
-    it("should remove cleared decorations from valeAlertMap", () => {
+    it("should forget alerts of cleared decorations", () => {
       const state = createTestState("test document");
       const alert = createMockValeAlert({
         Line: 1,
@@ -409,15 +491,43 @@ describe("StateField", () => {
         effects: addValeMarks.of([alert]),
       }).state;
 
-      expect(valeAlertMap.has(alertId)).toBe(true);
+      expect(getValeAlert(stateWithAlert, alertId)).toBe(alert);
 
       // Clear range (0-based: 0-4 covers "test")
       const clearedState = stateWithAlert.update({
         effects: clearValeMarksInRange.of({ from: 0, to: 4 }),
       }).state;
 
-      expect(valeAlertMap.has(alertId)).toBe(false);
-      expect(clearedState).toBeDefined();
+      expect(getValeAlert(clearedState, alertId)).toBeUndefined();
+    });
+
+    it("should clear only the decorations of one check in a range", () => {
+      let state = createTestState("one two three four");
+      const alerts = [
+        createMockValeAlert({ Line: 1, Span: [1, 3], Check: "Vale.A" }), // "one" (0-2)
+        createMockValeAlert({ Line: 1, Span: [5, 7], Check: "Vale.B" }), // "two" (4-6)
+        createMockValeAlert({ Line: 1, Span: [9, 13], Check: "Vale.A" }), // "three" (8-12)
+        createMockValeAlert({ Line: 1, Span: [15, 18], Check: "Vale.A" }), // "four" (14-17)
+      ];
+
+      state = state.update({
+        effects: addValeMarks.of(alerts),
+      }).state;
+
+      state = state.update({
+        effects: clearValeMarksForCheck.of({
+          check: "Vale.A",
+          from: 0,
+          to: 13,
+        }),
+      }).state;
+
+      expect(getDecorationIds(state)).toEqual([
+        "1:5:7:Vale.B",
+        "1:15:18:Vale.A",
+      ]);
+      expect(getValeAlert(state, generateAlertId(alerts[0]))).toBeUndefined();
+      expect(getValeAlert(state, generateAlertId(alerts[3]))).toBe(alerts[3]);
     });
   });
 
@@ -781,6 +891,64 @@ describe("StateField", () => {
     });
   });
 
+  describe("Finding Adjacent Alerts", () => {
+    const alerts = [
+      createMockValeAlert({ Span: [1, 3], Check: "Vale.A" }), // "one" (0-2)
+      createMockValeAlert({
+        Span: [5, 7],
+        Check: "Vale.B",
+        Severity: "warning",
+      }), // "two" (4-6)
+      createMockValeAlert({ Span: [9, 13], Check: "Vale.C" }), // "three" (8-12)
+    ];
+
+    function createStateWithAlerts(): EditorState {
+      return createTestState("one two three").update({
+        effects: addValeMarks.of(alerts),
+      }).state;
+    }
+
+    it("should find the next alert after a position", () => {
+      const state = createStateWithAlerts();
+
+      expect(findAdjacentValeAlert(state, 0, "next")).toEqual({
+        alert: alerts[1],
+        from: 4,
+        to: 7,
+      });
+    });
+
+    it("should find the previous alert before a position", () => {
+      const state = createStateWithAlerts();
+
+      expect(findAdjacentValeAlert(state, 8, "previous")?.alert).toBe(
+        alerts[1],
+      );
+    });
+
+    it("should wrap around at the ends of the document", () => {
+      const state = createStateWithAlerts();
+
+      expect(findAdjacentValeAlert(state, 8, "next")?.alert).toBe(alerts[0]);
+      expect(findAdjacentValeAlert(state, 0, "previous")?.alert).toBe(
+        alerts[2],
+      );
+    });
+
+    it("should skip alerts that don't pass the filter", () => {
+      const state = createStateWithAlerts();
+      const isError = (alert: ValeAlert) => alert.Severity === "error";
+
+      expect(findAdjacentValeAlert(state, 0, "next", isError)?.alert).toBe(
+        alerts[2],
+      );
+    });
+
+    it("should return null without alerts", () => {
+      expect(findAdjacentValeAlert(createTestState(), 0, "next")).toBeNull();
+    });
+  });
+
   describe("Complex Scenarios", () => {
     // NOTE: Vale uses 1-based positions for Span values.
 
@@ -935,7 +1103,7 @@ describe("StateField", () => {
       }
 
       // Should handle all effects
-      expect(valeAlertMap.size).toBeGreaterThan(0);
+      expect(getValeAlerts(state)).toHaveLength(10);
     });
   });
 
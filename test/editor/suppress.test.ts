@@ -0,0 +1,111 @@
+/**
+ * Alert Suppression Tests
+ *
+ * These tests verify wrapping the block an alert is in with comments that
+ * tell Vale to ignore the alert's check.
+ */
+
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { getAlertIdFromDecoration } from "../../src/editor/decorations";
+import { addValeMarks, clearAllValeMarks } from "../../src/editor/effects";
+import { valeStateField } from "../../src/editor/stateField";
+import { ignoreAlertHere } from "../../src/editor/suppress";
+import { ValeAlert } from "../../src/types";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+describe("ignoreAlertHere", () => {
+  let container: HTMLElement;
+  let view: EditorView;
+
+  const createView = (doc: string, alerts: ValeAlert[]) => {
+    view = new EditorView({
+      state: EditorState.create({ doc, extensions: [valeStateField] }),
+      parent: container,
+    });
+    view.dispatch({ effects: addValeMarks.of(alerts) });
+  };
+
+  const markedIds = () => {
+    const ids: Array<string | undefined> = [];
+    view.state
+      .field(valeStateField)
+      .between(0, view.state.doc.length, (_from, _to, value) => {
+        ids.push(getAlertIdFromDecoration(value));
+      });
+    return ids;
+  };
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    view.dispatch({ effects: clearAllValeMarks.of() });
+    view.destroy();
+    container.remove();
+  });
+
+  it("should wrap the paragraph of the alert in one transaction", () => {
+    const alert = createMockValeAlert({
+      Line: 3,
+      Span: [5, 7],
+      Check: "Vale.Spelling",
+      Match: "teh",
+    });
+    createView("Intro.\n\nSay teh\nword.\n\nOutro.", [alert]);
+
+    const block = ignoreAlertHere(view, alert);
+
+    expect(block).toMatchObject({ fromLine: 3, toLine: 4 });
+    expect(view.state.doc.toString()).toBe(
+      "Intro.\n\n" +
+        "<!-- vale Vale.Spelling = NO -->\n" +
+        "Say teh\nword.\n" +
+        "<!-- vale Vale.Spelling = YES -->\n\nOutro.",
+    );
+    expect(markedIds()).toEqual([]);
+  });
+
+  it("should keep the underlines of other checks", () => {
+    const spelling = createMockValeAlert({
+      Span: [1, 3],
+      Check: "Vale.Spelling",
+    });
+    const passive = createMockValeAlert({
+      Span: [5, 7],
+      Check: "Google.Passive",
+    });
+    createView("teh was done", [spelling, passive]);
+
+    ignoreAlertHere(view, spelling);
+
+    expect(markedIds()).toEqual(["1:5:7:Google.Passive"]);
+  });
+
+  it("should keep the comments inside a blockquote", () => {
+    const alert = createMockValeAlert({
+      Span: [3, 5],
+      Check: "Vale.Spelling",
+    });
+    createView("> teh\n> end", [alert]);
+
+    ignoreAlertHere(view, alert);
+
+    expect(view.state.doc.toString()).toBe(
+      "> <!-- vale Vale.Spelling = NO -->\n" +
+        "> teh\n> end\n" +
+        "> <!-- vale Vale.Spelling = YES -->",
+    );
+  });
+
+  it("should do nothing once the underline is gone", () => {
+    const alert = createMockValeAlert({ Span: [1, 3] });
+    createView("teh end", [alert]);
+    view.dispatch({ effects: clearAllValeMarks.of() });
+
+    expect(ignoreAlertHere(view, alert)).toBeNull();
+    expect(view.state.doc.toString()).toBe("teh end");
+  });
+});
@@ -12,7 +12,7 @@ import {
   getAlertAtPosition,
   valeHoverTooltip,
 } from "../../src/editor/tooltip";
-import { valeStateField, valeAlertMap } from "../../src/editor/stateField";
+import { valeStateField } from "../../src/editor/stateField";
 import { addValeMarks, clearAllValeMarks } from "../../src/editor/effects";
 import type { ValeAlert } from "../../src/types";
 import { createMockValeAlert } from "../mocks/valeAlerts";
@@ -461,6 +461,114 @@ describe("Tooltip", () => {
       });
     });
 
+    describe("Quick Fixes", () => {
+      it("should show a button for each fix", () => {
+        const alert = createMockValeAlert({
+          Match: "utilize",
+          Action: { Name: "replace", Params: ["use", "employ"] },
+        });
+
+        const dom = createTooltipContent(alert, { onFix: jest.fn() });
+
+        const buttons = dom.querySelectorAll(".vale-tooltip__fix");
+        expect([...buttons].map((b) => b.textContent)).toEqual([
+          'Replace with "use"',
+          'Replace with "employ"',
+        ]);
+      });
+
+      it("should call onFix with the picked fix", () => {
+        const onFix = jest.fn();
+        const alert = createMockValeAlert({
+          Match: "utilize",
+          Action: { Name: "replace", Params: ["use", "employ"] },
+        });
+
+        const dom = createTooltipContent(alert, { onFix });
+        dom.querySelectorAll<HTMLElement>(".vale-tooltip__fix")[1].click();
+
+        expect(onFix).toHaveBeenCalledWith({
+          title: 'Replace with "employ"',
+          replacement: "employ",
+        });
+      });
+
+      it("should offer to add a misspelled word to a vocabulary", () => {
+        const onAddToVocabulary = jest.fn();
+        const alert = createMockValeAlert({
+          Check: "Vale.Spelling",
+          Match: "Zettelkasten",
+          Action: { Name: "suggest", Params: ["spellings"] },
+        });
+
+        const dom = createTooltipContent(alert, { onAddToVocabulary });
+        const button = dom.querySelector<HTMLElement>(".vale-tooltip__fix");
+        button?.click();
+
+        expect(button?.textContent).toBe('Add "Zettelkasten" to vocabulary');
+        expect(onAddToVocabulary).toHaveBeenCalled();
+      });
+
+      it("should only offer vocabulary for spelling alerts", () => {
+        const alert = createMockValeAlert({
+          Check: "Microsoft.Wordiness",
+          Action: { Name: "", Params: [] },
+        });
+
+        const dom = createTooltipContent(alert, {
+          onAddToVocabulary: jest.fn(),
+        });
+
+        expect(dom.querySelector(".vale-tooltip__fixes")).toBeNull();
+      });
+
+      it("should not show fixes without onFix", () => {
+        const alert = createMockValeAlert({
+          Action: { Name: "replace", Params: ["use"] },
+        });
+
+        const dom = createTooltipContent(alert);
+
+        expect(dom.querySelector(".vale-tooltip__fixes")).toBeNull();
+      });
+
+      it("should offer to dismiss the alert", () => {
+        const onDismiss = jest.fn();
+        const alert = createMockValeAlert({
+          Action: { Name: "", Params: [] },
+        });
+
+        const dom = createTooltipContent(alert, { onDismiss });
+        const button = dom.querySelector<HTMLElement>(".vale-tooltip__fix");
+        button?.click();
+
+        expect(button?.textContent).toBe("Dismiss");
+        expect(onDismiss).toHaveBeenCalled();
+      });
+
+      it("should offer to ignore the alert", () => {
+        const onIgnoreHere = jest.fn();
+        const onIgnoreInNote = jest.fn();
+        const alert = createMockValeAlert({
+          Action: { Name: "", Params: [] },
+        });
+
+        const dom = createTooltipContent(alert, {
+          onIgnoreHere,
+          onIgnoreInNote,
+        });
+        const buttons = dom.querySelectorAll<HTMLElement>(".vale-tooltip__fix");
+        buttons.forEach((button) => button.click());
+
+        expect(Array.from(buttons, (button) => button.textContent)).toEqual([
+          "Ignore here",
+          "Ignore in this note",
+        ]);
+        expect(onIgnoreHere).toHaveBeenCalled();
+        expect(onIgnoreInNote).toHaveBeenCalled();
+      });
+    });
+
     describe("Edge Cases", () => {
       it("should handle empty match text", () => {
         const alert: ValeAlert = createMockValeAlert({
@@ -572,9 +680,6 @@ describe("Tooltip", () => {
     let container: HTMLElement;
 
     beforeEach(() => {
-      // Clear alert map before each test
-      valeAlertMap.clear();
-
       // Create container for EditorView
       container = document.createElement("div");
       document.body.appendChild(container);
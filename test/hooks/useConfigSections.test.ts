@@ -0,0 +1,109 @@
+/**
+ * Tests for useConfigSections hook.
+ *
+ * These tests cover:
+ * - Listing the sections of the config
+ * - Remembering the chosen section
+ * - Falling back when the chosen section isn't in the config
+ * - Combining the sections that apply to the current note
+ */
+
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { App } from "obsidian";
+import * as React from "react";
+import { AppContext } from "../../src/context/AppContext";
+import { useConfigSections } from "../../src/hooks/useConfigSections";
+import { EffectiveConfig } from "../../src/vale/configSections";
+import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
+
+const EFFECTIVE: EffectiveConfig = {
+  sections: ["*", "drafts/*.md"],
+  styles: new Map([["Vale", ["*"]]]),
+  values: new Map(),
+};
+
+/**
+ * Factory function to create a mock ValeConfigManager
+ */
+function createMockConfigManager(sections: string[]): ValeConfigManager {
+  return {
+    getFormatSections: jest.fn().mockResolvedValue(sections),
+    getEffectiveConfig: jest.fn().mockResolvedValue(EFFECTIVE),
+  } as unknown as ValeConfigManager;
+}
+
+/**
+ * Wrapper providing an app whose current note is in the drafts folder
+ */
+const wrapper = ({ children }: { children: React.ReactNode }) =>
+  React.createElement(
+    AppContext.Provider,
+    {
+      value: {
+        workspace: { getActiveFile: () => ({ path: "drafts/idea.md" }) },
+      } as unknown as App,
+    },
+    children,
+  );
+
+describe("useConfigSections", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should edit [*.md] until sections are loaded", () => {
+    const { result } = renderHook(() => useConfigSections(undefined));
+
+    expect(result.current.section).toBe("*.md");
+    expect(result.current.sections).toEqual([]);
+    expect(result.current.notePath).toBeNull();
+  });
+
+  it("should list sections and combine the current note's", async () => {
+    const configManager = createMockConfigManager(["*", "drafts/*.md"]);
+    const { result } = renderHook(() => useConfigSections(configManager), {
+      wrapper,
+    });
+
+    await waitFor(() => {
+      expect(result.current.sections).toEqual(["*", "drafts/*.md"]);
+    });
+    expect(result.current.effective).toBe(EFFECTIVE);
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.getEffectiveConfig).toHaveBeenCalledWith(
+      "drafts/idea.md",
+    );
+  });
+
+  it("should fall back to the first section without [*.md]", async () => {
+    const configManager = createMockConfigManager(["*", "drafts/*.md"]);
+    const { result } = renderHook(() => useConfigSections(configManager));
+
+    await waitFor(() => {
+      expect(result.current.section).toBe("*");
+    });
+  });
+
+  it("should remember the chosen section", async () => {
+    const configManager = createMockConfigManager(["*.md", "drafts/*.md"]);
+    const { result, unmount } = renderHook(() =>
+      useConfigSections(configManager),
+    );
+    await waitFor(() => {
+      expect(result.current.sections).toHaveLength(2);
+    });
+
+    act(() => {
+      result.current.setSection("drafts/*.md");
+    });
+    expect(result.current.section).toBe("drafts/*.md");
+    unmount();
+
+    const { result: next } = renderHook(() => useConfigSections(configManager));
+    expect(next.current.section).toBe("drafts/*.md");
+    await waitFor(() => {
+      expect(next.current.sections).toHaveLength(2);
+    });
+    expect(next.current.section).toBe("drafts/*.md");
+  });
+});
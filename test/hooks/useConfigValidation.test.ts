@@ -5,6 +5,7 @@
  * - Path existence validation
  * - Config file parsing to ValeConfig object
  * - Config structure validation (*, *.md sections, etc.)
+ * - Validation of unsaved config text, by line
  * - Debounced validation (500ms delay)
  * - AbortController for cleanup and cancellation
  *
@@ -371,7 +372,7 @@ describe("useConfigValidation", () => {
       });
     });
 
-    it("should reject config without * section", async () => {
+    it("should reject config without a section for notes", async () => {
       const badConfig = {
         StylesPath: "styles",
         // Missing "*" section
@@ -393,12 +394,12 @@ describe("useConfigValidation", () => {
       await waitFor(() => {
         expect(result.current.valid).toBe(false);
         expect(result.current.error).toBe(
-          'Config file must have a "*" section',
+          'Config file must have a section for notes, such as "[*.md]"',
         );
       });
     });
 
-    it("should reject config with non-object * section", async () => {
+    it("should reject config with a non-object section", async () => {
       const badConfig = {
         "*": "not an object",
       };
@@ -419,22 +420,24 @@ describe("useConfigValidation", () => {
       await waitFor(() => {
         expect(result.current.valid).toBe(false);
         expect(result.current.error).toBe(
-          'Config file must have a "*" section',
+          'Config file must have a section for notes, such as "[*.md]"',
         );
       });
     });
 
-    it("should reject config without *.md section", async () => {
-      const badConfig = {
+    it("should accept config with other sections for notes", async () => {
+      const otherConfig = {
         "*": {
-          // Missing "md" section
           txt: { BasedOnStyles: "Vale" },
         },
+        "drafts/*": {
+          md: { BasedOnStyles: "Vale", "Vale.Spelling": "NO" },
+        },
       };
 
       mockConfigManager.validateConfigPath.mockResolvedValue({ valid: true });
       mockConfigManager.loadConfig.mockResolvedValue(
-        badConfig as unknown as ValeConfig,
+        otherConfig as unknown as ValeConfig,
       );
 
       const { result } = renderHook(() =>
@@ -446,18 +449,14 @@ describe("useConfigValidation", () => {
       });
 
       await waitFor(() => {
-        expect(result.current.valid).toBe(false);
-        expect(result.current.error).toBe(
-          'Config file must have a "*.md" section',
-        );
+        expect(result.current.valid).toBe(true);
+        expect(result.current.error).toBeUndefined();
       });
     });
 
-    it("should reject config with non-object *.md section", async () => {
+    it("should reject config with only a [formats] section", async () => {
       const badConfig = {
-        "*": {
-          md: "not an object",
-        },
+        formats: { mdx: "md" },
       };
 
       mockConfigManager.validateConfigPath.mockResolvedValue({ valid: true });
@@ -476,7 +475,7 @@ describe("useConfigValidation", () => {
       await waitFor(() => {
         expect(result.current.valid).toBe(false);
         expect(result.current.error).toBe(
-          'Config file must have a "*.md" section',
+          'Config file must have a section for notes, such as "[*.md]"',
         );
       });
     });
@@ -1124,7 +1123,7 @@ describe("useConfigValidation", () => {
         expect(result.current).toEqual({
           valid: false,
           config: null,
-          error: 'Config file must have a "*" section',
+          error: 'Config file must have a section for notes, such as "[*.md]"',
           isValidating: false,
         });
       });
@@ -1423,7 +1422,7 @@ describe("useConfigValidation", () => {
       });
     });
 
-    it("should check * section exists before checking md section", async () => {
+    it("should check a section for notes exists before checking BasedOnStyles", async () => {
       const configWithoutStar = {
         StylesPath: "styles",
         // No "*" section at all
@@ -1443,26 +1442,66 @@ describe("useConfigValidation", () => {
       });
 
       await waitFor(() => {
-        // Should fail on * check, not md check
         expect(result.current.error).toBe(
-          'Config file must have a "*" section',
+          'Config file must have a section for notes, such as "[*.md]"',
         );
       });
     });
 
-    it("should check md section exists before checking BasedOnStyles", async () => {
-      const configWithoutMd = {
+    it("should check BasedOnStyles in every section", async () => {
+      const configWithBadSection = {
         "*": {
-          // No "md" section
-          txt: { BasedOnStyles: "Vale" },
+          md: { BasedOnStyles: "Vale" },
+          txt: { BasedOnStyles: 123 },
         },
       };
 
       mockConfigManager.validateConfigPath.mockResolvedValue({ valid: true });
       mockConfigManager.loadConfig.mockResolvedValue(
-        configWithoutMd as unknown as ValeConfig,
+        configWithBadSection as unknown as ValeConfig,
+      );
+
+      const { result } = renderHook(() =>
+        useConfigValidation(mockConfigManager),
+      );
+
+      act(() => {
+        jest.advanceTimersByTime(DEBOUNCE_DELAY_MS);
+      });
+
+      await waitFor(() => {
+        expect(result.current.error).toBe("BasedOnStyles must be a string");
+      });
+    });
+
+    it("should check the values of known keys", async () => {
+      mockConfigManager.validateConfigPath.mockResolvedValue({ valid: true });
+      mockConfigManager.loadConfig.mockResolvedValue({
+        ...validConfig,
+        MinAlertLevel: "info",
+      } as unknown as ValeConfig);
+
+      const { result } = renderHook(() =>
+        useConfigValidation(mockConfigManager),
       );
 
+      act(() => {
+        jest.advanceTimersByTime(DEBOUNCE_DELAY_MS);
+      });
+
+      await waitFor(() => {
+        expect(result.current.error).toBe(
+          "MinAlertLevel must be suggestion, warning or error",
+        );
+      });
+    });
+
+    it("should check the severities of rules", async () => {
+      mockConfigManager.validateConfigPath.mockResolvedValue({ valid: true });
+      mockConfigManager.loadConfig.mockResolvedValue({
+        "*": { md: { BasedOnStyles: "Vale", "Vale.Spelling": "off" } },
+      });
+
       const { result } = renderHook(() =>
         useConfigValidation(mockConfigManager),
       );
@@ -1472,11 +1511,104 @@ describe("useConfigValidation", () => {
       });
 
       await waitFor(() => {
-        // Should fail on md check, not BasedOnStyles check
         expect(result.current.error).toBe(
-          'Config file must have a "*.md" section',
+          "Vale.Spelling must be YES, NO, suggestion, warning or error",
         );
       });
     });
   });
+
+  describe("validating text", () => {
+    it("should validate the text instead of the config file", async () => {
+      const { result } = renderHook(() =>
+        useConfigValidation(
+          mockConfigManager,
+          "StylesPath = styles\nTypo = 1\n\n[*.md]\nBasedOnStyles = Vale\n",
+        ),
+      );
+
+      act(() => {
+        jest.advanceTimersByTime(DEBOUNCE_DELAY_MS);
+      });
+
+      await waitFor(() => {
+        expect(result.current).toEqual({
+          valid: true,
+          config: {
+            StylesPath: "styles",
+            Typo: "1",
+            "*": { md: { BasedOnStyles: "Vale" } },
+          },
+          error: undefined,
+          isValidating: false,
+          diagnostics: [
+            { line: 2, severity: "warning", message: 'Unknown key "Typo"' },
+          ],
+        });
+      });
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockConfigManager.loadConfig).not.toHaveBeenCalled();
+    });
+
+    it("should report the first error with its line", async () => {
+      const { result } = renderHook(() =>
+        useConfigValidation(
+          mockConfigManager,
+          "MinAlertLevel = info\n[*.md]\nBasedOnStyles Vale\n",
+        ),
+      );
+
+      act(() => {
+        jest.advanceTimersByTime(DEBOUNCE_DELAY_MS);
+      });
+
+      await waitFor(() => {
+        expect(result.current.valid).toBe(false);
+        expect(result.current.error).toBe(
+          "Line 1: MinAlertLevel must be suggestion, warning or error",
+        );
+        expect(result.current.diagnostics).toHaveLength(2);
+      });
+    });
+
+    it("should report structure errors of valid lines", async () => {
+      const { result } = renderHook(() =>
+        useConfigValidation(mockConfigManager, "StylesPath = styles\n"),
+      );
+
+      act(() => {
+        jest.advanceTimersByTime(DEBOUNCE_DELAY_MS);
+      });
+
+      await waitFor(() => {
+        expect(result.current.error).toBe(
+          'Config file must have a section for notes, such as "[*.md]"',
+        );
+        expect(result.current.diagnostics).toEqual([]);
+      });
+    });
+
+    it("should revalidate when the text changes", async () => {
+      const { result, rerender } = renderHook(
+        ({ text }) => useConfigValidation(mockConfigManager, text),
+        { initialProps: { text: "[*.md]\nVale.Spelling = off\n" } },
+      );
+
+      act(() => {
+        jest.advanceTimersByTime(DEBOUNCE_DELAY_MS);
+      });
+      await waitFor(() => {
+        expect(result.current.valid).toBe(false);
+      });
+
+      rerender({ text: "[*.md]\nVale.Spelling = NO\n" });
+      act(() => {
+        jest.advanceTimersByTime(DEBOUNCE_DELAY_MS);
+      });
+
+      await waitFor(() => {
+        expect(result.current.valid).toBe(true);
+      });
+    });
+  });
 });
@@ -134,7 +134,10 @@ describe("useRules", () => {
       // eslint-disable-next-line @typescript-eslint/unbound-method
       expect(configManager.getRulesWithDefaults).toHaveBeenCalledWith("Google");
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getConfiguredRules).toHaveBeenCalledWith("Google");
+      expect(configManager.getConfiguredRules).toHaveBeenCalledWith(
+        "Google",
+        "*.md",
+      );
     });
 
     it("should fetch both available and configured rules in parallel", async () => {
@@ -560,6 +563,7 @@ describe("useRules", () => {
       expect(configManager.updateRule).toHaveBeenCalledWith(
         "Google",
         updatedRule,
+        "*.md",
       );
     });
 
@@ -922,6 +926,7 @@ describe("useRules", () => {
         // eslint-disable-next-line @typescript-eslint/unbound-method
         expect(configManager.getConfiguredRules).toHaveBeenCalledWith(
           "Microsoft",
+          "*.md",
         );
       });
     });
@@ -3,7 +3,7 @@
  *
  * These tests cover:
  * - Initial state and loading behavior
- * - Managed mode (hardcoded library styles)
+ * - Managed mode (styles of the style library)
  * - Custom mode (installed styles from filesystem)
  * - Error handling (config not found, configManager unavailable)
  * - Refetch functionality
@@ -15,6 +15,7 @@ import { renderHook, act, waitFor } from "@testing-library/react";
 import { useStyles } from "../../src/hooks/useStyles";
 import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
 import { ValeSettings, ValeStyle } from "../../src/types";
+import { StyleLibrary } from "../../src/vale/styleLibrary";
 import {
   createLibraryStyles,
   createInstalledStyles,
@@ -23,6 +24,7 @@ import {
   createEmptyStyles,
   createValeOnly,
   createMixedStyles,
+  createStyleLibrary,
 } from "../mocks/valeStyles";
 
 /**
@@ -73,7 +75,7 @@ function createMockConfigManager(
 ): jest.Mocked<ValeConfigManager> {
   return {
     configPathExists: jest.fn().mockResolvedValue(true),
-    getAvailableStyles: jest.fn().mockResolvedValue(createLibraryStyles()),
+    getStyleLibrary: jest.fn().mockResolvedValue(createStyleLibrary()),
     getInstalledStyles: jest.fn().mockResolvedValue(createInstalledStyles()),
     getEnabledStyles: jest.fn().mockResolvedValue(createEnabledStyles()),
     // Include other methods that may be called
@@ -113,7 +115,7 @@ describe("useStyles", () => {
   });
 
   describe("managed mode", () => {
-    it("should call getAvailableStyles in managed mode", async () => {
+    it("should call getStyleLibrary in managed mode", async () => {
       const settings = createManagedSettings();
       const configManager = createMockConfigManager();
 
@@ -124,7 +126,7 @@ describe("useStyles", () => {
       });
 
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalledTimes(1);
+      expect(configManager.getStyleLibrary).toHaveBeenCalledTimes(1);
       // eslint-disable-next-line @typescript-eslint/unbound-method
       expect(configManager.getInstalledStyles).not.toHaveBeenCalled();
     });
@@ -133,7 +135,9 @@ describe("useStyles", () => {
       const libraryStyles = createLibraryStyles();
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
-        getAvailableStyles: jest.fn().mockResolvedValue(libraryStyles),
+        getStyleLibrary: jest
+          .fn()
+          .mockResolvedValue(createStyleLibrary(libraryStyles)),
       });
 
       const { result } = renderHook(() => useStyles(settings, configManager));
@@ -203,7 +207,7 @@ describe("useStyles", () => {
       // eslint-disable-next-line @typescript-eslint/unbound-method
       expect(configManager.getInstalledStyles).toHaveBeenCalledTimes(1);
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).not.toHaveBeenCalled();
+      expect(configManager.getStyleLibrary).not.toHaveBeenCalled();
     });
 
     it("should return installed styles without URLs in custom mode", async () => {
@@ -370,15 +374,49 @@ describe("useStyles", () => {
       expect(msStyle?.isMissing).toBe(true);
     });
 
+    it("should return the style library and download it again", async () => {
+      const settings = createManagedSettings();
+      const offline: StyleLibrary = {
+        styles: createLibraryStyles(),
+        source: "cache",
+        fetchedAt: 0,
+        error: "Network error",
+      };
+      const configManager = createMockConfigManager({
+        getStyleLibrary: jest
+          .fn()
+          .mockResolvedValueOnce(offline)
+          .mockResolvedValueOnce(createStyleLibrary()),
+      });
+
+      const { result } = renderHook(() => useStyles(settings, configManager));
+
+      await waitFor(() => {
+        expect(result.current.library).toBe(offline);
+      });
+
+      await act(async () => {
+        await result.current.refreshLibrary();
+      });
+
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(configManager.getStyleLibrary).toHaveBeenNthCalledWith(1, false);
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(configManager.getStyleLibrary).toHaveBeenNthCalledWith(2, true);
+      expect(result.current.library?.source).toBe("remote");
+    });
+
     it("should NOT detect missing styles in Managed mode", async () => {
-      // In Managed mode, we use getAvailableStyles which is the library
+      // In Managed mode, the styles come from the style library
       // Missing style detection only applies to Custom mode
       const libraryStyles = createLibraryStyles();
       const settings = createManagedSettings();
       // Even if enabled styles has something not in available, we don't mark as missing
       const enabledStyles = ["Vale", "SomeRandomStyle"];
       const configManager = createMockConfigManager({
-        getAvailableStyles: jest.fn().mockResolvedValue(libraryStyles),
+        getStyleLibrary: jest
+          .fn()
+          .mockResolvedValue(createStyleLibrary(libraryStyles)),
         getEnabledStyles: jest.fn().mockResolvedValue(enabledStyles),
       });
 
@@ -402,9 +440,9 @@ describe("useStyles", () => {
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
         // Use a slow async function to test loading state
-        getAvailableStyles: jest.fn().mockImplementation(async () => {
+        getStyleLibrary: jest.fn().mockImplementation(async () => {
           await new Promise((resolve) => setTimeout(resolve, 50));
-          return createLibraryStyles();
+          return createStyleLibrary();
         }),
       });
 
@@ -455,9 +493,9 @@ describe("useStyles", () => {
       const slowStyles = createLibraryStyles();
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
-        getAvailableStyles: jest.fn().mockImplementation(async () => {
+        getStyleLibrary: jest.fn().mockImplementation(async () => {
           await new Promise((resolve) => setTimeout(resolve, 100));
-          return slowStyles;
+          return createStyleLibrary(slowStyles);
         }),
       });
 
@@ -515,10 +553,10 @@ describe("useStyles", () => {
       expect(result.current.error?.message).toContain("General settings");
     });
 
-    it("should set error when getAvailableStyles throws", async () => {
+    it("should set error when getStyleLibrary throws", async () => {
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
-        getAvailableStyles: jest
+        getStyleLibrary: jest
           .fn()
           .mockRejectedValue(new Error("Failed to fetch library")),
       });
@@ -572,7 +610,7 @@ describe("useStyles", () => {
     it("should convert non-Error rejections to Error", async () => {
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
-        getAvailableStyles: jest.fn().mockRejectedValue("string error"),
+        getStyleLibrary: jest.fn().mockRejectedValue("string error"),
       });
 
       const { result } = renderHook(() => useStyles(settings, configManager));
@@ -623,7 +661,7 @@ describe("useStyles", () => {
       });
 
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalledTimes(1);
+      expect(configManager.getStyleLibrary).toHaveBeenCalledTimes(1);
 
       // Refetch
       await act(async () => {
@@ -631,7 +669,7 @@ describe("useStyles", () => {
       });
 
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalledTimes(2);
+      expect(configManager.getStyleLibrary).toHaveBeenCalledTimes(2);
     });
 
     it("should update styles when data changes on refetch", async () => {
@@ -643,10 +681,10 @@ describe("useStyles", () => {
 
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
-        getAvailableStyles: jest
+        getStyleLibrary: jest
           .fn()
-          .mockResolvedValueOnce(initialStyles)
-          .mockResolvedValueOnce(updatedStyles),
+          .mockResolvedValueOnce(createStyleLibrary(initialStyles))
+          .mockResolvedValueOnce(createStyleLibrary(updatedStyles)),
       });
 
       const { result } = renderHook(() => useStyles(settings, configManager));
@@ -706,9 +744,9 @@ describe("useStyles", () => {
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
         // Slow fetch that will complete after unmount
-        getAvailableStyles: jest.fn().mockImplementation(async () => {
+        getStyleLibrary: jest.fn().mockImplementation(async () => {
           await new Promise((resolve) => setTimeout(resolve, 100));
-          return createLibraryStyles();
+          return createStyleLibrary();
         }),
         getEnabledStyles: jest.fn().mockImplementation(async () => {
           await new Promise((resolve) => setTimeout(resolve, 100));
@@ -742,7 +780,7 @@ describe("useStyles", () => {
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
         // Slow fetch that will error after unmount
-        getAvailableStyles: jest.fn().mockImplementation(async () => {
+        getStyleLibrary: jest.fn().mockImplementation(async () => {
           await new Promise((resolve) => setTimeout(resolve, 100));
           throw new Error("Network error");
         }),
@@ -785,7 +823,7 @@ describe("useStyles", () => {
       });
 
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalledTimes(1);
+      expect(configManager.getStyleLibrary).toHaveBeenCalledTimes(1);
       // eslint-disable-next-line @typescript-eslint/unbound-method
       expect(configManager.getInstalledStyles).not.toHaveBeenCalled();
 
@@ -817,7 +855,7 @@ describe("useStyles", () => {
       // eslint-disable-next-line @typescript-eslint/unbound-method
       expect(configManager.getInstalledStyles).toHaveBeenCalledTimes(1);
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).not.toHaveBeenCalled();
+      expect(configManager.getStyleLibrary).not.toHaveBeenCalled();
 
       // Switch to managed mode
       rerender({ settings: managedSettings });
@@ -827,20 +865,24 @@ describe("useStyles", () => {
       });
 
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalledTimes(1);
+      expect(configManager.getStyleLibrary).toHaveBeenCalledTimes(1);
     });
 
     it("should use correct API when configManager changes", async () => {
       const settings = createManagedSettings();
       const configManager1 = createMockConfigManager({
-        getAvailableStyles: jest
+        getStyleLibrary: jest
           .fn()
-          .mockResolvedValue([{ name: "Style1", description: "First" }]),
+          .mockResolvedValue(
+            createStyleLibrary([{ name: "Style1", description: "First" }]),
+          ),
       });
       const configManager2 = createMockConfigManager({
-        getAvailableStyles: jest
+        getStyleLibrary: jest
           .fn()
-          .mockResolvedValue([{ name: "Style2", description: "Second" }]),
+          .mockResolvedValue(
+            createStyleLibrary([{ name: "Style2", description: "Second" }]),
+          ),
       });
 
       const { result, rerender } = renderHook(
@@ -885,7 +927,7 @@ describe("useStyles", () => {
       // settings.type === "cli" && !settings.cli.managed
       // This will be false because type is "server"
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalledTimes(1);
+      expect(configManager.getStyleLibrary).toHaveBeenCalledTimes(1);
       // eslint-disable-next-line @typescript-eslint/unbound-method
       expect(configManager.getInstalledStyles).not.toHaveBeenCalled();
     });
@@ -928,7 +970,9 @@ describe("useStyles", () => {
       ];
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
-        getAvailableStyles: jest.fn().mockResolvedValue(specialStyles),
+        getStyleLibrary: jest
+          .fn()
+          .mockResolvedValue(createStyleLibrary(specialStyles)),
       });
 
       const { result } = renderHook(() => useStyles(settings, configManager));
@@ -952,7 +996,9 @@ describe("useStyles", () => {
       }));
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
-        getAvailableStyles: jest.fn().mockResolvedValue(manyStyles),
+        getStyleLibrary: jest
+          .fn()
+          .mockResolvedValue(createStyleLibrary(manyStyles)),
       });
 
       const { result } = renderHook(() => useStyles(settings, configManager));
@@ -971,7 +1017,9 @@ describe("useStyles", () => {
       ];
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
-        getAvailableStyles: jest.fn().mockResolvedValue(minimalStyles),
+        getStyleLibrary: jest
+          .fn()
+          .mockResolvedValue(createStyleLibrary(minimalStyles)),
       });
 
       const { result } = renderHook(() => useStyles(settings, configManager));
@@ -991,7 +1039,7 @@ describe("useStyles", () => {
       let callCount = 0;
       const settings = createManagedSettings();
       const configManager = createMockConfigManager({
-        getAvailableStyles: jest.fn().mockImplementation(async () => {
+        getStyleLibrary: jest.fn().mockImplementation(async () => {
           callCount++;
           await new Promise((resolve) => setTimeout(resolve, 50));
           return [{ name: `Style${callCount}` }];
@@ -1019,7 +1067,7 @@ describe("useStyles", () => {
       // Due to the isMountedRef check, all calls should complete
       // The final state will be from the last resolved promise
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalledTimes(4); // 1 initial + 3 refetches
+      expect(configManager.getStyleLibrary).toHaveBeenCalledTimes(4); // 1 initial + 3 refetches
     });
   });
 
@@ -1039,14 +1087,14 @@ describe("useStyles", () => {
       });
 
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalledTimes(1);
+      expect(configManager.getStyleLibrary).toHaveBeenCalledTimes(1);
 
       // Rerender with same settings object
       rerender({ settings, cm: configManager });
 
       // Should not trigger another fetch (same object reference)
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalledTimes(1);
+      expect(configManager.getStyleLibrary).toHaveBeenCalledTimes(1);
     });
 
     it("should refetch when settings object reference changes", async () => {
@@ -1064,7 +1112,7 @@ describe("useStyles", () => {
       });
 
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalledTimes(1);
+      expect(configManager.getStyleLibrary).toHaveBeenCalledTimes(1);
 
       // Rerender with new settings object (different reference)
       rerender({ settings: settings2 });
@@ -1076,7 +1124,7 @@ describe("useStyles", () => {
       // May trigger another fetch due to new object reference
       // (depends on useCallback's dependency comparison)
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(configManager.getAvailableStyles).toHaveBeenCalled();
+      expect(configManager.getStyleLibrary).toHaveBeenCalled();
     });
   });
 });
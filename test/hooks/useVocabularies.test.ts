@@ -0,0 +1,121 @@
+/**
+ * Tests for useVocabularies hook.
+ *
+ * These tests cover:
+ * - Loading the vocabularies
+ * - Reloading the list after a change
+ * - Reporting failed changes to the caller
+ */
+
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { useVocabularies } from "../../src/hooks/useVocabularies";
+import { ValeVocabulary } from "../../src/types";
+import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
+
+const TEAM: ValeVocabulary = {
+  name: "Team",
+  active: true,
+  acceptCount: 2,
+  rejectCount: 0,
+};
+
+/**
+ * Factory function to create a mock ValeConfigManager
+ */
+function createMockConfigManager(): jest.Mocked<ValeConfigManager> {
+  return {
+    getVocabularies: jest.fn().mockResolvedValue([TEAM]),
+    createVocabulary: jest.fn().mockResolvedValue(undefined),
+    renameVocabulary: jest.fn().mockResolvedValue(undefined),
+    deleteVocabulary: jest.fn().mockResolvedValue(undefined),
+    setVocabularyActive: jest.fn().mockResolvedValue(undefined),
+  } as unknown as jest.Mocked<ValeConfigManager>;
+}
+
+describe("useVocabularies", () => {
+  it("should report a missing config manager", async () => {
+    const { result } = renderHook(() => useVocabularies(undefined));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.error?.message).toBe("Config manager not available");
+  });
+
+  it("should load the vocabularies", async () => {
+    const configManager = createMockConfigManager();
+    const { result } = renderHook(() => useVocabularies(configManager));
+
+    expect(result.current.loading).toBe(true);
+    await waitFor(() => {
+      expect(result.current.vocabularies).toEqual([TEAM]);
+    });
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("should reload the list after a change", async () => {
+    const configManager = createMockConfigManager();
+    const { result } = renderHook(() => useVocabularies(configManager));
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    const docs = { ...TEAM, name: "Docs", active: false, acceptCount: 0 };
+    configManager.getVocabularies.mockResolvedValue([docs, TEAM]);
+    await act(async () => {
+      await result.current.createVocabulary("Docs");
+    });
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.createVocabulary).toHaveBeenCalledWith("Docs");
+    expect(result.current.vocabularies).toEqual([docs, TEAM]);
+  });
+
+  it("should pass changes to the config manager", async () => {
+    const configManager = createMockConfigManager();
+    const { result } = renderHook(() => useVocabularies(configManager));
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.setActive("Team", false);
+      await result.current.renameVocabulary("Team", "Company");
+      await result.current.deleteVocabulary("Company");
+    });
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.setVocabularyActive).toHaveBeenCalledWith(
+      "Team",
+      false,
+    );
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.renameVocabulary).toHaveBeenCalledWith(
+      "Team",
+      "Company",
+    );
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.deleteVocabulary).toHaveBeenCalledWith("Company");
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.getVocabularies).toHaveBeenCalledTimes(4);
+  });
+
+  it("should reject with the error of a failed change", async () => {
+    const configManager = createMockConfigManager();
+    configManager.deleteVocabulary.mockRejectedValue(new Error("EACCES"));
+    const { result } = renderHook(() => useVocabularies(configManager));
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await expect(result.current.deleteVocabulary("Team")).rejects.toThrow(
+        "EACCES",
+      );
+    });
+    expect(result.current.error).toBeNull();
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.getVocabularies).toHaveBeenCalledTimes(2);
+  });
+});
@@ -29,7 +29,7 @@ import {
 } from "../../src/components/ErrorBoundary";
 import * as hooks from "../../src/hooks";
 import * as settingsContext from "../../src/context/SettingsContext";
-import { createLibraryStyles } from "../mocks/valeStyles";
+import { createStyleLibrary } from "../mocks/valeStyles";
 
 // Type for mocked plugin
 type MockedPlugin = {
@@ -64,7 +64,7 @@ function createMockPlugin(
     configPathExists: jest.fn().mockResolvedValue(true),
     validateValePath: jest.fn().mockResolvedValue({ valid: true }),
     validateConfigPath: jest.fn().mockResolvedValue({ valid: true }),
-    getAvailableStyles: jest.fn().mockResolvedValue(createLibraryStyles()),
+    getStyleLibrary: jest.fn().mockResolvedValue(createStyleLibrary()),
     getInstalledStyles: jest.fn().mockResolvedValue([]),
     getEnabledStyles: jest.fn().mockResolvedValue(["Vale"]),
     enableStyle: jest.fn().mockResolvedValue(undefined),
@@ -196,7 +196,7 @@ describe("Error Handling and Recovery Integration Tests", () => {
       });
 
       // Simulate network error
-      plugin.configManager.getAvailableStyles.mockRejectedValue(
+      plugin.configManager.getStyleLibrary.mockRejectedValue(
         new Error("Network request failed"),
       );
 
@@ -220,7 +220,7 @@ describe("Error Handling and Recovery Integration Tests", () => {
       // StyleSettings should show error with retry option
       await waitFor(() => {
         // eslint-disable-next-line @typescript-eslint/unbound-method
-        expect(plugin.configManager.getAvailableStyles).toHaveBeenCalled();
+        expect(plugin.configManager.getStyleLibrary).toHaveBeenCalled();
       });
 
       // Verify error message is displayed to the user
@@ -244,9 +244,9 @@ describe("Error Handling and Recovery Integration Tests", () => {
       });
 
       // First call fails, second succeeds
-      plugin.configManager.getAvailableStyles
+      plugin.configManager.getStyleLibrary
         .mockRejectedValueOnce(new Error("Network error"))
-        .mockResolvedValueOnce(createLibraryStyles());
+        .mockResolvedValueOnce(createStyleLibrary());
 
       // Enable Styles tab by setting configPathValid: true
       renderSettingsRouter(plugin, {
@@ -268,9 +268,7 @@ describe("Error Handling and Recovery Integration Tests", () => {
       // First call should fail
       await waitFor(() => {
         // eslint-disable-next-line @typescript-eslint/unbound-method
-        expect(plugin.configManager.getAvailableStyles).toHaveBeenCalledTimes(
-          1,
-        );
+        expect(plugin.configManager.getStyleLibrary).toHaveBeenCalledTimes(1);
       });
 
       // Look for and click retry button if it exists
@@ -286,9 +284,7 @@ describe("Error Handling and Recovery Integration Tests", () => {
         // Second call should succeed
         await waitFor(() => {
           // eslint-disable-next-line @typescript-eslint/unbound-method
-          expect(plugin.configManager.getAvailableStyles).toHaveBeenCalledTimes(
-            2,
-          );
+          expect(plugin.configManager.getStyleLibrary).toHaveBeenCalledTimes(2);
         });
       } else {
         // If no retry button, verify the error state is properly shown
@@ -774,7 +770,7 @@ describe("Error Recovery - Specific Error Scenarios", () => {
     });
 
     // Reject with undefined (edge case)
-    plugin.configManager.getAvailableStyles.mockRejectedValue(undefined);
+    plugin.configManager.getStyleLibrary.mockRejectedValue(undefined);
 
     renderSettingsRouter(plugin);
 
@@ -803,7 +799,7 @@ describe("Error Recovery - Specific Error Scenarios", () => {
     });
 
     // Reject with a string instead of Error
-    plugin.configManager.getAvailableStyles.mockRejectedValue(
+    plugin.configManager.getStyleLibrary.mockRejectedValue(
       "Something went wrong",
     );
 
@@ -834,7 +830,7 @@ describe("Error Recovery - Specific Error Scenarios", () => {
     });
 
     const specificError = new Error("SPECIFIC_ERROR_CODE: detailed message");
-    plugin.configManager.getAvailableStyles.mockRejectedValue(specificError);
+    plugin.configManager.getStyleLibrary.mockRejectedValue(specificError);
 
     renderSettingsRouter(plugin);
 
@@ -874,7 +870,7 @@ describe("Error Recovery - User Workflows", () => {
       },
     });
 
-    plugin.configManager.getAvailableStyles.mockRejectedValue(
+    plugin.configManager.getStyleLibrary.mockRejectedValue(
       new Error("Failed to load styles"),
     );
 
@@ -29,6 +29,7 @@ import { ValeSettings, DEFAULT_SETTINGS } from "../../src/types";
 import { SettingsRouter } from "../../src/settings/SettingsRouter";
 import ValePlugin from "../../src/main";
 import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
+import { createStyleLibrary } from "../mocks/valeStyles";
 import * as hooks from "../../src/hooks";
 import * as valeDetectionHook from "../../src/hooks/useValeDetection";
 import { SettingWithValidation } from "../../src/components/settings/SettingWithValidation";
@@ -73,13 +74,18 @@ function createMockPlugin(
     configPathExists: jest.fn().mockResolvedValue(true),
     validateValePath: jest.fn().mockResolvedValue({ valid: true }),
     validateConfigPath: jest.fn().mockResolvedValue({ valid: true }),
-    getAvailableStyles: jest.fn().mockResolvedValue([]),
+    getStyleLibrary: jest.fn().mockResolvedValue(createStyleLibrary([])),
     getInstalledStyles: jest.fn().mockResolvedValue([]),
     getEnabledStyles: jest.fn().mockResolvedValue([]),
     loadConfig: jest.fn().mockResolvedValue({
       StylesPath: "styles",
       "*": { md: { BasedOnStyles: "Vale" } },
     }),
+    loadConfigText: jest
+      .fn()
+      .mockResolvedValue(
+        "StylesPath = styles\n\n[*.md]\nBasedOnStyles = Vale\n",
+      ),
     getStylesPath: jest.fn().mockResolvedValue("/mock/styles"),
     getValePath: jest.fn().mockReturnValue("/mock/vale"),
     getConfigPath: jest.fn().mockReturnValue("/mock/.vale.ini"),
@@ -26,10 +26,7 @@ import ValePlugin from "../../src/main";
 import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
 import * as hooks from "../../src/hooks";
 import * as settingsContext from "../../src/context/SettingsContext";
-import {
-  createLibraryStyles,
-  createInstalledStyles,
-} from "../mocks/valeStyles";
+import { createInstalledStyles, createStyleLibrary } from "../mocks/valeStyles";
 
 // Type for mocked plugin
 type MockedPlugin = {
@@ -64,7 +61,7 @@ function createMockPlugin(
     configPathExists: jest.fn().mockResolvedValue(true),
     validateValePath: jest.fn().mockResolvedValue({ valid: true }),
     validateConfigPath: jest.fn().mockResolvedValue({ valid: true }),
-    getAvailableStyles: jest.fn().mockResolvedValue(createLibraryStyles()),
+    getStyleLibrary: jest.fn().mockResolvedValue(createStyleLibrary()),
     getInstalledStyles: jest.fn().mockResolvedValue(createInstalledStyles()),
     getEnabledStyles: jest.fn().mockResolvedValue(["Vale", "Google"]),
     enableStyle: jest.fn().mockResolvedValue(undefined),
@@ -265,7 +262,7 @@ describe("Rule Configuration Flow Integration Tests", () => {
       // Styles should be loaded
       await waitFor(() => {
         // eslint-disable-next-line @typescript-eslint/unbound-method
-        expect(plugin.configManager.getAvailableStyles).toHaveBeenCalled();
+        expect(plugin.configManager.getStyleLibrary).toHaveBeenCalled();
       });
     });
   });
@@ -297,7 +294,7 @@ describe("Rule Configuration Flow Integration Tests", () => {
       // Wait for styles to load
       await waitFor(() => {
         // eslint-disable-next-line @typescript-eslint/unbound-method
-        expect(plugin.configManager.getAvailableStyles).toHaveBeenCalled();
+        expect(plugin.configManager.getStyleLibrary).toHaveBeenCalled();
       });
 
       // updateRule should be defined and callable
@@ -527,12 +524,12 @@ describe("Rule Configuration Flow Integration Tests", () => {
       // Styles should be loaded
       await waitFor(() => {
         // eslint-disable-next-line @typescript-eslint/unbound-method
-        expect(plugin.configManager.getAvailableStyles).toHaveBeenCalled();
+        expect(plugin.configManager.getStyleLibrary).toHaveBeenCalled();
       });
 
-      // The getAvailableStyles was called when navigating to Styles
+      // The getStyleLibrary was called when navigating to Styles
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(plugin.configManager.getAvailableStyles).toHaveBeenCalled();
+      expect(plugin.configManager.getStyleLibrary).toHaveBeenCalled();
     });
   });
 
@@ -931,7 +928,7 @@ describe("Rule Configuration - Full Navigation Flow", () => {
     // Styles should be loaded
     await waitFor(() => {
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(plugin.configManager.getAvailableStyles).toHaveBeenCalled();
+      expect(plugin.configManager.getStyleLibrary).toHaveBeenCalled();
       // eslint-disable-next-line @typescript-eslint/unbound-method
       expect(plugin.configManager.getEnabledStyles).toHaveBeenCalled();
     });
@@ -960,10 +957,10 @@ describe("Rule Configuration - Full Navigation Flow", () => {
       jest.runAllTimers();
     });
 
-    // In managed mode, getAvailableStyles should be called
+    // In managed mode, getStyleLibrary should be called
     await waitFor(() => {
       // eslint-disable-next-line @typescript-eslint/unbound-method
-      expect(plugin.configManager.getAvailableStyles).toHaveBeenCalled();
+      expect(plugin.configManager.getStyleLibrary).toHaveBeenCalled();
     });
 
     // getInstalledStyles should NOT be called in managed mode
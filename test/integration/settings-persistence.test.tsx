@@ -28,7 +28,7 @@ import {
 import ValePlugin from "../../src/main";
 import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
 import * as hooks from "../../src/hooks";
-import { createLibraryStyles } from "../mocks/valeStyles";
+import { createStyleLibrary } from "../mocks/valeStyles";
 
 // Type for mocked plugin
 type MockedPlugin = {
@@ -64,7 +64,7 @@ function createMockPlugin(
     configPathExists: jest.fn().mockResolvedValue(true),
     validateValePath: jest.fn().mockResolvedValue({ valid: true }),
     validateConfigPath: jest.fn().mockResolvedValue({ valid: true }),
-    getAvailableStyles: jest.fn().mockResolvedValue(createLibraryStyles()),
+    getStyleLibrary: jest.fn().mockResolvedValue(createStyleLibrary()),
     getInstalledStyles: jest.fn().mockResolvedValue([]),
     getEnabledStyles: jest.fn().mockResolvedValue(["Vale"]),
     enableStyle: jest.fn().mockResolvedValue(undefined),
@@ -435,6 +435,7 @@ describe("Settings Persistence Integration Tests", () => {
       expect(DEFAULT_SETTINGS.cli.valePath).toBe("");
       expect(DEFAULT_SETTINGS.cli.configPath).toBe("");
       expect(DEFAULT_SETTINGS.cli.stylesPath).toBe("");
+      expect(DEFAULT_SETTINGS.showAlertMarkers).toBe(false);
     });
 
     it("should not override user settings with defaults on subsequent loads", async () => {
@@ -877,8 +878,15 @@ describe("Settings Persistence Integration Tests", () => {
         "autoOpenResultsPane",
         "checkOnNoteOpen",
         "cli",
+        "dismissalsPath",
+        "incrementalCheck",
+        "inlineMessageSeverities",
+        "lintDiagnostics",
+        "persistResultCache",
         "server",
+        "showAlertMarkers",
         "showEditorToolbarButton",
+        "styleLibraryUrl",
         "type",
       ]);
     });
@@ -30,6 +30,7 @@ import {
   createLibraryStyles,
   createInstalledStyles,
   mockStyles,
+  createStyleLibrary,
 } from "../mocks/valeStyles";
 
 // Type for mocked plugin
@@ -65,7 +66,7 @@ function createMockPlugin(
     configPathExists: jest.fn().mockResolvedValue(true),
     validateValePath: jest.fn().mockResolvedValue({ valid: true }),
     validateConfigPath: jest.fn().mockResolvedValue({ valid: true }),
-    getAvailableStyles: jest.fn().mockResolvedValue(createLibraryStyles()),
+    getStyleLibrary: jest.fn().mockResolvedValue(createStyleLibrary()),
     getInstalledStyles: jest.fn().mockResolvedValue(createInstalledStyles()),
     getEnabledStyles: jest.fn().mockResolvedValue(["Vale"]),
     enableStyle: jest.fn().mockResolvedValue(undefined),
@@ -185,7 +186,7 @@ async function waitForStylesLoaded(plugin: MockedPlugin) {
   // First wait for the API to be called
   await waitFor(() => {
     const availableCalls =
-      plugin.configManager.getAvailableStyles.mock.calls.length;
+      plugin.configManager.getStyleLibrary.mock.calls.length;
     const installedCalls =
       plugin.configManager.getInstalledStyles.mock.calls.length;
     expect(availableCalls + installedCalls).toBeGreaterThan(0);
@@ -252,7 +253,10 @@ describe("Style Toggle Flow Integration Tests", () => {
 
       // Verify enableStyle was called with correct style name
       await waitFor(() => {
-        expect(plugin.configManager.enableStyle).toHaveBeenCalledWith("Google");
+        expect(plugin.configManager.enableStyle).toHaveBeenCalledWith(
+          "Google",
+          "*.md",
+        );
       });
     });
 
@@ -293,7 +297,10 @@ describe("Style Toggle Flow Integration Tests", () => {
       // In Managed mode with URL, installStyle should be called
       await waitFor(() => {
         expect(plugin.configManager.installStyle).toHaveBeenCalled();
-        expect(plugin.configManager.enableStyle).toHaveBeenCalledWith("Google");
+        expect(plugin.configManager.enableStyle).toHaveBeenCalledWith(
+          "Google",
+          "*.md",
+        );
       });
     });
 
@@ -339,7 +346,10 @@ describe("Style Toggle Flow Integration Tests", () => {
 
       // In Custom mode, installStyle should NOT be called
       await waitFor(() => {
-        expect(plugin.configManager.enableStyle).toHaveBeenCalledWith("Google");
+        expect(plugin.configManager.enableStyle).toHaveBeenCalledWith(
+          "Google",
+          "*.md",
+        );
       });
       expect(plugin.configManager.installStyle).not.toHaveBeenCalled();
     });
@@ -392,7 +402,10 @@ describe("Style Toggle Flow Integration Tests", () => {
         jest.runAllTimers();
       });
 
-      expect(plugin.configManager.enableStyle).toHaveBeenCalledWith("Google");
+      expect(plugin.configManager.enableStyle).toHaveBeenCalledWith(
+        "Google",
+        "*.md",
+      );
     });
   });
 
@@ -441,6 +454,7 @@ describe("Style Toggle Flow Integration Tests", () => {
       await waitFor(() => {
         expect(plugin.configManager.disableStyle).toHaveBeenCalledWith(
           "Google",
+          "*.md",
         );
       });
     });
@@ -485,6 +499,7 @@ describe("Style Toggle Flow Integration Tests", () => {
       await waitFor(() => {
         expect(plugin.configManager.disableStyle).toHaveBeenCalledWith(
           "Google",
+          "*.md",
         );
         expect(plugin.configManager.uninstallStyle).toHaveBeenCalled();
       });
@@ -535,6 +550,7 @@ describe("Style Toggle Flow Integration Tests", () => {
       await waitFor(() => {
         expect(plugin.configManager.disableStyle).toHaveBeenCalledWith(
           "Google",
+          "*.md",
         );
       });
       expect(plugin.configManager.uninstallStyle).not.toHaveBeenCalled();
@@ -587,9 +603,13 @@ describe("Style Toggle Flow Integration Tests", () => {
 
       // Both should have been enabled
       await waitFor(() => {
-        expect(plugin.configManager.enableStyle).toHaveBeenCalledWith("Google");
+        expect(plugin.configManager.enableStyle).toHaveBeenCalledWith(
+          "Google",
+          "*.md",
+        );
         expect(plugin.configManager.enableStyle).toHaveBeenCalledWith(
           "Microsoft",
+          "*.md",
         );
         expect(plugin.configManager.enableStyle).toHaveBeenCalledTimes(2);
       });
@@ -943,8 +963,8 @@ describe("Style Toggle - Mode-Specific Behavior", () => {
       },
     });
 
-    plugin.configManager.getAvailableStyles.mockResolvedValue(
-      createLibraryStyles(),
+    plugin.configManager.getStyleLibrary.mockResolvedValue(
+      createStyleLibrary(),
     );
     plugin.configManager.getEnabledStyles.mockResolvedValue(["Vale"]);
 
@@ -961,7 +981,7 @@ describe("Style Toggle - Mode-Specific Behavior", () => {
     });
 
     await waitFor(() => {
-      expect(plugin.configManager.getAvailableStyles).toHaveBeenCalled();
+      expect(plugin.configManager.getStyleLibrary).toHaveBeenCalled();
     });
 
     // Should NOT call getInstalledStyles in Managed mode
@@ -999,8 +1019,8 @@ describe("Style Toggle - Mode-Specific Behavior", () => {
       expect(plugin.configManager.getInstalledStyles).toHaveBeenCalled();
     });
 
-    // In Custom mode, getAvailableStyles should NOT be called
-    expect(plugin.configManager.getAvailableStyles).not.toHaveBeenCalled();
+    // In Custom mode, getStyleLibrary should NOT be called
+    expect(plugin.configManager.getStyleLibrary).not.toHaveBeenCalled();
   });
 
   it("should show different header text based on mode", async () => {
@@ -1041,7 +1061,7 @@ describe("Style Toggle - Mode-Specific Behavior", () => {
 
     // Managed mode header: "Vale styles" (check it rendered)
     await waitFor(() => {
-      expect(managedPlugin.configManager.getAvailableStyles).toHaveBeenCalled();
+      expect(managedPlugin.configManager.getStyleLibrary).toHaveBeenCalled();
     });
 
     unmountManaged();
@@ -1088,7 +1108,9 @@ describe("Style Toggle - Edge Cases", () => {
       },
     });
 
-    plugin.configManager.getAvailableStyles.mockResolvedValue([]);
+    plugin.configManager.getStyleLibrary.mockResolvedValue(
+      createStyleLibrary([]),
+    );
     plugin.configManager.getEnabledStyles.mockResolvedValue([]);
 
     renderSettingsRouter(plugin);
@@ -1121,10 +1143,12 @@ describe("Style Toggle - Edge Cases", () => {
       },
     });
 
-    plugin.configManager.getAvailableStyles.mockResolvedValue([
-      mockStyles.vale, // Vale has no URL
-      ...createLibraryStyles(),
-    ]);
+    plugin.configManager.getStyleLibrary.mockResolvedValue(
+      createStyleLibrary([
+        mockStyles.vale, // Vale has no URL
+        ...createLibraryStyles(),
+      ]),
+    );
     plugin.configManager.getEnabledStyles.mockResolvedValue(["Vale"]);
 
     renderSettingsRouter(plugin);
@@ -1153,7 +1177,10 @@ describe("Style Toggle - Edge Cases", () => {
 
     // Vale should use disableStyle but NOT uninstallStyle (no URL)
     await waitFor(() => {
-      expect(plugin.configManager.disableStyle).toHaveBeenCalledWith("Vale");
+      expect(plugin.configManager.disableStyle).toHaveBeenCalledWith(
+        "Vale",
+        "*.md",
+      );
     });
     // installStyle/uninstallStyle not called for Vale (no URL)
   });
@@ -1174,10 +1201,9 @@ describe("Style Toggle - Edge Cases", () => {
       url: "https://example.com/style.zip",
     };
 
-    plugin.configManager.getAvailableStyles.mockResolvedValue([
-      longNameStyle,
-      ...createLibraryStyles(),
-    ]);
+    plugin.configManager.getStyleLibrary.mockResolvedValue(
+      createStyleLibrary([longNameStyle, ...createLibraryStyles()]),
+    );
     plugin.configManager.getEnabledStyles.mockResolvedValue([]);
 
     renderSettingsRouter(plugin);
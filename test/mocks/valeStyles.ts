@@ -3,6 +3,7 @@
  */
 
 import { ValeStyle } from "../../src/types";
+import { StyleLibrary } from "../../src/vale/styleLibrary";
 
 /**
  * Factory function to create a ValeStyle with sensible defaults
@@ -146,6 +147,15 @@ export function createLibraryStyles(): ValeStyle[] {
   ];
 }
 
+/**
+ * Creates a style library downloaded from its URL (for Managed mode)
+ */
+export function createStyleLibrary(
+  styles: ValeStyle[] = createLibraryStyles(),
+): StyleLibrary {
+  return { styles, source: "remote", fetchedAt: 0 };
+}
+
 /**
  * Creates a set of installed styles (without URLs for Custom mode)
  * These are styles found in the StylesPath directory
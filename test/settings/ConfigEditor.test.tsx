@@ -0,0 +1,126 @@
+/**
+ * ConfigEditor Component Tests
+ *
+ * Tests for the .vale.ini editor on the Configuration page covering:
+ * - Loading the config file into the editor
+ * - Listing the problems found in the text
+ * - Saving and reverting changes
+ */
+
+import "@testing-library/jest-dom";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { EditorView } from "@codemirror/view";
+import React from "react";
+import { ConfigEditor } from "../../src/settings/pages/ConfigEditor";
+import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
+
+const CONFIG = "StylesPath = styles\n\n[*.md]\nBasedOnStyles = Vale\n";
+
+describe("ConfigEditor", () => {
+  let loadConfigText: jest.Mock;
+  let saveConfigText: jest.Mock;
+
+  const renderEditor = async () => {
+    const configManager = {
+      getConfigPath: () => "/vault/.vale.ini",
+      loadConfigText,
+      saveConfigText,
+    } as unknown as ValeConfigManager;
+
+    const result = render(<ConfigEditor configManager={configManager} />);
+    await act(async () => {
+      await Promise.resolve();
+    });
+
+    const editor = result.container.querySelector(".cm-editor");
+    const view = EditorView.findFromDOM(editor as HTMLElement) as EditorView;
+    return { ...result, view };
+  };
+
+  // Replaces the text of the editor and waits for it to be validated.
+  const edit = (view: EditorView, text: string) => {
+    act(() => {
+      view.dispatch({
+        changes: { from: 0, to: view.state.doc.length, insert: text },
+      });
+    });
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    loadConfigText = jest.fn().mockResolvedValue(CONFIG);
+    saveConfigText = jest.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should load the config file into the editor", async () => {
+    const { view } = await renderEditor();
+
+    expect(view.state.doc.toString()).toBe(CONFIG);
+    expect(screen.getByRole("button", { name: "Save" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Revert" })).toBeDisabled();
+  });
+
+  it("should highlight sections, keys and values", async () => {
+    const { container } = await renderEditor();
+
+    expect(container.querySelector(".vale-ini-section")).toHaveTextContent(
+      "[*.md]",
+    );
+    expect(container.querySelector(".vale-ini-key")).toHaveTextContent(
+      "StylesPath",
+    );
+    expect(container.querySelector(".vale-ini-value")).toHaveTextContent(
+      "styles",
+    );
+  });
+
+  it("should list problems and not save while there are errors", async () => {
+    const { view } = await renderEditor();
+
+    edit(view, CONFIG + "Vale.Spelling = off\n");
+
+    expect(
+      screen.getByText(
+        "Line 5: Vale.Spelling must be YES, NO, suggestion, warning or error",
+      ),
+    ).toBeInTheDocument();
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Fix 1 error before saving",
+    );
+    expect(screen.getByRole("button", { name: "Save" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Revert" })).toBeEnabled();
+  });
+
+  it("should save the text through the config manager", async () => {
+    const { view } = await renderEditor();
+    const text = "MinAlertLevel = warning\n" + CONFIG;
+
+    edit(view, text);
+    const save = screen.getByRole("button", { name: "Save" });
+    expect(save).toBeEnabled();
+    await act(async () => {
+      fireEvent.click(save);
+      await Promise.resolve();
+    });
+
+    expect(saveConfigText).toHaveBeenCalledWith(text);
+    expect(save).toBeDisabled();
+  });
+
+  it("should revert unsaved changes", async () => {
+    const { view } = await renderEditor();
+
+    edit(view, "Typo");
+    fireEvent.click(screen.getByRole("button", { name: "Revert" }));
+
+    expect(view.state.doc.toString()).toBe(CONFIG);
+    expect(saveConfigText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * ConfigSectionPicker Component Tests
+ *
+ * Tests for choosing the section of .vale.ini that the Styles and Rules
+ * pages edit, covering:
+ * - Hiding the picker when there's nothing to choose
+ * - Choosing another section
+ * - Describing the sections that apply to the current note
+ */
+
+import "@testing-library/jest-dom";
+import { fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+import { ConfigSectionPicker } from "../../src/settings/pages/ConfigSectionPicker";
+import { EffectiveConfig } from "../../src/vale/configSections";
+
+const EFFECTIVE: EffectiveConfig = {
+  sections: ["*", "*.md"],
+  styles: new Map(),
+  values: new Map(),
+};
+
+describe("ConfigSectionPicker", () => {
+  it("should not render with a single section", () => {
+    const { container } = render(
+      <ConfigSectionPicker
+        sections={["*.md"]}
+        section="*.md"
+        onChange={jest.fn()}
+        notePath={null}
+        effective={null}
+      />,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("should list the sections and report the chosen one", () => {
+    const onChange = jest.fn();
+    render(
+      <ConfigSectionPicker
+        sections={["*", "*.md", "drafts/*.md"]}
+        section="*.md"
+        onChange={onChange}
+        notePath={null}
+        effective={null}
+      />,
+    );
+
+    const select = screen.getByRole("combobox");
+    expect(select).toHaveValue("*.md");
+    expect(screen.getByRole("option", { name: "[drafts/*.md]" })).toBeTruthy();
+
+    fireEvent.change(select, { target: { value: "drafts/*.md" } });
+    expect(onChange).toHaveBeenCalledWith("drafts/*.md");
+  });
+
+  it("should describe the sections that apply to the current note", () => {
+    render(
+      <ConfigSectionPicker
+        sections={["*", "*.md"]}
+        section="*"
+        onChange={jest.fn()}
+        notePath="drafts/idea.md"
+        effective={EFFECTIVE}
+      />,
+    );
+
+    expect(
+      screen.getByText(
+        "Checks read drafts/idea.md as stdin.md, so it gets [*], [*.md], in that order.",
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it("should warn that sections for folders don't apply to checks", () => {
+    render(
+      <ConfigSectionPicker
+        sections={["*", "*.md", "drafts/*.md"]}
+        section="*"
+        onChange={jest.fn()}
+        notePath="drafts/idea.md"
+        effective={EFFECTIVE}
+      />,
+    );
+
+    expect(
+      screen.getByText(/such as \[drafts\/\*\.md\], don't apply to checks\.$/),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * StyleLibrarySettings Component Tests
+ *
+ * Tests for the style library row of the Styles page, covering:
+ * - Telling when the library was downloaded
+ * - Telling which styles are shown when it couldn't be downloaded
+ * - Saving the library URL
+ */
+
+import "@testing-library/jest-dom";
+import { fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+import { StyleLibrarySettings } from "../../src/settings/pages/StyleLibrarySettings";
+import {
+  BUNDLED_STYLES,
+  DEFAULT_STYLE_LIBRARY_URL,
+} from "../../src/vale/styleLibrary";
+import { withMockSettings } from "../utils/settingsMock";
+
+const FETCHED_AT = new Date(2026, 9, 1, 9, 30).getTime();
+
+describe("StyleLibrarySettings", () => {
+  it("should tell when the library was downloaded", () => {
+    render(
+      withMockSettings(
+        <StyleLibrarySettings
+          library={{ styles: [], source: "remote", fetchedAt: FETCHED_AT }}
+          onRefresh={jest.fn()}
+        />,
+      ),
+    );
+
+    expect(
+      screen.getByText(`Updated ${new Date(FETCHED_AT).toLocaleString()}.`),
+    ).toBeInTheDocument();
+  });
+
+  it("should tell when a copy is shown", () => {
+    render(
+      withMockSettings(
+        <StyleLibrarySettings
+          library={{
+            styles: [],
+            source: "cache",
+            fetchedAt: FETCHED_AT,
+            error: "Offline",
+          }}
+          onRefresh={jest.fn()}
+        />,
+      ),
+    );
+
+    expect(
+      screen.getByText(
+        `Couldn't download the library, so the copy from ${new Date(FETCHED_AT).toLocaleString()} is shown. Offline`,
+      ),
+    ).toHaveClass("mod-warning");
+  });
+
+  it("should tell when the built-in list is shown", () => {
+    render(
+      withMockSettings(
+        <StyleLibrarySettings
+          library={{ styles: BUNDLED_STYLES, source: "bundled", error: "404" }}
+          onRefresh={jest.fn()}
+        />,
+      ),
+    );
+
+    expect(
+      screen.getByText(
+        "Couldn't download the library, so the built-in list is shown. 404",
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it("should save a new URL on blur", () => {
+    const updateSettings = jest.fn().mockResolvedValue(undefined);
+    render(
+      withMockSettings(
+        <StyleLibrarySettings library={null} onRefresh={jest.fn()} />,
+        { updateSettings },
+      ),
+    );
+
+    const input = screen.getByPlaceholderText(DEFAULT_STYLE_LIBRARY_URL);
+    fireEvent.blur(input);
+    expect(updateSettings).not.toHaveBeenCalled();
+
+    fireEvent.change(input, {
+      target: { value: " https://styles.example.com/library.json " },
+    });
+    fireEvent.blur(input);
+    expect(updateSettings).toHaveBeenCalledWith({
+      styleLibraryUrl: "https://styles.example.com/library.json",
+    });
+  });
+});
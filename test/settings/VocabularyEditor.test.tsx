@@ -0,0 +1,145 @@
+/**
+ * VocabularyEditor Component Tests
+ *
+ * Tests for editing the accept and reject lists of a vocabulary, covering:
+ * - Switching lists and searching entries
+ * - Adding single entries and refusing invalid ones
+ * - Adding many pasted entries
+ * - Removing entries
+ */
+
+import "@testing-library/jest-dom";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { VocabularyEditor } from "../../src/settings/pages/VocabularyEditor";
+import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
+
+/**
+ * Factory function to create a mock ValeConfigManager with an accept list
+ */
+function createMockConfigManager(): jest.Mocked<ValeConfigManager> {
+  return {
+    loadVocabulary: jest
+      .fn()
+      .mockImplementation((_name: string, list: string) =>
+        Promise.resolve(list === "accept" ? ["Obsidian", "[Dd]ataview"] : []),
+      ),
+    saveVocabulary: jest.fn().mockResolvedValue(undefined),
+  } as unknown as jest.Mocked<ValeConfigManager>;
+}
+
+async function renderEditor() {
+  const configManager = createMockConfigManager();
+  const onChange = jest.fn();
+  render(
+    <VocabularyEditor
+      configManager={configManager}
+      name="Team"
+      onChange={onChange}
+    />,
+  );
+  await screen.findByText("Obsidian");
+  return { configManager, onChange };
+}
+
+describe("VocabularyEditor", () => {
+  it("should list the accepted terms and mark patterns", async () => {
+    await renderEditor();
+
+    const list = screen.getByRole("list", { name: "Accepted terms" });
+    expect(list.querySelectorAll("li")).toHaveLength(2);
+    expect(screen.getAllByText("Regex")).toHaveLength(1);
+  });
+
+  it("should switch to the rejected terms", async () => {
+    const { configManager } = await renderEditor();
+
+    fireEvent.change(screen.getByRole("combobox"), {
+      target: { value: "reject" },
+    });
+
+    expect(await screen.findByText("No terms yet.")).toBeInTheDocument();
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.loadVocabulary).toHaveBeenLastCalledWith(
+      "Team",
+      "reject",
+    );
+  });
+
+  it("should filter terms by search", async () => {
+    await renderEditor();
+
+    fireEvent.change(screen.getByLabelText("Search terms"), {
+      target: { value: "VIEW" },
+    });
+
+    expect(screen.queryByText("Obsidian")).not.toBeInTheDocument();
+    expect(screen.getByText("[Dd]ataview")).toBeInTheDocument();
+  });
+
+  it("should add a term and save the list", async () => {
+    const { configManager, onChange } = await renderEditor();
+
+    fireEvent.change(screen.getByLabelText("New term"), {
+      target: { value: "Zettelkasten" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Add" }));
+
+    expect(await screen.findByText("Added Zettelkasten")).toBeInTheDocument();
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.saveVocabulary).toHaveBeenCalledWith(
+      "Team",
+      "accept",
+      ["Obsidian", "[Dd]ataview", "Zettelkasten"],
+    );
+    expect(onChange).toHaveBeenCalled();
+  });
+
+  it("should refuse an invalid regular expression", async () => {
+    const { configManager } = await renderEditor();
+
+    fireEvent.change(screen.getByLabelText("New term"), {
+      target: { value: "[Oo" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Add" }));
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      '"[Oo" isn\'t a valid regular expression',
+    );
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.saveVocabulary).not.toHaveBeenCalled();
+  });
+
+  it("should add pasted terms once", async () => {
+    const { configManager } = await renderEditor();
+
+    fireEvent.change(screen.getByLabelText("Terms to add, one per line"), {
+      target: { value: "Canvas\nObsidian\n\nCallout\n" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Add terms" }));
+
+    expect(await screen.findByText("Added 2 terms")).toBeInTheDocument();
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.saveVocabulary).toHaveBeenCalledWith(
+      "Team",
+      "accept",
+      ["Obsidian", "[Dd]ataview", "Canvas", "Callout"],
+    );
+  });
+
+  it("should remove a term", async () => {
+    const { configManager } = await renderEditor();
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove Obsidian" }));
+
+    await waitFor(() => {
+      expect(screen.queryByText("Obsidian")).not.toBeInTheDocument();
+    });
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(configManager.saveVocabulary).toHaveBeenCalledWith(
+      "Team",
+      "accept",
+      ["[Dd]ataview"],
+    );
+  });
+});
@@ -23,6 +23,9 @@ global.ResizeObserver = class ResizeObserver {
   disconnect(): void {}
 };
 
+// JSDOM doesn't lay out elements, so there's nothing to scroll
+Element.prototype.scrollIntoView = function (): void {};
+
 // Define DEBUG global (used in src/debug.ts)
 declare global {
   var DEBUG: boolean;
@@ -80,6 +83,25 @@ Object.defineProperty(HTMLElement.prototype, "createSpan", {
   configurable: true,
 });
 
+Object.defineProperty(HTMLElement.prototype, "createDiv", {
+  value: function (
+    this: HTMLElement,
+    options?: { text?: string; cls?: string },
+  ): HTMLDivElement {
+    const div = document.createElement("div");
+    if (options?.text) {
+      div.textContent = options.text;
+    }
+    if (options?.cls) {
+      div.className = options.cls;
+    }
+    this.appendChild(div);
+    return div;
+  },
+  writable: true,
+  configurable: true,
+});
+
 Object.defineProperty(HTMLElement.prototype, "setCssProps", {
   value: function (this: HTMLElement, props: Record<string, string>): void {
     for (const [key, value] of Object.entries(props)) {
@@ -0,0 +1,138 @@
+/**
+ * Tests for filtering, sorting and grouping alerts in the results panel
+ */
+
+import {
+  AlertListOptions,
+  DEFAULT_ALERT_LIST_OPTIONS,
+  groupAlerts,
+  isFiltering,
+  matchesAlertFilter,
+  sortAlerts,
+} from "../../src/utils/alertFilters";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+const options = (changes: Partial<AlertListOptions>): AlertListOptions => ({
+  ...DEFAULT_ALERT_LIST_OPTIONS,
+  ...changes,
+});
+
+const suggestion = createMockValeAlert({
+  Line: 1,
+  Span: [5, 9],
+  Severity: "suggestion",
+  Check: "Google.We",
+  Message: "Try to avoid using first-person plural.",
+  Match: "we",
+});
+const error = createMockValeAlert({
+  Line: 3,
+  Span: [1, 3],
+  Severity: "error",
+  Check: "Vale.Spelling",
+  Message: "Did you really mean 'teh'?",
+  Match: "teh",
+});
+const warning = createMockValeAlert({
+  Line: 1,
+  Span: [12, 18],
+  Severity: "warning",
+  Check: "Google.Passive",
+  Message: "In general, use active voice.",
+  Match: "was done",
+});
+
+describe("isFiltering", () => {
+  it("should only filter when a severity is off or a search is entered", () => {
+    expect(isFiltering(DEFAULT_ALERT_LIST_OPTIONS)).toBe(false);
+    expect(isFiltering(options({ query: "  " }))).toBe(false);
+    expect(isFiltering(options({ query: "teh" }))).toBe(true);
+    expect(isFiltering(options({ severities: ["error"] }))).toBe(true);
+  });
+});
+
+describe("matchesAlertFilter", () => {
+  it("should leave out alerts of severities that are off", () => {
+    const filter = options({ severities: ["error", "warning"] });
+
+    expect(matchesAlertFilter(error, filter)).toBe(true);
+    expect(matchesAlertFilter(suggestion, filter)).toBe(false);
+  });
+
+  it("should search the message, match and check, ignoring case", () => {
+    expect(matchesAlertFilter(error, options({ query: "REALLY" }))).toBe(true);
+    expect(matchesAlertFilter(warning, options({ query: "was done" }))).toBe(
+      true,
+    );
+    expect(matchesAlertFilter(error, options({ query: "spelling" }))).toBe(
+      true,
+    );
+    expect(matchesAlertFilter(warning, options({ query: "teh" }))).toBe(false);
+  });
+});
+
+describe("sortAlerts", () => {
+  it("should sort by position", () => {
+    expect(sortAlerts([error, warning, suggestion], "position")).toEqual([
+      suggestion,
+      warning,
+      error,
+    ]);
+  });
+
+  it("should sort errors first, then by position", () => {
+    expect(sortAlerts([suggestion, warning, error], "severity")).toEqual([
+      error,
+      warning,
+      suggestion,
+    ]);
+  });
+
+  it("should leave the given list unchanged", () => {
+    const alerts = [error, suggestion];
+
+    sortAlerts(alerts, "position");
+
+    expect(alerts).toEqual([error, suggestion]);
+  });
+});
+
+describe("groupAlerts", () => {
+  const alerts = [suggestion, warning, error];
+
+  it("should group by severity, from errors to suggestions", () => {
+    expect(
+      groupAlerts(alerts, "severity").map(({ label, alerts }) => [
+        label,
+        alerts,
+      ]),
+    ).toEqual([
+      ["Errors", [error]],
+      ["Warnings", [warning]],
+      ["Suggestions", [suggestion]],
+    ]);
+  });
+
+  it("should group by style in the order the alerts are listed", () => {
+    expect(
+      groupAlerts(alerts, "style").map(({ label, alerts }) => [label, alerts]),
+    ).toEqual([
+      ["Google", [suggestion, warning]],
+      ["Vale", [error]],
+    ]);
+  });
+
+  it("should group by rule", () => {
+    expect(groupAlerts(alerts, "rule").map(({ label }) => label)).toEqual([
+      "Google.We",
+      "Google.Passive",
+      "Vale.Spelling",
+    ]);
+  });
+
+  it("should keep all alerts in one group without grouping", () => {
+    expect(groupAlerts(alerts, "none")).toEqual([
+      { key: "all", label: "", alerts },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for alert helpers
+ */
+
+import {
+  countByCheck,
+  countBySeverity,
+  describeSeverityCounts,
+  isSpellingAlert,
+  pluralize,
+} from "../../src/utils/alerts";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+describe("countBySeverity", () => {
+  it("should count alerts per severity", () => {
+    const alerts = [
+      createMockValeAlert({ Severity: "error" }),
+      createMockValeAlert({ Severity: "Warning" }),
+      createMockValeAlert({ Severity: "warning" }),
+      createMockValeAlert({ Severity: "unknown" }),
+    ];
+
+    expect(countBySeverity(alerts)).toEqual({
+      error: 1,
+      warning: 2,
+      suggestion: 0,
+    });
+  });
+});
+
+describe("pluralize", () => {
+  it("should use the plural unless the count is one", () => {
+    expect(pluralize(0, "error")).toBe("0 errors");
+    expect(pluralize(1, "error")).toBe("1 error");
+    expect(pluralize(2, "error")).toBe("2 errors");
+  });
+});
+
+describe("isSpellingAlert", () => {
+  it("should match alerts that suggest spellings", () => {
+    const alert = createMockValeAlert({
+      Check: "Google.Spelling",
+      Action: { Name: "suggest", Params: ["spellings"] },
+    });
+
+    expect(isSpellingAlert(alert)).toBe(true);
+  });
+
+  it("should match checks named Spelling", () => {
+    const alert = createMockValeAlert({
+      Check: "Vale.Spelling",
+      Action: { Name: "", Params: [] },
+    });
+
+    expect(isSpellingAlert(alert)).toBe(true);
+  });
+
+  it("should not match other checks", () => {
+    const alert = createMockValeAlert({
+      Check: "Microsoft.SpellingOut",
+      Action: { Name: "replace", Params: ["x"] },
+    });
+
+    expect(isSpellingAlert(alert)).toBe(false);
+  });
+
+  it("should not match alerts without a word", () => {
+    const alert = createMockValeAlert({ Check: "Vale.Spelling", Match: " " });
+
+    expect(isSpellingAlert(alert)).toBe(false);
+  });
+});
+
+describe("countByCheck", () => {
+  it("should count alerts per check, most frequent first", () => {
+    const alerts = [
+      createMockValeAlert({ Check: "Google.We" }),
+      createMockValeAlert({ Check: "Vale.Spelling" }),
+      createMockValeAlert({ Check: "Google.Passive" }),
+      createMockValeAlert({ Check: "Vale.Spelling" }),
+    ];
+
+    expect(countByCheck(alerts)).toEqual([
+      { check: "Vale.Spelling", count: 2 },
+      { check: "Google.Passive", count: 1 },
+      { check: "Google.We", count: 1 },
+    ]);
+  });
+});
+
+describe("describeSeverityCounts", () => {
+  it("should list the severities that have alerts", () => {
+    expect(
+      describeSeverityCounts({ error: 2, warning: 0, suggestion: 1 }),
+    ).toBe("2 errors, 1 suggestion");
+  });
+
+  it("should say when there are no alerts", () => {
+    expect(
+      describeSeverityCounts({ error: 0, warning: 0, suggestion: 0 }),
+    ).toBe("no issues");
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Tests for the paths of the plugin's files
+ */
+
+import * as path from "path";
+import {
+  getConfigBackupDir,
+  getManagedConfigPath,
+  getManagedValePath,
+  getPluginDataDir,
+  getResultCachePath,
+  getStyleLibraryCachePath,
+} from "../../src/utils/pluginPaths";
+
+describe("pluginPaths", () => {
+  const configDir = path.join("vault", "config");
+  const dataDir = path.join(configDir, "plugins/obsidian-vale/data");
+
+  it("should keep the plugin's files in its data folder", () => {
+    expect(getPluginDataDir(configDir)).toBe(dataDir);
+    expect(getManagedConfigPath(configDir)).toBe(
+      path.join(dataDir, ".vale.ini"),
+    );
+    expect(getConfigBackupDir(configDir)).toBe(path.join(dataDir, "backups"));
+    expect(getStyleLibraryCachePath(configDir)).toBe(
+      path.join(dataDir, "style-library.json"),
+    );
+    expect(getResultCachePath(configDir)).toBe(
+      path.join(dataDir, "result-cache.json"),
+    );
+  });
+
+  it("should install Vale in the bin folder", () => {
+    expect(path.dirname(getManagedValePath(configDir))).toBe(
+      path.join(dataDir, "bin"),
+    );
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for ValeBatchRunner
+ */
+
+import { BatchCheckFile, ValeResponse } from "../../src/types";
+import { CheckCancelledError } from "../../src/vale/CheckCancelledError";
+import { ValeBatchRunner } from "../../src/vale/ValeBatchRunner";
+import {
+  fingerprintInText,
+  ValeDismissals,
+} from "../../src/vale/ValeDismissals";
+import { ValeRunner } from "../../src/vale/ValeRunner";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+const createFile = (
+  path: string,
+  text = `text of ${path}`,
+): BatchCheckFile => ({
+  path,
+  format: ".md",
+  read: jest.fn().mockResolvedValue(text),
+});
+
+const createRunner = (
+  run: (
+    text: string,
+    format: string,
+    signal?: AbortSignal,
+  ) => Promise<ValeResponse>,
+): ValeRunner => ({ run }) as unknown as ValeRunner;
+
+describe("ValeBatchRunner", () => {
+  it("should check every file and collect alerts per file", async () => {
+    const alert = createMockValeAlert();
+    const run = jest.fn((text: string) =>
+      Promise.resolve<ValeResponse>(
+        text.includes("a.md") ? { "stdin.md": [alert] } : {},
+      ),
+    );
+
+    const results = await new ValeBatchRunner(createRunner(run)).run([
+      createFile("notes/a.md"),
+      createFile("notes/b.md"),
+    ]);
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenCalledWith("text of notes/a.md", ".md", undefined);
+    expect(results).toEqual([
+      { path: "notes/a.md", alerts: [alert] },
+      { path: "notes/b.md", alerts: [] },
+    ]);
+  });
+
+  it("should check files one at a time", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const run = jest.fn(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await Promise.resolve();
+      inFlight--;
+      return {};
+    });
+
+    await new ValeBatchRunner(createRunner(run)).run([
+      createFile("a.md"),
+      createFile("b.md"),
+      createFile("c.md"),
+    ]);
+
+    expect(maxInFlight).toBe(1);
+  });
+
+  it("should record errors per file and continue", async () => {
+    const run = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("Vale exited with code 2"))
+      .mockResolvedValueOnce({});
+
+    const results = await new ValeBatchRunner(createRunner(run)).run([
+      createFile("a.md"),
+      createFile("b.md"),
+    ]);
+
+    expect(results).toEqual([
+      { path: "a.md", alerts: [], error: "Vale exited with code 2" },
+      { path: "b.md", alerts: [] },
+    ]);
+  });
+
+  it("should record read errors per file", async () => {
+    const run = jest.fn().mockResolvedValue({});
+    const unreadable: BatchCheckFile = {
+      path: "a.md",
+      format: ".md",
+      read: jest.fn().mockRejectedValue("EACCES"),
+    };
+
+    const results = await new ValeBatchRunner(createRunner(run)).run([
+      unreadable,
+    ]);
+
+    expect(run).not.toHaveBeenCalled();
+    expect(results).toEqual([{ path: "a.md", alerts: [], error: "EACCES" }]);
+  });
+
+  it("should report progress before each file and when done", async () => {
+    const onProgress = jest.fn();
+    const run = jest.fn().mockResolvedValue({});
+
+    await new ValeBatchRunner(createRunner(run)).run(
+      [createFile("a.md"), createFile("b.md")],
+      { onProgress },
+    );
+
+    expect(onProgress.mock.calls).toEqual([
+      [{ checked: 0, total: 2, currentPath: "a.md" }],
+      [{ checked: 1, total: 2, currentPath: "b.md" }],
+      [{ checked: 2, total: 2 }],
+    ]);
+  });
+
+  it("should pass the signal to the runner", async () => {
+    const controller = new AbortController();
+    const run = jest.fn().mockResolvedValue({});
+
+    await new ValeBatchRunner(createRunner(run)).run([createFile("a.md")], {
+      signal: controller.signal,
+    });
+
+    expect(run).toHaveBeenCalledWith("text of a.md", ".md", controller.signal);
+  });
+
+  it("should stop when aborted", async () => {
+    const controller = new AbortController();
+    const run = jest.fn(() => {
+      controller.abort();
+      return Promise.resolve({});
+    });
+
+    const results = await new ValeBatchRunner(createRunner(run)).run(
+      [createFile("a.md"), createFile("b.md")],
+      { signal: controller.signal },
+    );
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(results.map((r) => r.path)).toEqual(["a.md"]);
+  });
+
+  it("should not record the cancelled note as an error", async () => {
+    const run = jest.fn().mockRejectedValue(new CheckCancelledError());
+
+    const results = await new ValeBatchRunner(createRunner(run)).run([
+      createFile("a.md"),
+      createFile("b.md"),
+    ]);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([]);
+  });
+
+  it("should leave out dismissed alerts", async () => {
+    const kept = createMockValeAlert({ Span: [1, 4], Check: "Vale.Kept" });
+    const dismissed = createMockValeAlert({ Span: [6, 7], Check: "Vale.Gone" });
+    const run = jest.fn(() =>
+      Promise.resolve<ValeResponse>({ "stdin.md": [kept, dismissed] }),
+    );
+    const dismissals = new ValeDismissals(
+      {
+        exists: jest.fn().mockResolvedValue(false),
+        read: jest.fn(),
+        write: jest.fn().mockResolvedValue(undefined),
+        mkdir: jest.fn().mockResolvedValue(undefined),
+      },
+      "dismissed.json",
+    );
+    const text = "text of a.md";
+    await dismissals.dismiss("a.md", fingerprintInText(text, dismissed));
+
+    const results = await new ValeBatchRunner(
+      createRunner(run),
+      dismissals,
+    ).run([createFile("a.md", text)]);
+
+    expect(results).toEqual([{ path: "a.md", alerts: [kept] }]);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for ValeCli
+ */
+
+import { spawn } from "child_process";
+import { EventEmitter } from "events";
+import { CheckCancelledError } from "../../src/vale/CheckCancelledError";
+import { supportsFix, ValeCli } from "../../src/vale/ValeCli";
+import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+jest.mock("child_process", () => ({ spawn: jest.fn() }));
+jest.mock("fs", () => ({
+  ...jest.requireActual<typeof import("fs")>("fs"),
+  realpathSync: (p: string) => p,
+  accessSync: jest.fn(),
+}));
+
+class MockChildProcess extends EventEmitter {
+  stdout = new EventEmitter();
+  stderr = new EventEmitter();
+  stdin = Object.assign(new EventEmitter(), {
+    write: jest.fn(),
+    end: jest.fn(),
+  });
+  kill = jest.fn(() => {
+    this.emit("close", null);
+    return true;
+  });
+}
+
+describe("ValeCli", () => {
+  let child: MockChildProcess;
+  let cli: ValeCli;
+
+  beforeEach(() => {
+    child = new MockChildProcess();
+    (spawn as jest.Mock).mockReturnValue(child);
+
+    cli = new ValeCli(
+      new ValeConfigManager("/test/path/vale", "/test/path/.vale.ini"),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should write the text to vale and parse its alerts", async () => {
+    const alert = createMockValeAlert();
+    const result = cli.vale("Some text", ".md");
+
+    child.stdout.emit("data", JSON.stringify({ "stdin.md": [alert] }));
+    child.emit("close", 1);
+
+    await expect(result).resolves.toEqual({ "stdin.md": [alert] });
+    expect(child.stdin.write).toHaveBeenCalledWith("Some text");
+    expect(spawn).toHaveBeenCalledWith(
+      "/test/path/vale",
+      ["--config", "/test/path/.vale.ini", "--ext", ".md", "--output", "JSON"],
+      { cwd: "/test/path" },
+    );
+  });
+
+  it("should kill vale when the check is aborted", async () => {
+    const controller = new AbortController();
+    const result = cli.vale("Some text", ".md", controller.signal);
+
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(CheckCancelledError);
+    expect(child.kill).toHaveBeenCalled();
+  });
+
+  it("should not spawn vale when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      cli.vale("Some text", ".md", controller.signal),
+    ).rejects.toBeInstanceOf(CheckCancelledError);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it("should ignore stdin errors after the check is aborted", async () => {
+    const controller = new AbortController();
+    const result = cli.vale("Some text", ".md", controller.signal);
+
+    controller.abort();
+    child.stdin.emit("error", new Error("write EPIPE"));
+
+    await expect(result).rejects.toBeInstanceOf(CheckCancelledError);
+  });
+
+  it("should stop listening for aborts once vale exits", async () => {
+    const controller = new AbortController();
+    const result = cli.vale("Some text", ".md", controller.signal);
+
+    child.emit("close", 0);
+    await expect(result).resolves.toEqual({});
+
+    controller.abort();
+    expect(child.kill).not.toHaveBeenCalled();
+  });
+
+  describe("suggest", () => {
+    it("should run vale fix on the alert and return its suggestions", async () => {
+      const alert = createMockValeAlert({
+        Match: "teh",
+        Action: { Name: "suggest", Params: ["spellings"] },
+      });
+      const result = cli.suggest(alert);
+
+      child.stdout.emit(
+        "data",
+        JSON.stringify({ suggestions: ["the", "ten"], error: "" }),
+      );
+      child.emit("close", 0);
+
+      await expect(result).resolves.toEqual(["the", "ten"]);
+      expect(spawn).toHaveBeenCalledWith(
+        "/test/path/vale",
+        ["--config", "/test/path/.vale.ini", "fix", JSON.stringify(alert)],
+        { cwd: "/test/path" },
+      );
+    });
+
+    it("should reject with the error vale fix reports", async () => {
+      const result = cli.suggest(createMockValeAlert());
+
+      child.stdout.emit(
+        "data",
+        JSON.stringify({ suggestions: [], error: "unknown action" }),
+      );
+      child.emit("close", 0);
+
+      await expect(result).rejects.toThrow("unknown action");
+    });
+
+    it("should reject when vale fails", async () => {
+      const result = cli.suggest(createMockValeAlert());
+
+      child.stderr.emit("data", "no such command");
+      child.emit("close", 2);
+
+      await expect(result).rejects.toThrow(
+        "Vale exited with code 2: no such command",
+      );
+    });
+  });
+
+  describe("version", () => {
+    it("should read the version vale prints", async () => {
+      const result = cli.version();
+
+      child.stdout.emit("data", "vale version 2.13.0\n");
+      child.emit("close", 0);
+
+      await expect(result).resolves.toBe("2.13.0");
+      expect(spawn).toHaveBeenCalledWith("/test/path/vale", ["--version"]);
+    });
+
+    it("should reject when vale prints no version", async () => {
+      const result = cli.version();
+
+      child.emit("close", 1);
+
+      await expect(result).rejects.toThrow("Couldn't read the Vale version");
+    });
+  });
+
+  describe("supportsFix", () => {
+    it.each([
+      ["2.13.0", false],
+      ["2.29.7", false],
+      ["3.0.0", true],
+      ["v3.7.1", true],
+      ["10.0.0", true],
+      ["unknown", false],
+    ])("should tell whether Vale %s has vale fix", (version, expected) => {
+      expect(supportsFix(version)).toBe(expected);
+    });
+  });
+});
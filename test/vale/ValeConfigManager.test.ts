@@ -3,8 +3,20 @@
  */
 
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
+import {
+  DEFAULT_VOCABULARY,
+  getConfigRevision,
+  FINGERPRINT_MAX_AGE_MS,
+  MAX_CONFIG_BACKUPS,
+  ValeConfigManager,
+} from "../../src/vale/ValeConfigManager";
+import {
+  BUNDLED_STYLES,
+  StyleLibraryLoader,
+} from "../../src/vale/styleLibrary";
+import * as valeVersion from "../../src/vale/valeVersion";
 
 // Mock modules
 jest.mock("download");
@@ -442,17 +454,17 @@ describe("ValeConfigManager", () => {
 
   describe("getInstalledStyles", () => {
     let getInstalledSpy: jest.SpyInstance;
-    let getAvailableStylesSpy: jest.SpyInstance;
+    let getKnownStylesSpy: jest.SpyInstance;
 
     beforeEach(() => {
       // Create spies on the methods
       getInstalledSpy = jest.spyOn(configManager, "getInstalled");
-      getAvailableStylesSpy = jest.spyOn(configManager, "getAvailableStyles");
+      getKnownStylesSpy = jest.spyOn(configManager, "getKnownStyles");
     });
 
     afterEach(() => {
       getInstalledSpy.mockRestore();
-      getAvailableStylesSpy.mockRestore();
+      getKnownStylesSpy.mockRestore();
     });
 
     it("should enrich known styles with library metadata and remove URL", async () => {
@@ -460,7 +472,7 @@ describe("ValeConfigManager", () => {
       getInstalledSpy.mockResolvedValue(["Google", "Microsoft", "Vale"]);
 
       // Mock available styles from library
-      getAvailableStylesSpy.mockResolvedValue([
+      getKnownStylesSpy.mockResolvedValue([
         {
           name: "Google",
           description: "Google Developer Documentation Style Guide",
@@ -511,7 +523,7 @@ describe("ValeConfigManager", () => {
       getInstalledSpy.mockResolvedValue(["MyCustomStyle", "AnotherCustom"]);
 
       // Mock available styles (empty - no match)
-      getAvailableStylesSpy.mockResolvedValue([]);
+      getKnownStylesSpy.mockResolvedValue([]);
 
       const result = await configManager.getInstalledStyles();
 
@@ -539,7 +551,7 @@ describe("ValeConfigManager", () => {
       ]);
 
       // Mock available styles from library (only Google and Microsoft)
-      getAvailableStylesSpy.mockResolvedValue([
+      getKnownStylesSpy.mockResolvedValue([
         {
           name: "Google",
           description: "Google Developer Documentation Style Guide",
@@ -595,7 +607,7 @@ describe("ValeConfigManager", () => {
       getInstalledSpy.mockResolvedValue(["Vale"]);
 
       // Mock available styles
-      getAvailableStylesSpy.mockResolvedValue([
+      getKnownStylesSpy.mockResolvedValue([
         {
           name: "Google",
           description: "Google Developer Documentation Style Guide",
@@ -619,7 +631,7 @@ describe("ValeConfigManager", () => {
       getInstalledSpy.mockResolvedValue(["Google", "Microsoft"]);
 
       // Mock available styles with URLs
-      getAvailableStylesSpy.mockResolvedValue([
+      getKnownStylesSpy.mockResolvedValue([
         {
           name: "Google",
           description: "Google Style",
@@ -655,7 +667,7 @@ describe("ValeConfigManager", () => {
       getInstalledSpy.mockResolvedValue(["Google"]);
 
       // Mock available styles with all fields
-      getAvailableStylesSpy.mockResolvedValue([
+      getKnownStylesSpy.mockResolvedValue([
         {
           name: "Google",
           description: "Full description here",
@@ -680,7 +692,7 @@ describe("ValeConfigManager", () => {
       getInstalledSpy.mockResolvedValue(["Vale", "Google"]);
 
       // Mock available styles (Vale not in library)
-      getAvailableStylesSpy.mockResolvedValue([
+      getKnownStylesSpy.mockResolvedValue([
         {
           name: "Google",
           description: "Google Style",
@@ -708,7 +720,7 @@ describe("ValeConfigManager", () => {
       getInstalledSpy.mockResolvedValue([]);
 
       // Mock available styles
-      getAvailableStylesSpy.mockResolvedValue([
+      getKnownStylesSpy.mockResolvedValue([
         {
           name: "Google",
           description: "Google Style",
@@ -728,7 +740,7 @@ describe("ValeConfigManager", () => {
       getInstalledSpy.mockResolvedValue(["google", "Google"]);
 
       // Mock available styles (only "Google" with capital G)
-      getAvailableStylesSpy.mockResolvedValue([
+      getKnownStylesSpy.mockResolvedValue([
         {
           name: "Google",
           description: "Google Style",
@@ -756,7 +768,7 @@ describe("ValeConfigManager", () => {
 
     it("should return Vale-only fallback when getInstalled() throws", async () => {
       getInstalledSpy.mockRejectedValue(new Error("Permission denied"));
-      getAvailableStylesSpy.mockResolvedValue([]);
+      getKnownStylesSpy.mockResolvedValue([]);
 
       const result = await configManager.getInstalledStyles();
 
@@ -766,12 +778,640 @@ describe("ValeConfigManager", () => {
 
     it("should return Vale-only fallback when getAvailableStyles() throws", async () => {
       getInstalledSpy.mockResolvedValue(["Google", "Vale"]);
-      getAvailableStylesSpy.mockRejectedValue(new Error("Network error"));
+      getKnownStylesSpy.mockRejectedValue(new Error("Network error"));
 
       const result = await configManager.getInstalledStyles();
 
       expect(result).toHaveLength(1);
       expect(result[0]).toEqual({ name: "Vale", description: "Custom style" });
     });
+
+    it("should not download the style library", async () => {
+      const fetchText = jest.fn().mockResolvedValue("[]");
+      const manager = new ValeConfigManager(
+        testValePath,
+        testConfigPath,
+        undefined,
+        new StyleLibraryLoader("", undefined, fetchText),
+      );
+      jest.spyOn(manager, "getInstalled").mockResolvedValue(["Google"]);
+
+      const [google] = await manager.getInstalledStyles();
+
+      expect(fetchText).not.toHaveBeenCalled();
+      expect(google.name).toBe("Google");
+      expect(google.description).not.toBe("Custom style");
+    });
+  });
+
+  describe("getConfigFingerprint", () => {
+    let tmpDir: string;
+    let manager: ValeConfigManager;
+
+    beforeEach(async () => {
+      tmpDir = await fs.promises.mkdtemp(
+        path.join(os.tmpdir(), "vale-fingerprint-"),
+      );
+      await fs.promises.mkdir(path.join(tmpDir, "styles", "Google"), {
+        recursive: true,
+      });
+      manager = new ValeConfigManager(
+        testValePath,
+        path.join(tmpDir, ".vale.ini"),
+      );
+      await manager.saveConfig({
+        StylesPath: "styles",
+        "*": { md: { BasedOnStyles: "Vale" } },
+      });
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    // Edits made outside the plugin are noticed once the fingerprint expires.
+    const expireFingerprint = () => {
+      const now = Date.now() + FINGERPRINT_MAX_AGE_MS;
+      jest.spyOn(Date, "now").mockReturnValue(now);
+    };
+
+    it("should stay the same while nothing changes", async () => {
+      const before = await manager.getConfigFingerprint();
+      expireFingerprint();
+
+      expect(await manager.getConfigFingerprint()).toBe(before);
+    });
+
+    it("should not walk the styles again until it expires", async () => {
+      await manager.getConfigFingerprint();
+      const readdir = jest.spyOn(fs.promises, "readdir");
+
+      await manager.getConfigFingerprint();
+      expect(readdir).not.toHaveBeenCalled();
+
+      expireFingerprint();
+      await manager.getConfigFingerprint();
+      expect(readdir).toHaveBeenCalled();
+    });
+
+    it("should change when the config changes", async () => {
+      const before = await manager.getConfigFingerprint();
+
+      await manager.saveConfig({
+        StylesPath: "styles",
+        "*": { md: { BasedOnStyles: "Vale, Google" } },
+      });
+
+      expect(await manager.getConfigFingerprint()).not.toBe(before);
+    });
+
+    it("should change when a rule of a style is edited", async () => {
+      const rule = path.join(tmpDir, "styles", "Google", "Passive.yml");
+      await fs.promises.writeFile(rule, "extends: existence\n");
+      const before = await manager.getConfigFingerprint();
+
+      await fs.promises.writeFile(rule, "extends: existence\nlevel: error\n");
+      const later = new Date(Date.now() + 60_000);
+      await fs.promises.utimes(rule, later, later);
+      expireFingerprint();
+
+      expect(await manager.getConfigFingerprint()).not.toBe(before);
+    });
+
+    it("should change when a vocabulary is edited", async () => {
+      const accept = path.join(
+        tmpDir,
+        "styles",
+        "config",
+        "vocabularies",
+        "Team",
+        "accept.txt",
+      );
+      await fs.promises.mkdir(path.dirname(accept), { recursive: true });
+      await fs.promises.writeFile(accept, "Obsidian\n");
+      const before = await manager.getConfigFingerprint();
+
+      const later = new Date(Date.now() + 60_000);
+      await fs.promises.writeFile(accept, "Obsidian\nDataview\n");
+      await fs.promises.utimes(accept, later, later);
+      expireFingerprint();
+
+      expect(await manager.getConfigFingerprint()).not.toBe(before);
+    });
+
+    it("should change when a style is added", async () => {
+      const before = await manager.getConfigFingerprint();
+
+      await fs.promises.mkdir(path.join(tmpDir, "styles", "Microsoft"));
+      await fs.promises.writeFile(
+        path.join(tmpDir, "styles", "Microsoft", "Dashes.yml"),
+        "extends: existence\n",
+      );
+      expireFingerprint();
+
+      expect(await manager.getConfigFingerprint()).not.toBe(before);
+    });
+  });
+
+  describe("loadConfigText and saveConfigText", () => {
+    let tmpDir: string;
+    let manager: ValeConfigManager;
+
+    beforeEach(async () => {
+      tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "vale-text-"));
+      manager = new ValeConfigManager(
+        testValePath,
+        path.join(tmpDir, "config", ".vale.ini"),
+      );
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should load an empty text without a config file", async () => {
+      expect(await manager.loadConfigText()).toBe("");
+    });
+
+    it("should save the text as written", async () => {
+      const text =
+        "# Styles\nStylesPath = styles\n\n[*.md]\nBasedOnStyles = Vale\n";
+      const before = getConfigRevision();
+
+      await manager.saveConfigText(text);
+
+      expect(await manager.loadConfigText()).toBe(text);
+      expect((await manager.loadConfig()).StylesPath).toBe("styles");
+      expect(getConfigRevision()).not.toBe(before);
+    });
+  });
+
+  describe("saveConfig", () => {
+    let tmpDir: string;
+    let manager: ValeConfigManager;
+
+    const backupNames = async () =>
+      (await fs.promises.readdir(path.join(tmpDir, "backups"))).flatMap((dir) =>
+        fs.readdirSync(path.join(tmpDir, "backups", dir)),
+      );
+
+    beforeEach(async () => {
+      tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "vale-save-"));
+      manager = new ValeConfigManager(
+        testValePath,
+        path.join(tmpDir, ".vale.ini"),
+        path.join(tmpDir, "backups"),
+      );
+      await manager.saveConfigText(
+        "# Team config\nStylesPath = styles\n\n[*.md]\n# Styles\nBasedOnStyles = Vale\n",
+      );
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should keep comments and only change the touched line", async () => {
+      await manager.enableStyle("Google");
+
+      expect(await manager.loadConfigText()).toBe(
+        "# Team config\nStylesPath = styles\n\n[*.md]\n# Styles\nBasedOnStyles = Vale, Google\n",
+      );
+    });
+
+    it("should back up the config before each change", async () => {
+      await manager.enableStyle("Google");
+      await manager.enableStyle("Microsoft");
+
+      expect(await backupNames()).toHaveLength(2);
+    });
+
+    it("should not write or back up a config without changes", async () => {
+      await manager.enableStyle("Vale");
+
+      expect(fs.existsSync(path.join(tmpDir, "backups"))).toBe(false);
+    });
+
+    it("should keep a limited number of backups", async () => {
+      for (let i = 0; i <= MAX_CONFIG_BACKUPS; i++) {
+        await manager.saveConfigText(`StylesPath = styles${i}\n`);
+      }
+
+      expect(await backupNames()).toHaveLength(MAX_CONFIG_BACKUPS);
+    });
+
+    it("should undo changes one after the other", async () => {
+      const original = await manager.loadConfigText();
+      await manager.enableStyle("Google");
+      await manager.disableStyle("Vale");
+      const before = getConfigRevision();
+
+      expect(await manager.undoLastConfigChange()).toBe(true);
+      expect((await manager.loadConfig())["*"].md.BasedOnStyles).toBe(
+        "Vale, Google",
+      );
+      expect(getConfigRevision()).not.toBe(before);
+
+      expect(await manager.undoLastConfigChange()).toBe(true);
+      expect(await manager.loadConfigText()).toBe(original);
+
+      expect(await manager.undoLastConfigChange()).toBe(false);
+    });
+  });
+
+  describe("format sections", () => {
+    let tmpDir: string;
+    let manager: ValeConfigManager;
+
+    beforeEach(async () => {
+      tmpDir = await fs.promises.mkdtemp(
+        path.join(os.tmpdir(), "vale-sections-"),
+      );
+      manager = new ValeConfigManager(
+        testValePath,
+        path.join(tmpDir, ".vale.ini"),
+      );
+      await manager.saveConfigText(
+        [
+          "StylesPath = styles",
+          "",
+          "[*]",
+          "BasedOnStyles = Vale",
+          "",
+          "[*.{md,txt}]",
+          "BasedOnStyles = Google",
+          "Google.Passive = warning",
+          "",
+          "[drafts/*.md]",
+          "Google.Passive = NO",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should list the sections in the order they're written", async () => {
+      expect(await manager.getFormatSections()).toEqual([
+        "*",
+        "*.{md,txt}",
+        "drafts/*.md",
+      ]);
+    });
+
+    it("should read styles and rules of one section or all of them", async () => {
+      expect(await manager.getEnabledStyles("*")).toEqual(["Vale"]);
+      expect(await manager.getEnabledStyles()).toEqual(["Vale", "Google"]);
+      expect(await manager.getConfiguredRules("Google", "drafts/*.md")).toEqual(
+        [{ name: "Passive", severity: "default", disabled: true }],
+      );
+      expect(await manager.getConfiguredRules("Google")).toEqual([]);
+    });
+
+    it("should change only the given section", async () => {
+      await manager.enableStyle("Microsoft", "drafts/*.md");
+      await manager.updateRule(
+        "Google",
+        { name: "Passive", severity: "default", disabled: false },
+        "*.{md,txt}",
+      );
+
+      const text = await manager.loadConfigText();
+      expect(text).toContain(
+        "[*.{md,txt}]\nBasedOnStyles = Google\n\n[drafts/*.md]",
+      );
+      expect(text).toContain(
+        "[drafts/*.md]\nGoogle.Passive = NO\nBasedOnStyles = Microsoft\n",
+      );
+    });
+
+    it("should add a missing section", async () => {
+      await manager.enableStyle("Vale", "*.md");
+
+      expect(await manager.loadConfigText()).toMatch(
+        /\n\n\[\*\.md\]\nBasedOnStyles = Vale\n$/,
+      );
+    });
+
+    it("should combine the sections that apply to a note", async () => {
+      const note = await manager.getEffectiveConfig("notes/idea.md");
+
+      expect(note.sections).toEqual(["*", "*.{md,txt}"]);
+      expect([...note.styles.keys()]).toEqual(["Vale", "Google"]);
+      expect(note.values.get("Google.Passive")).toEqual({
+        value: "warning",
+        section: "*.{md,txt}",
+      });
+    });
+
+    it("should not apply sections for folders, which checks never reach", async () => {
+      // Checks write notes to Vale's stdin, so Vale reads drafts/idea.md as
+      // stdin.md and [drafts/*.md] doesn't match it.
+      const draft = await manager.getEffectiveConfig("drafts/idea.md");
+
+      expect(draft.sections).toEqual(["*", "*.{md,txt}"]);
+      expect(draft.values.get("Google.Passive")?.value).toBe("warning");
+    });
+  });
+
+  describe("addToVocabulary", () => {
+    let tmpDir: string;
+    let manager: ValeConfigManager;
+
+    const acceptPath = (vocabulary: string) =>
+      path.join(
+        tmpDir,
+        "styles",
+        "config",
+        "vocabularies",
+        vocabulary,
+        "accept.txt",
+      );
+
+    beforeEach(async () => {
+      tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "vale-vocab-"));
+      manager = new ValeConfigManager(
+        testValePath,
+        path.join(tmpDir, ".vale.ini"),
+      );
+      await manager.saveConfig({
+        StylesPath: "styles",
+        "*": { md: { BasedOnStyles: "Vale" } },
+      });
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    describe("with the folder the installed Vale reads", () => {
+      const legacyAcceptPath = (vocabulary: string) =>
+        path.join(tmpDir, "styles", "Vocab", vocabulary, "accept.txt");
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      it("should add words to Vocab for Vale 2", async () => {
+        jest.spyOn(valeVersion, "readValeVersion").mockResolvedValue("2.13.0");
+
+        await manager.addToVocabulary("Zettelkasten");
+
+        expect(
+          await fs.promises.readFile(
+            legacyAcceptPath(DEFAULT_VOCABULARY),
+            "utf-8",
+          ),
+        ).toBe("Zettelkasten\n");
+        expect(fs.existsSync(acceptPath(DEFAULT_VOCABULARY))).toBe(false);
+      });
+
+      it("should add words to config/vocabularies for Vale 3", async () => {
+        jest.spyOn(valeVersion, "readValeVersion").mockResolvedValue("3.7.1");
+
+        await manager.addToVocabulary("Zettelkasten");
+
+        expect(fs.existsSync(acceptPath(DEFAULT_VOCABULARY))).toBe(true);
+      });
+
+      it("should use an existing Vocab folder when the version is unknown", async () => {
+        jest
+          .spyOn(valeVersion, "readValeVersion")
+          .mockRejectedValue(new Error("spawn vale ENOENT"));
+        await fs.promises.mkdir(path.join(tmpDir, "styles", "Vocab"), {
+          recursive: true,
+        });
+
+        await manager.addToVocabulary("Zettelkasten");
+
+        expect(fs.existsSync(legacyAcceptPath(DEFAULT_VOCABULARY))).toBe(true);
+      });
+    });
+
+    it("should create the default vocabulary and enable it", async () => {
+      const vocabulary = await manager.addToVocabulary("Zettelkasten");
+
+      expect(vocabulary).toBe(DEFAULT_VOCABULARY);
+      expect(
+        await fs.promises.readFile(acceptPath(DEFAULT_VOCABULARY), "utf-8"),
+      ).toBe("Zettelkasten\n");
+      expect((await manager.loadConfig()).Vocab).toBe(DEFAULT_VOCABULARY);
+    });
+
+    it("should add to the first configured vocabulary", async () => {
+      await manager.saveConfig({
+        StylesPath: "styles",
+        Vocab: "Project, Team",
+        "*": { md: { BasedOnStyles: "Vale" } },
+      });
+      await fs.promises.mkdir(path.dirname(acceptPath("Project")), {
+        recursive: true,
+      });
+      await fs.promises.writeFile(acceptPath("Project"), "Obsidian");
+
+      const vocabulary = await manager.addToVocabulary("Dataview");
+
+      expect(vocabulary).toBe("Project");
+      expect(await fs.promises.readFile(acceptPath("Project"), "utf-8")).toBe(
+        "Obsidian\nDataview\n",
+      );
+      expect((await manager.loadConfig()).Vocab).toBe("Project, Team");
+    });
+
+    it("should not add a word twice", async () => {
+      await manager.addToVocabulary("Zettelkasten");
+      await manager.addToVocabulary("Zettelkasten");
+
+      expect(
+        await fs.promises.readFile(acceptPath(DEFAULT_VOCABULARY), "utf-8"),
+      ).toBe("Zettelkasten\n");
+    });
+
+    it("should escape regular expression characters", async () => {
+      await manager.addToVocabulary("C++");
+
+      expect(
+        await fs.promises.readFile(acceptPath(DEFAULT_VOCABULARY), "utf-8"),
+      ).toBe("C\\+\\+\n");
+    });
+
+    it("should change the config revision", async () => {
+      await manager.addToVocabulary("Zettelkasten");
+      const before = getConfigRevision();
+
+      await manager.addToVocabulary("Dataview");
+
+      expect(getConfigRevision()).not.toBe(before);
+    });
+
+    it("should fail without a styles path", async () => {
+      await manager.saveConfig({ "*": { md: { BasedOnStyles: "Vale" } } });
+
+      await expect(manager.addToVocabulary("Zettelkasten")).rejects.toThrow(
+        "StylesPath",
+      );
+    });
+  });
+
+  describe("vocabularies", () => {
+    let tmpDir: string;
+    let manager: ValeConfigManager;
+
+    const vocabularyPath = (...parts: string[]) =>
+      path.join(tmpDir, "styles", "config", "vocabularies", ...parts);
+
+    beforeEach(async () => {
+      tmpDir = await fs.promises.mkdtemp(
+        path.join(os.tmpdir(), "vale-vocabularies-"),
+      );
+      manager = new ValeConfigManager(
+        testValePath,
+        path.join(tmpDir, ".vale.ini"),
+      );
+      await manager.saveConfigText(
+        "StylesPath = styles\nVocab = Team, Legacy\n\n[*.md]\nBasedOnStyles = Vale\n",
+      );
+      await fs.promises.mkdir(vocabularyPath("Team"), { recursive: true });
+      await fs.promises.writeFile(
+        vocabularyPath("Team", "accept.txt"),
+        "Obsidian\n[Dd]ataview\n",
+      );
+      await fs.promises.mkdir(vocabularyPath("Project"), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should list folders and vocabularies missing from them", async () => {
+      expect(await manager.getVocabularies()).toEqual([
+        { name: "Project", active: false, acceptCount: 0, rejectCount: 0 },
+        { name: "Team", active: true, acceptCount: 2, rejectCount: 0 },
+        {
+          name: "Legacy",
+          active: true,
+          acceptCount: 0,
+          rejectCount: 0,
+          isMissing: true,
+        },
+      ]);
+    });
+
+    it("should create a vocabulary with empty lists", async () => {
+      await manager.createVocabulary(" Docs ");
+
+      expect(
+        await fs.promises.readFile(
+          vocabularyPath("Docs", "accept.txt"),
+          "utf-8",
+        ),
+      ).toBe("");
+      expect(fs.existsSync(vocabularyPath("Docs", "reject.txt"))).toBe(true);
+      await expect(manager.createVocabulary("team")).rejects.toThrow(
+        "A vocabulary named team already exists",
+      );
+    });
+
+    it("should rename a vocabulary and its entry in Vocab", async () => {
+      await manager.renameVocabulary("Team", "Company");
+
+      expect(fs.existsSync(vocabularyPath("Company", "accept.txt"))).toBe(true);
+      expect(await manager.loadConfigText()).toContain(
+        "Vocab = Company, Legacy\n",
+      );
+      await expect(
+        manager.renameVocabulary("Company", "Project"),
+      ).rejects.toThrow("already exists");
+    });
+
+    it("should delete a vocabulary and remove it from Vocab", async () => {
+      await manager.deleteVocabulary("Team");
+      await manager.deleteVocabulary("Legacy");
+
+      expect(fs.existsSync(vocabularyPath("Team"))).toBe(false);
+      expect(await manager.loadConfigText()).toBe(
+        "StylesPath = styles\n\n[*.md]\nBasedOnStyles = Vale\n",
+      );
+    });
+
+    it("should turn vocabularies on and off", async () => {
+      await manager.setVocabularyActive("Project", true);
+      await manager.setVocabularyActive("Team", false);
+
+      expect(await manager.loadConfigText()).toContain(
+        "Vocab = Legacy, Project\n",
+      );
+    });
+
+    it("should save a list and change the config revision", async () => {
+      const before = getConfigRevision();
+
+      await manager.saveVocabulary("Project", "reject", [
+        "utilize",
+        "leverage",
+      ]);
+
+      expect(await manager.loadVocabulary("Project", "reject")).toEqual([
+        "utilize",
+        "leverage",
+      ]);
+      expect(await manager.loadVocabulary("Project", "accept")).toEqual([]);
+      expect(getConfigRevision()).not.toBe(before);
+    });
+  });
+
+  describe("getStyleLibrary", () => {
+    it("should list the bundled styles without a library", async () => {
+      expect(await configManager.getStyleLibrary()).toEqual({
+        styles: BUNDLED_STYLES,
+        source: "bundled",
+      });
+      expect(await configManager.getAvailableStyles()).toBe(BUNDLED_STYLES);
+    });
+
+    it("should read styles from the library", async () => {
+      const library = new StyleLibraryLoader("");
+      const styles = [{ name: "Team", url: "https://example.com/Team.zip" }];
+      const load = jest
+        .spyOn(library, "load")
+        .mockResolvedValue({ styles, source: "remote", fetchedAt: 0 });
+      const manager = new ValeConfigManager(
+        testValePath,
+        testConfigPath,
+        undefined,
+        library,
+      );
+
+      await manager.getStyleLibrary(true);
+      expect(load).toHaveBeenCalledWith(true);
+      expect(await manager.getAvailableStyles()).toBe(styles);
+    });
+  });
+
+  describe("getConfigRevision", () => {
+    it("should change when the config is saved", async () => {
+      jest.spyOn(fs.promises, "mkdir").mockResolvedValue(undefined);
+      jest.spyOn(fs.promises, "writeFile").mockResolvedValue(undefined);
+      const before = getConfigRevision();
+
+      await configManager.saveConfig({ "*": { md: {} } });
+
+      expect(getConfigRevision()).not.toBe(before);
+    });
+
+    it("should change when a style is uninstalled", async () => {
+      jest
+        .spyOn(configManager, "getStylesPath")
+        .mockResolvedValue("/test/path/styles");
+      jest.spyOn(fs.promises, "rm").mockResolvedValue(undefined);
+      const before = getConfigRevision();
+
+      await configManager.uninstallStyle({ name: "Google" });
+
+      expect(getConfigRevision()).not.toBe(before);
+    });
   });
 });
@@ -0,0 +1,200 @@
+/**
+ * Tests for ValeDismissals
+ */
+
+import {
+  alertFingerprint,
+  DismissalsStorage,
+  fingerprintInText,
+  ValeDismissals,
+} from "../../src/vale/ValeDismissals";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+const createStorage = (files: Record<string, string> = {}) => {
+  const storage = {
+    exists: jest.fn((path: string) => Promise.resolve(path in files)),
+    read: jest.fn((path: string) => Promise.resolve(files[path])),
+    write: jest.fn((path: string, data: string) => {
+      files[path] = data;
+      return Promise.resolve();
+    }),
+    mkdir: jest.fn((path: string) => {
+      files[path] = "";
+      return Promise.resolve();
+    }),
+  } satisfies DismissalsStorage;
+  return { storage, files };
+};
+
+describe("alertFingerprint", () => {
+  it("should ignore differences in whitespace", () => {
+    expect(alertFingerprint("Vale.Spelling", "Say  teh\tword.", 5, 8)).toBe(
+      alertFingerprint("Vale.Spelling", "Say teh word.", 4, 7),
+    );
+  });
+
+  it("should tell apart the same match in different places", () => {
+    const line = "teh first and teh second";
+
+    expect(alertFingerprint("Vale.Spelling", line, 0, 3)).not.toBe(
+      alertFingerprint("Vale.Spelling", line, 14, 17),
+    );
+  });
+
+  it("should tell apart different checks", () => {
+    expect(alertFingerprint("A.Rule", "text", 0, 4)).not.toBe(
+      alertFingerprint("B.Rule", "text", 0, 4),
+    );
+  });
+
+  it("should ignore text far from the match", () => {
+    const padding = "x".repeat(40);
+
+    expect(alertFingerprint("Vale.Spelling", `${padding} teh`, 41, 44)).toBe(
+      alertFingerprint("Vale.Spelling", `other${padding} teh`, 46, 49),
+    );
+  });
+});
+
+describe("ValeDismissals", () => {
+  const alert = createMockValeAlert({
+    Line: 1,
+    Span: [5, 7],
+    Check: "Vale.Spelling",
+    Match: "teh",
+  });
+  const fingerprint = fingerprintInText("Say teh word.", alert);
+
+  it("should hide a dismissed alert after the lines above it move", async () => {
+    const { storage } = createStorage();
+    const dismissals = new ValeDismissals(storage, "dismissed.json");
+    await dismissals.dismiss("a.md", fingerprint);
+
+    const moved = { ...alert, Line: 3 };
+    const result = dismissals.partition("a.md", "New\n\nSay teh word.", [
+      moved,
+    ]);
+
+    expect(result).toEqual({ alerts: [], dismissed: [moved] });
+  });
+
+  it("should only hide dismissed alerts in the same note", async () => {
+    const { storage } = createStorage();
+    const dismissals = new ValeDismissals(storage, "dismissed.json");
+    await dismissals.dismiss("a.md", fingerprint);
+
+    expect(
+      dismissals.partition("b.md", "Say teh word.", [alert]).alerts,
+    ).toEqual([alert]);
+  });
+
+  it("should show a restored alert again", async () => {
+    const { storage } = createStorage();
+    const dismissals = new ValeDismissals(storage, "dismissed.json");
+    await dismissals.dismiss("a.md", fingerprint);
+
+    await expect(dismissals.restore("a.md", fingerprint)).resolves.toBe(true);
+
+    expect(
+      dismissals.partition("a.md", "Say teh word.", [alert]).alerts,
+    ).toEqual([alert]);
+  });
+
+  it("should save dismissals and load them in a new session", async () => {
+    const { storage, files } = createStorage();
+    const dismissals = new ValeDismissals(storage, "dismissed.json");
+    await dismissals.dismiss("a.md", fingerprint);
+
+    const reloaded = new ValeDismissals(
+      createStorage(files).storage,
+      "dismissed.json",
+    );
+    await reloaded.load();
+
+    expect(
+      reloaded.partition("a.md", "Say teh word.", [alert]).dismissed,
+    ).toEqual([alert]);
+  });
+
+  it("should keep dismissals when a note is renamed", async () => {
+    const { storage } = createStorage();
+    const dismissals = new ValeDismissals(storage, "dismissed.json");
+    await dismissals.dismiss("a.md", fingerprint);
+
+    await dismissals.rename("a.md", "notes/b.md");
+
+    expect(
+      dismissals.partition("notes/b.md", "Say teh word.", [alert]).dismissed,
+    ).toEqual([alert]);
+    expect(
+      dismissals.partition("a.md", "Say teh word.", [alert]).dismissed,
+    ).toEqual([]);
+  });
+
+  it("should restore an alert whose line moved since it was found", async () => {
+    const { storage } = createStorage();
+    const dismissals = new ValeDismissals(storage, "dismissed.json");
+    await dismissals.dismiss("a.md", fingerprint);
+
+    // The panel lists a copy of the alert, at the line it has moved to.
+    const moved = { ...alert, Line: 3 };
+    const restored = await dismissals.restore(
+      "a.md",
+      fingerprintInText("New\n\nSay teh word.", moved),
+    );
+
+    expect(restored).toBe(true);
+    expect(
+      dismissals.partition("a.md", "Say teh word.", [alert]).alerts,
+    ).toEqual([alert]);
+  });
+
+  it("should not restore an alert whose text has changed", async () => {
+    const { storage } = createStorage();
+    const dismissals = new ValeDismissals(storage, "dismissed.json");
+    await dismissals.dismiss("a.md", fingerprint);
+
+    await expect(
+      dismissals.restore("a.md", fingerprintInText("Say teh words.", alert)),
+    ).resolves.toBe(false);
+  });
+
+  it("should create the folder of the dismissals file", async () => {
+    const { storage, files } = createStorage();
+    const dismissals = new ValeDismissals(storage, "notes/vale/dismissed.json");
+
+    await dismissals.dismiss("a.md", fingerprint);
+
+    expect(storage.mkdir).toHaveBeenCalledWith("notes/vale");
+    expect(files["notes/vale/dismissed.json"]).toContain(fingerprint);
+  });
+
+  it("should load the dismissals of the file it switches to", async () => {
+    const { storage, files } = createStorage();
+    await new ValeDismissals(storage, "other.json").dismiss(
+      "a.md",
+      fingerprint,
+    );
+    const dismissals = new ValeDismissals(storage, "dismissed.json");
+
+    await dismissals.switchTo("other.json");
+
+    expect(
+      dismissals.partition("a.md", "Say teh word.", [alert]).dismissed,
+    ).toEqual([alert]);
+    expect(files["dismissed.json"]).toBeUndefined();
+  });
+
+  it("should start empty if the saved file is invalid", async () => {
+    const { storage } = createStorage({ "dismissed.json": "{" });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const dismissals = new ValeDismissals(storage, "dismissed.json");
+
+    await dismissals.load();
+
+    expect(
+      dismissals.partition("a.md", "Say teh word.", [alert]).alerts,
+    ).toEqual([alert]);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for ValeResultCache
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
+import { ValeResultCache } from "../../src/vale/ValeResultCache";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+describe("ValeResultCache", () => {
+  const response = { "stdin.md": [createMockValeAlert()] };
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "vale-cache-"));
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("key", () => {
+    it("should return the same key for the same parts", () => {
+      expect(ValeResultCache.key("text", ".md")).toBe(
+        ValeResultCache.key("text", ".md"),
+      );
+    });
+
+    it("should return different keys when any part changes", () => {
+      expect(ValeResultCache.key("text", ".md")).not.toBe(
+        ValeResultCache.key("text", ".txt"),
+      );
+    });
+
+    it("should not confuse parts that join to the same string", () => {
+      expect(ValeResultCache.key("ab", "c")).not.toBe(
+        ValeResultCache.key("a", "bc"),
+      );
+    });
+  });
+
+  it("should return stored results", () => {
+    const cache = new ValeResultCache();
+    cache.set("key", response);
+
+    expect(cache.get("key")).toBe(response);
+    expect(cache.get("other")).toBeUndefined();
+  });
+
+  it("should evict the least recently used results when full", () => {
+    const cache = new ValeResultCache();
+    for (let i = 0; i < 200; i++) {
+      cache.set(`key-${i}`, {});
+    }
+
+    // Reading key-0 makes key-1 the oldest entry.
+    cache.get("key-0");
+    cache.set("key-200", {});
+
+    expect(cache.size).toBe(200);
+    expect(cache.get("key-0")).toBeDefined();
+    expect(cache.get("key-1")).toBeUndefined();
+  });
+
+  it("should be cleared when the Vale config is saved", async () => {
+    jest.spyOn(fs.promises, "mkdir").mockResolvedValue(undefined);
+    jest.spyOn(fs.promises, "writeFile").mockResolvedValue(undefined);
+
+    const cache = new ValeResultCache();
+    cache.set("key", response);
+
+    await new ValeConfigManager("vale", "/test/.vale.ini").saveConfig({
+      "*": { md: { BasedOnStyles: "Vale" } },
+    });
+
+    expect(cache.get("key")).toBeUndefined();
+  });
+
+  describe("persistence", () => {
+    it("should save results and load them in a new session", async () => {
+      const file = path.join(tmpDir, "data", "result-cache.json");
+
+      const cache = new ValeResultCache();
+      await cache.setPersistPath(file);
+      cache.set("key", response);
+      await cache.flush();
+
+      const restored = new ValeResultCache();
+      await restored.setPersistPath(file);
+
+      expect(restored.get("key")).toEqual(response);
+    });
+
+    it("should debounce saving", async () => {
+      jest.useFakeTimers();
+      const writeFile = jest
+        .spyOn(fs.promises, "writeFile")
+        .mockResolvedValue(undefined);
+      jest.spyOn(fs.promises, "mkdir").mockResolvedValue(undefined);
+
+      const cache = new ValeResultCache();
+      await cache.setPersistPath(path.join(tmpDir, "result-cache.json"));
+      cache.set("a", {});
+      cache.set("b", {});
+
+      expect(writeFile).not.toHaveBeenCalled();
+      jest.runAllTimers();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(writeFile).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not save when persistence is off", async () => {
+      const writeFile = jest.spyOn(fs.promises, "writeFile");
+
+      const cache = new ValeResultCache();
+      cache.set("key", response);
+      await cache.flush();
+
+      expect(writeFile).not.toHaveBeenCalled();
+    });
+
+    it("should delete the saved file when persistence is turned off", async () => {
+      const file = path.join(tmpDir, "result-cache.json");
+
+      const cache = new ValeResultCache();
+      await cache.setPersistPath(file);
+      cache.set("key", response);
+      await cache.flush();
+      await cache.setPersistPath(null);
+
+      expect(fs.existsSync(file)).toBe(false);
+      expect(cache.get("key")).toBe(response);
+    });
+
+    it("should start empty when the saved file is unreadable", async () => {
+      const file = path.join(tmpDir, "result-cache.json");
+      await fs.promises.writeFile(file, "not json");
+
+      const cache = new ValeResultCache();
+      await cache.setPersistPath(file);
+
+      expect(cache.size).toBe(0);
+    });
+
+    it("should keep only the newest results of a large saved file", async () => {
+      const file = path.join(tmpDir, "result-cache.json");
+      const entries = Array.from({ length: 250 }, (_, i) => [`key-${i}`, {}]);
+      await fs.promises.writeFile(
+        file,
+        JSON.stringify({ version: 1, entries }),
+      );
+
+      const cache = new ValeResultCache();
+      await cache.setPersistPath(file);
+
+      expect(cache.size).toBe(200);
+      expect(cache.get("key-49")).toBeUndefined();
+      expect(cache.get("key-50")).toEqual({});
+    });
+
+    it("should ignore files saved in another format", async () => {
+      const file = path.join(tmpDir, "result-cache.json");
+      await fs.promises.writeFile(
+        file,
+        JSON.stringify({ version: 0, entries: [["key", response]] }),
+      );
+
+      const cache = new ValeResultCache();
+      await cache.setPersistPath(file);
+
+      expect(cache.get("key")).toBeUndefined();
+    });
+  });
+});
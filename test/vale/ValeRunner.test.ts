@@ -0,0 +1,220 @@
+/**
+ * Tests for ValeRunner
+ */
+
+import { request } from "obsidian";
+import { DEFAULT_SETTINGS, ValeSettings } from "../../src/types";
+import { CheckCancelledError } from "../../src/vale/CheckCancelledError";
+import { ValeCli } from "../../src/vale/ValeCli";
+import { ValeConfigManager } from "../../src/vale/ValeConfigManager";
+import { ValeResultCache } from "../../src/vale/ValeResultCache";
+import { ValeRunner } from "../../src/vale/ValeRunner";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+jest.mock("obsidian", () => ({ request: jest.fn() }));
+
+const serverSettings: ValeSettings = {
+  ...DEFAULT_SETTINGS,
+  type: "server",
+};
+
+describe("ValeRunner", () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return the server response", async () => {
+    const alert = createMockValeAlert();
+    (request as jest.Mock).mockResolvedValue(
+      JSON.stringify({ "stdin.md": [alert] }),
+    );
+
+    const response = await new ValeRunner(serverSettings).run("Text", ".md");
+
+    expect(response).toEqual({ "stdin.md": [alert] });
+  });
+
+  it("should run checks independently of each other", async () => {
+    (request as jest.Mock).mockImplementation(({ body }: { body: string }) =>
+      Promise.resolve(JSON.stringify({ [body]: [] })),
+    );
+    const runner = new ValeRunner(serverSettings);
+
+    const [first, second] = await Promise.all([
+      runner.run("First", ".md"),
+      runner.run("Second", ".md"),
+    ]);
+
+    expect(Object.keys(first)[0]).toContain("First");
+    expect(Object.keys(second)[0]).toContain("Second");
+  });
+
+  it("should reject with CheckCancelledError when aborted", async () => {
+    (request as jest.Mock).mockReturnValue(new Promise(() => undefined));
+    const controller = new AbortController();
+
+    const response = new ValeRunner(serverSettings).run(
+      "Text",
+      ".md",
+      controller.signal,
+    );
+    controller.abort();
+
+    await expect(response).rejects.toBeInstanceOf(CheckCancelledError);
+  });
+
+  it("should not start a check that was aborted before it ran", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      new ValeRunner(serverSettings).run("Text", ".md", controller.signal),
+    ).rejects.toBeInstanceOf(CheckCancelledError);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("should map alerts in Markdown back to the original text", async () => {
+    const source = "See [[Some Note|the note]], a typpo.";
+    (request as jest.Mock).mockImplementation(({ body }: { body: string }) => {
+      const text = new URLSearchParams(body).get("text") ?? "";
+      const start = text.indexOf("typpo");
+      return Promise.resolve(
+        JSON.stringify({
+          "stdin.md": [createMockValeAlert({ Span: [start + 1, start + 5] })],
+        }),
+      );
+    });
+
+    const response = await new ValeRunner(serverSettings).run(source, ".md");
+
+    const start = source.indexOf("typpo");
+    expect(response["stdin.md"][0].Span).toEqual([start + 1, start + 5]);
+  });
+
+  it("should not preprocess other formats", async () => {
+    (request as jest.Mock).mockResolvedValue(JSON.stringify({}));
+
+    await new ValeRunner(serverSettings).run("See [[Note]].", ".txt");
+
+    const [[{ body }]] = (request as jest.Mock).mock.calls as [
+      [{ body: string }],
+    ];
+    expect(new URLSearchParams(body).get("text")).toBe("See [[Note]].");
+  });
+
+  it("should not know the active styles of Vale Server", async () => {
+    await expect(
+      new ValeRunner(serverSettings).getActiveStyles(),
+    ).resolves.toEqual([]);
+  });
+
+  it("should not compute suggestions with Vale Server", async () => {
+    await expect(
+      new ValeRunner(serverSettings).suggest(createMockValeAlert()),
+    ).rejects.toThrow("Vale Server doesn't compute suggestions");
+  });
+
+  describe("suggestions with the CLI", () => {
+    const cliSettings: ValeSettings = { ...DEFAULT_SETTINGS, type: "cli" };
+    const configManager = {
+      valePathExists: jest.fn().mockResolvedValue(true),
+    } as unknown as ValeConfigManager;
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should compute suggestions with a Vale that has vale fix", async () => {
+      jest.spyOn(ValeCli.prototype, "version").mockResolvedValue("3.7.1");
+      jest.spyOn(ValeCli.prototype, "suggest").mockResolvedValue(["the"]);
+      const runner = new ValeRunner(cliSettings, configManager);
+
+      await expect(runner.canSuggest()).resolves.toBe(true);
+      await expect(runner.suggest(createMockValeAlert())).resolves.toEqual([
+        "the",
+      ]);
+    });
+
+    it("should not run vale fix with a Vale that lacks it", async () => {
+      jest.spyOn(ValeCli.prototype, "version").mockResolvedValue("2.13.0");
+      const suggest = jest.spyOn(ValeCli.prototype, "suggest");
+      const runner = new ValeRunner(cliSettings, configManager);
+
+      await expect(runner.canSuggest()).resolves.toBe(false);
+      await expect(runner.suggest(createMockValeAlert())).rejects.toThrow(
+        "Suggestions need Vale 3.0.0 or later",
+      );
+      expect(suggest).not.toHaveBeenCalled();
+    });
+
+    it("should ask for the version again after it couldn't be read", async () => {
+      const version = jest
+        .spyOn(ValeCli.prototype, "version")
+        .mockRejectedValueOnce(new Error("spawn vale ENOENT"))
+        .mockResolvedValueOnce("3.7.1");
+      const runner = new ValeRunner(cliSettings, configManager);
+
+      await expect(runner.canSuggest()).resolves.toBe(false);
+      await expect(runner.canSuggest()).resolves.toBe(true);
+      expect(version).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("with a result cache", () => {
+    beforeEach(() => {
+      (request as jest.Mock).mockResolvedValue(JSON.stringify({}));
+    });
+
+    it("should reuse results for text it has already checked", async () => {
+      const runner = new ValeRunner(
+        serverSettings,
+        undefined,
+        new ValeResultCache(),
+      );
+
+      await runner.run("Text", ".md");
+      await runner.run("Text", ".md");
+
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it("should check again when the text changes", async () => {
+      const runner = new ValeRunner(
+        serverSettings,
+        undefined,
+        new ValeResultCache(),
+      );
+
+      await runner.run("Text", ".md");
+      await runner.run("Other text", ".md");
+
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not share results between servers", async () => {
+      const cache = new ValeResultCache();
+
+      await new ValeRunner(serverSettings, undefined, cache).run("Text", ".md");
+      await new ValeRunner(
+        { ...serverSettings, server: { url: "http://localhost:8888" } },
+        undefined,
+        cache,
+      ).run("Text", ".md");
+
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not cache failed checks", async () => {
+      (request as jest.Mock).mockRejectedValueOnce(new Error("offline"));
+      const runner = new ValeRunner(
+        serverSettings,
+        undefined,
+        new ValeResultCache(),
+      );
+
+      await expect(runner.run("Text", ".md")).rejects.toThrow("offline");
+      await expect(runner.run("Text", ".md")).resolves.toEqual({});
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+  });
+});
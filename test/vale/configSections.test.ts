@@ -0,0 +1,96 @@
+/**
+ * Tests for matching the sections of .vale.ini to notes
+ */
+
+import {
+  checkedFileName,
+  getEffectiveConfig,
+  parseList,
+  sectionMatches,
+} from "../../src/vale/configSections";
+import { readIniSections } from "../../src/vale/iniDocument";
+
+describe("sectionMatches", () => {
+  it("should match any characters, including folders, with *", () => {
+    expect(sectionMatches("*", "idea.md")).toBe(true);
+    expect(sectionMatches("*.md", "drafts/idea.md")).toBe(true);
+    expect(sectionMatches("*.md", "idea.txt")).toBe(false);
+  });
+
+  it("should match paths from the root of the vault", () => {
+    expect(sectionMatches("drafts/*.md", "drafts/idea.md")).toBe(true);
+    expect(sectionMatches("drafts/*.md", "notes/drafts/idea.md")).toBe(false);
+  });
+
+  it("should match alternatives and characters", () => {
+    expect(sectionMatches("*.{md,txt}", "idea.txt")).toBe(true);
+    expect(sectionMatches("*.{md,txt}", "idea.mdx")).toBe(false);
+    expect(sectionMatches("day-?.md", "day-1.md")).toBe(true);
+    expect(sectionMatches("day-[0-9].md", "day-1.md")).toBe(true);
+    expect(sectionMatches("day-[!0-9].md", "day-1.md")).toBe(false);
+  });
+
+  it("should not match with globs that can't be read", () => {
+    expect(sectionMatches("*.{md", "idea.md")).toBe(false);
+  });
+});
+
+describe("checkedFileName", () => {
+  it("should name notes as Vale reads them from stdin", () => {
+    expect(checkedFileName("drafts/idea.md")).toBe("stdin.md");
+    expect(checkedFileName("notes/v1.2/idea.txt")).toBe("stdin.txt");
+    expect(checkedFileName("README")).toBe("stdin");
+  });
+});
+
+describe("parseList", () => {
+  it("should list each name once", () => {
+    expect(parseList(" Vale,Google, ,Vale ")).toEqual(["Vale", "Google"]);
+    expect(parseList(undefined)).toEqual([]);
+  });
+});
+
+describe("getEffectiveConfig", () => {
+  const sections = readIniSections(
+    [
+      "MinAlertLevel = warning",
+      "",
+      "[formats]",
+      "mdx = md",
+      "",
+      "[*]",
+      "BasedOnStyles = Vale",
+      "Vale.Spelling = error",
+      "",
+      "[drafts/*.md]",
+      "BasedOnStyles = Vale, Google",
+      "Vale.Spelling = NO",
+      "",
+    ].join("\n"),
+  );
+
+  it("should apply matching sections in order", () => {
+    const effective = getEffectiveConfig(sections, "drafts/idea.md");
+
+    expect(effective.sections).toEqual(["*", "drafts/*.md"]);
+    expect(effective.styles).toEqual(
+      new Map([
+        ["Vale", ["*", "drafts/*.md"]],
+        ["Google", ["drafts/*.md"]],
+      ]),
+    );
+    expect(effective.values.get("Vale.Spelling")).toEqual({
+      value: "NO",
+      section: "drafts/*.md",
+    });
+  });
+
+  it("should leave out sections that don't match", () => {
+    const effective = getEffectiveConfig(sections, "notes/idea.md");
+
+    expect(effective.sections).toEqual(["*"]);
+    expect([...effective.styles.keys()]).toEqual(["Vale"]);
+    expect(effective.values.has("MinAlertLevel")).toBe(false);
+    expect(effective.values.has("mdx")).toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Tests for exporting check results to other formats
+ */
+
+import { BatchFileResult } from "../../src/types";
+import {
+  exportFileName,
+  serializeResults,
+  toCheckstyle,
+  toCsv,
+  toJson,
+  toMarkdownReport,
+  toSarif,
+} from "../../src/vale/exportResults";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+const spelling = createMockValeAlert({
+  Check: "Vale.Spelling",
+  Severity: "error",
+  Line: 3,
+  Span: [5, 10],
+  Message: "Did you really mean 'exampl'?",
+  Link: "https://vale.sh/spelling",
+});
+const passive = createMockValeAlert({
+  Check: "Google.Passive",
+  Severity: "suggestion",
+  Line: 7,
+  Span: [1, 8],
+  Message: 'In general, use active voice, "is written" <here>.',
+  Match: "is written",
+  Link: "",
+});
+
+const results: BatchFileResult[] = [
+  { path: "Notes/My note.md", alerts: [spelling, passive] },
+  { path: "Clean.md", alerts: [] },
+];
+
+const date = new Date(2024, 4, 1, 14, 30);
+
+describe("toJson", () => {
+  it("should key the alerts by path, like Vale's JSON output", () => {
+    expect(JSON.parse(toJson(results))).toEqual({
+      "Notes/My note.md": [spelling, passive],
+      "Clean.md": [],
+    });
+  });
+});
+
+describe("toCsv", () => {
+  it("should write a header and one row per alert", () => {
+    const rows = toCsv(results).split("\r\n");
+
+    expect(rows[0]).toBe(
+      "Path,Line,Column,End column,Severity,Check,Message,Match,Link",
+    );
+    expect(rows[1]).toBe(
+      "Notes/My note.md,3,5,10,error,Vale.Spelling,Did you really mean 'exampl'?,exampl,https://vale.sh/spelling",
+    );
+    expect(rows).toHaveLength(4);
+    expect(rows[3]).toBe("");
+  });
+
+  it("should quote fields with commas and quotes", () => {
+    const row = toCsv(results).split("\r\n")[2];
+
+    expect(row).toContain(
+      '"In general, use active voice, ""is written"" <here>."',
+    );
+  });
+});
+
+describe("toSarif", () => {
+  const log = JSON.parse(toSarif(results)) as {
+    version: string;
+    runs: Array<{
+      tool: { driver: { name: string; rules: unknown[] } };
+      results: Array<Record<string, unknown>>;
+    }>;
+  };
+
+  it("should write a SARIF 2.1.0 log with a rule per check", () => {
+    expect(log.version).toBe("2.1.0");
+    expect(log.runs[0].tool.driver.name).toBe("Vale");
+    expect(log.runs[0].tool.driver.rules).toEqual([
+      { id: "Vale.Spelling", helpUri: "https://vale.sh/spelling" },
+      { id: "Google.Passive" },
+    ]);
+  });
+
+  it("should locate each result in its file", () => {
+    expect(log.runs[0].results[0]).toEqual({
+      ruleId: "Vale.Spelling",
+      ruleIndex: 0,
+      level: "error",
+      message: { text: "Did you really mean 'exampl'?" },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "Notes/My%20note.md" },
+            region: { startLine: 3, startColumn: 5, endColumn: 11 },
+          },
+        },
+      ],
+    });
+    expect(log.runs[0].results[1].level).toBe("note");
+  });
+});
+
+describe("toCheckstyle", () => {
+  it("should write a file element per note and escape attributes", () => {
+    const xml = toCheckstyle(results);
+
+    expect(xml).toContain('<file name="Notes/My note.md">');
+    expect(xml).toContain(
+      '<error line="3" column="5" severity="error" message="Did you really mean &apos;exampl&apos;?" source="Vale.Spelling"/>',
+    );
+    expect(xml).toContain(
+      'severity="info" message="In general, use active voice, &quot;is written&quot; &lt;here&gt;."',
+    );
+    expect(xml).toContain('<file name="Clean.md">\n  </file>');
+  });
+});
+
+describe("toMarkdownReport", () => {
+  it("should summarize the check and list notes with alerts", () => {
+    const report = toMarkdownReport(results, {}, date);
+
+    expect(report).toContain(
+      "Checked 2 notes on 2024-05-01 14:30: 1 error, 1 suggestion.",
+    );
+    expect(report).toContain("## [[Notes/My note]]");
+    expect(report).not.toContain("Clean");
+  });
+
+  it("should link alerts to their note when its text is unknown", () => {
+    const report = toMarkdownReport(results, {}, date);
+
+    expect(report).toContain(
+      "- [[Notes/My note|Line 3]] **error** Did you really mean 'exampl'? (`Vale.Spelling`)",
+    );
+  });
+
+  it("should link to the block of the line, or else the closest heading", () => {
+    const text = [
+      "# Title",
+      "",
+      "Some exampl text. ^intro",
+      "",
+      "## Usage: notes",
+      "```",
+      "# Not a heading",
+      "```",
+      "It is written.",
+    ].join("\n");
+    const report = toMarkdownReport(
+      [
+        {
+          path: "Notes/My note.md",
+          alerts: [spelling, { ...passive, Line: 9 }],
+        },
+      ],
+      { "Notes/My note.md": text },
+      date,
+    );
+
+    expect(report).toContain("[[Notes/My note#^intro|Line 3]]");
+    expect(report).toContain("[[Notes/My note#Usage notes|Line 9]]");
+  });
+
+  it("should mention notes that couldn't be checked", () => {
+    const report = toMarkdownReport(
+      [{ path: "Broken.md", alerts: [], error: "Vale exited with code 2" }],
+      {},
+      date,
+    );
+
+    expect(report).toContain(
+      "## [[Broken]]\n\nCouldn't check this note: Vale exited with code 2",
+    );
+  });
+});
+
+describe("serializeResults", () => {
+  it("should use the serializer of the format", () => {
+    expect(serializeResults(results, "csv")).toBe(toCsv(results));
+    expect(serializeResults(results, "markdown", {}, date)).toBe(
+      toMarkdownReport(results, {}, date),
+    );
+  });
+});
+
+describe("exportFileName", () => {
+  it("should name the file after the time and the format", () => {
+    expect(exportFileName("sarif", date)).toBe(
+      "Vale results 2024-05-01 1430.sarif",
+    );
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for ignoring checks in a note's front matter
+ */
+
+import { parseYaml } from "obsidian";
+import {
+  filterIgnoredAlerts,
+  getIgnoredChecks,
+} from "../../src/vale/ignoredChecks";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+jest.mock("obsidian", () => ({ parseYaml: jest.fn() }));
+
+const mockParseYaml = parseYaml as jest.MockedFunction<typeof parseYaml>;
+
+describe("getIgnoredChecks", () => {
+  afterEach(() => {
+    mockParseYaml.mockReset();
+  });
+
+  it("should read a list of checks", () => {
+    mockParseYaml.mockReturnValue({
+      "vale-ignore": ["Vale.Spelling", "Google"],
+    });
+
+    const checks = getIgnoredChecks(
+      "---\nvale-ignore: [Vale.Spelling, Google]\n---\nText",
+    );
+
+    expect(mockParseYaml).toHaveBeenCalledWith(
+      "vale-ignore: [Vale.Spelling, Google]",
+    );
+    expect(checks).toEqual(["Vale.Spelling", "Google"]);
+  });
+
+  it("should read a comma-separated string of checks", () => {
+    mockParseYaml.mockReturnValue({ "vale-ignore": "Vale.Spelling, Google" });
+
+    expect(getIgnoredChecks("---\nvale-ignore: x\n---\n")).toEqual([
+      "Vale.Spelling",
+      "Google",
+    ]);
+  });
+
+  it("should ignore nothing without front matter", () => {
+    expect(getIgnoredChecks("Text\n---\nvale-ignore: x\n---\n")).toEqual([]);
+    expect(mockParseYaml).not.toHaveBeenCalled();
+  });
+
+  it("should ignore nothing if the front matter can't be parsed", () => {
+    mockParseYaml.mockImplementation(() => {
+      throw new Error("bad indentation");
+    });
+
+    expect(getIgnoredChecks("---\n: :\n---\n")).toEqual([]);
+  });
+
+  it("should skip entries that aren't strings", () => {
+    mockParseYaml.mockReturnValue({ "vale-ignore": [1, null, "Google"] });
+
+    expect(getIgnoredChecks("---\nvale-ignore: x\n---\n")).toEqual(["Google"]);
+  });
+});
+
+describe("filterIgnoredAlerts", () => {
+  const alerts = [
+    createMockValeAlert({ Check: "Vale.Spelling" }),
+    createMockValeAlert({ Check: "Google.Passive" }),
+    createMockValeAlert({ Check: "GoogleX.Rule" }),
+  ];
+
+  it("should remove the alerts of an ignored check", () => {
+    expect(
+      filterIgnoredAlerts(alerts, ["Vale.Spelling"]).map((a) => a.Check),
+    ).toEqual(["Google.Passive", "GoogleX.Rule"]);
+  });
+
+  it("should remove the alerts of an ignored style", () => {
+    expect(filterIgnoredAlerts(alerts, ["Google"]).map((a) => a.Check)).toEqual(
+      ["Vale.Spelling", "GoogleX.Rule"],
+    );
+  });
+
+  it("should keep all alerts if nothing is ignored", () => {
+    expect(filterIgnoredAlerts(alerts, [])).toBe(alerts);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for writing configs to the text of .vale.ini without losing its
+ * formatting
+ */
+
+import { parse } from "ini";
+import { ValeConfig } from "../../src/types";
+import {
+  readIniSections,
+  updateIniText,
+  writeIniSections,
+} from "../../src/vale/iniDocument";
+
+const TEXT = [
+  "# Shared by the whole team",
+  "StylesPath = styles",
+  "Vocab   =   Team",
+  "",
+  "[formats]",
+  "mdx = md",
+  "",
+  "; Notes",
+  "[*.md]",
+  "BasedOnStyles = Vale, Google",
+  "Google.Passive = NO  ",
+  "",
+  "# Rules we argued about",
+  "",
+].join("\n");
+
+type EditableConfig = ValeConfig & Record<string, unknown>;
+
+// edit changes a copy of the parsed text and writes it back.
+const edit = (text: string, change: (config: EditableConfig) => void) => {
+  const config = parse(text) as EditableConfig;
+  change(config);
+  return updateIniText(text, config);
+};
+
+describe("updateIniText", () => {
+  it("should leave the text as it is without changes", () => {
+    expect(edit(TEXT, () => {})).toBe(TEXT);
+  });
+
+  it("should only change the value of a changed key", () => {
+    const text = edit(TEXT, (config) => {
+      config["*"].md.BasedOnStyles = "Vale";
+      config.Vocab = "Team, Project";
+    });
+
+    expect(text).toBe(
+      TEXT.replace(
+        "BasedOnStyles = Vale, Google",
+        "BasedOnStyles = Vale",
+      ).replace("=   Team", "=   Team, Project"),
+    );
+  });
+
+  it("should add keys at the end of their section", () => {
+    const text = edit(TEXT, (config) => {
+      config["*"].md["Vale.Spelling"] = "warning";
+      config.MinAlertLevel = "warning";
+    });
+
+    expect(text.split("\n").slice(0, 4)).toEqual([
+      "# Shared by the whole team",
+      "StylesPath = styles",
+      "Vocab   =   Team",
+      "MinAlertLevel = warning",
+    ]);
+    expect(text).toContain(
+      "Google.Passive = NO  \nVale.Spelling = warning\n\n# Rules we argued about",
+    );
+  });
+
+  it("should remove the lines of removed keys", () => {
+    const text = edit(TEXT, (config) => {
+      delete config["*"].md["Google.Passive"];
+    });
+
+    expect(text).toBe(TEXT.replace("Google.Passive = NO  \n", ""));
+  });
+
+  it("should add new sections at the end", () => {
+    const text = edit(TEXT, (config) => {
+      (config["*"] as Record<string, unknown>).txt = { BasedOnStyles: "Vale" };
+    });
+
+    expect(text).toBe(TEXT + "\n[*.txt]\nBasedOnStyles = Vale\n");
+  });
+
+  it("should keep Windows line endings", () => {
+    const windows = TEXT.replace(/\n/g, "\r\n");
+    const text = edit(windows, (config) => {
+      config["*"].md.BasedOnStyles = "Vale";
+    });
+
+    expect(text).toBe(
+      windows.replace("BasedOnStyles = Vale, Google", "BasedOnStyles = Vale"),
+    );
+  });
+
+  it("should quote values that wouldn't be read back the same", () => {
+    const text = edit(TEXT, (config) => {
+      config["*"].md.TokenIgnores = "(#\\w+)";
+    });
+
+    expect(text).toContain("TokenIgnores = (\\#\\w+)");
+    expect((parse(text) as ValeConfig)["*"].md.TokenIgnores).toBe("(#\\w+)");
+  });
+
+  it("should write a new config file", () => {
+    expect(
+      updateIniText("", {
+        StylesPath: "styles",
+        "*": { md: { BasedOnStyles: "Vale" } },
+      }),
+    ).toBe("StylesPath = styles\n\n[*.md]\nBasedOnStyles = Vale\n");
+  });
+});
+
+describe("readIniSections", () => {
+  it("should read sections by name in the order they're written", () => {
+    const sections = readIniSections(
+      "Vocab = Team\n[drafts/*.md]\nVale.Spelling = NO\n[*]\n[*.{md,txt}]\nBasedOnStyles = Vale\n",
+    );
+
+    expect([...sections.keys()]).toEqual([
+      "",
+      "drafts/*.md",
+      "*",
+      "*.{md,txt}",
+    ]);
+    expect(sections.get("drafts/*.md")?.get("Vale.Spelling")).toBe("NO");
+    expect(sections.get("*")?.size).toBe(0);
+  });
+});
+
+describe("writeIniSections", () => {
+  it("should write changes to sections read by name", () => {
+    const text =
+      "[drafts/*.md]\nVale.Spelling = NO\n\n[*.md]\nBasedOnStyles = Vale\n";
+    const sections = readIniSections(text);
+    sections.get("drafts/*.md")?.set("BasedOnStyles", "Google");
+
+    expect(writeIniSections(text, sections)).toBe(
+      text.replace("NO\n", "NO\nBasedOnStyles = Google\n"),
+    );
+  });
+});
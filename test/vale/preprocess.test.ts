@@ -0,0 +1,137 @@
+/**
+ * Tests for the Obsidian syntax preprocessor
+ */
+
+import { preprocessMarkdown, remapResponse } from "../../src/vale/preprocess";
+import { createMockValeAlert } from "../mocks/valeAlerts";
+
+// spanOf returns Vale's 1-based, inclusive byte span of the first occurrence
+// of word in line.
+function spanOf(line: string, word: string): [number, number] {
+  const encoder = new TextEncoder();
+  const start = encoder.encode(line.slice(0, line.indexOf(word))).length;
+  return [start + 1, start + encoder.encode(word).length];
+}
+
+// remap preprocesses source, reports an alert for word as Vale would, and
+// returns the alert's span in source.
+function remap(source: string, word: string, line = 1): number[] {
+  const preprocessed = preprocessMarkdown(source);
+  const outputLine = preprocessed.text.split("\n")[line - 1];
+  const alert = createMockValeAlert({
+    Line: line,
+    Span: spanOf(outputLine, word),
+    Match: word,
+  });
+
+  const response = remapResponse({ "stdin.md": [alert] }, source, preprocessed);
+  return response["stdin.md"][0].Span;
+}
+
+describe("preprocessMarkdown", () => {
+  it("should leave plain Markdown unchanged", () => {
+    const text = "# Title\n\nSome *text* with a [link](https://vale.sh).";
+
+    expect(preprocessMarkdown(text).text).toBe(text);
+  });
+
+  it.each([
+    [
+      "a wikilink with an alias",
+      "See [[Some Note|this note]].",
+      "See this note.",
+    ],
+    ["a wikilink", "See [[Some Note]].", "See `_`."],
+    ["an embed", "![[image.png]]", ""],
+    ["a comment", "Text %%hidden%% here.", "Text  here."],
+    ["a callout header", "> [!warning]- Be careful", "> Be careful"],
+    ["a block ID", "Some text. ^abc-123", "Some text. "],
+    ["a tag", "Filed under #project/vale today.", "Filed under `_` today."],
+    ["an inline field", "Due [due:: 2024-01-01] soon.", "Due `_` soon."],
+    ["a field on its own line", "- rating:: 5", "- `_`"],
+  ])("should rewrite %s", (_name, source, expected) => {
+    expect(preprocessMarkdown(source).text).toBe(expected);
+  });
+
+  it("should not treat headings or numbers as tags", () => {
+    const text = "# Heading\n\nIssue #123 is fixed.";
+
+    expect(preprocessMarkdown(text).text).toBe(text);
+  });
+
+  it("should remove comments that span several lines", () => {
+    const text = "Before %%start\nhidden\nend%% after";
+
+    expect(preprocessMarkdown(text).text).toBe("Before \n\n after");
+  });
+
+  it("should leave code alone", () => {
+    const text = "Use `[[link]]` here.\n\n```\n#tag %%not a comment\n```\n";
+
+    expect(preprocessMarkdown(text).text).toBe(text);
+  });
+
+  it("should leave front matter alone", () => {
+    const text = "---\ntags: #draft\n---\n\nText.";
+
+    expect(preprocessMarkdown(text).text).toBe(text);
+  });
+
+  it("should keep the number of lines", () => {
+    const text = "%%\na\n%%\n> [!note]\n![[x]]\nText ^id";
+
+    expect(preprocessMarkdown(text).text.split("\n")).toHaveLength(6);
+  });
+});
+
+describe("remapResponse", () => {
+  it("should keep spans on lines that weren't rewritten", () => {
+    const source = "Some text.\nSee [[Note]] here.";
+
+    expect(remap(source, "Some")).toEqual(spanOf("Some text.", "Some"));
+  });
+
+  it("should map spans after a rewrite back to the source", () => {
+    const source = "See [[Some Note|the note]] and a typpo.";
+
+    expect(remap(source, "typpo")).toEqual(spanOf(source, "typpo"));
+  });
+
+  it("should map spans in a wikilink alias to the alias", () => {
+    const source = "See [[Some Note|teh note]].";
+
+    expect(remap(source, "teh")).toEqual([17, 19]);
+  });
+
+  it("should map spans after removed text", () => {
+    const source = "> [!tip] A typpo";
+
+    expect(remap(source, "typpo")).toEqual(spanOf(source, "typpo"));
+  });
+
+  it("should map spans on later lines of a multi-line comment", () => {
+    const source = "%%a\nb%% A typpo";
+
+    expect(remap(source, "typpo", 2)).toEqual(spanOf("b%% A typpo", "typpo"));
+  });
+
+  it("should account for multi-byte characters", () => {
+    const source = "Café #tag naïve typpo";
+
+    expect(remap(source, "typpo")).toEqual(spanOf(source, "typpo"));
+  });
+
+  it("should cover the whole rewritten text when a span spans it", () => {
+    const source = "A [[Note]] b";
+    const preprocessed = preprocessMarkdown(source);
+    const alert = createMockValeAlert({ Span: [1, 8], Match: "A `_` b" });
+
+    const response = remapResponse(
+      { "stdin.md": [alert] },
+      source,
+      preprocessed,
+    );
+
+    expect(response["stdin.md"][0].Span).toEqual([1, source.length]);
+  });
+});
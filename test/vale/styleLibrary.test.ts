@@ -0,0 +1,172 @@
+/**
+ * Tests for downloading and caching the style library
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  BUNDLED_STYLES,
+  DEFAULT_STYLE_LIBRARY_URL,
+  parseStyleLibrary,
+  STYLE_LIBRARY_MAX_AGE,
+  StyleLibraryLoader,
+} from "../../src/vale/styleLibrary";
+
+const LIBRARY_URL = "https://styles.example.com/library.json";
+
+const GOOGLE = {
+  name: "Google",
+  description: "Google Developer Documentation Style Guide",
+  homepage: "https://github.com/errata-ai/Google",
+  url: "https://github.com/errata-ai/Google/releases/latest/download/Google.zip",
+  version: "0.6.1",
+};
+
+describe("parseStyleLibrary", () => {
+  it("should read the styles of a library", () => {
+    expect(parseStyleLibrary(JSON.stringify([GOOGLE]))).toEqual([GOOGLE]);
+  });
+
+  it("should leave out entries that can't be installed", () => {
+    const styles = parseStyleLibrary(
+      JSON.stringify([
+        GOOGLE,
+        { ...GOOGLE },
+        { name: "NoUrl" },
+        { name: "..", url: GOOGLE.url },
+        { name: "a/b", url: GOOGLE.url },
+        { name: "Local", url: "file:///styles/Local.zip" },
+        "Microsoft",
+      ]),
+    );
+
+    expect(styles.map((style) => style.name)).toEqual(["Google"]);
+  });
+
+  it("should fail for text that isn't a library", () => {
+    expect(() => parseStyleLibrary("<html>")).toThrow(
+      "The style library isn't valid JSON",
+    );
+    expect(() => parseStyleLibrary("{}")).toThrow(
+      "The style library isn't a list of styles",
+    );
+    expect(() => parseStyleLibrary("[]")).toThrow(
+      "The style library has no styles",
+    );
+  });
+});
+
+describe("StyleLibraryLoader", () => {
+  let tmpDir: string;
+  let cachePath: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "vale-library-"));
+    cachePath = path.join(tmpDir, "data", "style-library.json");
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should use Vale's library without a URL", () => {
+    expect(new StyleLibraryLoader("  ").getUrl()).toBe(
+      DEFAULT_STYLE_LIBRARY_URL,
+    );
+  });
+
+  it("should download the library and keep a copy", async () => {
+    const fetchText = jest.fn().mockResolvedValue(JSON.stringify([GOOGLE]));
+    const loader = new StyleLibraryLoader(LIBRARY_URL, cachePath, fetchText);
+
+    const library = await loader.load();
+
+    expect(fetchText).toHaveBeenCalledWith(LIBRARY_URL);
+    expect(library.source).toBe("remote");
+    expect(library.styles).toEqual([GOOGLE]);
+    expect(fs.existsSync(cachePath)).toBe(true);
+  });
+
+  it("should use a recent copy until it's refreshed", async () => {
+    const fetchText = jest.fn().mockResolvedValue(JSON.stringify([GOOGLE]));
+    await new StyleLibraryLoader(LIBRARY_URL, cachePath, fetchText).load();
+    const loader = new StyleLibraryLoader(LIBRARY_URL, cachePath, fetchText);
+
+    expect((await loader.load()).source).toBe("cache");
+    expect(fetchText).toHaveBeenCalledTimes(1);
+
+    expect((await loader.load(true)).source).toBe("remote");
+    expect(fetchText).toHaveBeenCalledTimes(2);
+  });
+
+  it("should download the library again when the copy is old", async () => {
+    const fetchText = jest.fn().mockResolvedValue(JSON.stringify([GOOGLE]));
+    const loader = new StyleLibraryLoader(LIBRARY_URL, cachePath, fetchText);
+    await loader.load();
+
+    jest
+      .spyOn(Date, "now")
+      .mockReturnValue(Date.now() + STYLE_LIBRARY_MAX_AGE + 1);
+
+    expect((await loader.load()).source).toBe("remote");
+    expect(fetchText).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fall back to the copy when offline", async () => {
+    const fetchText = jest
+      .fn()
+      .mockResolvedValueOnce(JSON.stringify([GOOGLE]))
+      .mockRejectedValueOnce(new Error("net::ERR_INTERNET_DISCONNECTED"));
+    const loader = new StyleLibraryLoader(LIBRARY_URL, cachePath, fetchText);
+    const downloaded = await loader.load();
+
+    const library = await loader.load(true);
+
+    expect(library).toEqual({
+      styles: [GOOGLE],
+      source: "cache",
+      fetchedAt: downloaded.fetchedAt,
+      error: "net::ERR_INTERNET_DISCONNECTED",
+    });
+  });
+
+  it("should read an old copy without downloading the library", async () => {
+    const fetchText = jest.fn().mockResolvedValue(JSON.stringify([GOOGLE]));
+    const loader = new StyleLibraryLoader(LIBRARY_URL, cachePath, fetchText);
+    expect(await loader.loadCached()).toBeUndefined();
+    await loader.load();
+
+    jest
+      .spyOn(Date, "now")
+      .mockReturnValue(Date.now() + STYLE_LIBRARY_MAX_AGE + 1);
+
+    expect(await loader.loadCached()).toEqual([GOOGLE]);
+    expect(fetchText).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fall back to the bundled styles without a copy", async () => {
+    const fetchText = jest.fn().mockResolvedValue("Not found");
+    const loader = new StyleLibraryLoader(LIBRARY_URL, cachePath, fetchText);
+
+    expect(await loader.load()).toEqual({
+      styles: BUNDLED_STYLES,
+      source: "bundled",
+      error: "The style library isn't valid JSON",
+    });
+  });
+
+  it("should not use a copy of another library", async () => {
+    const fetchText = jest.fn().mockResolvedValue(JSON.stringify([GOOGLE]));
+    await new StyleLibraryLoader(LIBRARY_URL, cachePath, fetchText).load();
+
+    const other = new StyleLibraryLoader(
+      "https://styles.example.org/library.json",
+      cachePath,
+      jest.fn().mockRejectedValue(new Error("Offline")),
+    );
+
+    expect((await other.load()).source).toBe("bundled");
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for parsing and validating the text of .vale.ini
+ */
+
+import {
+  isFormatSection,
+  parseIniLine,
+  validateConfigText,
+  validateConfigValue,
+} from "../../src/vale/valeIni";
+
+describe("parseIniLine", () => {
+  it("should tell blank lines, comments and sections apart", () => {
+    expect(parseIniLine("   ")).toEqual({ kind: "blank" });
+    expect(parseIniLine("# Styles")).toEqual({ kind: "comment" });
+    expect(parseIniLine("; Styles")).toEqual({ kind: "comment" });
+    expect(parseIniLine(" [*.md] ")).toEqual({
+      kind: "section",
+      name: "*.md",
+    });
+  });
+
+  it("should locate the key and the value of an entry", () => {
+    expect(parseIniLine("  BasedOnStyles =  Vale, Google ")).toEqual({
+      kind: "entry",
+      key: "BasedOnStyles",
+      value: "Vale, Google",
+      keyStart: 2,
+      equalsAt: 16,
+      valueStart: 19,
+    });
+  });
+
+  it("should reject other lines", () => {
+    expect(parseIniLine("BasedOnStyles Vale")).toEqual({ kind: "invalid" });
+  });
+});
+
+describe("isFormatSection", () => {
+  it("should tell sections of files from other sections", () => {
+    expect(isFormatSection("*.md")).toBe(true);
+    expect(isFormatSection("drafts/*.md")).toBe(true);
+    expect(isFormatSection("")).toBe(false);
+    expect(isFormatSection("formats")).toBe(false);
+  });
+});
+
+describe("validateConfigValue", () => {
+  it("should accept known keys in their place", () => {
+    expect(validateConfigValue("MinAlertLevel", "warning", null)).toBe(
+      undefined,
+    );
+    expect(validateConfigValue("BasedOnStyles", "Vale", "*.md")).toBe(
+      undefined,
+    );
+  });
+
+  it("should check the values of alert levels and rules", () => {
+    expect(validateConfigValue("MinAlertLevel", "info", null)).toEqual({
+      severity: "error",
+      message: "MinAlertLevel must be suggestion, warning or error",
+    });
+    expect(validateConfigValue("Vale.Spelling", "NO", "*.md")).toBe(undefined);
+    expect(validateConfigValue("Vale.Spelling", "off", "*.md")).toEqual({
+      severity: "error",
+      message: "Vale.Spelling must be YES, NO, suggestion, warning or error",
+    });
+  });
+
+  it("should reject empty entries of lists and empty paths", () => {
+    expect(validateConfigValue("BasedOnStyles", "", "*.md")).toBe(undefined);
+    expect(validateConfigValue("Vocab", "Project,,Team", null)).toEqual({
+      severity: "error",
+      message: "Vocab has an empty entry",
+    });
+    expect(validateConfigValue("StylesPath", "", null)?.severity).toBe("error");
+  });
+
+  it("should warn about unknown keys and keys out of place", () => {
+    expect(validateConfigValue("MinAlertLvl", "error", null)).toEqual({
+      severity: "warning",
+      message: 'Unknown key "MinAlertLvl"',
+    });
+    expect(validateConfigValue("StylesPath", "styles", "*.md")).toEqual({
+      severity: "warning",
+      message: "StylesPath only applies before the first section",
+    });
+    expect(validateConfigValue("BasedOnStyles", "Vale", null)).toEqual({
+      severity: "warning",
+      message: "BasedOnStyles only applies in a section, such as [*.md]",
+    });
+  });
+
+  it("should accept anything in the formats section", () => {
+    expect(validateConfigValue("mdx", "md", "formats")).toBe(undefined);
+  });
+});
+
+describe("validateConfigText", () => {
+  it("should report problems by line", () => {
+    const text = [
+      "StylesPath = styles",
+      "MinAlertLevel = info",
+      "",
+      "[*.md]",
+      "BasedOnStyles = Vale",
+      "BasedOnStyles = Google",
+      "Vale.Spelling",
+      "= NO",
+    ].join("\n");
+
+    expect(validateConfigText(text)).toEqual([
+      {
+        line: 2,
+        severity: "error",
+        message: "MinAlertLevel must be suggestion, warning or error",
+      },
+      {
+        line: 6,
+        severity: "warning",
+        message: "BasedOnStyles is already set in this section",
+      },
+      {
+        line: 7,
+        severity: "error",
+        message: "Expected a [section] or a key = value pair",
+      },
+      { line: 8, severity: "error", message: "The value has no key" },
+    ]);
+  });
+
+  it("should find no problems in a valid config", () => {
+    const text = [
+      "# Vale config",
+      "StylesPath = styles",
+      "Vocab = Obsidian",
+      "",
+      "[formats]",
+      "mdx = md",
+      "",
+      "[*.md]",
+      "BasedOnStyles = Vale, Google",
+      "Google.Passive = suggestion",
+    ].join("\r\n");
+
+    expect(validateConfigText(text)).toEqual([]);
+  });
+});
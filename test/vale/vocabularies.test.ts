@@ -0,0 +1,90 @@
+/**
+ * Tests for reading and editing Vale vocabulary lists
+ */
+
+import {
+  escapeVocabularyTerm,
+  formatVocabularyText,
+  isRegexEntry,
+  mergeVocabularyEntries,
+  parseVocabularyText,
+  validateVocabularyEntry,
+  validateVocabularyName,
+} from "../../src/vale/vocabularies";
+
+describe("parseVocabularyText and formatVocabularyText", () => {
+  it("should read one entry per line without blank lines", () => {
+    expect(parseVocabularyText("Obsidian\r\n\n  Dataview \n")).toEqual([
+      "Obsidian",
+      "Dataview",
+    ]);
+    expect(parseVocabularyText("")).toEqual([]);
+  });
+
+  it("should write entries with a final newline", () => {
+    expect(formatVocabularyText(["Obsidian", "Dataview"])).toBe(
+      "Obsidian\nDataview\n",
+    );
+    expect(formatVocabularyText([])).toBe("");
+  });
+});
+
+describe("isRegexEntry", () => {
+  it("should tell patterns from words", () => {
+    expect(isRegexEntry("[Oo]bsidian")).toBe(true);
+    expect(isRegexEntry("(?i)markdown")).toBe(true);
+    expect(isRegexEntry("C\\+\\+")).toBe(true);
+    expect(isRegexEntry("Obsidian")).toBe(false);
+    expect(isRegexEntry("Node.js")).toBe(false);
+  });
+});
+
+describe("validateVocabularyEntry", () => {
+  it("should accept words and patterns with Go flags", () => {
+    expect(validateVocabularyEntry("Obsidian")).toBeUndefined();
+    expect(validateVocabularyEntry("(?i)markdown")).toBeUndefined();
+  });
+
+  it("should refuse patterns that can't be read", () => {
+    expect(validateVocabularyEntry("[Oo")).toBe(
+      '"[Oo" isn\'t a valid regular expression',
+    );
+  });
+});
+
+describe("escapeVocabularyTerm", () => {
+  it("should match only the word", () => {
+    expect(escapeVocabularyTerm("C++")).toBe("C\\+\\+");
+    expect(escapeVocabularyTerm("Obsidian")).toBe("Obsidian");
+  });
+});
+
+describe("mergeVocabularyEntries", () => {
+  it("should add new entries once and count them", () => {
+    expect(
+      mergeVocabularyEntries(["Obsidian"], "Dataview\nObsidian\n\nDataview"),
+    ).toEqual({ entries: ["Obsidian", "Dataview"], added: 1 });
+  });
+});
+
+describe("validateVocabularyName", () => {
+  it("should accept a new name", () => {
+    expect(validateVocabularyName(" Team ", ["Project"])).toBeUndefined();
+  });
+
+  it("should refuse empty names and names Vocab can't list", () => {
+    expect(validateVocabularyName("  ", [])).toBe("Enter a name");
+    expect(validateVocabularyName("Team, Project", [])).toBe(
+      "Names can't contain commas or slashes",
+    );
+    expect(validateVocabularyName("../Team", [])).toBe(
+      "Names can't contain commas or slashes",
+    );
+  });
+
+  it("should refuse names that exist in any case", () => {
+    expect(validateVocabularyName("team", ["Team"])).toBe(
+      "A vocabulary named team already exists",
+    );
+  });
+});